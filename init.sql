@@ -1,3 +0,0 @@
-IF NOT EXISTS (SELECT [name] FROM sys.databases WHERE [name] = N'milestonepartners')
-CREATE DATABASE milestonepartners
-GO
\ No newline at end of file
@@ -1,7 +1,13 @@
 import { app, InvocationContext } from '@azure/functions';
+import { createHash } from 'crypto';
+import { databaseService } from '../../shared/database/database.service';
 import { fifoQueueService } from '../../shared/services/fifoQueue.service';
-import { blobSasService } from '../../shared/services/blobSas.service';
+import { blobSasService, CORRELATION_ID_METADATA } from '../../shared/services/blobSas.service';
+import { documentPolicyService } from '../../shared/services/documentPolicy.service';
 import { logger } from '../../shared/services/logger.service';
+import { DocumentRecord } from '../../shared/types/document';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 async function processUploadedDocument(blob: unknown, context: InvocationContext): Promise<void> {
   const startTime = Date.now();
@@ -20,8 +26,31 @@ async function processUploadedDocument(blob: unknown, context: InvocationContext
       blobSize: context.triggerMetadata?.length
     });
 
-    // Validate the uploaded document
-    const validation = await blobSasService.validateUploadedDocument(blobName, 50); // 50MB limit
+    // Blob names are lawfirm/date/correlationId_filename
+    const pathParts = blobName.split('/');
+    const fileName = pathParts[pathParts.length - 1];
+
+    // Only documents uploaded through an upload URL or session are processed.
+    // Generated files (statements, imports and their error reports, exports)
+    // share the container but are registered nowhere here; the reconciliation
+    // job reports any blob that nothing owns
+    const metadata = context.triggerMetadata?.metadata as Record<string, string> | undefined;
+    const document = await findRegisteredDocument(blobName, metadata?.[CORRELATION_ID_METADATA]);
+    if (!document) {
+      logger.info('Blob is not a registered upload; skipping', {
+        documentId,
+        blobName,
+        source: metadata?.source
+      });
+      return;
+    }
+
+    const correlationId = document.correlation_id;
+    const lawFirm = document.partitionKey;
+
+    // Validate the uploaded document against the size declared for its upload URL
+    const maxSizeMB = document.max_file_size ? document.max_file_size / (1024 * 1024) : 50; // 50MB limit
+    const validation = await blobSasService.validateUploadedDocument(blobName, maxSizeMB);
 
     if (!validation.isValid) {
       logger.error('Document validation failed', {
@@ -31,23 +60,36 @@ async function processUploadedDocument(blob: unknown, context: InvocationContext
         fileSize: validation.fileSize
       });
 
-      // Queue for error handling/notification
-      await fifoQueueService.addWebhookMessage('system', {
-        event: 'document.validation_failed',
+      await rejectDocument(correlationId, lawFirm, blobName, validation.error ?? 'Document failed validation');
+      return;
+    }
+
+    // The content must be what the upload URL was issued for
+    const content = Buffer.isBuffer(blob) ? blob : await blobSasService.downloadDocument(blobName);
+    const inspection = documentPolicyService.inspectUpload(document, content);
+    if (inspection.violation) {
+      logger.warn('Document rejected by file policy', {
+        documentId,
         blobName,
-        error: validation.error,
-        fileSize: validation.fileSize,
-        timestamp: new Date().toISOString()
+        correlationId,
+        reason: inspection.violation
       });
 
+      await rejectDocument(correlationId, lawFirm, blobName, inspection.violation);
       return;
     }
 
-    // Extract metadata from blob name (lawfirm/date/correlationId_filename)
-    const pathParts = blobName.split('/');
-    const lawFirm = pathParts[0]?.replace(/_/g, ' ');
-    const fileName = pathParts[pathParts.length - 1];
-    const correlationId = fileName?.split('_')[0];
+    // New content has not been scanned, whatever an earlier upload's verdict was.
+    // An upload session has already hashed the file it assembled and checked it
+    const uploadedAt = new Date().toISOString();
+    await blobSasService.updateDocumentStatus(correlationId, {
+      status: 'uploaded',
+      file_size: validation.fileSizeBytes,
+      page_count: inspection.pageCount,
+      content_hash: document.content_hash ?? createHash('sha256').update(content).digest('hex'),
+      uploaded_at: uploadedAt,
+      scan_result: null,
+    });
 
     // Queue document processing (non-FIFO, high throughput)
     await fifoQueueService.addDocumentMessage({
@@ -59,7 +101,7 @@ async function processUploadedDocument(blob: unknown, context: InvocationContext
       fileName,
       fileSize: validation.fileSize,
       contentType: context.triggerMetadata?.contentType,
-      uploadedAt: new Date().toISOString()
+      uploadedAt
     });
 
     // Queue webhook notification (FIFO per law firm)
@@ -72,7 +114,7 @@ async function processUploadedDocument(blob: unknown, context: InvocationContext
         fileName,
         fileSize: validation.fileSize,
         status: 'uploaded',
-        uploadedAt: new Date().toISOString()
+        uploadedAt
       }
     });
 
@@ -101,7 +143,43 @@ async function processUploadedDocument(blob: unknown, context: InvocationContext
   }
 }
 
+/**
+ * The registered document a blob belongs to: the one named by the blob's
+ * correlation id metadata when that document owns this blob, else the one
+ * registered under the blob's name. Clients are asked to send the metadata
+ * with their upload but cannot be made to.
+ */
+async function findRegisteredDocument(blobName: string, metadataCorrelationId?: string): Promise<DocumentRecord | null> {
+  if (metadataCorrelationId && UUID_PATTERN.test(metadataCorrelationId)) {
+    const document = await databaseService.getDocument(metadataCorrelationId);
+    if (document?.blob_name === blobName) return document;
+  }
+  return databaseService.getDocumentByBlobName(blobName);
+}
 
+/**
+ * Records why an upload was refused, removes the blob so it is never
+ * processed or served, and tells the law firm.
+ */
+async function rejectDocument(correlationId: string, lawFirm: string, blobName: string, reason: string): Promise<void> {
+  await blobSasService.updateDocumentStatus(correlationId, {
+    status: 'rejected',
+    error: reason,
+  });
+  await blobSasService.deleteDocument(blobName);
+
+  await fifoQueueService.addWebhookMessage(lawFirm, {
+    event: 'document.rejected',
+    data: {
+      correlationId,
+      blobName,
+      status: 'rejected',
+      reason,
+      rejectedAt: new Date().toISOString()
+    },
+    correlation_id: correlationId
+  });
+}
 
 // Register blob trigger
 app.storageBlob('processUploadedDocument', {
@@ -0,0 +1,36 @@
+import { app, Timer, InvocationContext } from '@azure/functions';
+import { documentReconciliationService } from '../../shared/services/documentReconciliation.service';
+import { logger } from '../../shared/services/logger.service';
+
+/**
+ * Hourly reconciliation of registered uploads against the documents
+ * container: expires uploads whose file never arrived and reports blobs
+ * nothing registered owns.
+ */
+async function documentReconciliationWorker(timer: Timer, context: InvocationContext): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    const summary = await documentReconciliationService.run();
+
+    logger.info('Document reconciliation worker completed', {
+      executionId: context.invocationId,
+      ...summary,
+      processingTime: Date.now() - startTime
+    });
+
+  } catch (error) {
+    logger.error('Error in document reconciliation worker', {
+      executionId: context.invocationId,
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: Date.now() - startTime
+    });
+  }
+}
+
+app.timer('documentReconciliationWorker', {
+  schedule: '0 30 * * * *', // Every hour at :30
+  handler: documentReconciliationWorker
+});
+
+export { documentReconciliationWorker };
@@ -0,0 +1,35 @@
+import { app, Timer, InvocationContext } from '@azure/functions';
+import { documentRetentionService } from '../../shared/services/documentRetention.service';
+import { logger } from '../../shared/services/logger.service';
+
+/**
+ * Nightly retention run: purges documents past their firm's retention
+ * period that are under no legal hold.
+ */
+async function documentRetentionWorker(timer: Timer, context: InvocationContext): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    const summary = await documentRetentionService.run();
+
+    logger.info('Document retention worker completed', {
+      executionId: context.invocationId,
+      ...summary,
+      processingTime: Date.now() - startTime
+    });
+
+  } catch (error) {
+    logger.error('Error in document retention worker', {
+      executionId: context.invocationId,
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: Date.now() - startTime
+    });
+  }
+}
+
+app.timer('documentRetentionWorker', {
+  schedule: '0 0 3 * * *', // Daily at 03:00 UTC
+  handler: documentRetentionWorker
+});
+
+export { documentRetentionWorker };
@@ -2,6 +2,14 @@ import { app, InvocationContext } from '@azure/functions';
 import { logger } from '../../shared/services/logger.service';
 import { databaseService } from '../../shared/database/database.service';
 import { fifoQueueService } from '../../shared/services/fifoQueue.service';
+import { blobSasService } from '../../shared/services/blobSas.service';
+import { malwareScanService } from '../../shared/services/malwareScan.service';
+import { documentExtractionService } from '../../shared/services/documentExtraction.service';
+import { documentClassificationService } from '../../shared/services/documentClassification.service';
+import { demographicsDraftService } from '../../shared/services/demographicsDraft.service';
+import { documentChecklistService } from '../../shared/services/documentChecklist.service';
+import { demographicsImportService } from '../../shared/services/demographicsImport.service';
+import { demographicsExportService } from '../../shared/services/demographicsExport.service';
 
 /**
  * FIFO Demographics Processor - Processes messages in order per law firm
@@ -34,23 +42,34 @@ async function processDemographicsFifoMessage(message: unknown, context: Invocat
       case 'demographics':
         await processDemographicsData(payload, lawFirm, correlation_id);
         break;
+
+      case 'demographics_import':
+        // Imports and exports send their own completion webhooks
+        await demographicsImportService.processChunk(payload);
+        break;
+
+      case 'demographics_export':
+        await demographicsExportService.run(payload);
+        break;
       
       default:
         logger.warn('Unknown FIFO message type', { type, messageId });
     }
 
     // Send success notification
-    await fifoQueueService.addWebhookMessage(lawFirm, {
-      event: 'demographics.processed',
-      data: {
-        id: payload.id,
-        law_firm: lawFirm,
-        correlation_id,
-        processed_at: new Date().toISOString(),
-        processing_time_ms: Date.now() - startTime
-      },
-      correlation_id
-    });
+    if (type === 'demographics') {
+      await fifoQueueService.addWebhookMessage(lawFirm, {
+        event: 'demographics.processed',
+        data: {
+          id: payload.id,
+          law_firm: lawFirm,
+          correlation_id,
+          processed_at: new Date().toISOString(),
+          processing_time_ms: Date.now() - startTime
+        },
+        correlation_id
+      });
+    }
 
     const processingTime = Date.now() - startTime;
     logger.info('FIFO demographics message processed successfully', {
@@ -190,7 +209,7 @@ async function processDemographicsData(payload: any, lawFirm: string, correlatio
     created_by: payload.created_by || require('uuid').v4()
   };
 
-  await databaseService.createDemographic(demographicsRecord);
+  await databaseService.createDemographic(demographicsRecord, { requestId: correlationId });
   
   logger.info('Demographics record created', {
     id: demographicsRecord.id,
@@ -246,6 +265,17 @@ async function deliverWebhookInOrder(payload: any, lawFirm: string, correlationI
 async function processDocumentUpload(payload: any, correlationId: string): Promise<void> {
   const { blobName, lawFirm, fileSize, contentType } = payload;
 
+  const document = payload.correlationId ? await databaseService.getDocument(payload.correlationId) : null;
+  if (document?.status === 'quarantined') {
+    // Redelivered after the blob was already moved out
+    logger.info('Skipping quarantined document', { blobName, correlationId: document.correlation_id });
+    return;
+  }
+
+  if (payload.correlationId) {
+    await blobSasService.updateDocumentStatus(payload.correlationId, { status: 'processing' });
+  }
+
   // Process document - extract text, validate, store metadata
   logger.info('Processing uploaded document', {
     blobName,
@@ -255,18 +285,126 @@ async function processDocumentUpload(payload: any, correlationId: string): Promi
     correlationId
   });
 
+  // Nothing else reads the blob until it has been scanned; a scanner outage
+  // fails the message so Service Bus retries it
+  const scan = await malwareScanService.scanDocument(blobName);
+  const scannedAt = new Date().toISOString();
+
+  if (!scan.clean) {
+    await blobSasService.quarantineDocument(blobName);
+
+    if (payload.correlationId) {
+      await blobSasService.updateDocumentStatus(payload.correlationId, {
+        status: 'quarantined',
+        error: `Malware detected: ${scan.signature}`,
+        scan_result: 'infected',
+        scan_signature: scan.signature,
+        scanned_at: scannedAt
+      });
+    }
+
+    await fifoQueueService.addWebhookMessage(lawFirm, {
+      event: 'document.quarantined',
+      data: {
+        correlationId: payload.correlationId,
+        blobName,
+        fileName: payload.fileName,
+        signature: scan.signature,
+        scanner: malwareScanService.scannerName,
+        status: 'quarantined',
+        quarantinedAt: scannedAt
+      },
+      correlation_id: payload.correlationId
+    });
+
+    logger.warn('Infected document quarantined', {
+      blobName,
+      lawFirm,
+      signature: scan.signature,
+      correlationId
+    });
+    return;
+  }
+
+  if (payload.correlationId) {
+    await blobSasService.updateDocumentStatus(payload.correlationId, {
+      status: 'processing',
+      scan_result: 'clean',
+      scanned_at: scannedAt
+    });
+  }
+
+  // Text extraction (text layer or OCR) for search, then classification
+  if (document) {
+    const text = await documentExtractionService.extractDocument(document);
+    if (text.page_count !== null) {
+      await blobSasService.updateDocumentStatus(document.correlation_id, {
+        status: 'processing',
+        page_count: text.page_count
+      });
+    }
+
+    // Never overrides a type someone has already set by hand
+    let documentType = document.classification_source === 'manual' ? document.document_type : null;
+    if (document.classification_source !== 'manual') {
+      const classification = await documentClassificationService.classifyDocument(document, text.content ?? '');
+      // The declared type stands unless the classifier confidently disagrees
+      documentType = classification.mismatch || !document.document_type
+        ? classification.documentType
+        : document.document_type;
+      if (classification.mismatch) {
+        await fifoQueueService.addWebhookMessage(document.partitionKey, {
+          event: 'document.classification_mismatch',
+          data: {
+            correlationId: document.correlation_id,
+            fileName: document.original_file_name,
+            declaredType: document.document_type,
+            classifiedType: classification.documentType,
+            confidence: classification.confidence
+          },
+          correlation_id: document.correlation_id
+        });
+      }
+    }
+
+    // Intake forms become draft demographics records for review
+    if (documentType === 'demographics_form') {
+      const draft = await demographicsDraftService.createFromDocument(document, text);
+      if (draft) {
+        await fifoQueueService.addWebhookMessage(document.partitionKey, {
+          event: 'demographics.draft_created',
+          data: {
+            id: draft.id,
+            correlationId: document.correlation_id,
+            fileName: document.original_file_name,
+            recognizedFields: Object.keys(draft.fields),
+            missingFields: draft.missing_fields
+          },
+          correlation_id: document.correlation_id
+        });
+      }
+    }
+  }
+
   // Add document processing logic here:
-  // - OCR for scanned documents
-  // - Text extraction
-  // - Document classification
-  // - Virus scanning
   // - Metadata extraction
 
-  // For now, just log completion
   logger.info('Document processing completed', {
     blobName,
     correlationId
   });
+
+  if (payload.correlationId) {
+    await blobSasService.updateDocumentStatus(payload.correlationId, {
+      status: 'completed',
+      processed_at: new Date().toISOString()
+    });
+  }
+
+  // The document may complete its claimant's checklist
+  if (document?.demographics_id) {
+    await documentChecklistService.refresh(document.demographics_id, document.partitionKey);
+  }
 }
 
 async function getWebhookUrlForLawFirm(lawFirm: string): Promise<string | null> {
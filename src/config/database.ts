@@ -1,15 +1,17 @@
 import sql from 'mssql';
 import { logger } from '../shared/services/logger.service';
 
-const config: sql.config = {
+// SQL_DATABASE is the old name of DB_DATABASE and is still honoured
+export const databaseConfig: sql.config = {
   server: process.env.DB_SERVER || 'localhost',
-  database: process.env.SQL_DATABASE || 'PartnersDB',
+  database: process.env.DB_DATABASE || process.env.SQL_DATABASE || 'PartnersDB',
   user: process.env.DB_USER,
   password: process.env.DB_PASSWORD,
   port: parseInt(process.env.DB_PORT || '1433'),
   options: {
     encrypt: true, // Required for Azure SQL
     trustServerCertificate: process.env.NODE_ENV === 'development',
+    enableArithAbort: true,
     connectTimeout: 30000,
     requestTimeout: 30000,
   },
@@ -26,7 +28,7 @@ let pool: sql.ConnectionPool;
 export async function initializeDatabase(): Promise<sql.ConnectionPool> {
   try {
     if (!pool) {
-      pool = new sql.ConnectionPool(config);
+      pool = new sql.ConnectionPool(databaseConfig);
       await pool.connect();
       logger.info('Connected to MSSQL database');
     }
@@ -19,6 +19,10 @@ done
 echo "SQL Server is ready! Initializing database..."
 docker-compose exec -T mssql /opt/mssql-tools/bin/sqlcmd -S localhost -U sa -P "GreenSun83**" -i /init-database.sql
 
+echo "Applying schema migrations..."
+docker-compose run --rm api npm run migrate:up
+docker-compose restart api
+
 echo "Verifying database setup..."
 docker-compose exec -T mssql /opt/mssql-tools/bin/sqlcmd -S localhost -U sa -P "GreenSun83**" -d PartnersDB -Q "SELECT COUNT(*) FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_TYPE='BASE TABLE'"
 
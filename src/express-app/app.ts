@@ -11,6 +11,8 @@ import logger from '../shared/services/logger.service';
 
 // Routes
 import demographicsRoutes from '../routes/demographics.routes';
+import demographicsImportsRoutes from '../routes/demographicsImports.routes';
+import demographicsDraftsRoutes from '../routes/demographicsDrafts.routes';
 import documentsRoutes from '../routes/documents.routes';
 import adminRoutes from '../routes/admin.route';
 import healthRoutes from '../routes/health.route';
@@ -62,6 +64,8 @@ app.use(errorMiddleware);
 // })
 
 // API Routes (v1)
+app.use('/api/v1/demographics/imports', demographicsImportsRoutes);
+app.use('/api/v1/demographics/drafts', demographicsDraftsRoutes);
 app.use('/api/v1/demographics', demographicsRoutes);
 app.use('/api/v1/documents', documentsRoutes);
 app.use('/api/v1/admin', adminRoutes);
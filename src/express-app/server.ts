@@ -1,5 +1,7 @@
 import app from './app';
 import { initializeDatabase } from '../config/database';
+import { migrationRunner } from '../shared/database/migrationRunner';
+import { fieldEncryptionService } from '../shared/services/fieldEncryption.service';
 import { logger } from '../shared/services/logger.service';
 
 const PORT = process.env.PORT || 3000;
@@ -11,6 +13,12 @@ async function startServer() {
     await initializeDatabase();
     logger.info('Database initialized successfully');
 
+    // Refuse to serve against a schema this build does not expect
+    await migrationRunner.assertUpToDate();
+
+    // Every PII write needs both the encryption key and the blind index key
+    await fieldEncryptionService.assertKeysAvailable();
+
     // Start server
     server = app.listen(PORT, () => {
       logger.info(`Demographics API server started`, {
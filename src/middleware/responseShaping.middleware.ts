@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { piiMaskingService } from '../shared/services/piiMasking.service';
+
+/**
+ * Masks PII in `data` of successful responses unless the API key holds the
+ * `demographics:pii` scope, and applies the optional `fields=` projection.
+ * Must run after authentication.
+ */
+export function responseShapingMiddleware() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { fields, invalid } = piiMaskingService.parseFields(req.query.fields);
+
+    if (invalid.length > 0) {
+      res.status(400).json({
+        error: 'Validation failed',
+        code: 'INVALID_FIELDS',
+        details: invalid.map(field => ({
+          field: 'fields',
+          message: `Unknown field: ${field}`,
+          value: field,
+        })),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const includePii = piiMaskingService.canViewPii(req.auth?.scopes);
+    const originalJson = res.json.bind(res);
+
+    res.json = function (body: any) {
+      if (body && body.success && body.data && typeof body.data === 'object') {
+        const shape = (record: any) => piiMaskingService.shapeRecord(record, { includePii, fields });
+        body = {
+          ...body,
+          data: Array.isArray(body.data) ? body.data.map(shape) : shape(body.data),
+        };
+      }
+      return originalJson(body);
+    };
+
+    next();
+  };
+}
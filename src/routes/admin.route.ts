@@ -2,6 +2,17 @@ import { Router, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { CreateApiKeyRequestSchema } from '../shared/types/apiKey';
 import { apiKeyService } from '../shared/services/apiKey.service';
+import { DocumentAccessError } from '../shared/services/documentAccess.service';
+import { DocumentRetentionError, documentRetentionService } from '../shared/services/documentRetention.service';
+import {
+  CreateLegalHoldRequestSchema,
+  ListLegalHoldsQuerySchema,
+  ReleaseLegalHoldRequestSchema,
+  RetentionPolicyScopeSchema,
+  SetRetentionPolicyRequestSchema
+} from '../shared/types/retention';
+import { documentReconciliationService } from '../shared/services/documentReconciliation.service';
+import { ListReconciliationFindingsQuerySchema } from '../shared/types/reconciliation';
 import { logger } from '../shared/services/logger.service';
 import { AuthenticatedRequest } from '../shared/types/express-extensions';
 import { requireAdmin } from '../middleware/security.middleware';
@@ -10,6 +21,33 @@ import { z } from 'zod';
 
 const adminRouter = Router();
 
+// Responds for errors the retention service raises on purpose; false for anything else
+function sendRetentionError(req: AuthenticatedRequest, res: Response, error: unknown): boolean {
+  if (!(error instanceof DocumentRetentionError) && !(error instanceof DocumentAccessError)) {
+    return false;
+  }
+  res.status(error.statusCode).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    requestId: req.requestId
+  });
+  return true;
+}
+
+function validationErrorResponse(req: AuthenticatedRequest, res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    error: 'Validation failed',
+    code: 'VALIDATION_ERROR',
+    details: error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+      value: issue.code
+    })),
+    requestId: req.requestId
+  });
+}
+
 // Extended schema for development
 const DevCreateApiKeySchema = CreateApiKeyRequestSchema.extend({
   law_firm: z.string().min(3).max(75),
@@ -110,4 +148,392 @@ adminRouter.post('/api-keys',
   }
 );
 
+/**
+ * GET /api/v1/admin/retention/policies
+ * The firm's document retention policies
+ */
+adminRouter.get('/retention/policies',
+  requireAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const policies = await documentRetentionService.listPolicies(req.auth.lawFirm);
+
+      res.status(200).json({
+        success: true,
+        data: policies,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing retention policies', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list retention policies',
+        code: 'RETENTION_POLICY_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/retention/policies/:scope
+ * Set how many days documents of a type (or `default`, for types without a
+ * policy of their own) are kept after they arrive
+ */
+adminRouter.put('/retention/policies/:scope',
+  requireAdmin(),
+  validationMiddleware(SetRetentionPolicyRequestSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const scope = RetentionPolicyScopeSchema.safeParse((req.params as { scope: string }).scope);
+      if (!scope.success) {
+        validationErrorResponse(req, res, scope.error);
+        return;
+      }
+
+      const policy = await documentRetentionService.setPolicy(
+        req.auth.lawFirm,
+        scope.data,
+        req.body.retentionDays,
+        req.auth.keyId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Retention policy set',
+        data: policy,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error setting retention policy', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to set retention policy',
+        code: 'RETENTION_POLICY_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/admin/retention/policies/:scope
+ * Remove a retention policy; documents it covered fall back to the firm
+ * default, or are kept when there is none
+ */
+adminRouter.delete('/retention/policies/:scope',
+  requireAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const scope = RetentionPolicyScopeSchema.safeParse((req.params as { scope: string }).scope);
+      if (!scope.success) {
+        validationErrorResponse(req, res, scope.error);
+        return;
+      }
+
+      await documentRetentionService.deletePolicy(req.auth.lawFirm, scope.data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Retention policy removed',
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      if (sendRetentionError(req, res, error)) return;
+
+      const processingTime = Date.now() - startTime;
+      logger.error('Error removing retention policy', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove retention policy',
+        code: 'RETENTION_POLICY_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/retention/preview
+ * Documents past retention and under no legal hold, i.e. what the next
+ * retention run will purge, oldest first (up to `limit`, default 100)
+ */
+adminRouter.get('/retention/preview',
+  requireAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const limit = z.coerce.number().int().min(1).max(500).default(100).safeParse(req.query.limit);
+      if (!limit.success) {
+        validationErrorResponse(req, res, limit.error);
+        return;
+      }
+
+      const candidates = await documentRetentionService.previewPurge(req.auth.lawFirm, limit.data);
+
+      res.status(200).json({
+        success: true,
+        data: candidates.map(candidate => ({
+          correlation_id: candidate.document.correlation_id,
+          original_file_name: candidate.document.original_file_name,
+          document_type: candidate.document.document_type,
+          demographics_id: candidate.document.demographics_id,
+          status: candidate.document.status,
+          retained_from: candidate.retained_from,
+          retention_days: candidate.retention_days,
+          policy_document_type: candidate.policy_document_type
+        })),
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error previewing retention purge', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to preview retention purge',
+        code: 'RETENTION_PREVIEW_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/legal-holds
+ * The firm's legal holds, newest first; `active=true` for those in force
+ */
+adminRouter.get('/legal-holds',
+  requireAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const query = ListLegalHoldsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        validationErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const holds = await documentRetentionService.listHolds(req.auth.lawFirm, query.data);
+
+      res.status(200).json({
+        success: true,
+        data: holds,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing legal holds', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list legal holds',
+        code: 'LEGAL_HOLD_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/legal-holds
+ * Place a legal hold on one document (`correlationId`), one claimant's
+ * documents (`demographicsId`), or every document of the firm (neither).
+ * Held documents are never purged.
+ */
+adminRouter.post('/legal-holds',
+  requireAdmin(),
+  validationMiddleware(CreateLegalHoldRequestSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const hold = await documentRetentionService.createHold(req.auth.lawFirm, req.body, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Legal hold placed',
+        data: hold,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      if (sendRetentionError(req, res, error)) return;
+
+      const processingTime = Date.now() - startTime;
+      logger.error('Error placing legal hold', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to place legal hold',
+        code: 'LEGAL_HOLD_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/legal-holds/:id/release
+ * Release a legal hold, with an optional `reason`. Documents it covered
+ * become subject to their retention policy again.
+ */
+adminRouter.post('/legal-holds/:id/release',
+  requireAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const { id } = req.params as { id: string };
+      if (!z.string().uuid().safeParse(id).success) {
+        throw new DocumentRetentionError('Legal hold not found', 404, 'LEGAL_HOLD_NOT_FOUND');
+      }
+
+      const request = ReleaseLegalHoldRequestSchema.safeParse(req.body ?? {});
+      if (!request.success) {
+        validationErrorResponse(req, res, request.error);
+        return;
+      }
+
+      const hold = await documentRetentionService.releaseHold(id, req.auth.lawFirm, request.data.reason, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Legal hold released',
+        data: hold,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      if (sendRetentionError(req, res, error)) return;
+
+      const processingTime = Date.now() - startTime;
+      logger.error('Error releasing legal hold', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to release legal hold',
+        code: 'LEGAL_HOLD_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/reconciliation/findings
+ * What the reconciliation worker found in the firm's storage, most recently
+ * seen first: open findings, or resolved ones with `resolved=true`. Filter
+ * with `kind` (unmatched_blob, unprocessed_upload); page with `limit`/`offset`.
+ */
+adminRouter.get('/reconciliation/findings',
+  requireAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const query = ListReconciliationFindingsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        validationErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const findings = await documentReconciliationService.listFindings(req.auth.lawFirm, query.data);
+
+      res.status(200).json({
+        success: true,
+        data: findings,
+        pagination: {
+          limit: query.data.limit,
+          offset: query.data.offset
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing reconciliation findings', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list reconciliation findings',
+        code: 'RECONCILIATION_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
 export default adminRouter;
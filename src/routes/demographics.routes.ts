@@ -1,26 +1,180 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import {
   CreateDemographicsRequestSchema,
   Demographics,
   GetDemographicsQuerySchema,
-  GetDemographicsQuery,
+  DemographicsCursorSchema,
   BatchSubmitSchema,
+  ExternalIdParamsSchema,
+  PatchDemographicsRequestSchema,
+  JsonPatchDocumentSchema,
+  MergePatchDocumentSchema,
 } from '../shared/types/demographics';
+import {
+  SettlementCalculationQuerySchema,
+  SettlementCalculationRequestSchema,
+} from '../shared/types/settlement';
+import {
+  CreateStatementTemplateRequestSchema,
+  GenerateStatementRequestSchema,
+} from '../shared/types/statement';
+import {
+  DuplicateCandidate,
+  DuplicatesQuerySchema,
+  MergeDemographicsRequestSchema,
+  SubmitDuplicatesQuerySchema,
+} from '../shared/types/duplicates';
+import { CreateExportRequestSchema } from '../shared/types/export';
 import { databaseService } from '../shared/database/database.service';
 import { fifoQueueService } from '../shared/services/fifoQueue.service';
+import { jsonPatchService, PatchError } from '../shared/services/jsonPatch.service';
+import { auditService } from '../shared/services/audit.service';
+import { settlementCalculatorService } from '../shared/services/settlementCalculator.service';
+import { PII_MASKING_RULES, PII_SCOPE, piiMaskingService } from '../shared/services/piiMasking.service';
+import { statementService } from '../shared/services/statement.service';
+import { demographicsCollectionsService } from '../shared/services/demographicsCollections.service';
+import { pageCursorService } from '../shared/services/pageCursor.service';
+import { demographicsQueryService } from '../shared/services/demographicsQuery.service';
+import { duplicatesService } from '../shared/services/duplicates.service';
+import { documentChecklistService } from '../shared/services/documentChecklist.service';
+import { demographicsExportService } from '../shared/services/demographicsExport.service';
 import { logger } from '../shared/services/logger.service';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { validationMiddleware } from '../middleware/validation.middleware';
 import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
+import { responseShapingMiddleware } from '../middleware/responseShaping.middleware';
 import { AuthenticatedRequest } from '../shared/types/express-extensions';
 
 const router = Router();
 
+const PATCH_CONTENT_TYPES = ['application/merge-patch+json', 'application/json-patch+json'];
+
+/**
+ * Strong ETag derived from the record id and its updated_at timestamp.
+ */
+function generateETag(record: { id: string; updated_at: string | Date }): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${record.id}:${new Date(record.updated_at).toISOString()}`)
+    .digest('hex')
+    .substring(0, 32);
+  return `"${hash}"`;
+}
+
+function ifMatchSatisfied(ifMatch: string, etag: string): boolean {
+  return ifMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+}
+
+/**
+ * Reduce a stored record to the client-editable fields a patch is applied to.
+ */
+function toPatchableDocument(record: Demographics): Record<string, any> {
+  const editableFields = Object.keys(CreateDemographicsRequestSchema.shape);
+  const document: Record<string, any> = {};
+
+  for (const field of editableFields) {
+    const value = (record as Record<string, any>)[field];
+    if (value === null || value === undefined) continue;
+    document[field] = value instanceof Date ? value.toISOString() : value;
+  }
+  return document;
+}
+
+function zodErrorResponse(req: Request, res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    error: 'Validation failed',
+    code: 'VALIDATION_ERROR',
+    details: error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+      value: issue.code,
+    })),
+    requestId: req.requestId,
+  });
+}
+
+function settlementDiscrepancyResponse(req: Request, res: Response, discrepancies: unknown[]): void {
+  res.status(422).json({
+    error: 'Settlement amounts are inconsistent',
+    code: 'SETTLEMENT_DISCREPANCY',
+    details: discrepancies,
+    requestId: req.requestId,
+  });
+}
+
+/**
+ * Runs the settlement calculator when `?calculate=validate|compute` is given.
+ * Returns the derived amounts to store (empty unless computing), or null after
+ * sending an error response.
+ */
+function runSettlementCalculation(
+  req: Request,
+  res: Response,
+  record: Record<string, any>,
+): Record<string, any> | null {
+  const query = SettlementCalculationQuerySchema.safeParse({ calculate: req.query.calculate });
+  if (!query.success) {
+    zodErrorResponse(req, res, query.error);
+    return null;
+  }
+
+  const mode = query.data.calculate;
+  if (!mode) return {};
+
+  const { values, discrepancies } = settlementCalculatorService.calculate(record, mode);
+  if (discrepancies.length > 0) {
+    settlementDiscrepancyResponse(req, res, discrepancies);
+    return null;
+  }
+  return mode === 'compute' ? values : {};
+}
+
+function duplicateClaimantResponse(req: Request, res: Response, candidates: DuplicateCandidate[]): void {
+  res.status(409).json({
+    success: false,
+    error: 'Probable duplicate of an existing claimant',
+    code: 'DUPLICATE_CLAIMANT',
+    details: candidates,
+    requestId: req.requestId,
+  });
+}
+
+/**
+ * Filtering or sorting on a masked column would reveal its values. Sends 403
+ * and returns true when `fields` include one the key may not see.
+ */
+function maskedQueryResponse(
+  req: Request,
+  res: Response,
+  authReq: AuthenticatedRequest,
+  fields: string[],
+): boolean {
+  const maskedFields = fields.filter(field => field in PII_MASKING_RULES);
+  if (maskedFields.length === 0 || piiMaskingService.canViewPii(authReq.auth.scopes)) {
+    return false;
+  }
+
+  res.status(403).json({
+    error: `Filtering or sorting on ${[...new Set(maskedFields)].join(', ')} requires the ${PII_SCOPE} scope`,
+    code: 'INSUFFICIENT_SCOPE',
+    requestId: req.requestId,
+  });
+  return true;
+}
+
 /**
  * POST /api/v1/demographics
- * Submit single demographics record
+ * Submit single demographics record.
+ * `?calculate=validate` rejects inconsistent settlement amounts with 422;
+ * `?calculate=compute` derives them from their inputs before storing.
+ * Possible duplicates in the firm are returned in `data.duplicates`;
+ * `?on_duplicate=reject` refuses probable ones with 409.
  */
 router.post(
   '/',
@@ -50,9 +204,30 @@ router.post(
         keyId: authReq.auth.keyId,
       });
 
-      const demographicsData = req.body;
+      const duplicateQuery = SubmitDuplicatesQuerySchema.safeParse({ on_duplicate: req.query.on_duplicate });
+      if (!duplicateQuery.success) {
+        zodErrorResponse(req, res, duplicateQuery.error);
+        return;
+      }
+
+      const calculated = runSettlementCalculation(req, res, req.body);
+      if (!calculated) return;
+
+      const demographicsData = { ...req.body, ...calculated };
       const now = new Date().toISOString();
 
+      const duplicates = await duplicatesService.findForRecord(demographicsData, authReq.auth.lawFirm);
+      const probableDuplicates = duplicates.filter(candidate => candidate.probable);
+      if (duplicateQuery.data.on_duplicate === 'reject' && probableDuplicates.length > 0) {
+        logger.info('Demographics submission rejected as duplicate', {
+          requestId: req.requestId,
+          lawFirm: authReq.auth.lawFirm,
+          duplicateIds: probableDuplicates.map(candidate => candidate.id),
+        });
+        duplicateClaimantResponse(req, res, probableDuplicates);
+        return;
+      }
+
       const demographics: Demographics = {
         id: uuidv4(),
         partitionKey: authReq.auth.lawFirm,
@@ -62,7 +237,10 @@ router.post(
         created_by: authReq.auth.apiKey.created_by,
       };
 
-      await databaseService.createDemographic(demographics);
+      await databaseService.createDemographic(demographics, {
+        keyId: authReq.auth.keyId,
+        requestId: req.requestId,
+      });
 
       await fifoQueueService.addDemographicsMessage(authReq.auth.lawFirm, {
         id: demographics.id,
@@ -89,6 +267,7 @@ router.post(
         requestId: req.requestId,
         demographicsId: demographics.id,
         lawFirm: demographics.law_firm,
+        duplicateCount: duplicates.length,
         processingTime,
       });
 
@@ -100,6 +279,7 @@ router.post(
           sf_id: demographics.sf_id,
           status: 'accepted',
           created_at: demographics.created_at,
+          duplicates,
         },
         requestId: req.requestId,
         processingTime,
@@ -119,7 +299,11 @@ router.post(
 
 /**
  * POST /api/v1/demographics/batch
- * Submit multiple demographics records
+ * Submit multiple demographics records.
+ * Each item is checked for duplicates like a single submission, including
+ * against items earlier in the batch; `batch_options.on_duplicate` applies.
+ * With `mode: "upsert"` each item instead replaces the firm's record with the
+ * same `upsert_key` (default `sf_id`), or is inserted when there is none.
  */
 router.post(
   '/batch',
@@ -141,7 +325,7 @@ router.post(
     }
 
     const authReq = req as AuthenticatedRequest;
-    const { demographics, webhook_url, webhook_events, batch_options } = req.body;
+    const { demographics, mode, upsert_key, webhook_url, webhook_events, batch_options } = req.body;
 
     try {
       logger.info('Batch demographics submission started', {
@@ -155,8 +339,10 @@ router.post(
         id?: string;
         sf_id?: string;
         status: 'accepted' | 'failed';
+        operation?: 'created' | 'updated';
         created_at?: string;
         error?: string;
+        duplicates?: DuplicateCandidate[];
       }> = [];
       const now = new Date().toISOString();
       const correlationId = uuidv4();
@@ -165,6 +351,25 @@ router.post(
         const demographicsData = demographics[i];
 
         try {
+          if (mode === 'upsert' && !demographicsData[upsert_key]) {
+            results.push({ index: i, status: 'failed', error: `${upsert_key} is required in upsert mode` });
+            continue;
+          }
+
+          // In upsert mode the external id decides which record an item is
+          const duplicates = mode === 'upsert'
+            ? undefined
+            : await duplicatesService.findForRecord(demographicsData, authReq.auth.lawFirm);
+          if (batch_options?.on_duplicate === 'reject' && duplicates?.some(candidate => candidate.probable)) {
+            results.push({
+              index: i,
+              status: 'failed',
+              error: 'Probable duplicate of an existing claimant',
+              duplicates: duplicates.filter(candidate => candidate.probable),
+            });
+            continue;
+          }
+
           const demographic: Demographics = {
             id: uuidv4(),
             partitionKey: authReq.auth.lawFirm,
@@ -173,14 +378,22 @@ router.post(
             updated_at: now,
             created_by: authReq.auth.apiKey.created_by,
           };
+          const audit = { keyId: authReq.auth.keyId, requestId: req.requestId };
 
-          await databaseService.createDemographic(demographic);
+          let created = true;
+          if (mode === 'upsert') {
+            const upserted = await databaseService.upsertDemographicByExternalId(upsert_key, demographic, audit);
+            demographic.id = upserted.id;
+            created = upserted.created;
+          } else {
+            await databaseService.createDemographic(demographic, audit);
+          }
 
           await fifoQueueService.addDemographicsMessage(
             authReq.auth.lawFirm,
             {
               id: demographic.id,
-              action: 'process',
+              action: created ? 'process' : 'update',
               data: demographic,
               batch_info: {
                 correlation_id: correlationId,
@@ -196,7 +409,9 @@ router.post(
             id: demographic.id,
             sf_id: demographic.sf_id,
             status: 'accepted',
-            created_at: demographic.created_at,
+            ...(mode === 'upsert' && { operation: created ? 'created' : 'updated' }),
+            ...(created && { created_at: demographic.created_at }),
+            ...(duplicates && { duplicates }),
           });
         } catch (itemError) {
           logger.error('Error processing batch item', {
@@ -269,13 +484,16 @@ router.post(
 );
 
 /**
- * GET /api/v1/demographics
- * Retrieve demographics with filtering and pagination
+ * PUT /api/v1/demographics/by-external/:idType/:externalId
+ * Insert or replace the firm's record identified by `sf_id`, `ml_id` or
+ * `law_firm_client_id`, atomically. Returns 201 when a record was created and
+ * 200 when an existing one was replaced. `?calculate` works as on POST.
  */
-router.get(
-  '/',
-  authMiddleware({ requiredScopes: ['demographics:read'] }),
-  validationMiddleware(GetDemographicsQuerySchema, 'query'),
+router.put(
+  '/by-external/:idType/:externalId',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  idempotencyMiddleware(24),
+  validationMiddleware(CreateDemographicsRequestSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const startTime = Date.now();
 
@@ -293,43 +511,94 @@ router.get(
     const authReq = req as AuthenticatedRequest;
 
     try {
-      // Use GetDemographicsQuery type for validated query parameters
-      const { limit, offset, filter_claimanttype, filter_status, search } = req.query as GetDemographicsQuery;
+      const params = ExternalIdParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        zodErrorResponse(req, res, params.error);
+        return;
+      }
 
-      logger.info('Demographics retrieval started', {
+      const { idType, externalId } = params.data;
+      if (req.body[idType] !== undefined && req.body[idType] !== externalId) {
+        res.status(400).json({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: [{ field: idType, message: `Must match the ${idType} in the URL`, value: 'custom' }],
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const calculated = runSettlementCalculation(req, res, req.body);
+      if (!calculated) return;
+
+      const now = new Date().toISOString();
+      const demographic: Demographics = {
+        id: uuidv4(),
+        partitionKey: authReq.auth.lawFirm,
+        ...req.body,
+        ...calculated,
+        [idType]: externalId,
+        created_at: now,
+        updated_at: now,
+        created_by: authReq.auth.apiKey.created_by,
+      };
+
+      const upserted = await databaseService.upsertDemographicByExternalId(idType, demographic, {
+        keyId: authReq.auth.keyId,
         requestId: req.requestId,
-        lawFirm: authReq.auth.lawFirm,
-        filters: { limit, offset, filter_claimanttype, filter_status, search },
       });
+      demographic.id = upserted.id;
+      const changedFields = Object.keys(upserted.changes);
 
-      const demographics = await databaseService.getDemographicsByLawFirm(
-        authReq.auth.lawFirm,
-        limit ?? 50,
-        offset ?? 0,
-        {
-          claimanttype: filter_claimanttype,
-          status: filter_status,
-          search,
+      await fifoQueueService.addDemographicsMessage(authReq.auth.lawFirm, {
+        id: demographic.id,
+        action: upserted.created ? 'process' : 'update',
+        data: demographic,
+      }, 5);
+
+      await fifoQueueService.addWebhookMessage(authReq.auth.lawFirm, {
+        event: upserted.created ? 'demographics.created' : 'demographics.updated',
+        data: {
+          id: demographic.id,
+          sf_id: demographic.sf_id,
+          law_firm: demographic.law_firm,
+          ...(upserted.created
+            ? { created_at: now }
+            : { updated_at: now, changed_fields: changedFields }),
         },
-      );
+        metadata: {
+          apiKeyId: authReq.auth.keyId,
+          requestId: req.requestId,
+        },
+      });
 
       const processingTime = Date.now() - startTime;
+      logger.info('Demographics upsert completed', {
+        requestId: req.requestId,
+        demographicsId: demographic.id,
+        lawFirm: authReq.auth.lawFirm,
+        idType,
+        created: upserted.created,
+        processingTime,
+      });
 
-      res.status(200).json({
+      res.set('ETag', generateETag({ id: demographic.id, updated_at: now }));
+      res.status(upserted.created ? 201 : 200).json({
         success: true,
-        data: demographics,
-        pagination: {
-          limit: limit ?? 50,
-          offset: offset ?? 0,
-          count: demographics.length,
-          has_more: demographics.length === (limit ?? 50),
+        message: upserted.created ? 'Demographics created successfully' : 'Demographics updated successfully',
+        data: {
+          id: demographic.id,
+          [idType]: externalId,
+          status: upserted.created ? 'created' : 'updated',
+          updated_at: now,
+          changed_fields: upserted.created ? undefined : changedFields,
         },
         requestId: req.requestId,
         processingTime,
       });
     } catch (error) {
       const processingTime = Date.now() - startTime;
-      logger.error('Error retrieving demographics', {
+      logger.error('Error upserting demographics', {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
         requestId: req.requestId,
@@ -341,11 +610,56 @@ router.get(
 );
 
 /**
- * GET /api/v1/demographics/:id
- * Get specific demographics record by ID
+ * POST /api/v1/demographics/settlement-calculations
+ * Dry run of the settlement calculator; nothing is stored.
+ * Defaults to `calculate=compute`, use `calculate=validate` to check supplied totals.
+ */
+router.post(
+  '/settlement-calculations',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  validationMiddleware(SettlementCalculationRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const query = SettlementCalculationQuerySchema.safeParse({ calculate: req.query.calculate });
+      if (!query.success) {
+        zodErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const mode = query.data.calculate ?? 'compute';
+      const result = settlementCalculatorService.calculate(req.body, mode);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          mode,
+          ...result,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error calculating settlement amounts', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/statement-templates
+ * List the law firm's closing statement templates, newest version first.
+ * Version 0 is the built-in default.
  */
 router.get(
-  '/:id',
+  '/statement-templates',
   authMiddleware({ requiredScopes: ['demographics:read'] }),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const startTime = Date.now();
@@ -364,33 +678,1090 @@ router.get(
     const authReq = req as AuthenticatedRequest;
 
     try {
-      const { id } = req.params;
-      const demographic = await databaseService.getDemographicById(id, authReq.auth.lawFirm);
+      const templates = await statementService.listTemplates(authReq.auth.lawFirm);
 
-      if (!demographic) {
-        res.status(404).json({
-          success: false,
-          error: 'Demographic record not found',
-          code: 'DEMOGRAPHIC_NOT_FOUND',
+      res.status(200).json({
+        success: true,
+        data: templates,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing statement templates', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/statement-templates/:version
+ * Get a specific closing statement template version.
+ */
+router.get(
+  '/statement-templates/:version',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { version } = req.params as { version: string };
+      if (!/^\d+$/.test(version)) {
+        res.status(400).json({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: [{ field: 'version', message: 'Must be a non-negative integer', value: version }],
           requestId: req.requestId,
         });
         return;
       }
 
-      const processingTime = Date.now() - startTime;
+      const template = await statementService.resolveTemplate(authReq.auth.lawFirm, Number(version));
 
       res.status(200).json({
         success: true,
-        data: demographic,
+        data: template,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error getting statement template', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
         requestId: req.requestId,
         processingTime,
       });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/statement-templates
+ * Create a new closing statement template version. Existing versions are never
+ * modified so previously generated statements can be reproduced.
+ */
+router.post(
+  '/statement-templates',
+  authMiddleware({ requiredScopes: ['demographics:admin'] }),
+  validationMiddleware(CreateStatementTemplateRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const template = await databaseService.createStatementTemplate(
+        authReq.auth.lawFirm,
+        req.body.name,
+        req.body.definition,
+        authReq.auth.keyId,
+      );
+
+      logger.info('Statement template created', {
+        requestId: req.requestId,
+        lawFirm: authReq.auth.lawFirm,
+        version: template.version,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: template,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
     } catch (error) {
       const processingTime = Date.now() - startTime;
-      logger.error('Error getting demographic by ID', {
+      logger.error('Error creating statement template', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics
+ * Retrieve demographics with filtering and pagination, newest first unless `sort=` is given.
+ * `filter=<field> <operator> <value>` (repeatable) filters on whitelisted fields.
+ * Follow `pagination.next_cursor` / `prev_cursor` with `?cursor=`; `include_total=true`
+ * (exact) or `include_total=estimate` adds `pagination.total`.
+ * PII is masked unless the key has `demographics:pii`; `fields=` limits the columns returned.
+ */
+router.get(
+  '/',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  responseShapingMiddleware(),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const query = GetDemographicsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        zodErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const { limit = 50, offset = 0, include_total, search } = query.data;
+      const { where, sort, issues } = demographicsQueryService.parseListFilters(query.data);
+
+      const cursor = query.data.cursor
+        ? pageCursorService.decode(query.data.cursor, DemographicsCursorSchema)
+        : undefined;
+      if (cursor === null || (cursor && !demographicsQueryService.isCursorFor(cursor, sort))) {
+        issues.push({ field: 'cursor', message: 'Invalid cursor for this sort', value: 'custom' });
+      }
+      if (issues.length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: issues,
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      if (maskedQueryResponse(req, res, authReq, [...where.map(clause => clause.field), ...sort.map(key => key.field)])) {
+        return;
+      }
+
+      logger.info('Demographics retrieval started', {
+        requestId: req.requestId,
+        lawFirm: authReq.auth.lawFirm,
+        filters: {
+          limit,
+          offset,
+          cursor: Boolean(cursor),
+          include_total,
+          where: where.map(clause => `${clause.field} ${clause.operator}`),
+          sort: demographicsQueryService.sortSpec(sort),
+          search,
+        },
+      });
+
+      const page = await databaseService.getDemographicsPage(authReq.auth.lawFirm, {
+        limit,
+        offset,
+        cursor: cursor ?? undefined,
+        sort,
+        includeTotal: include_total === 'true' ? 'exact' : include_total === 'estimate' ? 'estimate' : undefined,
+        filters: { where, search },
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(200).json({
+        success: true,
+        data: page.records,
+        pagination: {
+          limit,
+          ...(cursor ? {} : { offset }),
+          count: page.records.length,
+          has_more: page.has_more,
+          next_cursor: page.next_cursor,
+          prev_cursor: page.prev_cursor,
+          ...(page.total !== undefined && { total: page.total, total_estimated: page.total_estimated }),
+        },
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error retrieving demographics', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/duplicates
+ * Pairs of the law firm's active records that look like the same claimant,
+ * highest score first. `min_score` defaults to any single matching signal.
+ */
+router.get(
+  '/duplicates',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const query = DuplicatesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        zodErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const { min_score, limit, offset } = query.data;
+      const pairs = await duplicatesService.listPairs(authReq.auth.lawFirm, { minScore: min_score, limit, offset });
+
+      res.status(200).json({
+        success: true,
+        data: pairs,
+        pagination: {
+          limit,
+          offset,
+          count: pairs.length,
+          has_more: pairs.length === limit,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing duplicate demographics', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/exports
+ * Export the firm's records matching the listing filters (`filter`, `sort`,
+ * `search`, ...) to CSV, XLSX or JSON Lines. Runs asynchronously; the
+ * `demographics.export_completed` webhook and GET /exports/:exportId carry a
+ * download URL. PII is masked unless the key has `demographics:pii` and
+ * `mask_pii` is not set.
+ */
+router.post(
+  '/exports',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  idempotencyMiddleware(24),
+  validationMiddleware(CreateExportRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { where, sort, issues } = demographicsQueryService.parseListFilters(req.body);
+      if (issues.length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: issues,
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      if (maskedQueryResponse(req, res, authReq, [...where.map(clause => clause.field), ...sort.map(key => key.field)])) {
+        return;
+      }
+
+      const job = await demographicsExportService.start(req.body, {
+        lawFirm: authReq.auth.lawFirm,
+        includePii: piiMaskingService.canViewPii(authReq.auth.scopes),
+        keyId: authReq.auth.keyId,
+        requestId: req.requestId,
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Export accepted for processing',
+        data: {
+          id: job.id,
+          status: job.status,
+          format: job.format,
+          mask_pii: job.mask_pii,
+          status_url: `/api/v1/demographics/exports/${job.id}`,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error starting demographics export', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/exports/:exportId
+ * Export status; a completed export includes a fresh download URL.
+ */
+router.get(
+  '/exports/:exportId',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { exportId } = req.params as { exportId: string };
+      const job = z.string().uuid().safeParse(exportId).success
+        ? await databaseService.getExport(exportId, authReq.auth.lawFirm)
+        : null;
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Export not found',
+          code: 'EXPORT_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const { blob_name, ...data } = job;
+      const download = job.status === 'completed' && blob_name
+        ? await demographicsExportService.getDownloadUrl(blob_name)
+        : null;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...data,
+          download_url: download?.download_url ?? null,
+          download_url_expires_at: download?.expires_at ?? null,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error getting demographics export', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/:id/history
+ * Field-level change history of a record, oldest first.
+ * PII values in the diffs are masked unless the key has `demographics:pii`.
+ */
+router.get(
+  '/:id/history',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { id } = req.params as { id: string };
+      const demographic = await databaseService.getDemographicById(id, authReq.auth.lawFirm);
+
+      if (!demographic) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const history = await auditService.getDemographicHistory(id, authReq.auth.lawFirm, {
+        includePii: piiMaskingService.canViewPii(authReq.auth.scopes),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: history,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error getting demographic history', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/:id/statements
+ * Render a closing statement PDF from the record, store it in blob storage and
+ * return a short-lived download URL. `template_version` and `as_of` reproduce
+ * an earlier statement.
+ */
+router.post(
+  '/:id/statements',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  idempotencyMiddleware(24),
+  validationMiddleware(GenerateStatementRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { id } = req.params as { id: string };
+      const result = await statementService.generateStatement(id, authReq.auth.lawFirm, req.body, {
+        keyId: authReq.auth.keyId,
+        requestId: req.requestId,
+      });
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result.statement,
+          download_url: result.download_url,
+          download_url_expires_at: result.expires_at,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error generating closing statement', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/:id/documents
+ * The claimant's document checklist: each document their claimant type
+ * requires, `satisfied` once a document uploaded for it has been processed,
+ * `pending` while one is on its way, otherwise `missing`.
+ */
+router.get(
+  '/:id/documents',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { id } = req.params as { id: string };
+      const demographic = z.string().uuid().safeParse(id).success
+        ? await databaseService.getDemographicById(id, authReq.auth.lawFirm)
+        : null;
+
+      if (!demographic) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await documentChecklistService.getChecklist(demographic),
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error building document checklist', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/:id/statements
+ * List closing statements generated for a record, newest first, with fresh download URLs.
+ */
+router.get(
+  '/:id/statements',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { id } = req.params as { id: string };
+      const statements = await databaseService.getSettlementStatements(id, authReq.auth.lawFirm);
+
+      const data = await Promise.all(
+        statements.map(async statement => {
+          const { download_url, expires_at } = await statementService.getDownloadUrl(statement.blob_name);
+          return { ...statement, download_url, download_url_expires_at: expires_at };
+        }),
+      );
+
+      res.status(200).json({
+        success: true,
+        data,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing closing statements', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/:id
+ * Get specific demographics record by ID.
+ * PII is masked unless the key has `demographics:pii`; `fields=` limits the columns returned.
+ * `as_of=<ISO timestamp>` returns the record as it was at that point in time.
+ */
+router.get(
+  '/:id',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  responseShapingMiddleware(),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { id } = req.params as { id: string };
+
+      let asOf: Date | undefined;
+      if (req.query.as_of !== undefined) {
+        asOf = new Date(String(req.query.as_of));
+        if (isNaN(asOf.getTime())) {
+          res.status(400).json({
+            error: 'Validation failed',
+            code: 'VALIDATION_ERROR',
+            details: [{ field: 'as_of', message: 'Must be an ISO 8601 timestamp', value: req.query.as_of }],
+            requestId: req.requestId,
+          });
+          return;
+        }
+      }
+
+      const demographic = asOf
+        ? await auditService.getDemographicAsOf(id, authReq.auth.lawFirm, asOf)
+        : await databaseService.getDemographicById(id, authReq.auth.lawFirm);
+
+      if (!demographic) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const processingTime = Date.now() - startTime;
+
+      // Historical versions are read-only, so they carry no ETag
+      if (!asOf) {
+        res.set({
+          ETag: generateETag(demographic),
+          'Accept-Patch': PATCH_CONTENT_TYPES.join(', '),
+        });
+      }
+      res.status(200).json({
+        success: true,
+        data: demographic,
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error getting demographic by ID', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/:id/merge
+ * Merge `source_id` into this record. Each field keeps this record's value
+ * unless it is empty and the source has one; `fields` picks the survivor
+ * explicitly. The source is kept with status `merged` and `merged_into` set,
+ * and the survivorship is recorded in both records' history.
+ */
+router.post(
+  '/:id/merge',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  idempotencyMiddleware(24),
+  validationMiddleware(MergeDemographicsRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+
+    try {
+      const result = await duplicatesService.merge(id, req.body, authReq.auth.lawFirm, {
+        keyId: authReq.auth.keyId,
+        requestId: req.requestId,
+      });
+
+      await fifoQueueService.addWebhookMessage(authReq.auth.lawFirm, {
+        event: 'demographics.merged',
+        data: {
+          id: result.id,
+          source_id: result.source_id,
+          fields_from_source: Object.keys(result.survivorship).filter(field => result.survivorship[field] === 'source'),
+        },
+        metadata: {
+          apiKeyId: authReq.auth.keyId,
+          requestId: req.requestId,
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Demographics merged successfully',
+        data: result,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error merging demographics', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        demographicId: id,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * PATCH /api/v1/demographics/:id
+ * Partially update a record with an RFC 7396 merge patch (application/merge-patch+json
+ * or application/json) or an RFC 6902 JSON Patch (application/json-patch+json).
+ * Send the ETag from GET in If-Match to avoid overwriting a concurrent change.
+ */
+router.patch(
+  '/:id',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  express.json({ type: PATCH_CONTENT_TYPES, limit: '1mb' }),
+  idempotencyMiddleware(24),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+
+    try {
+      const isJsonPatch = !!req.is('application/json-patch+json');
+      const isMergePatch = !isJsonPatch && !!req.is(['application/merge-patch+json', 'application/json']);
+
+      if (!isJsonPatch && !isMergePatch) {
+        res.status(415).json({
+          error: `Unsupported patch format. Use one of: ${PATCH_CONTENT_TYPES.join(', ')}`,
+          code: 'UNSUPPORTED_MEDIA_TYPE',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      logger.info('Demographics patch started', {
+        requestId: req.requestId,
+        demographicId: id,
+        lawFirm: authReq.auth.lawFirm,
+        format: isJsonPatch ? 'json-patch' : 'merge-patch',
+      });
+
+      const existing = await databaseService.getDemographicById(id, authReq.auth.lawFirm);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const currentETag = generateETag(existing);
+      const ifMatch = req.headers['if-match'];
+      if (ifMatch && !ifMatchSatisfied(ifMatch, currentETag)) {
+        res.set('ETag', currentETag);
+        res.status(412).json({
+          success: false,
+          error: 'Record has been modified since it was retrieved',
+          code: 'PRECONDITION_FAILED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Apply the patch to the editable view of the record
+      const document = toPatchableDocument(existing);
+      let patched: Record<string, any>;
+
+      if (isJsonPatch) {
+        const operations = JsonPatchDocumentSchema.safeParse(req.body);
+        if (!operations.success) {
+          zodErrorResponse(req, res, operations.error);
+          return;
+        }
+        patched = jsonPatchService.applyJsonPatch(document, operations.data);
+      } else {
+        const mergePatch = MergePatchDocumentSchema.safeParse(req.body);
+        if (!mergePatch.success) {
+          zodErrorResponse(req, res, mergePatch.error);
+          return;
+        }
+        patched = jsonPatchService.applyMergePatch(document, mergePatch.data);
+      }
+
+      if (patched === null || typeof patched !== 'object' || Array.isArray(patched)) {
+        throw new PatchError('Patch must produce a JSON object');
+      }
+
+      // Work out which fields changed and validate only those
+      const changedValues: Record<string, any> = {};
+      const removedFields: string[] = [];
+      for (const field of new Set([...Object.keys(document), ...Object.keys(patched)])) {
+        if (JSON.stringify(document[field]) === JSON.stringify(patched[field])) continue;
+        if (patched[field] === undefined || patched[field] === null) {
+          removedFields.push(field);
+        } else {
+          changedValues[field] = patched[field];
+        }
+      }
+
+      const shape = CreateDemographicsRequestSchema.shape as Record<string, z.ZodTypeAny>;
+      const requiredRemoved = removedFields.filter(field => shape[field] && !shape[field].isOptional());
+      if (requiredRemoved.length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: requiredRemoved.map(field => ({
+            field,
+            message: 'Required field cannot be removed',
+            value: 'invalid_type',
+          })),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const validated = PatchDemographicsRequestSchema.safeParse(changedValues);
+      if (!validated.success) {
+        zodErrorResponse(req, res, validated.error);
+        return;
+      }
+
+      const changes: Record<string, any> = { ...validated.data };
+      removedFields.forEach(field => {
+        changes[field] = null;
+      });
+
+      // Legacy flat attorney/lien fields in the patch are folded into the collections first
+      const { collections: patchedCollections } = demographicsCollectionsService.split(changes, document);
+      const calculated = runSettlementCalculation(req, res, { ...document, ...changes, ...patchedCollections });
+      if (!calculated) return;
+      for (const [field, value] of Object.entries(calculated)) {
+        if (JSON.stringify(document[field]) !== JSON.stringify(value)) {
+          changes[field] = value;
+        }
+      }
+
+      const changedFields = Object.keys(changes);
+
+      if (changedFields.length === 0) {
+        res.set('ETag', currentETag);
+        res.status(200).json({
+          success: true,
+          message: 'No changes applied',
+          data: {
+            id,
+            sf_id: existing.sf_id,
+            status: 'unchanged',
+            updated_at: new Date(existing.updated_at).toISOString(),
+            changed_fields: [],
+          },
+          requestId: req.requestId,
+          processingTime: Date.now() - startTime,
+        });
+        return;
+      }
+
+      const updatedAt = new Date().toISOString();
+      const updated = await databaseService.updateDemographic(
+        id,
+        { ...changes, updated_at: updatedAt },
+        {
+          lawFirm: authReq.auth.lawFirm,
+          expectedUpdatedAt: existing.updated_at,
+          audit: { keyId: authReq.auth.keyId, requestId: req.requestId },
+        },
+      );
+
+      if (!updated) {
+        // Another writer changed the row between our read and the conditional update
+        res.status(412).json({
+          success: false,
+          error: 'Record has been modified since it was retrieved',
+          code: 'PRECONDITION_FAILED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const updatedDemographic = { ...existing, ...changes, updated_at: updatedAt };
+
+      await fifoQueueService.addDemographicsMessage(authReq.auth.lawFirm, {
+        id,
+        action: 'update',
+        data: updatedDemographic,
+      }, 5);
+
+      await fifoQueueService.addWebhookMessage(authReq.auth.lawFirm, {
+        event: 'demographics.updated',
+        data: {
+          id,
+          sf_id: updatedDemographic.sf_id,
+          law_firm: updatedDemographic.law_firm,
+          updated_at: updatedAt,
+          changed_fields: changedFields,
+        },
+        metadata: {
+          apiKeyId: authReq.auth.keyId,
+          requestId: req.requestId,
+        },
+      });
+
+      const processingTime = Date.now() - startTime;
+      logger.info('Demographics patch completed', {
+        requestId: req.requestId,
+        demographicId: id,
+        lawFirm: authReq.auth.lawFirm,
+        changedFields,
+        processingTime,
+      });
+
+      res.set('ETag', generateETag({ id, updated_at: updatedAt }));
+      res.status(200).json({
+        success: true,
+        message: 'Demographics updated successfully',
+        data: {
+          id,
+          sf_id: updatedDemographic.sf_id,
+          status: 'updated',
+          updated_at: updatedAt,
+          changed_fields: changedFields,
+        },
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error patching demographics', {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
         requestId: req.requestId,
+        demographicId: id,
         processingTime,
       });
       next(error);
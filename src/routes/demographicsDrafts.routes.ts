@@ -0,0 +1,299 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  ApproveDraftRequestSchema,
+  DemographicsDraft,
+  ListDraftsQuerySchema,
+  RejectDraftRequestSchema,
+} from '../shared/types/draft';
+import { databaseService } from '../shared/database/database.service';
+import { demographicsDraftService } from '../shared/services/demographicsDraft.service';
+import { piiMaskingService } from '../shared/services/piiMasking.service';
+import { logger } from '../shared/services/logger.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { AuthenticatedRequest } from '../shared/types/express-extensions';
+
+const router = Router();
+
+function zodErrorResponse(req: Request, res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    error: 'Validation failed',
+    code: 'VALIDATION_ERROR',
+    details: error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+      value: issue.code,
+    })),
+    requestId: req.requestId,
+  });
+}
+
+function notFoundResponse(req: Request, res: Response): void {
+  res.status(404).json({ error: 'Draft not found', code: 'DRAFT_NOT_FOUND', requestId: req.requestId });
+}
+
+// PII in the extracted values is masked unless the key has `demographics:pii`
+function shapeDraft(draft: DemographicsDraft, includePii: boolean): DemographicsDraft {
+  return { ...draft, fields: includePii ? draft.fields : piiMaskingService.maskRecord(draft.fields) };
+}
+
+async function findDraft(req: Request, lawFirm: string): Promise<DemographicsDraft | null> {
+  const { id } = req.params as { id: string };
+  return z.string().uuid().safeParse(id).success
+    ? databaseService.getDemographicsDraft(id, lawFirm)
+    : null;
+}
+
+/**
+ * GET /api/v1/demographics/drafts
+ * Drafts extracted from uploaded intake forms, newest first. Filter with
+ * `status` (pending_review, approved, rejected); page with `limit`/`offset`.
+ */
+router.get(
+  '/',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const query = ListDraftsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        zodErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const drafts = await databaseService.listDemographicsDrafts(authReq.auth.lawFirm, query.data);
+      const includePii = piiMaskingService.canViewPii(authReq.auth.scopes);
+
+      res.status(200).json({
+        success: true,
+        data: drafts.map(draft => shapeDraft(draft, includePii)),
+        pagination: {
+          limit: query.data.limit,
+          offset: query.data.offset,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing demographics drafts', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/drafts/:id
+ * A draft with the values read from its form, their confidence (0..1), and
+ * the required fields approval still has to supply.
+ */
+router.get(
+  '/:id',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const draft = await findDraft(req, authReq.auth.lawFirm);
+      if (!draft) {
+        notFoundResponse(req, res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: shapeDraft(draft, piiMaskingService.canViewPii(authReq.auth.scopes)),
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error retrieving demographics draft', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/drafts/:id/approve
+ * Creates the demographics record from a pending draft. `fields` corrects
+ * extracted values and supplies the ones the form does not carry; the result
+ * is validated like a single submission (422 when still incomplete). The
+ * source document is linked to the new record. Possible duplicates are
+ * returned in `data.duplicates`.
+ */
+router.post(
+  '/:id/approve',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const draft = await findDraft(req, authReq.auth.lawFirm);
+      if (!draft) {
+        notFoundResponse(req, res);
+        return;
+      }
+
+      const request = ApproveDraftRequestSchema.safeParse(req.body ?? {});
+      if (!request.success) {
+        zodErrorResponse(req, res, request.error);
+        return;
+      }
+
+      const resolved = demographicsDraftService.resolveFields(draft, request.data.fields);
+      if (!resolved.success) {
+        res.status(422).json({
+          error: 'Draft is incomplete or invalid; supply or correct these fields',
+          code: 'DRAFT_INCOMPLETE',
+          details: resolved.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+            value: issue.code,
+          })),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const approval = await demographicsDraftService.approve(draft, resolved.data, {
+        createdBy: authReq.auth.apiKey.created_by,
+        keyId: authReq.auth.keyId,
+        requestId: req.requestId,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Draft approved',
+        data: {
+          id: approval.draft.id,
+          status: approval.draft.status,
+          demographics_id: approval.demographics.id,
+          document_correlation_id: approval.draft.document_correlation_id,
+          duplicates: approval.duplicates,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error approving demographics draft', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/drafts/:id/reject
+ * Closes a pending draft without creating a record, with an optional `reason`.
+ */
+router.post(
+  '/:id/reject',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const draft = await findDraft(req, authReq.auth.lawFirm);
+      if (!draft) {
+        notFoundResponse(req, res);
+        return;
+      }
+
+      const request = RejectDraftRequestSchema.safeParse(req.body ?? {});
+      if (!request.success) {
+        zodErrorResponse(req, res, request.error);
+        return;
+      }
+
+      const rejected = await demographicsDraftService.reject(draft, request.data.reason, authReq.auth.keyId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Draft rejected',
+        data: shapeDraft(rejected, piiMaskingService.canViewPii(authReq.auth.scopes)),
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error rejecting demographics draft', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+export default router;
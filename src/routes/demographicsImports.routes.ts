@@ -0,0 +1,499 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import {
+  CreateImportRequestSchema,
+  GetImportQuerySchema,
+  ImportMappingProfileRequestSchema,
+} from '../shared/types/import';
+import { databaseService } from '../shared/database/database.service';
+import { blobSasService } from '../shared/services/blobSas.service';
+import { demographicsImportService, MAX_IMPORT_FILE_SIZE_MB } from '../shared/services/demographicsImport.service';
+import { logger } from '../shared/services/logger.service';
+import { PII_SCOPE, piiMaskingService } from '../shared/services/piiMasking.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { validationMiddleware } from '../middleware/validation.middleware';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
+import { AuthenticatedRequest } from '../shared/types/express-extensions';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_SIZE_MB * 1024 * 1024, files: 1 },
+}).single('file');
+
+/**
+ * Reads the optional `file` part of a multipart request; JSON requests pass
+ * through untouched. Upload errors become 4xx responses.
+ */
+function importUpload(req: Request, res: Response, next: NextFunction): void {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      res.status(tooLarge ? 413 : 400).json({
+        error: tooLarge ? `File exceeds the ${MAX_IMPORT_FILE_SIZE_MB}MB limit` : error.message,
+        code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+        requestId: req.requestId,
+      });
+      return;
+    }
+    next(error);
+  });
+}
+
+function zodErrorResponse(req: Request, res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    error: 'Validation failed',
+    code: 'VALIDATION_ERROR',
+    details: error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+      value: issue.code,
+    })),
+    requestId: req.requestId,
+  });
+}
+
+function notFoundResponse(req: Request, res: Response, error: string, code: string): void {
+  res.status(404).json({ error, code, requestId: req.requestId });
+}
+
+function profileExistsResponse(req: Request, res: Response, name: string): void {
+  res.status(409).json({
+    error: `An import mapping profile named "${name}" already exists`,
+    code: 'IMPORT_PROFILE_EXISTS',
+    requestId: req.requestId,
+  });
+}
+
+/**
+ * GET /api/v1/demographics/imports/profiles
+ * List the law firm's saved column mapping profiles.
+ */
+router.get(
+  '/profiles',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const profiles = await databaseService.listImportProfiles(authReq.auth.lawFirm);
+
+      res.status(200).json({
+        success: true,
+        data: profiles,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing import mapping profiles', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/imports/profiles
+ * Save a column mapping profile. Names are unique within the law firm.
+ */
+router.post(
+  '/profiles',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  validationMiddleware(ImportMappingProfileRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const now = new Date().toISOString();
+      const profile = await databaseService.createImportProfile({
+        id: uuidv4(),
+        partitionKey: authReq.auth.lawFirm,
+        name: req.body.name,
+        columns: req.body.columns,
+        defaults: req.body.defaults,
+        created_at: now,
+        updated_at: now,
+        created_by_key_id: authReq.auth.keyId,
+      });
+      if (!profile) {
+        profileExistsResponse(req, res, req.body.name);
+        return;
+      }
+
+      logger.info('Import mapping profile created', {
+        requestId: req.requestId,
+        lawFirm: authReq.auth.lawFirm,
+        profileId: profile.id,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: profile,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error creating import mapping profile', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * PUT /api/v1/demographics/imports/profiles/:profileId
+ * Replace a column mapping profile. Imports already started keep the mapping
+ * they were started with.
+ */
+router.put(
+  '/profiles/:profileId',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  validationMiddleware(ImportMappingProfileRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { profileId } = req.params as { profileId: string };
+      if (!z.string().uuid().safeParse(profileId).success) {
+        notFoundResponse(req, res, 'Import mapping profile not found', 'IMPORT_PROFILE_NOT_FOUND');
+        return;
+      }
+
+      const profile = await databaseService.updateImportProfile(profileId, authReq.auth.lawFirm, req.body);
+      if (profile === 'not_found') {
+        notFoundResponse(req, res, 'Import mapping profile not found', 'IMPORT_PROFILE_NOT_FOUND');
+        return;
+      }
+      if (profile === 'conflict') {
+        profileExistsResponse(req, res, req.body.name);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: profile,
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error updating import mapping profile', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/v1/demographics/imports/profiles/:profileId
+ */
+router.delete(
+  '/profiles/:profileId',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { profileId } = req.params as { profileId: string };
+      const deleted = z.string().uuid().safeParse(profileId).success
+        && await databaseService.deleteImportProfile(profileId, authReq.auth.lawFirm);
+      if (!deleted) {
+        notFoundResponse(req, res, 'Import mapping profile not found', 'IMPORT_PROFILE_NOT_FOUND');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Import mapping profile deleted',
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error deleting import mapping profile', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/demographics/imports
+ * Start a bulk import from a CSV or XLSX file, sent as the `file` part of a
+ * multipart request or referenced by `blob_name` after uploading it through
+ * /api/v1/documents/upload-url. Columns are mapped with `profile_id` or
+ * inline `columns`/`defaults`. Rows are imported asynchronously; poll the
+ * returned `status_url`.
+ */
+router.post(
+  '/',
+  authMiddleware({ requiredScopes: ['demographics:write'] }),
+  importUpload,
+  idempotencyMiddleware(24),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const request = CreateImportRequestSchema.safeParse(req.body ?? {});
+      if (!request.success) {
+        zodErrorResponse(req, res, request.error);
+        return;
+      }
+
+      const job = await demographicsImportService.start(request.data, req.file, {
+        lawFirm: authReq.auth.lawFirm,
+        createdBy: authReq.auth.apiKey.created_by,
+        keyId: authReq.auth.keyId,
+        requestId: req.requestId,
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Import accepted for processing',
+        data: {
+          id: job.id,
+          status: job.status,
+          file_name: job.file_name,
+          status_url: `/api/v1/demographics/imports/${job.id}`,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error starting demographics import', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/imports/:id
+ * Import progress and its row errors, paged with `errors_limit`/`errors_offset`.
+ * Once a completed import has failed rows, `error_report_url` links a CSV of
+ * those rows with their errors. The rows are as uploaded, SSNs and dates of
+ * birth included, so the link is only given to keys with the PII scope.
+ */
+router.get(
+  '/:id',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const query = GetImportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        zodErrorResponse(req, res, query.error);
+        return;
+      }
+
+      const { id } = req.params as { id: string };
+      const job = z.string().uuid().safeParse(id).success
+        ? await databaseService.getImport(id, authReq.auth.lawFirm)
+        : null;
+      if (!job) {
+        notFoundResponse(req, res, 'Import not found', 'IMPORT_NOT_FOUND');
+        return;
+      }
+
+      const { errors, total } = await databaseService.getImportErrors(job.id, {
+        limit: query.data.errors_limit,
+        offset: query.data.errors_offset,
+      });
+      const { blob_name, error_report_blob_name, ...data } = job;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...data,
+          error_report_url: error_report_blob_name && piiMaskingService.canViewPii(authReq.auth.scopes)
+            ? await blobSasService.generateDownloadSasUrl(error_report_blob_name)
+            : null,
+          errors,
+        },
+        pagination: {
+          errors_limit: query.data.errors_limit,
+          errors_offset: query.data.errors_offset,
+          total_errors: total,
+        },
+        requestId: req.requestId,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error getting demographics import', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/demographics/imports/:id/error-report
+ * Redirects to a short-lived download URL for the error report CSV. Needs the
+ * PII scope, since the report holds the failed rows unmasked.
+ */
+router.get(
+  '/:id/error-report',
+  authMiddleware({ requiredScopes: ['demographics:read'] }),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    // Type guard for req.auth
+    if (!req.auth) {
+      logger.error('Authentication required', { requestId: req.requestId });
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+
+    try {
+      const { id } = req.params as { id: string };
+      const job = z.string().uuid().safeParse(id).success
+        ? await databaseService.getImport(id, authReq.auth.lawFirm)
+        : null;
+      if (!job) {
+        notFoundResponse(req, res, 'Import not found', 'IMPORT_NOT_FOUND');
+        return;
+      }
+      if (!job.error_report_blob_name) {
+        notFoundResponse(req, res, 'Import has no error report', 'ERROR_REPORT_NOT_FOUND');
+        return;
+      }
+      if (!piiMaskingService.canViewPii(authReq.auth.scopes)) {
+        res.status(403).json({
+          error: `Downloading an error report requires the ${PII_SCOPE} scope`,
+          code: 'INSUFFICIENT_SCOPE',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      res.redirect(302, await blobSasService.generateDownloadSasUrl(job.error_report_blob_name));
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error getting import error report', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestId: req.requestId,
+        processingTime,
+      });
+      next(error);
+    }
+  },
+);
+
+export default router;
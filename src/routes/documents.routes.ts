@@ -1,6 +1,19 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { blobSasService } from '../shared/services/blobSas.service';
+import { databaseService } from '../shared/database/database.service';
+import { DocumentAccessError, documentAccessService } from '../shared/services/documentAccess.service';
+import { DocumentPolicyError, documentPolicyService } from '../shared/services/documentPolicy.service';
+import { documentChecklistService } from '../shared/services/documentChecklist.service';
+import { DocumentUploadSessionError, documentUploadSessionService } from '../shared/services/documentUploadSession.service';
+import {
+  DocumentRequirementSchema,
+  DocumentTypeSchema,
+  DocumentUploadSession,
+  ListDocumentsQuerySchema,
+  ReclassifyDocumentRequestSchema
+} from '../shared/types/document';
 import { logger } from '../shared/services/logger.service';
+import { PII_SCOPE, piiMaskingService } from '../shared/services/piiMasking.service';
 import { AuthenticatedRequest } from '../shared/types/express-extensions';
 import { requireAuth } from '../middleware/security.middleware';
 import { validationMiddleware } from '../middleware/validation.middleware';
@@ -9,24 +22,70 @@ import { z } from 'zod';
 
 const router = Router();
 
+// A checklist requirement only means something for a claimant's document
+const requirementNeedsDemographicsId = {
+  message: 'demographicsId is required with requirement',
+  path: ['demographicsId']
+};
+
 const GenerateUploadUrlSchema = z.object({
   fileName: z.string().min(1).max(255),
   contentType: z.string().min(1),
-  documentType: z.enum(['demographics_form', 'supporting_doc', 'legal_doc', 'medical_record', 'other']).optional(),
+  documentType: DocumentTypeSchema.optional(),
   demographicsId: z.string().uuid().optional(),
+  requirement: DocumentRequirementSchema.optional(),
   maxFileSizeMB: z.number().min(0.1).max(100).default(10)
-});
+}).refine(request => !request.requirement || request.demographicsId, requirementNeedsDemographicsId);
 
 const BatchUploadSchema = z.object({
   documents: z.array(z.object({
     fileName: z.string().min(1).max(255),
     contentType: z.string().min(1),
-    documentType: z.enum(['demographics_form', 'supporting_doc', 'legal_doc', 'medical_record', 'other']).optional(),
+    documentType: DocumentTypeSchema.optional(),
     demographicsId: z.string().uuid().optional(),
-  })).min(1).max(50),
+    requirement: DocumentRequirementSchema.optional(),
+  }).refine(document => !document.requirement || document.demographicsId, requirementNeedsDemographicsId)).min(1).max(50),
   maxFileSizeMB: z.number().min(0.1).max(100).default(10)
 });
 
+const CreateUploadSessionSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  contentType: z.string().min(1),
+  documentType: DocumentTypeSchema.optional(),
+  demographicsId: z.string().uuid().optional(),
+  requirement: DocumentRequirementSchema.optional(),
+  // Bytes; the document type's policy sets the limit
+  fileSize: z.number().int().positive(),
+  chunkSizeMB: z.number().int().min(1).max(32).default(8),
+  // Hex SHA-256 of the whole file, checked on commit
+  sha256: z.string().regex(/^[0-9a-fA-F]{64}$/, 'Must be a hex SHA-256 digest').optional()
+}).refine(request => !request.requirement || request.demographicsId, requirementNeedsDemographicsId);
+
+const ChunkIndexSchema = z.coerce.number().int().min(0);
+
+function uploadSessionData(session: DocumentUploadSession) {
+  return {
+    sessionId: session.id,
+    correlationId: session.correlation_id,
+    status: session.status,
+    fileSize: session.file_size,
+    chunkSize: session.chunk_size,
+    totalChunks: session.total_chunks,
+    sha256: session.sha256 ?? undefined,
+    error: session.error ?? undefined,
+    expiresAt: session.expires_at,
+    committedAt: session.committed_at ?? undefined
+  };
+}
+
+async function findUploadSession(req: AuthenticatedRequest): Promise<DocumentUploadSession> {
+  const { sessionId } = req.params as { sessionId: string };
+  if (!z.string().uuid().safeParse(sessionId).success) {
+    throw new DocumentUploadSessionError('Upload session not found', 404, 'UPLOAD_SESSION_NOT_FOUND');
+  }
+  return documentUploadSessionService.getSession(sessionId, req.auth.lawFirm);
+}
+
 /**
  * POST /api/v1/documents/upload-url
  * Generate SAS URL for single document upload
@@ -46,13 +105,20 @@ router.post('/upload-url',
 
       const uploadRequest = req.body;
 
+      const documentType = documentChecklistService.resolveDocumentType(uploadRequest);
+      documentPolicyService.checkUploadRequest({ ...uploadRequest, documentType });
+      if (uploadRequest.demographicsId) {
+        await documentAccessService.checkDemographicsLink(uploadRequest.demographicsId, req.auth.lawFirm);
+      }
+
       // Generate SAS URL for direct upload
       const sasResponse = await blobSasService.generateUploadSasUrl({
         fileName: uploadRequest.fileName,
         contentType: uploadRequest.contentType,
         lawFirm: req.auth.lawFirm,
         demographicsId: uploadRequest.demographicsId,
-        documentType: uploadRequest.documentType,
+        documentType,
+        requirement: uploadRequest.requirement,
         maxFileSizeMB: uploadRequest.maxFileSizeMB
       });
 
@@ -80,7 +146,8 @@ router.post('/upload-url',
           method: 'PUT',
           headers: {
             'x-ms-blob-type': 'BlockBlob',
-            'Content-Type': uploadRequest.contentType
+            'Content-Type': uploadRequest.contentType,
+            'x-ms-meta-correlationid': sasResponse.correlationId
           },
           note: 'Upload file directly to uploadUrl using PUT method'
         },
@@ -90,6 +157,16 @@ router.post('/upload-url',
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentPolicyError || error instanceof DocumentAccessError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
       logger.error('Error generating upload URL', {
         error: error instanceof Error ? error.message : String(error),
         requestId: req.requestId,
@@ -130,18 +207,33 @@ router.post('/batch-upload-urls',
 
       const uploadUrls = [];
       const errors = [];
+      // Each claimant is only looked up once per batch
+      const linkChecks = new Map<string, Promise<void>>();
 
       // Generate SAS URLs for each document
       for (let i = 0; i < documents.length; i++) {
         const document = documents[i];
         
         try {
+          const documentType = documentChecklistService.resolveDocumentType(document);
+          documentPolicyService.checkUploadRequest({ ...document, documentType, maxFileSizeMB });
+          if (document.demographicsId) {
+            if (!linkChecks.has(document.demographicsId)) {
+              linkChecks.set(
+                document.demographicsId,
+                documentAccessService.checkDemographicsLink(document.demographicsId, req.auth.lawFirm)
+              );
+            }
+            await linkChecks.get(document.demographicsId);
+          }
+
           const sasResponse = await blobSasService.generateUploadSasUrl({
             fileName: document.fileName,
             contentType: document.contentType,
             lawFirm: req.auth.lawFirm,
             demographicsId: document.demographicsId,
-            documentType: document.documentType,
+            documentType,
+            requirement: document.requirement,
             maxFileSizeMB
           });
 
@@ -167,6 +259,9 @@ router.post('/batch-upload-urls',
             index: i,
             fileName: document.fileName,
             error: docError instanceof Error ? docError.message : 'URL generation failed',
+            code: docError instanceof DocumentPolicyError || docError instanceof DocumentAccessError
+              ? docError.code
+              : undefined,
             status: 'failed'
           });
         }
@@ -196,7 +291,8 @@ router.post('/batch-upload-urls',
         },
         instructions: {
           method: 'PUT',
-          note: 'Upload each file to its respective uploadUrl using PUT method with appropriate Content-Type header'
+          note: 'Upload each file to its respective uploadUrl using PUT method with appropriate Content-Type header '
+            + 'and its correlationId in an x-ms-meta-correlationid header'
         },
         requestId: req.requestId,
         processingTime
@@ -221,6 +317,432 @@ router.post('/batch-upload-urls',
   }
 );
 
+/**
+ * POST /api/v1/documents/upload-sessions
+ * Start a resumable upload for a file too large for a single PUT
+ */
+router.post('/upload-sessions',
+  requireAuth(['files:upload', 'demographics:write']),
+  validationMiddleware(CreateUploadSessionSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const sessionRequest = req.body;
+
+      const documentType = documentChecklistService.resolveDocumentType(sessionRequest);
+      if (sessionRequest.demographicsId) {
+        await documentAccessService.checkDemographicsLink(sessionRequest.demographicsId, req.auth.lawFirm);
+      }
+
+      const session = await documentUploadSessionService.create({
+        ...sessionRequest,
+        documentType,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(201).json({
+        success: true,
+        message: 'Upload session started',
+        data: uploadSessionData(session),
+        instructions: {
+          method: 'PUT',
+          url: `/api/v1/documents/upload-sessions/${session.id}/chunks/{index}`,
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-MD5': 'base64 MD5 of the chunk'
+          },
+          note: `Send chunks 0 to ${session.total_chunks - 1}, each ${session.chunk_size} bytes except the last, then POST to /commit`
+        },
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentPolicyError || error instanceof DocumentAccessError || error instanceof DocumentUploadSessionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error starting upload session', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start upload session',
+        code: 'UPLOAD_SESSION_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/documents/upload-sessions/:sessionId/chunks/:index
+ * Upload one chunk (application/octet-stream) with its Content-MD5. Chunks
+ * may be sent in any order; sending one again replaces it.
+ */
+router.put('/upload-sessions/:sessionId/chunks/:index',
+  requireAuth(['files:upload', 'demographics:write']),
+  express.raw({ type: 'application/octet-stream', limit: '32mb' }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const session = await findUploadSession(req);
+
+      const index = ChunkIndexSchema.safeParse((req.params as { index: string }).index);
+      if (!index.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Chunk index must be a non-negative integer',
+          code: 'CHUNK_INDEX_OUT_OF_RANGE',
+          requestId: req.requestId
+        });
+        return;
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        res.status(415).json({
+          success: false,
+          error: 'Chunks must be sent as application/octet-stream',
+          code: 'CONTENT_TYPE_NOT_ALLOWED',
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      const chunk = await documentUploadSessionService.receiveChunk(session, index.data, req.body, req.get('content-md5'));
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessionId: session.id,
+          index: chunk.chunk_index,
+          size: chunk.size,
+          md5: chunk.md5,
+          receivedAt: chunk.received_at
+        },
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentUploadSessionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error receiving upload chunk', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to store chunk',
+        code: 'UPLOAD_CHUNK_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/documents/upload-sessions/:sessionId
+ * Session status with the byte ranges received and the chunks still missing,
+ * for resuming an interrupted upload
+ */
+router.get('/upload-sessions/:sessionId',
+  requireAuth(['files:upload', 'demographics:write']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const session = await findUploadSession(req);
+      const progress = await documentUploadSessionService.getProgress(session);
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...uploadSessionData(session),
+          receivedChunks: progress.received_chunks,
+          receivedBytes: progress.received_bytes,
+          receivedRanges: progress.received_ranges,
+          missingChunks: progress.missing_chunks,
+          nextChunk: progress.next_chunk
+        },
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentUploadSessionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error checking upload session', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check upload session',
+        code: 'UPLOAD_SESSION_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/documents/upload-sessions/:sessionId/commit
+ * Assemble the chunks, verify the file's SHA-256 and hand it to processing
+ */
+router.post('/upload-sessions/:sessionId/commit',
+  requireAuth(['files:upload', 'demographics:write']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const session = await documentUploadSessionService.commit(await findUploadSession(req));
+
+      const processingTime = Date.now() - startTime;
+
+      logger.info('Upload session committed', {
+        requestId: req.requestId,
+        sessionId: session.id,
+        correlationId: session.correlation_id,
+        lawFirm: req.auth.lawFirm,
+        processingTime
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Upload committed; track processing with the document status endpoint',
+        data: uploadSessionData(session),
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentUploadSessionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error committing upload session', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to commit upload',
+        code: 'UPLOAD_COMMIT_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * Extracted text holds whatever the document does, SSNs and dates of birth
+ * included, so reading or searching it needs the PII scope. Sends 403 and
+ * returns true when the key lacks it.
+ */
+function documentTextForbidden(req: AuthenticatedRequest, res: Response, action: string): boolean {
+  if (piiMaskingService.canViewPii(req.auth.scopes)) return false;
+
+  res.status(403).json({
+    success: false,
+    error: `${action} requires the ${PII_SCOPE} scope`,
+    code: 'INSUFFICIENT_SCOPE',
+    requestId: req.requestId
+  });
+  return true;
+}
+
+/**
+ * GET /api/v1/documents
+ * List the law firm's registered documents, newest first.
+ * `demographicsId` limits the list to one claimant's documents;
+ * `q` to documents whose extracted text contains the phrase (needs `demographics:pii`);
+ * `mismatch=true` to documents whose classification disagrees with the declared type.
+ */
+router.get('/',
+  requireAuth(['demographics:read']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const query = ListDocumentsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: query.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+            value: issue.code
+          })),
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      const { demographicsId, q, mismatch, limit, offset } = query.data;
+      if (q && documentTextForbidden(req, res, 'Searching document text')) {
+        return;
+      }
+      const documents = await databaseService.listDocuments(req.auth.lawFirm, { demographicsId, q, mismatch, limit, offset });
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(200).json({
+        success: true,
+        data: documents,
+        pagination: {
+          limit,
+          offset,
+          count: documents.length,
+          has_more: documents.length === limit
+        },
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      logger.error('Error listing documents', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list documents',
+        code: 'DOCUMENT_LIST_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/documents/:correlationId
+ * Reclassify a document by hand. Sets its type, clears any classification
+ * mismatch and records the change in the audit log.
+ */
+router.patch('/:correlationId',
+  requireAuth(['demographics:write']),
+  validationMiddleware(ReclassifyDocumentRequestSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const { correlationId } = req.params as { correlationId: string };
+
+      await documentAccessService.getDocument(correlationId, req.auth.lawFirm);
+      const document = await databaseService.reclassifyDocument(
+        correlationId,
+        req.auth.lawFirm,
+        req.body.documentType,
+        { keyId: req.auth.keyId, requestId: req.requestId }
+      );
+      if (!document) {
+        throw new DocumentAccessError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+      }
+
+      const processingTime = Date.now() - startTime;
+
+      logger.info('Document reclassified', {
+        requestId: req.requestId,
+        correlationId,
+        lawFirm: req.auth.lawFirm,
+        documentType: document.document_type
+      });
+
+      res.status(200).json({
+        success: true,
+        data: document,
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentAccessError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error reclassifying document', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reclassify document',
+        code: 'RECLASSIFY_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
 /**
  * GET /api/v1/documents/:correlationId/status
  * Get document processing status by correlation ID
@@ -231,7 +753,7 @@ router.get('/:correlationId/status',
     const startTime = Date.now();
     
     try {
-      const { correlationId } = req.params;
+      const { correlationId } = req.params as { correlationId: string };
 
       logger.info('Document status check started', {
         requestId: req.requestId,
@@ -239,16 +761,29 @@ router.get('/:correlationId/status',
         lawFirm: req.auth.lawFirm
       });
 
-      // Check document processing status (implement in service)
-      const status = await blobSasService.getDocumentStatus(correlationId);
+      const document = await documentAccessService.getDocument(correlationId, req.auth.lawFirm);
 
       const processingTime = Date.now() - startTime;
 
       res.status(200).json({
         success: true,
         data: {
-          correlation_id: correlationId,
-          ...status
+          correlation_id: document.correlation_id,
+          status: document.status,
+          uploaded_at: document.uploaded_at ?? undefined,
+          processed_at: document.processed_at ?? undefined,
+          file_size: document.file_size ?? undefined,
+          page_count: document.page_count ?? undefined,
+          content_hash: document.content_hash ?? undefined,
+          document_type: document.document_type ?? undefined,
+          demographics_id: document.demographics_id ?? undefined,
+          requirement: document.requirement ?? undefined,
+          classified_type: document.classified_type ?? undefined,
+          classification_confidence: document.classification_confidence ?? undefined,
+          classification_mismatch: document.classification_mismatch,
+          scan_result: document.scan_result ?? undefined,
+          scanned_at: document.scanned_at ?? undefined,
+          error: document.error ?? undefined
         },
         requestId: req.requestId,
         processingTime
@@ -256,6 +791,16 @@ router.get('/:correlationId/status',
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentAccessError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
       logger.error('Error checking document status', {
         error: error instanceof Error ? error.message : String(error),
         requestId: req.requestId,
@@ -273,4 +818,138 @@ router.get('/:correlationId/status',
   }
 );
 
+/**
+ * GET /api/v1/documents/:correlationId/text
+ * Get the text extracted from a document and how it was extracted.
+ * Needs `demographics:pii`.
+ */
+router.get('/:correlationId/text',
+  requireAuth(['demographics:read']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      if (documentTextForbidden(req, res, 'Reading document text')) {
+        return;
+      }
+
+      const { correlationId } = req.params as { correlationId: string };
+
+      const document = await documentAccessService.getDocument(correlationId, req.auth.lawFirm);
+      const text = await databaseService.getDocumentText(document.correlation_id);
+      if (!text) {
+        res.status(404).json({
+          success: false,
+          error: 'No text has been extracted from this document yet',
+          code: 'DOCUMENT_TEXT_NOT_FOUND',
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      const processingTime = Date.now() - startTime;
+      const { partitionKey, ...data } = text;
+
+      res.status(200).json({
+        success: true,
+        data,
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentAccessError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error getting document text', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get document text',
+        code: 'DOCUMENT_TEXT_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/documents/:correlationId/download-url
+ * Issue a short-lived read URL for one of the law firm's documents.
+ * Every issued URL is recorded in the document access log.
+ */
+router.get('/:correlationId/download-url',
+  requireAuth(['demographics:read']),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const { correlationId } = req.params as { correlationId: string };
+
+      const { document, download_url, expires_at } = await documentAccessService.issueDownloadUrl(correlationId, {
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          correlation_id: document.correlation_id,
+          file_name: document.original_file_name,
+          content_type: document.content_type,
+          file_size: document.file_size,
+          download_url,
+          expires_at
+        },
+        requestId: req.requestId,
+        processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof DocumentAccessError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      logger.error('Error issuing document download URL', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: req.requestId,
+        processingTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to issue download URL',
+        code: 'DOWNLOAD_URL_ERROR',
+        requestId: req.requestId,
+        processingTime
+      });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -280,16 +280,21 @@ router.get('/',
       });
 
       // Get demographics with filters (implement filtering in database service)
-      const demographics = await databaseService.getDemographicsByLawFirm(
+      const page = await databaseService.getDemographicsPage(
         req.auth.lawFirm,
-        limit,
-        offset,
         {
-          claimanttype: filter_claimanttype,
-          status: filter_status,
-          search
+          limit,
+          offset,
+          filters: {
+            where: [
+              ...(filter_claimanttype ? [{ field: 'claimanttype' as const, operator: 'eq' as const, values: [filter_claimanttype] }] : []),
+              ...(filter_status ? [{ field: 'status' as const, operator: 'eq' as const, values: [filter_status] }] : [])
+            ],
+            search
+          }
         }
       );
+      const demographics = page.records;
 
       const processingTime = Date.now() - startTime;
       logger.info('Demographics retrieval completed', {
@@ -306,7 +311,8 @@ router.get('/',
           limit,
           offset,
           count: demographics.length,
-          has_more: demographics.length === limit
+          has_more: page.has_more,
+          next_cursor: page.next_cursor
         },
         requestId: req.requestId,
         processingTime
@@ -433,7 +439,10 @@ router.put('/:id',
         updated_at: new Date().toISOString()
       };
 
-      await databaseService.updateDemographic(id, updatedDemographic);
+      await databaseService.updateDemographic(id, updatedDemographic, {
+        lawFirm: req.auth.lawFirm,
+        audit: { keyId: req.auth.keyId, requestId: req.requestId }
+      });
 
       // Add to processing queue
       await fifoQueueService.addDemographicsMessage(
@@ -534,7 +543,10 @@ router.delete('/:id',
       }
 
       // Soft delete (update status to 'deleted')
-      await databaseService.softDeleteDemographic(id, req.auth.lawFirm);
+      await databaseService.softDeleteDemographic(id, req.auth.lawFirm, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId
+      });
 
       const processingTime = Date.now() - startTime;
       logger.info('Demographics deletion completed', {
@@ -0,0 +1,22 @@
+import { databaseService } from '../shared/database/database.service';
+import { logger } from '../shared/services/logger.service';
+
+/**
+ * Recomputes the duplicate detection match keys of every Demographics row.
+ * Run after migration 0009 and whenever the blind index key changes.
+ * Usage: npm run duplicates:backfill [-- <batchSize>]
+ */
+async function main(): Promise<void> {
+  const batchSize = parseInt(process.argv[2] || '500');
+  const count = await databaseService.backfillMatchKeys(batchSize);
+  logger.info('Match key backfill completed', { count });
+  process.exit(0);
+}
+
+main().catch(error => {
+  logger.error('Match key backfill failed', {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+  process.exit(1);
+});
@@ -23,6 +23,7 @@ CORRELATION_ID=$(jq -r '.data.correlationId' upload-response.json)
 curl -X PUT "$UPLOAD_URL" \
   -H "Content-Type: application/pdf" \
   -H "x-ms-blob-type: BlockBlob" \
+  -H "x-ms-meta-correlationid: $CORRELATION_ID" \
   --data-binary @demo-document.pdf
 
 echo "Document uploaded with correlation ID: $CORRELATION_ID"
\ No newline at end of file
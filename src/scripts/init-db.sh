@@ -1,3 +1,4 @@
 #!/bin/bash
 sleep 30s
+# Creates the database only; the API applies the schema migrations when it starts
 /opt/mssql-tools/bin/sqlcmd -S localhost -U sa -P $SA_PASSWORD -d master -i /usr/src/app/init-database.sql
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { closeDatabase, initializeDatabase } from '../config/database';
+import { migrationRunner } from '../shared/database/migrationRunner';
+import { logger } from '../shared/services/logger.service';
+
+/**
+ * Schema migrations.
+ * Usage: npm run migrate -- up [<id>]      apply pending migrations (up to <id>)
+ *        npm run migrate -- down [<steps>] revert the last <steps> migrations (default 1)
+ *        npm run migrate -- status         list applied and pending migrations
+ */
+async function main(): Promise<void> {
+  const [command, argument] = process.argv.slice(2);
+  await initializeDatabase();
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrationRunner.up(argument);
+        logger.info('Migrations up to date', { applied });
+        break;
+      }
+      case 'down': {
+        const steps = parseInt(argument || '1');
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${argument}`);
+        }
+        const reverted = await migrationRunner.down(steps);
+        logger.info('Migrations reverted', { reverted });
+        break;
+      }
+      case 'status': {
+        const statuses = await migrationRunner.status();
+        for (const status of statuses) {
+          console.log(`${status.id}_${status.name}\t${status.state}\t${status.applied_at ?? ''}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command ?? '(none)'}. Expected up, down or status`);
+    }
+  } finally {
+    await closeDatabase();
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  logger.error('Migration failed', {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+import { databaseService } from '../shared/database/database.service';
+import { logger } from '../shared/services/logger.service';
+
+/**
+ * Re-encrypts Demographics PII under the active field encryption key version.
+ * Usage: npm run encryption:rotate [-- <batchSize>]
+ */
+async function main(): Promise<void> {
+  const batchSize = parseInt(process.argv[2] || '500');
+  const count = await databaseService.reencryptDemographics(batchSize);
+  logger.info('Field encryption rotation completed', { count });
+  process.exit(0);
+}
+
+main().catch(error => {
+  logger.error('Field encryption rotation failed', {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+  process.exit(1);
+});
@@ -53,6 +53,11 @@ fi
 echo "Initializing database..."
 docker exec demographics-api_mssql_1 /opt/mssql-tools/bin/sqlcmd -S localhost -U sa -P YourStrong@Password123 -i /docker-entrypoint-initdb.d/init-database.sql
 
+# The API exits on a schema with pending migrations; apply them and restart it
+echo "Applying schema migrations..."
+docker-compose run --rm api npm run migrate:up
+docker-compose restart api
+
 # Wait for API to be ready
 echo "Waiting for API to be ready..."
 max_attempts=30
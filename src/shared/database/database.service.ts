@@ -1,122 +1,545 @@
 import sql from 'mssql';
-import { Demographics } from '../types/demographics';
+import {
+  DEMOGRAPHICS_COLLECTIONS,
+  Demographics,
+  DemographicsCollectionName,
+  DemographicsCollections,
+  DEMOGRAPHICS_QUERY_FIELDS,
+  DemographicsCursor,
+  DemographicsFilterClause,
+  DemographicsPage,
+  DemographicsQueryFieldKind,
+  DemographicsSortKey,
+  ENCRYPTED_DEMOGRAPHICS_FIELDS,
+  ExternalIdType,
+} from '../types/demographics';
 import { ApiKey } from '../types/apiKey';
 import { logger } from '../services/logger.service';
+import { databaseConfig } from '../../config/database';
+import { fieldEncryptionService } from '../services/fieldEncryption.service';
+import { demographicsCollectionsService } from '../services/demographicsCollections.service';
+import { pageCursorService } from '../services/pageCursor.service';
+import { DEFAULT_DEMOGRAPHICS_SORT, demographicsQueryService } from '../services/demographicsQuery.service';
+import { claimantMatchService } from '../services/claimantMatch.service';
+import { AuditAction, AuditContext, AuditEntityType, AuditEntry, FieldDiff } from '../types/audit';
+import { SettlementStatement, StatementTemplate, StatementTemplateDefinition } from '../types/statement';
+import { MatchSignal } from '../types/duplicates';
+import { DemographicsImport, ImportMappingProfile, ImportRowError, ImportStatus } from '../types/import';
+import { DemographicsExport, ExportStatus } from '../types/export';
+import { DemographicsDraft, ListDraftsQuery } from '../types/draft';
+import { LegalHold, PurgeCandidate, PurgeCertificate, RetentionPolicy } from '../types/retention';
+import { ListReconciliationFindingsQuery, ReconciliationFinding } from '../types/reconciliation';
+import {
+  DocumentAccessLogEntry,
+  DocumentClassificationSource,
+  DocumentLifecycleStatus,
+  DocumentRecord,
+  DocumentScanResult,
+  DocumentText,
+  DocumentType,
+  DocumentUploadChunk,
+  DocumentUploadSession,
+  UploadSessionStatus,
+} from '../types/document';
+import { v4 as uuidv4 } from 'uuid';
+
+// Child tables backing the demographics collections
+const COLLECTION_TABLES: Record<DemographicsCollectionName, { table: string; columns: Record<string, sql.ISqlType> }> = {
+  attorneys: {
+    table: 'DemographicsAttorneys',
+    columns: {
+      name: sql.NVarChar(75),
+      fee_percent: sql.Decimal(10, 4),
+      fees: sql.Decimal(15, 4),
+      cost_amount: sql.Decimal(15, 4),
+    },
+  },
+  medical_liens: {
+    table: 'DemographicsMedicalLiens',
+    columns: {
+      name: sql.NVarChar(55),
+      lien_id: sql.NVarChar(55),
+      lien_type: sql.NVarChar(35),
+      amount: sql.Decimal(15, 4),
+    },
+  },
+  other_liens: {
+    table: 'DemographicsOtherLiens',
+    columns: {
+      name: sql.NVarChar(55),
+      amount: sql.Decimal(15, 4),
+    },
+  },
+  cost_details: {
+    table: 'DemographicsCostDetails',
+    columns: {
+      attorney_name: sql.NVarChar(75),
+      name: sql.NVarChar(128),
+      amount: sql.Decimal(15, 4),
+    },
+  },
+};
+
+// Plaintext fields the duplicate detection match keys are derived from
+const MATCH_KEY_SOURCE_FIELDS = ['ssn', 'firstname', 'lastname', 'dob'];
+
+// Column compared for each duplicate detection signal
+const MATCH_SIGNAL_COLUMNS: Record<MatchSignal, string> = {
+  ssn: 'ssn_match',
+  name_dob: 'name_dob_match',
+  sf_id: 'sf_id',
+  ml_id: 'ml_id',
+  law_firm_client_id: 'law_firm_client_id',
+};
+
+// Columns an upsert leaves as they were when it replaces an existing record
+const IMMUTABLE_COLUMNS = ['id', 'partitionKey', 'created_at', 'created_by'];
+
+// SQL Server errors for a duplicate key in a unique index / constraint
+const UNIQUE_VIOLATION_ERRORS = [2601, 2627];
+
+/**
+ * A write would give two live records of a firm the same external identifier.
+ */
+export class ExternalIdConflictError extends Error {
+  readonly statusCode = 409;
+  readonly code = 'EXTERNAL_ID_CONFLICT';
+
+  constructor(readonly field: string) {
+    super(`Another record already has this ${field}`);
+    this.name = 'ExternalIdConflictError';
+  }
+}
+
+// Columns written when a record is inserted or replaced, in insert order
+const DEMOGRAPHICS_COLUMNS = [
+  'id', 'partitionKey', 'law_firm', 'law_firm_approval', 'firstname', 'lastname', 'email', 'phone', 'sf_id', 'ml_id',
+  'law_firm_client_id', 'otherid', 'primarylawfirm', 'claimanttype', 'liensfinal',
+  'bankruptcy', 'bankruptcycleared', 'probate', 'probatecleared', 'pathway_opt_in_status',
+  'dod', 'serviceoptions', 'disbursementcount', 'milestonedisbursementid', 'paygroupid',
+  'honorific', 'genderidentity', 'pronouns', 'address1', 'address2', 'careof', 'city', 'state',
+  'region', 'zipcode', 'country', 'dob', 'ssn', 'claimantpersonalemail', 'claimantbusinessemail',
+  'claimantotheremail', 'claimantmobilephone', 'claimanthomephone', 'sms_opt_in',
+  'altclaimanttype', 'alternateclaimantsf_id', 'alternateclaimantml_id', 'alternateclaimantdob',
+  'alternateclaimantssn', 'alternateclaimantfirstname', 'alternateclaimantlastname',
+  'alternateclaimanthonorific', 'alternateclaimantaddress1', 'alternateclaimantaddress2',
+  'alternateclaimantcity', 'alternateclaimantstate', 'alternateclaimantregion',
+  'alternateclaimantzipcode', 'alternateclaimantcountry', 'alternateclaimantpersonalemail',
+  'alternateclaimantpersonalphonenumber', 'basegrossaward', 'eifawardamount', 'appealaward',
+  'totalgrossaward', 'commonbenefit', 'commonbenefittotal', 'commonbenefitattorneyshare',
+  'commonbenefitattorneyshareamount', 'commonbenefitclaimantshare', 'commonbenefitclaimantshareamount',
+  'attorneyfeecalcmethod', 'grosscontingencyfeeperc', 'grosscontingencyfeeamount',
+  'grossattorneyfeeperc', 'grossattorneyfeeamount', 'attorneyfeereduction', 'attorneycostreduction',
+  'attorneyfeeholdbackamount', 'totalnetattorneyfee', 'totalnetattorneycost', 'totaladmincost',
+  'othertotalliens', 'holdbackamount', 'otherholdbackamount', 'totalmedicalliens',
+  'previouspaymentstoclaimant', 'netclaimantpayment', 'generalcaseexpenses',
+  'attorney1name', 'attorney1feepercent', 'attorney1fees', 'attorney1costamount',
+  'attorney2name', 'attorney2feepercent', 'attorney2fees', 'attorney2costamount',
+  'attorney3name', 'attorney3feepercent', 'attorney3fees', 'attorney3costamount',
+  'attorney4name', 'attorney4feepercent', 'attorney4fees', 'attorney4costamount',
+  'attorney5name', 'attorney5feepercent', 'attorney5fees', 'attorney5costamount',
+  'attorney6name', 'attorney6feepercent', 'attorney6fees', 'attorney6costamount',
+  'attorney7name', 'attorney7feepercent', 'attorney7fees', 'attorney7costamount',
+  'attorney8name', 'attorney8feepercent', 'attorney8fees', 'attorney8costamount',
+  'attorney9name', 'attorney9feepercent', 'attorney9fees', 'attorney9costamount',
+  'attorney10name', 'attorney10feepercent', 'attorney10fees', 'attorney10costamount',
+  'vendorexpenseqsfadmin', 'vendorexpenseqsfadminname', 'vendorexpenseclaimsadmin',
+  'vendorexpenseclaimsadminname', 'vendorexpenselraholdback', 'vendorexpenselraholdbackname',
+  'vendorexpenselrafinal', 'vendorexpenselrafinalname', 'vendorexpensespecialmaster',
+  'vendorexpensespecialmastername', 'vendorexpenseeifappeal', 'vendorexpenseeifappealname',
+  'vendorexpensebankruptcycounsel', 'vendorexpensebankruptcycounselname', 'vendorexpenseprobatecounsel',
+  'vendorexpenseprobatecounselname', 'vendorother', 'vendorothername',
+  'medicallien1name', 'lienid1', 'lientype1', 'medicallien1',
+  'medicallien2name', 'lienid2', 'lientype2', 'medicallien2',
+  'medicallien3name', 'lienid3', 'lientype3', 'medicallien3',
+  'medicallien4name', 'lienid4', 'lientype4', 'medicallien4',
+  'medicallien5name', 'lienid5', 'lientype5', 'medicallien5',
+  'medicallien6name', 'lienid6', 'lientype6', 'medicallien6',
+  'otherlien1name', 'otherlien1amount', 'otherlien2name', 'otherlien2amount',
+  'attorney1name_cost', 'attorney1_costdetailname', 'attorney1_costdetailamount',
+  'attorney2name_cost', 'attorney2_costdetailname', 'attorney2_costdetailamount',
+  'attorney3name_cost', 'attorney3_costdetailname', 'attorney3_costdetailamount',
+  'attorney4name_cost', 'attorney4_costdetailname', 'attorney4_costdetailamount',
+  'attorney5name_cost', 'attorney5_costdetailname', 'attorney5_costdetailamount',
+  'attorney6name_cost', 'attorney6_costdetailname', 'attorney6_costdetailamount',
+  'attorney7name_cost', 'attorney7_costdetailname', 'attorney7_costdetailamount',
+  'attorney8name_cost', 'attorney8_costdetailname', 'attorney8_costdetailamount',
+  'attorney9name_cost', 'attorney9_costdetailname', 'attorney9_costdetailamount',
+  'attorney10name_cost', 'attorney10_costdetailname', 'attorney10_costdetailamount',
+  'lawfirmnote', 'created_at', 'updated_at', 'created_by', 'status',
+];
 
 interface DemographicsFilters {
-  claimanttype?: string;
-  status?: string;
   search?: string;
+  where?: DemographicsFilterClause[];
 }
 
+// How each listing field kind is bound, compared and carried in a cursor
+const QUERY_FIELD_SQL: Record<DemographicsQueryFieldKind, { type: sql.ISqlType; cast: (param: string) => string; text: (column: string) => string }> = {
+  string: { type: sql.NVarChar(255), cast: param => param, text: column => column },
+  number: { type: sql.VarChar(40), cast: param => `CAST(${param} AS DECIMAL(19,4))`, text: column => `CONVERT(VARCHAR(40), ${column})` },
+  // Text keeps full DATETIME2 precision, which JS dates would drop
+  date: { type: sql.VarChar(27), cast: param => `CAST(${param} AS DATETIME2(7))`, text: column => `CONVERT(VARCHAR(27), ${column}, 121)` },
+};
+
 class DatabaseService {
   private pool: sql.ConnectionPool | null = null;
-  private readonly config: sql.config;
-
-  constructor() {
-    this.config = {
-      server: process.env.DB_SERVER!,
-      database: process.env.DB_DATABASE!,
-      user: process.env.DB_USER!,
-      password: process.env.DB_PASSWORD!,
-      port: parseInt(process.env.DB_PORT || '1433'),
-      options: {
-        encrypt: true,
-        trustServerCertificate: process.env.NODE_ENV === 'development',
-        enableArithAbort: true,
-        connectTimeout: 30000,
-        requestTimeout: 30000,
-      },
-      pool: {
-        max: 20,
-        min: 5,
-        idleTimeoutMillis: 300000, // 5 minutes
-        acquireTimeoutMillis: 60000, // 1 minute
-      },
-    };
-  }
 
   async getPool(): Promise<sql.ConnectionPool> {
     if (!this.pool || !this.pool.connected) {
-      this.pool = new sql.ConnectionPool(this.config);
+      this.pool = new sql.ConnectionPool(databaseConfig);
       await this.pool.connect();
       logger.info('Database connection established');
     }
     return this.pool;
   }
 
-  // getDemographicsByLawFirm with filtering
-  async getDemographicsByLawFirm(
+  /**
+   * One page of a firm's demographics in `sort` order (newest first by default).
+   * Pages are addressed by keyset cursors on the sort keys plus id, which stay
+   * fast at any depth and do not skip or repeat rows when records are added
+   * between requests; `offset` is still accepted for older clients.
+   */
+  async getDemographicsPage(
     lawFirm: string,
-    limit: number = 50,
-    offset: number = 0,
-    filters?: DemographicsFilters
-  ): Promise<Demographics[]> {
+    options: {
+      limit: number;
+      offset?: number;
+      cursor?: DemographicsCursor;
+      sort?: DemographicsSortKey[];
+      includeTotal?: 'exact' | 'estimate';
+      filters?: DemographicsFilters;
+    }
+  ): Promise<DemographicsPage> {
     const pool = await this.getPool();
     const request = pool.request();
+    const { limit, offset = 0, cursor, sort = DEFAULT_DEMOGRAPHICS_SORT } = options;
+    const direction = cursor?.direction ?? 'next';
 
-    let whereClause = 'WHERE partitionKey = @partitionKey';
-    let orderClause = 'ORDER BY created_at DESC';
+    // Walking backwards reads the reversed order, then flips the rows back
+    const keys = sort.map(key => ({
+      column: key.field,
+      kind: DEMOGRAPHICS_QUERY_FIELDS[key.field],
+      descending: (key.direction === 'desc') !== (direction === 'prev'),
+    }));
+    const idDescending = keys[keys.length - 1].descending;
 
-    request.input('partitionKey', sql.VarChar(75), lawFirm);
-    request.input('limit', sql.Int, limit);
+    let whereClause = this.demographicsFilterClause(request, lawFirm, options.filters);
+    const orderClause = 'ORDER BY ' + [
+      ...keys.map(key => `${key.column} ${key.descending ? 'DESC' : 'ASC'}`),
+      `id ${idDescending ? 'DESC' : 'ASC'}`,
+    ].join(', ');
+    let pageClause = 'OFFSET @offset ROWS FETCH NEXT @fetch ROWS ONLY';
+
+    // One extra row tells whether another page follows
+    request.input('fetch', sql.Int, limit + 1);
     request.input('offset', sql.Int, offset);
 
-    // Add filters
-    if (filters?.claimanttype) {
-      whereClause += ' AND claimanttype = @claimanttype';
-      request.input('claimanttype', sql.VarChar(35), filters.claimanttype);
-    }
+    if (cursor) {
+      // Rows after the cursor: greater on the first differing key. NULLs sort
+      // first ascending and last descending, as SQL Server orders them.
+      const equal: string[] = [];
+      const alternatives: string[] = [];
+      keys.forEach((key, i) => {
+        const value = cursor.keys[i];
+        const param = `@cursorKey${i}`;
+        request.input(`cursorKey${i}`, QUERY_FIELD_SQL[key.kind].type, value);
+        const bound = QUERY_FIELD_SQL[key.kind].cast(param);
 
-    if (filters?.status) {
-      whereClause += ' AND status = @status';
-      request.input('status', sql.VarChar(20), filters.status);
-    }
+        const after = value === null
+          ? (key.descending ? '1 = 0' : `${key.column} IS NOT NULL`)
+          : key.descending
+            ? `(${key.column} < ${bound} OR ${key.column} IS NULL)`
+            : `${key.column} > ${bound}`;
+        alternatives.push([...equal, after].join(' AND '));
+        equal.push(value === null ? `${key.column} IS NULL` : `${key.column} = ${bound}`);
+      });
+      alternatives.push([...equal, `id ${idDescending ? '<' : '>'} @cursorId`].join(' AND '));
+      request.input('cursorId', sql.UniqueIdentifier, cursor.id);
 
-    if (filters?.search) {
-      whereClause += ' AND (firstname LIKE @search OR lastname LIKE @search OR email LIKE @search)';
-      request.input('search', sql.VarChar(255), `%${filters.search}%`);
+      whereClause += `\n        AND ((${alternatives.join(')\n          OR (')}))`;
+      pageClause = 'OFFSET 0 ROWS FETCH NEXT @fetch ROWS ONLY';
     }
 
+    const cursorColumns = keys.map((key, i) => `${QUERY_FIELD_SQL[key.kind].text(key.column)} AS cursor_key_${i}`);
     const query = `
-      SELECT * FROM Demographics 
+      SELECT *, ${cursorColumns.join(', ')}
+      FROM Demographics
       ${whereClause}
       ${orderClause}
-      OFFSET @offset ROWS
-      FETCH NEXT @limit ROWS ONLY
+      ${pageClause}
     `;
 
     const result = await request.query(query);
-    return result.recordset as Demographics[];
+    const hasMore = result.recordset.length > limit;
+    const rows = result.recordset.slice(0, limit);
+    if (direction === 'prev') rows.reverse();
+
+    const sortSpec = demographicsQueryService.sortSpec(sort);
+    const positionOf = (row: any, rowDirection: 'next' | 'prev'): string =>
+      pageCursorService.encode({
+        sort: sortSpec,
+        keys: keys.map((_, i) => row[`cursor_key_${i}`] ?? null),
+        id: row.id,
+        direction: rowDirection,
+      });
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+
+    // Walking backwards, the rows after this page are the ones we came from
+    const page: DemographicsPage =
+      direction === 'next'
+        ? {
+            records: [],
+            has_more: hasMore,
+            next_cursor: hasMore ? positionOf(last, 'next') : null,
+            prev_cursor: first && (cursor || offset > 0) ? positionOf(first, 'prev') : null,
+          }
+        : {
+            records: [],
+            has_more: Boolean(last),
+            next_cursor: last ? positionOf(last, 'next') : null,
+            prev_cursor: hasMore ? positionOf(first, 'prev') : null,
+          };
+
+    const collections = await this.loadCollections(rows.map(row => row.id));
+    page.records = await Promise.all(
+      rows.map(async row => {
+        const record = { ...row };
+        keys.forEach((_, i) => delete record[`cursor_key_${i}`]);
+        return this.withCollections(await this.decryptDemographic(record), collections.get(row.id));
+      })
+    );
+
+    if (options.includeTotal) {
+      const hasFilters = Boolean(options.filters?.search || options.filters?.where?.length);
+      const estimate = options.includeTotal === 'estimate' && !hasFilters
+        ? await this.estimateDemographicsCount(lawFirm)
+        : null;
+      page.total = estimate ?? (await this.countDemographics(lawFirm, options.filters));
+      page.total_estimated = estimate !== null;
+    }
+
+    return page;
   }
 
-  // Update demographics method
-  async updateDemographic(id: string, demographic: Partial<Demographics>): Promise<void> {
+  /**
+   * Every record of the firm matching `filters`, in `sort` order, decrypted and
+   * with their collections, `batchSize` at a time. Rows are streamed from a
+   * single query as the consumer pulls batches, so memory stays bounded by the
+   * batch however many records match.
+   */
+  async *streamDemographics(
+    lawFirm: string,
+    options: { sort?: DemographicsSortKey[]; filters?: DemographicsFilters; batchSize?: number } = {}
+  ): AsyncGenerator<Demographics[]> {
     const pool = await this.getPool();
     const request = pool.request();
+    const { sort = DEFAULT_DEMOGRAPHICS_SORT, batchSize = 500 } = options;
 
-    // Build dynamic update query
-    const updateFields = Object.keys(demographic)
-      .filter(key => key !== 'id' && key !== 'partitionKey' && key !== 'created_at')
-      .map(key => `${key} = @${key}`)
-      .join(', ');
+    const whereClause = this.demographicsFilterClause(request, lawFirm, options.filters);
+    const idDescending = sort[sort.length - 1].direction === 'desc';
+    const orderClause = 'ORDER BY ' + [
+      ...sort.map(key => `${key.field} ${key.direction === 'desc' ? 'DESC' : 'ASC'}`),
+      `id ${idDescending ? 'DESC' : 'ASC'}`,
+    ].join(', ');
 
-    if (!updateFields) {
-      throw new Error('No fields to update');
+    const rows = request.toReadableStream({ highWaterMark: batchSize });
+    request.query(`SELECT * FROM Demographics ${whereClause} ${orderClause}`).catch(() => {
+      // Surfaced through the stream's error event
+    });
+
+    const toRecords = async (batch: any[]): Promise<Demographics[]> => {
+      const collections = await this.loadCollections(batch.map(row => row.id));
+      return Promise.all(
+        batch.map(async row => this.withCollections(await this.decryptDemographic(row), collections.get(row.id)))
+      );
+    };
+
+    let batch: any[] = [];
+    let finished = false;
+    try {
+      for await (const row of rows) {
+        batch.push(row);
+        if (batch.length === batchSize) {
+          yield await toRecords(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield await toRecords(batch);
+      }
+      finished = true;
+    } finally {
+      // The consumer stopped early; stop SQL Server sending the rest
+      if (!finished) request.cancel();
     }
+  }
 
-    const query = `
-      UPDATE Demographics 
-      SET ${updateFields}
-      WHERE id = @id
-    `;
+  /**
+   * WHERE clause for a firm's demographics listing; binds its parameters on
+   * `request`. Columns come from the DEMOGRAPHICS_QUERY_FIELDS whitelist (checked
+   * again here) and every value is a parameter.
+   */
+  private demographicsFilterClause(request: sql.Request, lawFirm: string, filters?: DemographicsFilters): string {
+    let whereClause = 'WHERE partitionKey = @partitionKey';
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+
+    (filters?.where ?? []).forEach((clause, i) => {
+      if (!Object.prototype.hasOwnProperty.call(DEMOGRAPHICS_QUERY_FIELDS, clause.field)) {
+        throw new Error(`Field cannot be queried: ${clause.field}`);
+      }
+      const column = clause.field;
+      const fieldSql = QUERY_FIELD_SQL[DEMOGRAPHICS_QUERY_FIELDS[clause.field]];
+      const params = clause.operator === 'is_null' ? [] : clause.values.map((value, j) => {
+        request.input(`filter${i}_${j}`, fieldSql.type, value);
+        return fieldSql.cast(`@filter${i}_${j}`);
+      });
+
+      switch (clause.operator) {
+        case 'eq':
+          whereClause += ` AND ${column} = ${params[0]}`;
+          break;
+        case 'in':
+          whereClause += ` AND ${column} IN (${params.join(', ')})`;
+          break;
+        case 'gte':
+          whereClause += ` AND ${column} >= ${params[0]}`;
+          break;
+        case 'lte':
+          whereClause += ` AND ${column} <= ${params[0]}`;
+          break;
+        case 'like':
+          whereClause += ` AND ${column} LIKE ${params[0]}`;
+          break;
+        case 'is_null':
+          whereClause += clause.values[0] === 'true' ? ` AND ${column} IS NULL` : ` AND ${column} IS NOT NULL`;
+          break;
+      }
+    });
+
+    if (filters?.search) {
+      whereClause += ' AND (firstname LIKE @search OR lastname LIKE @search OR email LIKE @search)';
+      request.input('search', sql.VarChar(255), `%${filters.search}%`);
+    }
+
+    return whereClause;
+  }
+
+  private async countDemographics(lawFirm: string, filters?: DemographicsFilters): Promise<number> {
+    const pool = await this.getPool();
+    const request = pool.request();
+    const whereClause = this.demographicsFilterClause(request, lawFirm, filters);
+
+    const result = await request.query(`SELECT COUNT_BIG(*) AS total FROM Demographics ${whereClause}`);
+    return Number(result.recordset[0].total);
+  }
 
+  /**
+   * Row count for a firm from the partitionKey index histogram, without
+   * touching the table. As fresh as the statistics; null when none exist.
+   */
+  private async estimateDemographicsCount(lawFirm: string): Promise<number | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.NVarChar(75), lawFirm)
+      .query(`
+        SELECT TOP 1
+          CASE WHEN CONVERT(NVARCHAR(75), h.range_high_key) = @partitionKey
+            THEN h.equal_rows ELSE h.average_range_rows END AS estimate
+        FROM sys.stats s
+        CROSS APPLY sys.dm_db_stats_histogram(s.object_id, s.stats_id) h
+        WHERE s.object_id = OBJECT_ID(N'dbo.Demographics')
+          AND s.name = 'IX_Demographics_PartitionKey'
+          AND CONVERT(NVARCHAR(75), h.range_high_key) >= @partitionKey
+        ORDER BY h.step_number
+      `);
+
+    const estimate = result.recordset[0]?.estimate;
+    return estimate === undefined || estimate === null ? null : Math.round(Number(estimate));
+  }
+
+  /**
+   * Update demographics method. When `expectedUpdatedAt` is given the update only
+   * applies if the row has not changed since it was read (optimistic concurrency).
+   * The field-level diff is written to the audit log in the same transaction.
+   * Returns false when no row matched.
+   */
+  async updateDemographic(
+    id: string,
+    demographic: Partial<Demographics>,
+    options: { lawFirm?: string; expectedUpdatedAt?: Date | string; audit?: AuditContext } = {}
+  ): Promise<boolean> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const current = await this.selectDemographicForUpdate(transaction, id, options.lawFirm);
+      if (
+        !current ||
+        (options.expectedUpdatedAt && current.updated_at.getTime() !== new Date(options.expectedUpdatedAt).getTime())
+      ) {
+        await transaction.rollback();
+        return false;
+      }
+
+      const changes = await this.writeDemographicChanges(transaction, current, demographic);
+      if (!changes) {
+        throw new Error('No fields to update');
+      }
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: current.partitionKey,
+        entityId: id,
+        action: 'update',
+        changes,
+        audit: options.audit,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw this.externalIdConflict(error);
+    }
+
+    logger.logDatabaseEvent('UPDATE', 'Demographics', id);
+    return true;
+  }
+
+  /**
+   * Writes `demographic` over the locked row `current` inside `transaction`,
+   * refreshing its match keys. Returns the field-level diff, or null when the
+   * input holds nothing to write.
+   */
+  private async writeDemographicChanges(
+    transaction: sql.Transaction,
+    current: any,
+    demographic: Partial<Demographics>
+  ): Promise<FieldDiff | null> {
+    const id = current.id;
+    const currentCollections = (await this.loadCollections([id], transaction)).get(id);
+    const before = { ...(await this.decryptDemographic(current)), ...currentCollections };
+
+    // Collections (and legacy flat fields folded into them) go to the child tables
+    const { record: changes, collections } = demographicsCollectionsService.split(demographic, currentCollections);
+    const updateKeys = Object.keys(changes)
+      .filter(key => key !== 'id' && key !== 'partitionKey' && key !== 'created_at');
+
+    if (updateKeys.length === 0 && Object.keys(collections).length === 0) {
+      return null;
+    }
+
+    const encrypted = await fieldEncryptionService.encryptFields(changes, ENCRYPTED_DEMOGRAPHICS_FIELDS);
+    const request = new sql.Request(transaction);
     request.input('id', sql.UniqueIdentifier, id);
 
     // Add parameters for each field
-    Object.entries(demographic).forEach(([key, value]) => {
+    Object.entries(encrypted).forEach(([key, value]) => {
       if (key !== 'id' && key !== 'partitionKey' && key !== 'created_at') {
-        if (key.includes('date') || key.includes('dob') || key.includes('dod')) {
+        if ((ENCRYPTED_DEMOGRAPHICS_FIELDS as readonly string[]).includes(key)) {
+          request.input(key, sql.NVarChar(512), value ?? null);
+        } else if (key.includes('date') || key.includes('dod')) {
           request.input(key, sql.DateTime2, value ? new Date(value as string) : null);
         } else if (typeof value === 'number') {
           request.input(key, sql.Decimal(15, 4), value);
@@ -126,31 +549,80 @@ class DatabaseService {
       }
     });
 
-    await request.query(query);
-    
-    logger.logDatabaseEvent('UPDATE', 'Demographics', id);
+    if (updateKeys.length > 0) {
+      await request.query(`
+        UPDATE Demographics 
+        SET ${updateKeys.map(key => `${key} = @${key}`).join(', ')}
+        WHERE id = @id
+      `);
+    }
+    await this.replaceCollections(transaction, id, collections);
+
+    if (MATCH_KEY_SOURCE_FIELDS.some(field => field in changes)) {
+      await this.writeMatchKeys(transaction, id, { ...before, ...changes });
+    }
+
+    return this.diffDemographic(before, { ...before, ...changes, ...collections });
+  }
+
+  /**
+   * Stores the duplicate detection blind indexes for a record's plaintext values.
+   */
+  private async writeMatchKeys(
+    connection: sql.Transaction | sql.ConnectionPool,
+    id: string,
+    record: Record<string, any>
+  ): Promise<void> {
+    const keys = await claimantMatchService.matchKeys(record);
+    await new sql.Request(connection as sql.Transaction)
+      .input('id', sql.UniqueIdentifier, id)
+      .input('ssn_match', sql.NVarChar(64), keys.ssn_match)
+      .input('name_dob_match', sql.NVarChar(64), keys.name_dob_match)
+      .query('UPDATE Demographics SET ssn_match = @ssn_match, name_dob_match = @name_dob_match WHERE id = @id');
   }
 
   // Soft delete method
-  async softDeleteDemographic(id: string, lawFirm: string): Promise<void> {
+  async softDeleteDemographic(id: string, lawFirm: string, audit?: AuditContext): Promise<void> {
     const pool = await this.getPool();
-    const request = pool.request();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
 
-    await request
-      .input('id', sql.UniqueIdentifier, id)
-      .input('partitionKey', sql.VarChar(75), lawFirm)
-      .input('updated_at', sql.DateTime2, new Date())
-      .query(`
-        UPDATE Demographics 
-        SET status = 'deleted', updated_at = @updated_at
-        WHERE id = @id AND partitionKey = @partitionKey
-      `);
+    try {
+      const current = await this.selectDemographicForUpdate(transaction, id, lawFirm);
+      if (!current) {
+        await transaction.rollback();
+        return;
+      }
+
+      await new sql.Request(transaction)
+        .input('id', sql.UniqueIdentifier, id)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('updated_at', sql.DateTime2, new Date())
+        .query(`
+          UPDATE Demographics 
+          SET status = 'deleted', updated_at = @updated_at
+          WHERE id = @id AND partitionKey = @partitionKey
+        `);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: lawFirm,
+        entityId: id,
+        action: 'delete',
+        changes: { status: { from: current.status ?? null, to: 'deleted' } },
+        audit,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
 
     logger.logDatabaseEvent('SOFT_DELETE', 'Demographics', id);
   }
 
   // Batch operations
-  async createDemographicsBatch(demographics: Demographics[]): Promise<void> {
+  async createDemographicsBatch(demographics: Demographics[], audit?: AuditContext): Promise<void> {
     const pool = await this.getPool();
     
     // Use transaction for batch insert
@@ -158,9 +630,19 @@ class DatabaseService {
     await transaction.begin();
 
     try {
-      for (const demographic of demographics) {
+      for (const input of demographics) {
+        const { record: demographic, collections } = demographicsCollectionsService.split(input);
         const request = new sql.Request(transaction);
         await this.buildCreateDemographicRequest(request, demographic);
+        await this.replaceCollections(transaction, demographic.id, collections);
+        await this.writeMatchKeys(transaction, demographic.id, demographic);
+        await this.insertAuditEntry(transaction, {
+          partitionKey: demographic.partitionKey,
+          entityId: demographic.id,
+          action: 'create',
+          changes: this.diffDemographic({}, { ...demographic, ...collections }),
+          audit,
+        });
       }
 
       await transaction.commit();
@@ -172,145 +654,25 @@ class DatabaseService {
         error,
         batchSize: demographics.length 
       });
-      throw error;
+      throw this.externalIdConflict(error);
     }
   }
 
   private async buildCreateDemographicRequest(request: sql.Request, demographic: Demographics): Promise<void> {
-    // Use the same parameter logic from the original createDemographic method
-    // This is a helper to avoid code duplication
-    
-    const query = `INSERT INTO Demographics (/* all fields */) VALUES (/* all parameters */)`;
-    
-    // Add all parameters (same as original method)
-    request.input('id', sql.UniqueIdentifier, demographic.id);
-    request.input('partitionKey', sql.VarChar(75), demographic.partitionKey);
-    // ... add all other parameters as in the original method
-    
-    await request.query(query);
+    await this.bindDemographicInputs(request, demographic);
+    await request.query(`
+      INSERT INTO Demographics (${DEMOGRAPHICS_COLUMNS.join(', ')})
+      VALUES (${DEMOGRAPHICS_COLUMNS.map(column => `@${column}`).join(', ')})
+    `);
   }
 
-  // Demographics operations
-  async createDemographic(demographic: Demographics): Promise<void> {
-    const pool = await this.getPool();
-    const request = pool.request();
-
-    // Create parameterized query with all the fields
-    const query = `
-      INSERT INTO Demographics (
-        id, partitionKey, law_firm, law_firm_approval, firstname, lastname, email, phone, sf_id, ml_id,
-        law_firm_client_id, otherid, primarylawfirm, claimanttype, liensfinal,
-        bankruptcy, bankruptcycleared, probate, probatecleared, pathway_opt_in_status,
-        dod, serviceoptions, disbursementcount, milestonedisbursementid, paygroupid,
-        honorific, genderidentity, pronouns, address1, address2, careof, city, state,
-        region, zipcode, country, dob, ssn, claimantpersonalemail, claimantbusinessemail,
-        claimantotheremail, claimantmobilephone, claimanthomephone, sms_opt_in,
-        altclaimanttype, alternateclaimantsf_id, alternateclaimantml_id, alternateclaimantdob,
-        alternateclaimantssn, alternateclaimantfirstname, alternateclaimantlastname,
-        alternateclaimanthonorific, alternateclaimantaddress1, alternateclaimantaddress2,
-        alternateclaimantcity, alternateclaimantstate, alternateclaimantregion,
-        alternateclaimantzipcode, alternateclaimantcountry, alternateclaimantpersonalemail,
-        alternateclaimantpersonalphonenumber, basegrossaward, eifawardamount, appealaward,
-        totalgrossaward, commonbenefit, commonbenefittotal, commonbenefitattorneyshare,
-        commonbenefitattorneyshareamount, commonbenefitclaimantshare, commonbenefitclaimantshareamount,
-        attorneyfeecalcmethod, grosscontingencyfeeperc, grosscontingencyfeeamount,
-        grossattorneyfeeperc, grossattorneyfeeamount, attorneyfeereduction, attorneycostreduction,
-        attorneyfeeholdbackamount, totalnetattorneyfee, totalnetattorneycost, totaladmincost,
-        othertotalliens, holdbackamount, otherholdbackamount, totalmedicalliens,
-        previouspaymentstoclaimant, netclaimantpayment, generalcaseexpenses,
-        attorney1name, attorney1feepercent, attorney1fees, attorney1costamount,
-        attorney2name, attorney2feepercent, attorney2fees, attorney2costamount,
-        attorney3name, attorney3feepercent, attorney3fees, attorney3costamount,
-        attorney4name, attorney4feepercent, attorney4fees, attorney4costamount,
-        attorney5name, attorney5feepercent, attorney5fees, attorney5costamount,
-        attorney6name, attorney6feepercent, attorney6fees, attorney6costamount,
-        attorney7name, attorney7feepercent, attorney7fees, attorney7costamount,
-        attorney8name, attorney8feepercent, attorney8fees, attorney8costamount,
-        attorney9name, attorney9feepercent, attorney9fees, attorney9costamount,
-        attorney10name, attorney10feepercent, attorney10fees, attorney10costamount,
-        vendorexpenseqsfadmin, vendorexpenseqsfadminname, vendorexpenseclaimsadmin,
-        vendorexpenseclaimsadminname, vendorexpenselraholdback, vendorexpenselraholdbackname,
-        vendorexpenselrafinal, vendorexpenselrafinalname, vendorexpensespecialmaster,
-        vendorexpensespecialmastername, vendorexpenseeifappeal, vendorexpenseeifappealname,
-        vendorexpensebankruptcycounsel, vendorexpensebankruptcycounselname, vendorexpenseprobatecounsel,
-        vendorexpenseprobatecounselname, vendorother, vendorothername,
-        medicallien1name, lienid1, lientype1, medicallien1,
-        medicallien2name, lienid2, lientype2, medicallien2,
-        medicallien3name, lienid3, lientype3, medicallien3,
-        medicallien4name, lienid4, lientype4, medicallien4,
-        medicallien5name, lienid5, lientype5, medicallien5,
-        medicallien6name, lienid6, lientype6, medicallien6,
-        otherlien1name, otherlien1amount, otherlien2name, otherlien2amount,
-        attorney1name_cost, attorney1_costdetailname, attorney1_costdetailamount,
-        attorney2name_cost, attorney2_costdetailname, attorney2_costdetailamount,
-        attorney3name_cost, attorney3_costdetailname, attorney3_costdetailamount,
-        attorney4name_cost, attorney4_costdetailname, attorney4_costdetailamount,
-        attorney5name_cost, attorney5_costdetailname, attorney5_costdetailamount,
-        attorney6name_cost, attorney6_costdetailname, attorney6_costdetailamount,
-        attorney7name_cost, attorney7_costdetailname, attorney7_costdetailamount,
-        attorney8name_cost, attorney8_costdetailname, attorney8_costdetailamount,
-        attorney9name_cost, attorney9_costdetailname, attorney9_costdetailamount,
-        attorney10name_cost, attorney10_costdetailname, attorney10_costdetailamount,
-        lawfirmnote, created_at, updated_at, created_by, status
-      ) VALUES (
-        @id, @partitionKey, @law_firm, @law_firm_approval, @firstname, @lastname, @email, @phone, @sf_id, @ml_id,
-        @law_firm_client_id, @otherid, @primarylawfirm, @claimanttype, @liensfinal,
-        @bankruptcy, @bankruptcycleared, @probate, @probatecleared, @pathway_opt_in_status,
-        @dod, @serviceoptions, @disbursementcount, @milestonedisbursementid, @paygroupid,
-        @honorific, @genderidentity, @pronouns, @address1, @address2, @careof, @city, @state,
-        @region, @zipcode, @country, @dob, @ssn, @claimantpersonalemail, @claimantbusinessemail,
-        @claimantotheremail, @claimantmobilephone, @claimanthomephone, @sms_opt_in,
-        @altclaimanttype, @alternateclaimantsf_id, @alternateclaimantml_id, @alternateclaimantdob,
-        @alternateclaimantssn, @alternateclaimantfirstname, @alternateclaimantlastname,
-        @alternateclaimanthonorific, @alternateclaimantaddress1, @alternateclaimantaddress2,
-        @alternateclaimantcity, @alternateclaimantstate, @alternateclaimantregion,
-        @alternateclaimantzipcode, @alternateclaimantcountry, @alternateclaimantpersonalemail,
-        @alternateclaimantpersonalphonenumber, @basegrossaward, @eifawardamount, @appealaward,
-        @totalgrossaward, @commonbenefit, @commonbenefittotal, @commonbenefitattorneyshare,
-        @commonbenefitattorneyshareamount, @commonbenefitclaimantshare, @commonbenefitclaimantshareamount,
-        @attorneyfeecalcmethod, @grosscontingencyfeeperc, @grosscontingencyfeeamount,
-        @grossattorneyfeeperc, @grossattorneyfeeamount, @attorneyfeereduction, @attorneycostreduction,
-        @attorneyfeeholdbackamount, @totalnetattorneyfee, @totalnetattorneycost, @totaladmincost,
-        @othertotalliens, @holdbackamount, @otherholdbackamount, @totalmedicalliens,
-        @previouspaymentstoclaimant, @netclaimantpayment, @generalcaseexpenses,
-        @attorney1name, @attorney1feepercent, @attorney1fees, @attorney1costamount,
-        @attorney2name, @attorney2feepercent, @attorney2fees, @attorney2costamount,
-        @attorney3name, @attorney3feepercent, @attorney3fees, @attorney3costamount,
-        @attorney4name, @attorney4feepercent, @attorney4fees, @attorney4costamount,
-        @attorney5name, @attorney5feepercent, @attorney5fees, @attorney5costamount,
-        @attorney6name, @attorney6feepercent, @attorney6fees, @attorney6costamount,
-        @attorney7name, @attorney7feepercent, @attorney7fees, @attorney7costamount,
-        @attorney8name, @attorney8feepercent, @attorney8fees, @attorney8costamount,
-        @attorney9name, @attorney9feepercent, @attorney9fees, @attorney9costamount,
-        @attorney10name, @attorney10feepercent, @attorney10fees, @attorney10costamount,
-        @vendorexpenseqsfadmin, @vendorexpenseqsfadminname, @vendorexpenseclaimsadmin,
-        @vendorexpenseclaimsadminname, @vendorexpenselraholdback, @vendorexpenselraholdbackname,
-        @vendorexpenselrafinal, @vendorexpenselrafinalname, @vendorexpensespecialmaster,
-        @vendorexpensespecialmastername, @vendorexpenseeifappeal, @vendorexpenseeifappealname,
-        @vendorexpensebankruptcycounsel, @vendorexpensebankruptcycounselname, @vendorexpenseprobatecounsel,
-        @vendorexpenseprobatecounselname, @vendorother, @vendorothername,
-        @medicallien1name, @lienid1, @lientype1, @medicallien1,
-        @medicallien2name, @lienid2, @lientype2, @medicallien2,
-        @medicallien3name, @lienid3, @lientype3, @medicallien3,
-        @medicallien4name, @lienid4, @lientype4, @medicallien4,
-        @medicallien5name, @lienid5, @lientype5, @medicallien5,
-        @medicallien6name, @lienid6, @lientype6, @medicallien6,
-        @otherlien1name, @otherlien1amount, @otherlien2name, @otherlien2amount,
-        @attorney1name_cost, @attorney1_costdetailname, @attorney1_costdetailamount,
-        @attorney2name_cost, @attorney2_costdetailname, @attorney2_costdetailamount,
-        @attorney3name_cost, @attorney3_costdetailname, @attorney3_costdetailamount,
-        @attorney4name_cost, @attorney4_costdetailname, @attorney4_costdetailamount,
-        @attorney5name_cost, @attorney5_costdetailname, @attorney5_costdetailamount,
-        @attorney6name_cost, @attorney6_costdetailname, @attorney6_costdetailamount,
-        @attorney7name_cost, @attorney7_costdetailname, @attorney7_costdetailamount,
-        @attorney8name_cost, @attorney8_costdetailname, @attorney8_costdetailamount,
-        @attorney9name_cost, @attorney9_costdetailname, @attorney9_costdetailamount,
-        @attorney10name_cost, @attorney10_costdetailname, @attorney10_costdetailamount,
-        @lawfirmnote, @created_at, @updated_at, @created_by, @status
-      )
-    `;
+  /**
+   * Binds every column of DEMOGRAPHICS_COLUMNS as a parameter of the same name,
+   * encrypting PII.
+   */
+  private async bindDemographicInputs(request: sql.Request, demographic: Demographics): Promise<void> {
+    const encrypted = await fieldEncryptionService.encryptFields(demographic, ENCRYPTED_DEMOGRAPHICS_FIELDS);
 
-    // Add all parameters to the request (keeping your existing parameter code)
     request.input('id', sql.UniqueIdentifier, demographic.id);
     request.input('partitionKey', sql.VarChar(75), demographic.partitionKey);
     request.input('law_firm', sql.VarChar(55), demographic.law_firm);
@@ -347,8 +709,8 @@ class DatabaseService {
     request.input('region', sql.VarChar(50), demographic.region);
     request.input('zipcode', sql.VarChar(25), demographic.zipcode);
     request.input('country', sql.VarChar(55), demographic.country);
-    request.input('dob', sql.DateTime2, demographic.dob ? new Date(demographic.dob) : null);
-    request.input('ssn', sql.VarChar(11), demographic.ssn);
+    request.input('dob', sql.NVarChar(512), encrypted.dob ?? null);
+    request.input('ssn', sql.NVarChar(512), encrypted.ssn ?? null);
     request.input('claimantpersonalemail', sql.VarChar(75), demographic.claimantpersonalemail);
     request.input('claimantbusinessemail', sql.VarChar(75), demographic.claimantbusinessemail);
     request.input('claimantotheremail', sql.VarChar(75), demographic.claimantotheremail);
@@ -358,8 +720,8 @@ class DatabaseService {
     request.input('altclaimanttype', sql.VarChar(50), demographic.altclaimanttype);
     request.input('alternateclaimantsf_id', sql.VarChar(50), demographic.alternateclaimantsf_id);
     request.input('alternateclaimantml_id', sql.VarChar(50), demographic.alternateclaimantml_id);
-    request.input('alternateclaimantdob', sql.VarChar(10), demographic.alternateclaimantdob);
-    request.input('alternateclaimantssn', sql.VarChar(11), demographic.alternateclaimantssn);
+    request.input('alternateclaimantdob', sql.NVarChar(512), encrypted.alternateclaimantdob ?? null);
+    request.input('alternateclaimantssn', sql.NVarChar(512), encrypted.alternateclaimantssn ?? null);
     request.input('alternateclaimantfirstname', sql.VarChar(55), demographic.alternateclaimantfirstname);
     request.input('alternateclaimantlastname', sql.VarChar(75), demographic.alternateclaimantlastname);
     request.input('alternateclaimanthonorific', sql.VarChar(10), demographic.alternateclaimanthonorific);
@@ -472,8 +834,110 @@ class DatabaseService {
     request.input('updated_at', sql.DateTime2, new Date(demographic.updated_at));
     request.input('created_by', sql.UniqueIdentifier, demographic.created_by);
     request.input('status', sql.VarChar(20), demographic.status);
+  }
 
-    await request.query(query);
+  // Demographics operations
+  async createDemographic(input: Demographics, audit?: AuditContext): Promise<void> {
+    // Attorneys, liens and cost details are stored in child tables; the legacy
+    // flat columns are left empty
+    const { record: demographic, collections } = demographicsCollectionsService.split(input);
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+
+    await transaction.begin();
+    try {
+      await this.buildCreateDemographicRequest(new sql.Request(transaction), demographic);
+      await this.replaceCollections(transaction, demographic.id, collections);
+      await this.writeMatchKeys(transaction, demographic.id, demographic);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: demographic.partitionKey,
+        entityId: demographic.id,
+        action: 'create',
+        changes: this.diffDemographic({}, { ...demographic, ...collections }),
+        audit,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw this.externalIdConflict(error);
+    }
+  }
+
+  /**
+   * Inserts `input`, or replaces the firm's live record with the same
+   * `idType` value, in one MERGE statement. HOLDLOCK keeps the key range
+   * locked between the match and the write, so concurrent upserts of the same
+   * identifier serialize instead of both inserting. A replaced record keeps its
+   * id, created_at and created_by; collections missing from `input` are cleared.
+   */
+  async upsertDemographicByExternalId(
+    idType: ExternalIdType,
+    input: Demographics,
+    audit?: AuditContext
+  ): Promise<{ id: string; created: boolean; changes: FieldDiff }> {
+    const { record: demographic, collections: provided } = demographicsCollectionsService.split(input);
+    const collections = { ...this.emptyCollections(), ...provided };
+    const externalId = demographic[idType];
+    if (!externalId) {
+      throw new Error(`${idType} is required to upsert`);
+    }
+
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const request = new sql.Request(transaction);
+      await this.bindDemographicInputs(request, demographic);
+      request.input('external_id', sql.VarChar(50), externalId);
+
+      const updateColumns = DEMOGRAPHICS_COLUMNS.filter(column => !IMMUTABLE_COLUMNS.includes(column));
+      const result = await request.query(`
+        MERGE Demographics WITH (HOLDLOCK) AS target
+        USING (SELECT @partitionKey AS partitionKey, @external_id AS external_id) AS source
+          ON target.partitionKey = source.partitionKey
+          AND target.${idType} = source.external_id
+          AND target.status <> 'deleted' AND target.status <> 'merged'
+        WHEN MATCHED THEN
+          UPDATE SET ${updateColumns.map(column => `${column} = @${column}`).join(', ')}
+        WHEN NOT MATCHED THEN
+          INSERT (${DEMOGRAPHICS_COLUMNS.join(', ')})
+          VALUES (${DEMOGRAPHICS_COLUMNS.map(column => `@${column}`).join(', ')})
+        OUTPUT $action AS merge_action, inserted.id AS upserted_id, deleted.*;
+      `);
+
+      const { merge_action, upserted_id: id, ...previous } = result.recordset[0];
+      const created = merge_action === 'INSERT';
+
+      // The child tables still hold the replaced record's collections at this point
+      const before = created
+        ? {}
+        : { ...(await this.decryptDemographic(previous)), ...(await this.loadCollections([id], transaction)).get(id) };
+      const after = created
+        ? { ...demographic, ...collections }
+        : { ...before, ...demographic, ...Object.fromEntries(IMMUTABLE_COLUMNS.map(column => [column, (before as any)[column]])), ...collections };
+
+      await this.replaceCollections(transaction, id, collections);
+      await this.writeMatchKeys(transaction, id, demographic);
+
+      const changes = this.diffDemographic(before, after);
+      await this.insertAuditEntry(transaction, {
+        partitionKey: demographic.partitionKey,
+        entityId: id,
+        action: created ? 'create' : 'update',
+        changes,
+        audit,
+      });
+
+      await transaction.commit();
+      logger.logDatabaseEvent(created ? 'UPSERT_INSERT' : 'UPSERT_UPDATE', 'Demographics', id);
+      return { id, created, changes };
+    } catch (error) {
+      await transaction.rollback();
+      throw this.externalIdConflict(error);
+    }
   }
 
   async getDemographicById(id: string, lawFirm: string): Promise<Demographics | null> {
@@ -490,7 +954,2215 @@ class DatabaseService {
 
     if (result.recordset.length === 0) return null;
 
-    return result.recordset[0] as Demographics;
+    const collections = await this.loadCollections([id]);
+    return this.withCollections(await this.decryptDemographic(result.recordset[0]), collections.get(id));
+  }
+
+  /**
+   * Re-encrypts PII columns that are still plaintext or were written under an
+   * older key version. Safe to run while the API is serving traffic: rows are
+   * processed in small batches and both old and new key versions stay readable.
+   */
+  async reencryptDemographics(batchSize: number = 500): Promise<number> {
+    const pool = await this.getPool();
+    const activePrefix = await fieldEncryptionService.getActivePrefix();
+    const staleCondition = ENCRYPTED_DEMOGRAPHICS_FIELDS
+      .map(field => `(${field} IS NOT NULL AND ${field} <> '' AND ${field} NOT LIKE @activePrefix)`)
+      .join(' OR ');
+
+    let total = 0;
+    while (true) {
+      const result = await pool.request()
+        .input('batchSize', sql.Int, batchSize)
+        .input('activePrefix', sql.NVarChar(100), `${activePrefix}%`)
+        .query(`
+          SELECT TOP (@batchSize) id, ${ENCRYPTED_DEMOGRAPHICS_FIELDS.join(', ')}
+          FROM Demographics
+          WHERE ${staleCondition}
+        `);
+
+      if (result.recordset.length === 0) break;
+
+      for (const row of result.recordset) {
+        const plaintext = await fieldEncryptionService.decryptFields(row, ENCRYPTED_DEMOGRAPHICS_FIELDS);
+        const reencrypted: Record<string, any> = { ...plaintext };
+        for (const field of ENCRYPTED_DEMOGRAPHICS_FIELDS) {
+          const value = plaintext[field];
+          reencrypted[field] = value ? await fieldEncryptionService.encrypt(value, field) : value;
+        }
+
+        const request = pool.request().input('id', sql.UniqueIdentifier, row.id);
+        for (const field of ENCRYPTED_DEMOGRAPHICS_FIELDS) {
+          request.input(field, sql.NVarChar(512), reencrypted[field] ?? null);
+        }
+        await request.query(`
+          UPDATE Demographics
+          SET ${ENCRYPTED_DEMOGRAPHICS_FIELDS.map(field => `${field} = @${field}`).join(', ')}
+          WHERE id = @id
+        `);
+      }
+
+      total += result.recordset.length;
+      logger.info('Re-encrypted demographics batch', { batchSize: result.recordset.length, total });
+    }
+
+    logger.logDatabaseEvent('REENCRYPT', 'Demographics', `${total} records`);
+    return total;
+  }
+
+  /**
+   * Fills the duplicate detection match keys of every row, e.g. after the blind
+   * index key is first configured. Rows are walked in id order in batches.
+   */
+  async backfillMatchKeys(batchSize: number = 500): Promise<number> {
+    const pool = await this.getPool();
+    let after: string | null = null;
+    let total = 0;
+
+    while (true) {
+      const result: sql.IResult<any> = await pool.request()
+        .input('batchSize', sql.Int, batchSize)
+        .input('after', sql.UniqueIdentifier, after)
+        .query(`
+          SELECT TOP (@batchSize) id, ssn, firstname, lastname, dob
+          FROM Demographics
+          WHERE @after IS NULL OR id > @after
+          ORDER BY id
+        `);
+
+      if (result.recordset.length === 0) break;
+
+      for (const row of result.recordset) {
+        const plaintext = await fieldEncryptionService.decryptFields(row, ENCRYPTED_DEMOGRAPHICS_FIELDS);
+        await this.writeMatchKeys(pool, row.id, plaintext);
+      }
+
+      after = result.recordset[result.recordset.length - 1].id;
+      total += result.recordset.length;
+      logger.info('Backfilled match keys batch', { batchSize: result.recordset.length, total });
+    }
+
+    logger.logDatabaseEvent('BACKFILL_MATCH_KEYS', 'Demographics', `${total} records`);
+    return total;
+  }
+
+  // Duplicate detection operations
+
+  /**
+   * Active records of a firm sharing at least one signal with `probe`, with the
+   * signals each one matched on.
+   */
+  async findDuplicateCandidates(
+    lawFirm: string,
+    probe: Partial<Record<MatchSignal, string | null | undefined>>,
+    excludeId?: string
+  ): Promise<Array<{ id: string; signals: MatchSignal[] }>> {
+    const signals = (Object.keys(MATCH_SIGNAL_COLUMNS) as MatchSignal[])
+      .filter(signal => typeof probe[signal] === 'string' && probe[signal] !== '');
+    if (signals.length === 0) return [];
+
+    const pool = await this.getPool();
+    const request = pool.request().input('partitionKey', sql.VarChar(75), lawFirm);
+    signals.forEach(signal => request.input(signal, sql.NVarChar(64), probe[signal]));
+
+    let excludeClause = '';
+    if (excludeId) {
+      excludeClause = 'AND id <> @excludeId';
+      request.input('excludeId', sql.UniqueIdentifier, excludeId);
+    }
+
+    const result = await request.query(`
+      SELECT TOP 50 id,
+        ${signals.map(signal => `CASE WHEN ${MATCH_SIGNAL_COLUMNS[signal]} = @${signal} THEN 1 ELSE 0 END AS match_${signal}`).join(',\n        ')}
+      FROM Demographics
+      WHERE partitionKey = @partitionKey
+        AND status NOT IN ('deleted', 'merged')
+        ${excludeClause}
+        AND (${signals.map(signal => `${MATCH_SIGNAL_COLUMNS[signal]} = @${signal}`).join(' OR ')})
+    `);
+
+    return result.recordset.map(row => ({
+      id: row.id,
+      signals: signals.filter(signal => row[`match_${signal}`] === 1),
+    }));
+  }
+
+  /**
+   * Pairs of active records within a firm that share signals, highest combined
+   * weight first. Each signal is an indexed equi-join; pairs are listed once.
+   */
+  async findDuplicatePairs(
+    lawFirm: string,
+    options: { weights: Record<MatchSignal, number>; minScore: number; limit: number; offset: number }
+  ): Promise<Array<{ record_id: string; duplicate_id: string; signals: MatchSignal[]; score: number }>> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('minScore', sql.Int, options.minScore)
+      .input('limit', sql.Int, options.limit)
+      .input('offset', sql.Int, options.offset);
+
+    const arms = (Object.entries(MATCH_SIGNAL_COLUMNS) as Array<[MatchSignal, string]>).map(([signal, column]) => {
+      request.input(`weight_${signal}`, sql.Int, options.weights[signal]);
+      return `
+        SELECT a.id AS record_id, b.id AS duplicate_id, '${signal}' AS signal, @weight_${signal} AS weight
+        FROM Demographics a
+        JOIN Demographics b ON b.partitionKey = a.partitionKey AND b.${column} = a.${column} AND a.id < b.id
+        WHERE a.partitionKey = @partitionKey
+          AND a.${column} IS NOT NULL AND a.${column} <> ''
+          AND a.status NOT IN ('deleted', 'merged') AND b.status NOT IN ('deleted', 'merged')`;
+    });
+
+    const result = await request.query(`
+      WITH matches AS (${arms.join('\n        UNION ALL')}
+      )
+      SELECT record_id, duplicate_id, STRING_AGG(signal, ',') AS signals, SUM(weight) AS score
+      FROM matches
+      GROUP BY record_id, duplicate_id
+      HAVING SUM(weight) >= @minScore
+      ORDER BY score DESC, record_id, duplicate_id
+      OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+    `);
+
+    return result.recordset.map(row => ({
+      record_id: row.record_id,
+      duplicate_id: row.duplicate_id,
+      signals: row.signals.split(',') as MatchSignal[],
+      score: row.score,
+    }));
+  }
+
+  /**
+   * Merges `sourceId` into `targetId`: `changes` (the values surviving from the
+   * source) are written to the target, the source's documents move to the
+   * target and the source is marked merged, all in one transaction with a
+   * `merge` audit entry on each record. Returns false when either record is
+   * missing or changed since `expectedUpdatedAt`.
+   */
+  async mergeDemographics(
+    targetId: string,
+    sourceId: string,
+    lawFirm: string,
+    merge: {
+      changes: Partial<Demographics>;
+      survivorship: Record<string, string>;
+      expectedUpdatedAt: { target: Date | string; source: Date | string };
+    },
+    audit?: AuditContext
+  ): Promise<boolean> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      // Lock in a fixed order so concurrent merges of the same pair cannot deadlock
+      const locked = new Map<string, any>();
+      for (const id of [targetId, sourceId].sort()) {
+        locked.set(id, await this.selectDemographicForUpdate(transaction, id, lawFirm));
+      }
+      const target = locked.get(targetId);
+      const source = locked.get(sourceId);
+      const unchanged = (row: any, expected: Date | string): boolean =>
+        row && row.updated_at.getTime() === new Date(expected).getTime();
+
+      if (!unchanged(target, merge.expectedUpdatedAt.target) || !unchanged(source, merge.expectedUpdatedAt.source)) {
+        await transaction.rollback();
+        return false;
+      }
+
+      // The source is retired first so external ids it gives up can move to the target
+      const now = new Date();
+      await new sql.Request(transaction)
+        .input('id', sql.UniqueIdentifier, sourceId)
+        .input('merged_into', sql.UniqueIdentifier, targetId)
+        .input('updated_at', sql.DateTime2, now)
+        .query(`
+          UPDATE Demographics
+          SET status = 'merged', merged_into = @merged_into, updated_at = @updated_at
+          WHERE id = @id
+        `);
+
+      const targetChanges = await this.writeDemographicChanges(transaction, target, {
+        ...merge.changes,
+        updated_at: now.toISOString(),
+      });
+
+      const movedDocuments = await new sql.Request(transaction)
+        .input('source_id', sql.UniqueIdentifier, sourceId)
+        .input('target_id', sql.UniqueIdentifier, targetId)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('updated_at', sql.DateTime2, now)
+        .query(`
+          UPDATE Documents
+          SET demographics_id = @target_id, updated_at = @updated_at
+          WHERE demographics_id = @source_id AND partitionKey = @partitionKey
+        `);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: lawFirm,
+        entityId: targetId,
+        action: 'merge',
+        changes: targetChanges ?? {},
+        details: {
+          merged_from: sourceId,
+          survivorship: merge.survivorship,
+          documents_moved: movedDocuments.rowsAffected[0],
+        },
+        audit,
+      });
+      await this.insertAuditEntry(transaction, {
+        partitionKey: lawFirm,
+        entityId: sourceId,
+        action: 'merge',
+        changes: {
+          status: { from: source.status ?? null, to: 'merged' },
+          merged_into: { from: source.merged_into ?? null, to: targetId },
+        },
+        details: { merged_into: targetId },
+        audit,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw this.externalIdConflict(error);
+    }
+
+    logger.logDatabaseEvent('MERGE', 'Demographics', `${sourceId} -> ${targetId}`);
+    return true;
+  }
+
+  private async decryptDemographic(row: any): Promise<Demographics> {
+    // Match keys are internal to duplicate detection
+    const { ssn_match, name_dob_match, ...record } = row;
+    return fieldEncryptionService.decryptFields(record, ENCRYPTED_DEMOGRAPHICS_FIELDS) as Promise<Demographics>;
+  }
+
+  // Demographics child collection operations
+  private withCollections(record: Demographics, collections?: DemographicsCollections): Demographics {
+    return demographicsCollectionsService.withLegacyFields({
+      ...record,
+      ...(collections ?? this.emptyCollections()),
+    });
+  }
+
+  private emptyCollections(): DemographicsCollections {
+    return { attorneys: [], medical_liens: [], other_liens: [], cost_details: [] };
+  }
+
+  /**
+   * Loads the child collections of the given records, keyed by demographics id.
+   */
+  private async loadCollections(
+    ids: string[],
+    transaction?: sql.Transaction
+  ): Promise<Map<string, DemographicsCollections>> {
+    const collections = new Map<string, DemographicsCollections>();
+    ids.forEach(id => collections.set(id, this.emptyCollections()));
+    if (ids.length === 0) return collections;
+
+    const pool = transaction ? null : await this.getPool();
+    for (const name of DEMOGRAPHICS_COLLECTIONS) {
+      const { table, columns } = COLLECTION_TABLES[name];
+      const request = transaction ? new sql.Request(transaction) : pool!.request();
+      ids.forEach((id, index) => request.input(`id${index}`, sql.UniqueIdentifier, id));
+
+      const result = await request.query(`
+        SELECT demographics_id, ${Object.keys(columns).join(', ')} FROM ${table}
+        WHERE demographics_id IN (${ids.map((_, index) => `@id${index}`).join(', ')})
+        ORDER BY demographics_id, position
+      `);
+
+      for (const row of result.recordset) {
+        const item: Record<string, any> = {};
+        for (const column of Object.keys(columns)) {
+          if (row[column] !== null) item[column] = row[column];
+        }
+        // mssql returns uniqueidentifiers upper-cased
+        const key = ids.find(id => id.toLowerCase() === String(row.demographics_id).toLowerCase());
+        if (key) (collections.get(key)![name] as Record<string, any>[]).push(item);
+      }
+    }
+
+    return collections;
+  }
+
+  /**
+   * Replaces the stored items of every collection present in `collections`.
+   */
+  private async replaceCollections(
+    transaction: sql.Transaction,
+    demographicsId: string,
+    collections: Partial<DemographicsCollections>
+  ): Promise<void> {
+    for (const name of DEMOGRAPHICS_COLLECTIONS) {
+      const items = collections[name] as Record<string, any>[] | undefined;
+      if (!items) continue;
+
+      const { table, columns } = COLLECTION_TABLES[name];
+      await new sql.Request(transaction)
+        .input('demographics_id', sql.UniqueIdentifier, demographicsId)
+        .query(`DELETE FROM ${table} WHERE demographics_id = @demographics_id`);
+
+      for (const [position, item] of items.entries()) {
+        const request = new sql.Request(transaction)
+          .input('demographics_id', sql.UniqueIdentifier, demographicsId)
+          .input('position', sql.Int, position + 1);
+        for (const [column, type] of Object.entries(columns)) {
+          request.input(column, type, item[column] ?? null);
+        }
+
+        await request.query(`
+          INSERT INTO ${table} (id, demographics_id, position, ${Object.keys(columns).join(', ')})
+          VALUES (NEWID(), @demographics_id, @position, ${Object.keys(columns).map(column => `@${column}`).join(', ')})
+        `);
+      }
+    }
+  }
+
+  // Audit log operations
+  async getAuditEntries(
+    entityType: AuditEntityType,
+    entityId: string,
+    lawFirm: string,
+    options: { since?: Date } = {}
+  ): Promise<AuditEntry[]> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('entity_type', sql.VarChar(50), entityType)
+      .input('entity_id', sql.VarChar(100), entityId)
+      .input('partitionKey', sql.VarChar(75), lawFirm);
+
+    let sinceClause = '';
+    if (options.since) {
+      sinceClause = 'AND created_at > @since';
+      request.input('since', sql.DateTime2, options.since);
+    }
+
+    const result = await request.query(`
+      SELECT * FROM AuditLog
+      WHERE entity_type = @entity_type AND entity_id = @entity_id AND partitionKey = @partitionKey
+      ${sinceClause}
+      ORDER BY created_at ASC, sequence ASC
+    `);
+
+    return result.recordset.map(row => ({
+      id: row.id,
+      partitionKey: row.partitionKey,
+      entity_type: row.entity_type,
+      entity_id: row.entity_id,
+      action: row.action,
+      changes: row.changes ? JSON.parse(row.changes) : {},
+      details: row.details ? JSON.parse(row.details) : null,
+      key_id: row.key_id,
+      request_id: row.request_id,
+      created_at: row.created_at.toISOString(),
+    }));
+  }
+
+  private async insertAuditEntry(
+    transaction: sql.Transaction,
+    entry: {
+      partitionKey: string;
+      entityType?: AuditEntityType;
+      entityId: string;
+      action: AuditAction;
+      changes: FieldDiff;
+      details?: Record<string, any>;
+      audit?: AuditContext;
+    }
+  ): Promise<void> {
+    if (Object.keys(entry.changes).length === 0 && !entry.details) return;
+
+    // PII values in the diff are stored encrypted, just like the columns themselves
+    const changes: FieldDiff = {};
+    for (const [field, change] of Object.entries(entry.changes)) {
+      if ((ENCRYPTED_DEMOGRAPHICS_FIELDS as readonly string[]).includes(field)) {
+        changes[field] = {
+          from: change.from ? await fieldEncryptionService.encrypt(String(change.from), field) : change.from,
+          to: change.to ? await fieldEncryptionService.encrypt(String(change.to), field) : change.to,
+        };
+      } else {
+        changes[field] = change;
+      }
+    }
+
+    await new sql.Request(transaction)
+      .input('id', sql.UniqueIdentifier, uuidv4())
+      .input('partitionKey', sql.VarChar(75), entry.partitionKey)
+      .input('entity_type', sql.VarChar(50), entry.entityType ?? 'demographics')
+      .input('entity_id', sql.VarChar(100), entry.entityId)
+      .input('action', sql.VarChar(30), entry.action)
+      .input('changes', sql.NVarChar(sql.MAX), JSON.stringify(changes))
+      .input('details', sql.NVarChar(sql.MAX), entry.details ? JSON.stringify(entry.details) : null)
+      .input('key_id', sql.VarChar(50), entry.audit?.keyId ?? null)
+      .input('request_id', sql.VarChar(100), entry.audit?.requestId ?? null)
+      .input('created_at', sql.DateTime2, new Date())
+      .query(`
+        INSERT INTO AuditLog (id, partitionKey, entity_type, entity_id, action, changes, details, key_id, request_id, created_at)
+        VALUES (@id, @partitionKey, @entity_type, @entity_id, @action, @changes, @details, @key_id, @request_id, @created_at)
+      `);
+  }
+
+  private async selectDemographicForUpdate(
+    transaction: sql.Transaction,
+    id: string,
+    lawFirm?: string
+  ): Promise<any | null> {
+    const request = new sql.Request(transaction).input('id', sql.UniqueIdentifier, id);
+    let whereClause = 'WHERE id = @id';
+    if (lawFirm) {
+      whereClause += ' AND partitionKey = @partitionKey';
+      request.input('partitionKey', sql.VarChar(75), lawFirm);
+    }
+
+    const result = await request.query(`SELECT * FROM Demographics WITH (UPDLOCK, ROWLOCK) ${whereClause}`);
+    return result.recordset[0] ?? null;
+  }
+
+  /**
+   * Translates a duplicate key in one of the external id unique indexes
+   * (migration 0010) into an ExternalIdConflictError; other errors pass through.
+   */
+  private externalIdConflict(error: unknown): unknown {
+    const match = this.isUniqueViolation(error)
+      ? /UX_Demographics_PartitionKey_(\w+)/.exec((error as Error).message)
+      : null;
+    return match ? new ExternalIdConflictError(match[1]) : error;
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return error instanceof sql.RequestError && UNIQUE_VIOLATION_ERRORS.includes(error.number ?? 0);
+  }
+
+  /**
+   * Field-level diff between two plaintext versions of a record. System
+   * timestamps are left out; they are captured on the audit entry itself.
+   */
+  private diffDemographic(before: Record<string, any>, after: Record<string, any>): FieldDiff {
+    const ignored = ['id', 'partitionKey', 'created_at', 'updated_at', 'created_by'];
+    const normalize = (field: string, value: any): any => {
+      if (value === undefined || value === '') return null;
+      if (value instanceof Date) return value.toISOString();
+      if (field === 'dod' && value !== null) return new Date(value).toISOString();
+      return value;
+    };
+
+    const diff: FieldDiff = {};
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (ignored.includes(field)) continue;
+      const from = normalize(field, before[field]);
+      const to = normalize(field, after[field]);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        diff[field] = { from, to };
+      }
+    }
+    return diff;
+  }
+
+  // Statement template operations
+  async createStatementTemplate(
+    lawFirm: string,
+    name: string,
+    definition: StatementTemplateDefinition,
+    keyId?: string
+  ): Promise<StatementTemplate> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      // Serialize version allocation per law firm
+      const current = await new sql.Request(transaction)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .query(`
+          SELECT ISNULL(MAX(version), 0) AS version
+          FROM StatementTemplates WITH (UPDLOCK, HOLDLOCK)
+          WHERE partitionKey = @partitionKey
+        `);
+
+      const template: StatementTemplate = {
+        id: uuidv4(),
+        partitionKey: lawFirm,
+        name,
+        version: current.recordset[0].version + 1,
+        definition,
+        created_at: new Date().toISOString(),
+        created_by_key_id: keyId ?? null,
+      };
+
+      await new sql.Request(transaction)
+        .input('id', sql.UniqueIdentifier, template.id)
+        .input('partitionKey', sql.VarChar(75), template.partitionKey)
+        .input('name', sql.NVarChar(100), template.name)
+        .input('version', sql.Int, template.version)
+        .input('definition', sql.NVarChar(sql.MAX), JSON.stringify(template.definition))
+        .input('created_at', sql.DateTime2, new Date(template.created_at!))
+        .input('created_by_key_id', sql.VarChar(50), template.created_by_key_id)
+        .query(`
+          INSERT INTO StatementTemplates (id, partitionKey, name, version, definition, created_at, created_by_key_id)
+          VALUES (@id, @partitionKey, @name, @version, @definition, @created_at, @created_by_key_id)
+        `);
+
+      await transaction.commit();
+      logger.logDatabaseEvent('INSERT', 'StatementTemplates', template.id!);
+      return template;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the requested template version, or the latest one when no version is given.
+   */
+  async getStatementTemplate(lawFirm: string, version?: number): Promise<StatementTemplate | null> {
+    const pool = await this.getPool();
+    const request = pool.request().input('partitionKey', sql.VarChar(75), lawFirm);
+
+    let versionClause = '';
+    if (version !== undefined) {
+      versionClause = 'AND version = @version';
+      request.input('version', sql.Int, version);
+    }
+
+    const result = await request.query(`
+      SELECT TOP 1 * FROM StatementTemplates
+      WHERE partitionKey = @partitionKey ${versionClause}
+      ORDER BY version DESC
+    `);
+
+    if (result.recordset.length === 0) return null;
+    return this.mapStatementTemplate(result.recordset[0]);
+  }
+
+  async listStatementTemplates(lawFirm: string): Promise<StatementTemplate[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query(`
+        SELECT * FROM StatementTemplates
+        WHERE partitionKey = @partitionKey
+        ORDER BY version DESC
+      `);
+
+    return result.recordset.map(row => this.mapStatementTemplate(row));
+  }
+
+  async createSettlementStatement(statement: SettlementStatement): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, statement.id)
+      .input('partitionKey', sql.VarChar(75), statement.partitionKey)
+      .input('demographics_id', sql.UniqueIdentifier, statement.demographics_id)
+      .input('template_version', sql.Int, statement.template_version)
+      .input('blob_name', sql.NVarChar(500), statement.blob_name)
+      .input('content_sha256', sql.VarChar(64), statement.content_sha256)
+      .input('record_as_of', sql.DateTime2, new Date(statement.record_as_of))
+      .input('created_at', sql.DateTime2, new Date(statement.created_at))
+      .input('created_by_key_id', sql.VarChar(50), statement.created_by_key_id)
+      .query(`
+        INSERT INTO SettlementStatements (
+          id, partitionKey, demographics_id, template_version, blob_name, content_sha256,
+          record_as_of, created_at, created_by_key_id
+        ) VALUES (
+          @id, @partitionKey, @demographics_id, @template_version, @blob_name, @content_sha256,
+          @record_as_of, @created_at, @created_by_key_id
+        )
+      `);
+
+    logger.logDatabaseEvent('INSERT', 'SettlementStatements', statement.id);
+  }
+
+  async getSettlementStatements(demographicsId: string, lawFirm: string): Promise<SettlementStatement[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('demographics_id', sql.UniqueIdentifier, demographicsId)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query(`
+        SELECT * FROM SettlementStatements
+        WHERE demographics_id = @demographics_id AND partitionKey = @partitionKey
+        ORDER BY created_at DESC
+      `);
+
+    return result.recordset.map(row => ({
+      ...row,
+      record_as_of: row.record_as_of.toISOString(),
+      created_at: row.created_at.toISOString(),
+    }));
+  }
+
+  private mapStatementTemplate(row: any): StatementTemplate {
+    return {
+      ...row,
+      definition: JSON.parse(row.definition),
+      created_at: row.created_at.toISOString(),
+    };
+  }
+
+  // Demographics import operations
+
+  /**
+   * Returns null when the firm already has a profile with this name.
+   */
+  async createImportProfile(profile: ImportMappingProfile): Promise<ImportMappingProfile | null> {
+    const pool = await this.getPool();
+    try {
+      await pool.request()
+        .input('id', sql.UniqueIdentifier, profile.id)
+        .input('partitionKey', sql.VarChar(75), profile.partitionKey)
+        .input('name', sql.NVarChar(100), profile.name)
+        .input('columns', sql.NVarChar(sql.MAX), JSON.stringify(profile.columns))
+        .input('defaults', sql.NVarChar(sql.MAX), JSON.stringify(profile.defaults))
+        .input('created_at', sql.DateTime2, new Date(profile.created_at))
+        .input('updated_at', sql.DateTime2, new Date(profile.updated_at))
+        .input('created_by_key_id', sql.VarChar(50), profile.created_by_key_id)
+        .query(`
+          INSERT INTO ImportMappingProfiles (id, partitionKey, name, columns, defaults, created_at, updated_at, created_by_key_id)
+          VALUES (@id, @partitionKey, @name, @columns, @defaults, @created_at, @updated_at, @created_by_key_id)
+        `);
+    } catch (error) {
+      if (this.isUniqueViolation(error)) return null;
+      throw error;
+    }
+
+    logger.logDatabaseEvent('INSERT', 'ImportMappingProfiles', profile.id);
+    return profile;
+  }
+
+  async getImportProfile(id: string, lawFirm: string): Promise<ImportMappingProfile | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM ImportMappingProfiles WHERE id = @id AND partitionKey = @partitionKey');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapImportProfile(result.recordset[0]);
+  }
+
+  async listImportProfiles(lawFirm: string): Promise<ImportMappingProfile[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM ImportMappingProfiles WHERE partitionKey = @partitionKey ORDER BY name');
+
+    return result.recordset.map(row => this.mapImportProfile(row));
+  }
+
+  /**
+   * Returns 'not_found' when the profile does not exist and 'conflict' when the
+   * new name is taken by another profile of the firm.
+   */
+  async updateImportProfile(
+    id: string,
+    lawFirm: string,
+    update: Pick<ImportMappingProfile, 'name' | 'columns' | 'defaults'>
+  ): Promise<ImportMappingProfile | 'not_found' | 'conflict'> {
+    const pool = await this.getPool();
+    let result: sql.IResult<any>;
+    try {
+      result = await pool.request()
+        .input('id', sql.UniqueIdentifier, id)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('name', sql.NVarChar(100), update.name)
+        .input('columns', sql.NVarChar(sql.MAX), JSON.stringify(update.columns))
+        .input('defaults', sql.NVarChar(sql.MAX), JSON.stringify(update.defaults))
+        .input('updated_at', sql.DateTime2, new Date())
+        .query(`
+          UPDATE ImportMappingProfiles
+          SET name = @name, columns = @columns, defaults = @defaults, updated_at = @updated_at
+          OUTPUT inserted.*
+          WHERE id = @id AND partitionKey = @partitionKey
+        `);
+    } catch (error) {
+      if (this.isUniqueViolation(error)) return 'conflict';
+      throw error;
+    }
+
+    if (result.recordset.length === 0) return 'not_found';
+    logger.logDatabaseEvent('UPDATE', 'ImportMappingProfiles', id);
+    return this.mapImportProfile(result.recordset[0]);
+  }
+
+  async deleteImportProfile(id: string, lawFirm: string): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('DELETE FROM ImportMappingProfiles WHERE id = @id AND partitionKey = @partitionKey');
+
+    logger.logDatabaseEvent('DELETE', 'ImportMappingProfiles', id);
+    return result.rowsAffected[0] > 0;
+  }
+
+  async createImport(job: DemographicsImport): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, job.id)
+      .input('partitionKey', sql.VarChar(75), job.partitionKey)
+      .input('status', sql.VarChar(20), job.status)
+      .input('file_name', sql.NVarChar(255), job.file_name)
+      .input('blob_name', sql.NVarChar(500), job.blob_name)
+      .input('format', sql.VarChar(10), job.format)
+      .input('profile_id', sql.UniqueIdentifier, job.profile_id)
+      .input('columns', sql.NVarChar(sql.MAX), JSON.stringify(job.columns))
+      .input('defaults', sql.NVarChar(sql.MAX), JSON.stringify(job.defaults))
+      .input('mode', sql.VarChar(10), job.mode)
+      .input('upsert_key', sql.VarChar(30), job.upsert_key)
+      .input('created_at', sql.DateTime2, new Date(job.created_at))
+      .input('updated_at', sql.DateTime2, new Date(job.updated_at))
+      .input('created_by', sql.UniqueIdentifier, job.created_by)
+      .input('created_by_key_id', sql.VarChar(50), job.created_by_key_id)
+      .input('request_id', sql.VarChar(100), job.request_id)
+      .query(`
+        INSERT INTO DemographicsImports (
+          id, partitionKey, status, file_name, blob_name, format, profile_id, columns, defaults,
+          mode, upsert_key, created_at, updated_at, created_by, created_by_key_id, request_id
+        ) VALUES (
+          @id, @partitionKey, @status, @file_name, @blob_name, @format, @profile_id, @columns, @defaults,
+          @mode, @upsert_key, @created_at, @updated_at, @created_by, @created_by_key_id, @request_id
+        )
+      `);
+
+    logger.logDatabaseEvent('INSERT', 'DemographicsImports', job.id);
+  }
+
+  async getImport(id: string, lawFirm: string): Promise<DemographicsImport | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM DemographicsImports WHERE id = @id AND partitionKey = @partitionKey');
+
+    if (result.recordset.length === 0) return null;
+    const row = result.recordset[0];
+    return {
+      ...row,
+      columns: JSON.parse(row.columns),
+      defaults: JSON.parse(row.defaults),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      completed_at: row.completed_at ? row.completed_at.toISOString() : null,
+    };
+  }
+
+  /**
+   * Sets the status (and optionally the row total, error and error report) of
+   * an import. Completed and failed imports also get completed_at.
+   */
+  async updateImportStatus(
+    id: string,
+    status: ImportStatus,
+    details: { totalRows?: number; error?: string; errorReportBlobName?: string } = {}
+  ): Promise<void> {
+    const pool = await this.getPool();
+    const now = new Date();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('status', sql.VarChar(20), status)
+      .input('total_rows', sql.Int, details.totalRows ?? null)
+      .input('error', sql.NVarChar(1000), details.error ?? null)
+      .input('error_report_blob_name', sql.NVarChar(500), details.errorReportBlobName ?? null)
+      .input('updated_at', sql.DateTime2, now)
+      .input('completed_at', sql.DateTime2, status === 'completed' || status === 'failed' ? now : null)
+      .query(`
+        UPDATE DemographicsImports
+        SET status = @status,
+          total_rows = ISNULL(@total_rows, total_rows),
+          error = ISNULL(@error, error),
+          error_report_blob_name = ISNULL(@error_report_blob_name, error_report_blob_name),
+          updated_at = @updated_at,
+          completed_at = ISNULL(@completed_at, completed_at)
+        WHERE id = @id
+      `);
+
+    logger.logDatabaseEvent('UPDATE', 'DemographicsImports', `${id} ${status}`);
+  }
+
+  /**
+   * Records the outcome of the chunk of rows starting at `startRow`. Returns
+   * false, recording nothing, when that chunk was already recorded (e.g. the
+   * queue redelivered its message).
+   */
+  async recordImportChunk(
+    id: string,
+    chunk: { startRow: number; processed: number; imported: number; failed: number; errors: ImportRowError[] }
+  ): Promise<boolean> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const updated = await new sql.Request(transaction)
+        .input('id', sql.UniqueIdentifier, id)
+        .input('start_row', sql.Int, chunk.startRow)
+        .input('processed', sql.Int, chunk.processed)
+        .input('imported', sql.Int, chunk.imported)
+        .input('failed', sql.Int, chunk.failed)
+        .input('updated_at', sql.DateTime2, new Date())
+        .query(`
+          UPDATE DemographicsImports
+          SET processed_rows = processed_rows + @processed,
+            imported_rows = imported_rows + @imported,
+            failed_rows = failed_rows + @failed,
+            updated_at = @updated_at
+          WHERE id = @id AND processed_rows = @start_row
+        `);
+
+      if (updated.rowsAffected[0] === 0) {
+        await transaction.rollback();
+        return false;
+      }
+
+      for (const error of chunk.errors) {
+        await new sql.Request(transaction)
+          .input('import_id', sql.UniqueIdentifier, id)
+          .input('source_row', sql.Int, error.row)
+          .input('column_name', sql.NVarChar(255), error.column)
+          .input('field', sql.NVarChar(100), error.field)
+          .input('message', sql.NVarChar(500), error.message.slice(0, 500))
+          .query(`
+            INSERT INTO DemographicsImportErrors (import_id, source_row, column_name, field, message)
+            VALUES (@import_id, @source_row, @column_name, @field, @message)
+          `);
+      }
+
+      await transaction.commit();
+      return true;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Row errors of an import in row order; all of them when no page is given.
+   */
+  async getImportErrors(
+    id: string,
+    page?: { limit: number; offset: number }
+  ): Promise<{ errors: ImportRowError[]; total: number }> {
+    const pool = await this.getPool();
+    const request = pool.request().input('import_id', sql.UniqueIdentifier, id);
+
+    let pageClause = '';
+    if (page) {
+      pageClause = 'OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY';
+      request.input('offset', sql.Int, page.offset).input('limit', sql.Int, page.limit);
+    }
+
+    const result = await request.query(`
+      SELECT source_row, column_name, field, message, COUNT(*) OVER () AS total
+      FROM DemographicsImportErrors
+      WHERE import_id = @import_id
+      ORDER BY source_row, id
+      ${pageClause}
+    `);
+
+    return {
+      errors: result.recordset.map(row => ({
+        row: row.source_row,
+        column: row.column_name,
+        field: row.field,
+        message: row.message,
+      })),
+      total: result.recordset[0]?.total ?? (page ? await this.countImportErrors(id) : 0),
+    };
+  }
+
+  private async countImportErrors(id: string): Promise<number> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('import_id', sql.UniqueIdentifier, id)
+      .query('SELECT COUNT(*) AS total FROM DemographicsImportErrors WHERE import_id = @import_id');
+    return result.recordset[0].total;
+  }
+
+  private mapImportProfile(row: any): ImportMappingProfile {
+    return {
+      ...row,
+      columns: JSON.parse(row.columns),
+      defaults: JSON.parse(row.defaults),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+    };
+  }
+
+  // Demographics export operations
+
+  async createExport(job: DemographicsExport): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, job.id)
+      .input('partitionKey', sql.VarChar(75), job.partitionKey)
+      .input('status', sql.VarChar(20), job.status)
+      .input('format', sql.VarChar(10), job.format)
+      .input('query', sql.NVarChar(sql.MAX), JSON.stringify(job.query))
+      .input('columns', sql.NVarChar(sql.MAX), JSON.stringify(job.columns))
+      .input('mask_pii', sql.Bit, job.mask_pii)
+      .input('created_at', sql.DateTime2, new Date(job.created_at))
+      .input('updated_at', sql.DateTime2, new Date(job.updated_at))
+      .input('created_by_key_id', sql.VarChar(50), job.created_by_key_id)
+      .input('request_id', sql.VarChar(100), job.request_id)
+      .query(`
+        INSERT INTO DemographicsExports (
+          id, partitionKey, status, format, query, columns, mask_pii, created_at, updated_at, created_by_key_id, request_id
+        ) VALUES (
+          @id, @partitionKey, @status, @format, @query, @columns, @mask_pii, @created_at, @updated_at, @created_by_key_id, @request_id
+        )
+      `);
+
+    logger.logDatabaseEvent('INSERT', 'DemographicsExports', job.id);
+  }
+
+  async getExport(id: string, lawFirm: string): Promise<DemographicsExport | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM DemographicsExports WHERE id = @id AND partitionKey = @partitionKey');
+
+    if (result.recordset.length === 0) return null;
+    const row = result.recordset[0];
+    return {
+      ...row,
+      query: JSON.parse(row.query),
+      columns: JSON.parse(row.columns),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      completed_at: row.completed_at ? row.completed_at.toISOString() : null,
+    };
+  }
+
+  /**
+   * Sets the status of an export, with the written file once it completed or
+   * the error once it failed.
+   */
+  async updateExportStatus(
+    id: string,
+    status: ExportStatus,
+    details: { blobName?: string; rowCount?: number; error?: string } = {}
+  ): Promise<void> {
+    const pool = await this.getPool();
+    const now = new Date();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('status', sql.VarChar(20), status)
+      .input('blob_name', sql.NVarChar(500), details.blobName ?? null)
+      .input('row_count', sql.Int, details.rowCount ?? null)
+      .input('error', sql.NVarChar(1000), details.error?.slice(0, 1000) ?? null)
+      .input('updated_at', sql.DateTime2, now)
+      .input('completed_at', sql.DateTime2, status === 'completed' || status === 'failed' ? now : null)
+      .query(`
+        UPDATE DemographicsExports
+        SET status = @status, blob_name = @blob_name, row_count = @row_count, error = @error,
+          updated_at = @updated_at, completed_at = @completed_at
+        WHERE id = @id
+      `);
+
+    logger.logDatabaseEvent('UPDATE', 'DemographicsExports', `${id} ${status}`);
+  }
+
+  // Document registry operations
+
+  async createDocument(document: DocumentRecord): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, document.correlation_id)
+      .input('partitionKey', sql.VarChar(75), document.partitionKey)
+      .input('demographics_id', sql.UniqueIdentifier, document.demographics_id)
+      .input('document_type', sql.NVarChar(50), document.document_type)
+      .input('requirement', sql.NVarChar(50), document.requirement)
+      .input('original_file_name', sql.NVarChar(255), document.original_file_name)
+      .input('content_type', sql.NVarChar(100), document.content_type)
+      .input('blob_name', sql.NVarChar(500), document.blob_name)
+      .input('max_file_size', sql.BigInt, document.max_file_size)
+      .input('status', sql.VarChar(20), document.status)
+      .input('upload_expires_at', sql.DateTime2, new Date(document.upload_expires_at))
+      .input('created_at', sql.DateTime2, new Date(document.created_at))
+      .input('updated_at', sql.DateTime2, new Date(document.updated_at))
+      .query(`
+        INSERT INTO Documents (
+          correlation_id, partitionKey, demographics_id, document_type, requirement, original_file_name, content_type,
+          blob_name, max_file_size, status, upload_expires_at, created_at, updated_at
+        ) VALUES (
+          @correlation_id, @partitionKey, @demographics_id, @document_type, @requirement, @original_file_name, @content_type,
+          @blob_name, @max_file_size, @status, @upload_expires_at, @created_at, @updated_at
+        )
+      `);
+
+    logger.logDatabaseEvent('INSERT', 'Documents', document.correlation_id);
+  }
+
+  async getDocument(correlationId: string): Promise<DocumentRecord | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .query('SELECT * FROM Documents WHERE correlation_id = @correlation_id');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapDocument(result.recordset[0]);
+  }
+
+  async getDocumentByBlobName(blobName: string): Promise<DocumentRecord | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('blob_name', sql.NVarChar(500), blobName)
+      .query('SELECT * FROM Documents WHERE blob_name = @blob_name');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapDocument(result.recordset[0]);
+  }
+
+  async listDocuments(
+    lawFirm: string,
+    options: { demographicsId?: string; q?: string; mismatch?: boolean; limit: number; offset: number }
+  ): Promise<DocumentRecord[]> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('limit', sql.Int, options.limit)
+      .input('offset', sql.Int, options.offset);
+
+    let whereClause = 'WHERE partitionKey = @partitionKey';
+    if (options.demographicsId) {
+      whereClause += ' AND demographics_id = @demographics_id';
+      request.input('demographics_id', sql.UniqueIdentifier, options.demographicsId);
+    }
+    if (options.mismatch !== undefined) {
+      whereClause += ' AND classification_mismatch = @mismatch';
+      request.input('mismatch', sql.Bit, options.mismatch);
+    }
+    if (options.q) {
+      whereClause += ` AND EXISTS (
+        SELECT 1 FROM DocumentText t
+        WHERE t.correlation_id = Documents.correlation_id AND t.content LIKE @q ESCAPE '\\'
+      )`;
+      // The search term is matched literally
+      request.input('q', sql.NVarChar(250), `%${options.q.replace(/[\\%_[]/g, '\\$&')}%`);
+    }
+
+    const result = await request.query(`
+      SELECT * FROM Documents
+      ${whereClause}
+      ORDER BY created_at DESC, correlation_id
+      OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+    `);
+
+    return result.recordset.map(row => this.mapDocument(row));
+  }
+
+  /**
+   * Every document attached to a demographics record, oldest first.
+   */
+  async listDemographicDocuments(demographicsId: string, lawFirm: string): Promise<DocumentRecord[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('demographics_id', sql.UniqueIdentifier, demographicsId)
+      .query(`
+        SELECT * FROM Documents
+        WHERE partitionKey = @partitionKey AND demographics_id = @demographics_id
+        ORDER BY created_at, correlation_id
+      `);
+
+    return result.recordset.map(row => this.mapDocument(row));
+  }
+
+  /**
+   * Records whether a claimant's document checklist is complete. Returns true
+   * only when this call is what marked it complete.
+   */
+  async updateDocumentChecklistState(demographicsId: string, lawFirm: string, complete: boolean): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('demographics_id', sql.UniqueIdentifier, demographicsId)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('complete', sql.Bit, complete)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        MERGE DemographicsDocumentChecklist WITH (HOLDLOCK) AS target
+        USING (SELECT @demographics_id AS demographics_id) AS source
+        ON target.demographics_id = source.demographics_id
+        WHEN MATCHED AND target.complete <> @complete THEN UPDATE SET
+          complete = @complete,
+          completed_at = CASE WHEN @complete = 1 THEN @now ELSE NULL END,
+          updated_at = @now
+        WHEN NOT MATCHED THEN INSERT (demographics_id, partitionKey, complete, completed_at, updated_at)
+          VALUES (@demographics_id, @partitionKey, @complete, CASE WHEN @complete = 1 THEN @now ELSE NULL END, @now)
+        OUTPUT INSERTED.complete;
+      `);
+
+    if (result.recordset.length === 0) return false;
+    logger.logDatabaseEvent('UPSERT', 'DemographicsDocumentChecklist', `${demographicsId} ${complete ? 'complete' : 'incomplete'}`);
+    return complete;
+  }
+
+  /**
+   * Moves a document along its lifecycle. Fields left out of `update` keep
+   * their stored values. Returns false when the document is not registered.
+   */
+  async updateDocumentStatus(
+    correlationId: string,
+    update: {
+      status: DocumentLifecycleStatus;
+      file_size?: number;
+      page_count?: number;
+      content_hash?: string;
+      error?: string | null;
+      uploaded_at?: string;
+      processed_at?: string;
+      // Set together: a new verdict replaces the signature and time, null clears all three
+      scan_result?: DocumentScanResult | null;
+      scan_signature?: string | null;
+      scanned_at?: string;
+    }
+  ): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('status', sql.VarChar(20), update.status)
+      .input('file_size', sql.BigInt, update.file_size ?? null)
+      .input('page_count', sql.Int, update.page_count ?? null)
+      .input('content_hash', sql.Char(64), update.content_hash ?? null)
+      .input('set_error', sql.Bit, update.error !== undefined)
+      .input('error', sql.NVarChar(1000), update.error?.slice(0, 1000) ?? null)
+      .input('uploaded_at', sql.DateTime2, update.uploaded_at ? new Date(update.uploaded_at) : null)
+      .input('processed_at', sql.DateTime2, update.processed_at ? new Date(update.processed_at) : null)
+      .input('set_scan', sql.Bit, update.scan_result !== undefined)
+      .input('scan_result', sql.VarChar(20), update.scan_result ?? null)
+      .input('scan_signature', sql.NVarChar(255), update.scan_signature?.slice(0, 255) ?? null)
+      .input('scanned_at', sql.DateTime2, update.scanned_at ? new Date(update.scanned_at) : null)
+      .input('updated_at', sql.DateTime2, new Date())
+      .query(`
+        UPDATE Documents
+        SET status = @status,
+          file_size = ISNULL(@file_size, file_size),
+          page_count = ISNULL(@page_count, page_count),
+          content_hash = ISNULL(@content_hash, content_hash),
+          error = CASE WHEN @set_error = 1 THEN @error ELSE error END,
+          uploaded_at = ISNULL(@uploaded_at, uploaded_at),
+          processed_at = ISNULL(@processed_at, processed_at),
+          scan_result = CASE WHEN @set_scan = 1 THEN @scan_result ELSE scan_result END,
+          scan_signature = CASE WHEN @set_scan = 1 THEN @scan_signature ELSE scan_signature END,
+          scanned_at = CASE WHEN @set_scan = 1 THEN @scanned_at ELSE scanned_at END,
+          updated_at = @updated_at
+        WHERE correlation_id = @correlation_id
+      `);
+
+    logger.logDatabaseEvent('UPDATE', 'Documents', `${correlationId} ${update.status}`);
+    return result.rowsAffected[0] > 0;
+  }
+
+  async logDocumentAccess(entry: DocumentAccessLogEntry): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, entry.id)
+      .input('correlation_id', sql.UniqueIdentifier, entry.correlation_id)
+      .input('partitionKey', sql.VarChar(75), entry.partitionKey)
+      .input('action', sql.VarChar(30), entry.action)
+      .input('key_id', sql.NVarChar(50), entry.key_id)
+      .input('request_id', sql.NVarChar(100), entry.request_id)
+      .input('ip_address', sql.NVarChar(45), entry.ip_address)
+      .input('user_agent', sql.NVarChar(500), entry.user_agent?.slice(0, 500) ?? null)
+      .input('expires_at', sql.DateTime2, entry.expires_at ? new Date(entry.expires_at) : null)
+      .input('created_at', sql.DateTime2, new Date(entry.created_at))
+      .query(`
+        INSERT INTO DocumentAccessLog (
+          id, correlation_id, partitionKey, action, key_id, request_id, ip_address, user_agent, expires_at, created_at
+        ) VALUES (
+          @id, @correlation_id, @partitionKey, @action, @key_id, @request_id, @ip_address, @user_agent, @expires_at, @created_at
+        )
+      `);
+
+    logger.logDatabaseEvent('INSERT', 'DocumentAccessLog', `${entry.correlation_id} ${entry.action}`);
+  }
+
+  async updateDocumentClassification(
+    correlationId: string,
+    classification: {
+      classified_type: DocumentType;
+      confidence: number;
+      source: DocumentClassificationSource;
+      mismatch: boolean;
+    }
+  ): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('classified_type', sql.VarChar(50), classification.classified_type)
+      .input('confidence', sql.Decimal(4, 3), classification.confidence)
+      .input('source', sql.VarChar(20), classification.source)
+      .input('mismatch', sql.Bit, classification.mismatch)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        UPDATE Documents
+        SET classified_type = @classified_type,
+          classification_confidence = @confidence,
+          classification_source = @source,
+          classification_mismatch = @mismatch,
+          classified_at = @now,
+          updated_at = @now
+        WHERE correlation_id = @correlation_id
+      `);
+
+    logger.logDatabaseEvent('UPDATE', 'Documents', `${correlationId} classified ${classification.classified_type}`);
+  }
+
+  /**
+   * Sets a document's type by hand. The type becomes both the declared and
+   * the classified type, which clears any mismatch, and the change is audited.
+   * Returns null when the document does not belong to the law firm.
+   */
+  async reclassifyDocument(
+    correlationId: string,
+    lawFirm: string,
+    documentType: DocumentType,
+    audit?: AuditContext
+  ): Promise<DocumentRecord | null> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const current = await new sql.Request(transaction)
+        .input('correlation_id', sql.UniqueIdentifier, correlationId)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .query(`
+          SELECT * FROM Documents WITH (UPDLOCK, ROWLOCK)
+          WHERE correlation_id = @correlation_id AND partitionKey = @partitionKey
+        `);
+      if (current.recordset.length === 0) {
+        await transaction.rollback();
+        return null;
+      }
+      const before = this.mapDocument(current.recordset[0]);
+
+      const result = await new sql.Request(transaction)
+        .input('correlation_id', sql.UniqueIdentifier, correlationId)
+        .input('document_type', sql.VarChar(50), documentType)
+        .input('now', sql.DateTime2, new Date())
+        .query(`
+          UPDATE Documents
+          SET document_type = @document_type,
+            classified_type = @document_type,
+            classification_confidence = 1,
+            classification_source = 'manual',
+            classification_mismatch = 0,
+            classified_at = @now,
+            updated_at = @now
+          OUTPUT INSERTED.*
+          WHERE correlation_id = @correlation_id
+        `);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: lawFirm,
+        entityType: 'document',
+        entityId: before.correlation_id,
+        action: 'update',
+        changes: {
+          ...(before.document_type !== documentType && { document_type: { from: before.document_type, to: documentType } }),
+          ...(before.classified_type !== documentType && { classified_type: { from: before.classified_type, to: documentType } }),
+        },
+        audit,
+      });
+
+      await transaction.commit();
+      logger.logDatabaseEvent('UPDATE', 'Documents', `${correlationId} reclassified ${documentType}`);
+      return this.mapDocument(result.recordset[0]);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the text extracted from a document, replacing any earlier
+   * extraction (e.g. from a redelivered message).
+   */
+  async saveDocumentText(text: DocumentText): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, text.correlation_id)
+      .input('partitionKey', sql.VarChar(75), text.partitionKey)
+      .input('status', sql.VarChar(20), text.status)
+      .input('provider', sql.NVarChar(50), text.provider)
+      .input('content', sql.NVarChar(sql.MAX), text.content)
+      .input('page_count', sql.Int, text.page_count)
+      .input('ocr', sql.Bit, text.ocr)
+      .input('error', sql.NVarChar(1000), text.error?.slice(0, 1000) ?? null)
+      .input('extracted_at', sql.DateTime2, new Date(text.extracted_at))
+      .query(`
+        MERGE DocumentText WITH (HOLDLOCK) AS target
+        USING (SELECT @correlation_id AS correlation_id) AS source
+        ON target.correlation_id = source.correlation_id
+        WHEN MATCHED THEN UPDATE SET
+          status = @status, provider = @provider, content = @content, page_count = @page_count,
+          ocr = @ocr, error = @error, extracted_at = @extracted_at
+        WHEN NOT MATCHED THEN INSERT (
+          correlation_id, partitionKey, status, provider, content, page_count, ocr, error, extracted_at
+        ) VALUES (
+          @correlation_id, @partitionKey, @status, @provider, @content, @page_count, @ocr, @error, @extracted_at
+        );
+      `);
+
+    logger.logDatabaseEvent('UPSERT', 'DocumentText', `${text.correlation_id} ${text.status}`);
+  }
+
+  async getDocumentText(correlationId: string): Promise<DocumentText | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .query('SELECT * FROM DocumentText WHERE correlation_id = @correlation_id');
+
+    if (result.recordset.length === 0) return null;
+    const row = result.recordset[0];
+    return {
+      ...row,
+      correlation_id: String(row.correlation_id).toLowerCase(),
+      ocr: Boolean(row.ocr),
+      extracted_at: row.extracted_at.toISOString(),
+    };
+  }
+
+  private mapDocument(row: any): DocumentRecord {
+    return {
+      ...row,
+      // mssql returns uniqueidentifiers upper-cased
+      correlation_id: String(row.correlation_id).toLowerCase(),
+      demographics_id: row.demographics_id ? String(row.demographics_id).toLowerCase() : null,
+      file_size: row.file_size === null ? null : Number(row.file_size),
+      max_file_size: row.max_file_size === null ? null : Number(row.max_file_size),
+      upload_expires_at: row.upload_expires_at.toISOString(),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      uploaded_at: row.uploaded_at ? row.uploaded_at.toISOString() : null,
+      processed_at: row.processed_at ? row.processed_at.toISOString() : null,
+      scanned_at: row.scanned_at ? row.scanned_at.toISOString() : null,
+      classification_confidence: row.classification_confidence === null ? null : Number(row.classification_confidence),
+      classification_mismatch: Boolean(row.classification_mismatch),
+      classified_at: row.classified_at ? row.classified_at.toISOString() : null,
+      purged_at: row.purged_at ? row.purged_at.toISOString() : null,
+    };
+  }
+
+  // Document upload session operations
+
+  async createDocumentUploadSession(session: DocumentUploadSession): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, session.id)
+      .input('correlation_id', sql.UniqueIdentifier, session.correlation_id)
+      .input('partitionKey', sql.VarChar(75), session.partitionKey)
+      .input('blob_name', sql.NVarChar(500), session.blob_name)
+      .input('file_size', sql.BigInt, session.file_size)
+      .input('chunk_size', sql.Int, session.chunk_size)
+      .input('total_chunks', sql.Int, session.total_chunks)
+      .input('expected_sha256', sql.Char(64), session.expected_sha256)
+      .input('status', sql.VarChar(20), session.status)
+      .input('expires_at', sql.DateTime2, new Date(session.expires_at))
+      .input('created_at', sql.DateTime2, new Date(session.created_at))
+      .input('updated_at', sql.DateTime2, new Date(session.updated_at))
+      .input('created_by_key_id', sql.VarChar(50), session.created_by_key_id)
+      .query(`
+        INSERT INTO DocumentUploadSessions (
+          id, correlation_id, partitionKey, blob_name, file_size, chunk_size, total_chunks, expected_sha256,
+          status, expires_at, created_at, updated_at, created_by_key_id
+        ) VALUES (
+          @id, @correlation_id, @partitionKey, @blob_name, @file_size, @chunk_size, @total_chunks, @expected_sha256,
+          @status, @expires_at, @created_at, @updated_at, @created_by_key_id
+        )
+      `);
+
+    logger.logDatabaseEvent('INSERT', 'DocumentUploadSessions', session.id);
+  }
+
+  async getDocumentUploadSession(id: string, lawFirm: string): Promise<DocumentUploadSession | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM DocumentUploadSessions WHERE id = @id AND partitionKey = @partitionKey');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapDocumentUploadSession(result.recordset[0]);
+  }
+
+  async listDocumentUploadChunks(sessionId: string): Promise<DocumentUploadChunk[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('session_id', sql.UniqueIdentifier, sessionId)
+      .query(`
+        SELECT chunk_index, size, md5, received_at FROM DocumentUploadChunks
+        WHERE session_id = @session_id
+        ORDER BY chunk_index
+      `);
+
+    return result.recordset.map(row => ({
+      chunk_index: row.chunk_index,
+      size: row.size,
+      md5: row.md5,
+      received_at: row.received_at.toISOString(),
+    }));
+  }
+
+  /**
+   * Records a chunk as received. A chunk sent again replaces the earlier one.
+   */
+  async saveDocumentUploadChunk(sessionId: string, chunk: DocumentUploadChunk): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('session_id', sql.UniqueIdentifier, sessionId)
+      .input('chunk_index', sql.Int, chunk.chunk_index)
+      .input('size', sql.Int, chunk.size)
+      .input('md5', sql.Char(24), chunk.md5)
+      .input('received_at', sql.DateTime2, new Date(chunk.received_at))
+      .query(`
+        MERGE DocumentUploadChunks WITH (HOLDLOCK) AS target
+        USING (SELECT @session_id AS session_id, @chunk_index AS chunk_index) AS source
+        ON target.session_id = source.session_id AND target.chunk_index = source.chunk_index
+        WHEN MATCHED THEN UPDATE SET size = @size, md5 = @md5, received_at = @received_at
+        WHEN NOT MATCHED THEN INSERT (session_id, chunk_index, size, md5, received_at)
+          VALUES (@session_id, @chunk_index, @size, @md5, @received_at);
+
+        UPDATE DocumentUploadSessions SET updated_at = @received_at WHERE id = @session_id;
+      `);
+
+    logger.logDatabaseEvent('UPSERT', 'DocumentUploadChunks', `${sessionId} ${chunk.chunk_index}`);
+  }
+
+  /**
+   * Moves a session from one of the `from` statuses to `status`. Returns null,
+   * changing nothing, when the session is in none of them, so concurrent
+   * commits cannot both proceed.
+   */
+  async transitionDocumentUploadSession(
+    id: string,
+    from: UploadSessionStatus[],
+    update: { status: UploadSessionStatus; sha256?: string; error?: string }
+  ): Promise<DocumentUploadSession | null> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('status', sql.VarChar(20), update.status)
+      .input('sha256', sql.Char(64), update.sha256 ?? null)
+      .input('error', sql.NVarChar(1000), update.error?.slice(0, 1000) ?? null)
+      .input('now', sql.DateTime2, new Date());
+    from.forEach((status, i) => request.input(`from${i}`, sql.VarChar(20), status));
+
+    const result = await request.query(`
+      UPDATE DocumentUploadSessions
+      SET status = @status,
+        sha256 = ISNULL(@sha256, sha256),
+        error = @error,
+        committed_at = CASE WHEN @status = 'committed' THEN @now ELSE committed_at END,
+        updated_at = @now
+      OUTPUT INSERTED.*
+      WHERE id = @id AND status IN (${from.map((_, i) => `@from${i}`).join(', ')})
+    `);
+
+    if (result.recordset.length === 0) return null;
+    logger.logDatabaseEvent('UPDATE', 'DocumentUploadSessions', `${id} ${update.status}`);
+    return this.mapDocumentUploadSession(result.recordset[0]);
+  }
+
+  private mapDocumentUploadSession(row: any): DocumentUploadSession {
+    return {
+      ...row,
+      id: String(row.id).toLowerCase(),
+      correlation_id: String(row.correlation_id).toLowerCase(),
+      file_size: Number(row.file_size),
+      expires_at: row.expires_at.toISOString(),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      committed_at: row.committed_at ? row.committed_at.toISOString() : null,
+    };
+  }
+
+  // Document retention operations
+
+  async listRetentionPolicies(lawFirm: string): Promise<RetentionPolicy[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query(`
+        SELECT * FROM DocumentRetentionPolicies
+        WHERE partitionKey = @partitionKey
+        ORDER BY document_type
+      `);
+
+    return result.recordset.map(row => this.mapRetentionPolicy(row));
+  }
+
+  /**
+   * Creates or replaces the firm's policy for `documentType` (null for the
+   * firm-wide default).
+   */
+  async upsertRetentionPolicy(
+    lawFirm: string,
+    documentType: string | null,
+    retentionDays: number,
+    keyId?: string
+  ): Promise<RetentionPolicy> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, uuidv4())
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('document_type', sql.NVarChar(50), documentType)
+      .input('retention_days', sql.Int, retentionDays)
+      .input('key_id', sql.VarChar(50), keyId ?? null)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        MERGE DocumentRetentionPolicies WITH (HOLDLOCK) AS target
+        USING (SELECT @partitionKey AS partitionKey, @document_type AS document_type) AS source
+        ON target.partitionKey = source.partitionKey
+          AND (target.document_type = source.document_type OR (target.document_type IS NULL AND source.document_type IS NULL))
+        WHEN MATCHED THEN UPDATE SET
+          retention_days = @retention_days, updated_at = @now, updated_by_key_id = @key_id
+        WHEN NOT MATCHED THEN INSERT (id, partitionKey, document_type, retention_days, created_at, updated_at, updated_by_key_id)
+          VALUES (@id, @partitionKey, @document_type, @retention_days, @now, @now, @key_id)
+        OUTPUT INSERTED.*;
+      `);
+
+    logger.logDatabaseEvent('UPSERT', 'DocumentRetentionPolicies', `${lawFirm} ${documentType ?? 'default'}`);
+    return this.mapRetentionPolicy(result.recordset[0]);
+  }
+
+  async deleteRetentionPolicy(lawFirm: string, documentType: string | null): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('document_type', sql.NVarChar(50), documentType)
+      .query(`
+        DELETE FROM DocumentRetentionPolicies
+        WHERE partitionKey = @partitionKey
+          AND (document_type = @document_type OR (document_type IS NULL AND @document_type IS NULL))
+      `);
+
+    logger.logDatabaseEvent('DELETE', 'DocumentRetentionPolicies', `${lawFirm} ${documentType ?? 'default'}`);
+    return result.rowsAffected[0] > 0;
+  }
+
+  // Law firms with at least one retention policy
+  async listRetentionLawFirms(): Promise<string[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .query('SELECT DISTINCT partitionKey FROM DocumentRetentionPolicies');
+
+    return result.recordset.map(row => row.partitionKey);
+  }
+
+  /**
+   * The firm's documents past their retention period and under no active
+   * legal hold, oldest first. A document follows the policy for its type
+   * (the classified type when that overrides the declared one), else the
+   * firm default; without either it is kept. Documents left `purging` by an
+   * interrupted run are included so the purge is finished.
+   */
+  async listDocumentsDueForPurge(lawFirm: string, now: Date, limit: number): Promise<PurgeCandidate[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('now', sql.DateTime2, now)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT TOP (@limit) d.*, p.retention_days AS policy_retention_days, p.document_type AS policy_document_type
+        FROM Documents d
+        CROSS APPLY (
+          SELECT TOP 1 rp.retention_days, rp.document_type
+          FROM DocumentRetentionPolicies rp
+          WHERE rp.partitionKey = d.partitionKey
+            AND (rp.document_type IS NULL OR rp.document_type = ISNULL(
+              CASE WHEN d.classification_mismatch = 1 OR d.document_type IS NULL THEN d.classified_type ELSE d.document_type END,
+              'other'
+            ))
+          ORDER BY CASE WHEN rp.document_type IS NULL THEN 1 ELSE 0 END
+        ) p
+        WHERE d.partitionKey = @partitionKey
+          AND d.status IN ('completed', 'failed', 'rejected', 'quarantined', 'purging')
+          AND DATEADD(day, p.retention_days, ISNULL(d.uploaded_at, d.created_at)) <= @now
+          AND ${this.notOnLegalHold('d')}
+        ORDER BY ISNULL(d.uploaded_at, d.created_at)
+      `);
+
+    return result.recordset.map(({ policy_retention_days, policy_document_type, ...row }) => {
+      const document = this.mapDocument(row);
+      return {
+        document,
+        retention_days: policy_retention_days,
+        policy_document_type,
+        retained_from: document.uploaded_at ?? document.created_at,
+      };
+    });
+  }
+
+  /**
+   * Marks a document `purging` before its files are deleted. Returns false
+   * when it has come under a legal hold or is no longer eligible.
+   */
+  async claimDocumentForPurge(correlationId: string): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        UPDATE d
+        SET status = 'purging', updated_at = @now
+        FROM Documents d
+        WHERE d.correlation_id = @correlation_id
+          AND d.status IN ('completed', 'failed', 'rejected', 'quarantined', 'purging')
+          AND ${this.notOnLegalHold('d')}
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Records a purge once the document's files are gone: the document becomes
+   * a `purged` tombstone, its extracted text is deleted, and the certificate
+   * is written to the audit log in the same transaction.
+   */
+  async completeDocumentPurge(certificate: PurgeCertificate, lawFirm: string, audit?: AuditContext): Promise<void> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      await new sql.Request(transaction)
+        .input('correlation_id', sql.UniqueIdentifier, certificate.correlation_id)
+        .input('purged_at', sql.DateTime2, new Date(certificate.purged_at))
+        .query(`
+          UPDATE Documents
+          SET status = 'purged', purged_at = @purged_at, updated_at = @purged_at
+          WHERE correlation_id = @correlation_id;
+
+          DELETE FROM DocumentText WHERE correlation_id = @correlation_id;
+        `);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: lawFirm,
+        entityType: 'document',
+        entityId: certificate.correlation_id,
+        action: 'delete',
+        changes: { status: { from: 'purging', to: 'purged' } },
+        details: { purge_certificate: certificate },
+        audit,
+      });
+
+      await transaction.commit();
+      logger.logDatabaseEvent('UPDATE', 'Documents', `${certificate.correlation_id} purged`);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Registered uploads whose upload URL or session lapsed before the file
+   * arrived, across all firms, leaving out documents under a legal hold.
+   */
+  async listExpiredPendingDocuments(before: Date, limit: number): Promise<DocumentRecord[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('before', sql.DateTime2, before)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT TOP (@limit) d.* FROM Documents d
+        WHERE d.status = 'pending' AND d.upload_expires_at < @before
+          AND ${this.notOnLegalHold('d')}
+        ORDER BY d.upload_expires_at
+      `);
+
+    return result.recordset.map(row => this.mapDocument(row));
+  }
+
+  /**
+   * Marks a lapsed upload `expired`, along with its upload session if it had
+   * one. Returns the session's blob name, whose staged chunks are now
+   * garbage, or false when the document was no longer pending.
+   */
+  async expirePendingDocument(correlationId: string, reason: string): Promise<{ stagedBlobName: string | null } | false> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('error', sql.NVarChar(1000), reason.slice(0, 1000))
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        UPDATE Documents
+        SET status = 'expired', error = @error, updated_at = @now
+        WHERE correlation_id = @correlation_id AND status = 'pending';
+
+        IF @@ROWCOUNT > 0
+          UPDATE DocumentUploadSessions
+          SET status = 'expired', updated_at = @now
+          OUTPUT INSERTED.blob_name
+          WHERE correlation_id = @correlation_id AND status = 'open';
+      `);
+
+    if (result.rowsAffected[0] === 0) return false;
+    logger.logDatabaseEvent('UPDATE', 'Documents', `${correlationId} expired`);
+    return { stagedBlobName: result.recordset?.[0]?.blob_name ?? null };
+  }
+
+  async createLegalHold(hold: LegalHold, audit?: AuditContext): Promise<void> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      await new sql.Request(transaction)
+        .input('id', sql.UniqueIdentifier, hold.id)
+        .input('partitionKey', sql.VarChar(75), hold.partitionKey)
+        .input('correlation_id', sql.UniqueIdentifier, hold.correlation_id)
+        .input('demographics_id', sql.UniqueIdentifier, hold.demographics_id)
+        .input('reason', sql.NVarChar(1000), hold.reason)
+        .input('case_reference', sql.NVarChar(100), hold.case_reference)
+        .input('created_at', sql.DateTime2, new Date(hold.created_at))
+        .input('created_by_key_id', sql.VarChar(50), hold.created_by_key_id)
+        .query(`
+          INSERT INTO DocumentLegalHolds (
+            id, partitionKey, correlation_id, demographics_id, reason, case_reference, created_at, created_by_key_id
+          ) VALUES (
+            @id, @partitionKey, @correlation_id, @demographics_id, @reason, @case_reference, @created_at, @created_by_key_id
+          )
+        `);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: hold.partitionKey,
+        entityType: 'legal_hold',
+        entityId: hold.id,
+        action: 'create',
+        changes: {},
+        details: {
+          correlation_id: hold.correlation_id,
+          demographics_id: hold.demographics_id,
+          reason: hold.reason,
+          case_reference: hold.case_reference,
+        },
+        audit,
+      });
+
+      await transaction.commit();
+      logger.logDatabaseEvent('INSERT', 'DocumentLegalHolds', hold.id);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  async getLegalHold(id: string, lawFirm: string): Promise<LegalHold | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM DocumentLegalHolds WHERE id = @id AND partitionKey = @partitionKey');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapLegalHold(result.recordset[0]);
+  }
+
+  async listLegalHolds(lawFirm: string, options: { active?: boolean } = {}): Promise<LegalHold[]> {
+    const pool = await this.getPool();
+    const activeClause = options.active === undefined
+      ? ''
+      : options.active ? 'AND released_at IS NULL' : 'AND released_at IS NOT NULL';
+    const result = await pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query(`
+        SELECT * FROM DocumentLegalHolds
+        WHERE partitionKey = @partitionKey ${activeClause}
+        ORDER BY created_at DESC
+      `);
+
+    return result.recordset.map(row => this.mapLegalHold(row));
+  }
+
+  /**
+   * Releases an active hold. Returns null when there is no active hold with
+   * that id for the firm.
+   */
+  async releaseLegalHold(id: string, lawFirm: string, reason: string | null, audit?: AuditContext): Promise<LegalHold | null> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const result = await new sql.Request(transaction)
+        .input('id', sql.UniqueIdentifier, id)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('reason', sql.NVarChar(1000), reason)
+        .input('key_id', sql.VarChar(50), audit?.keyId ?? null)
+        .input('now', sql.DateTime2, new Date())
+        .query(`
+          UPDATE DocumentLegalHolds
+          SET released_at = @now, released_by_key_id = @key_id, release_reason = @reason
+          OUTPUT INSERTED.*
+          WHERE id = @id AND partitionKey = @partitionKey AND released_at IS NULL
+        `);
+      if (result.recordset.length === 0) {
+        await transaction.rollback();
+        return null;
+      }
+      const hold = this.mapLegalHold(result.recordset[0]);
+
+      await this.insertAuditEntry(transaction, {
+        partitionKey: lawFirm,
+        entityType: 'legal_hold',
+        entityId: hold.id,
+        action: 'update',
+        changes: { released_at: { from: null, to: hold.released_at } },
+        details: { release_reason: reason },
+        audit,
+      });
+
+      await transaction.commit();
+      logger.logDatabaseEvent('UPDATE', 'DocumentLegalHolds', `${id} released`);
+      return hold;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  // SQL condition: the aliased document is covered by no active legal hold
+  private notOnLegalHold(alias: string): string {
+    return `NOT EXISTS (
+      SELECT 1 FROM DocumentLegalHolds h
+      WHERE h.partitionKey = ${alias}.partitionKey AND h.released_at IS NULL
+        AND (h.correlation_id = ${alias}.correlation_id
+          OR h.demographics_id = ${alias}.demographics_id
+          OR (h.correlation_id IS NULL AND h.demographics_id IS NULL))
+    )`;
+  }
+
+  private mapRetentionPolicy(row: any): RetentionPolicy {
+    return {
+      ...row,
+      id: String(row.id).toLowerCase(),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+    };
+  }
+
+  private mapLegalHold(row: any): LegalHold {
+    return {
+      ...row,
+      id: String(row.id).toLowerCase(),
+      correlation_id: row.correlation_id ? String(row.correlation_id).toLowerCase() : null,
+      demographics_id: row.demographics_id ? String(row.demographics_id).toLowerCase() : null,
+      created_at: row.created_at.toISOString(),
+      released_at: row.released_at ? row.released_at.toISOString() : null,
+    };
+  }
+
+  // Document reconciliation operations
+
+  /**
+   * The names among `blobNames` that something registered owns: an uploaded
+   * document, a settlement statement, an import or its error report, or an
+   * export. At most 2000 names per call.
+   */
+  async findRegisteredBlobNames(blobNames: string[]): Promise<Set<string>> {
+    if (blobNames.length === 0) return new Set();
+
+    const pool = await this.getPool();
+    const request = pool.request();
+    blobNames.forEach((name, index) => request.input(`name${index}`, sql.NVarChar(500), name));
+    const names = blobNames.map((_, index) => `@name${index}`).join(', ');
+
+    const result = await request.query(`
+      SELECT blob_name FROM Documents WHERE blob_name IN (${names})
+      UNION SELECT blob_name FROM SettlementStatements WHERE blob_name IN (${names})
+      UNION SELECT blob_name FROM DemographicsImports WHERE blob_name IN (${names})
+      UNION SELECT error_report_blob_name FROM DemographicsImports WHERE error_report_blob_name IN (${names})
+      UNION SELECT blob_name FROM DemographicsExports WHERE blob_name IN (${names})
+    `);
+
+    return new Set(result.recordset.map(row => row.blob_name as string));
+  }
+
+  // Every law firm that has an API key
+  async listApiKeyLawFirms(): Promise<string[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .query('SELECT DISTINCT law_firm FROM ApiKeys');
+
+    return result.recordset.map(row => row.law_firm);
+  }
+
+  /**
+   * Opens a finding, or, when the same problem was found before, records that
+   * it was seen again (reopening it if it had been resolved).
+   */
+  async recordReconciliationFinding(
+    finding: Pick<ReconciliationFinding, 'kind' | 'blob_name' | 'correlation_id' | 'partitionKey' | 'blob_size' | 'blob_created_at'>,
+    seenAt: Date
+  ): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, uuidv4())
+      .input('kind', sql.VarChar(30), finding.kind)
+      .input('blob_name', sql.NVarChar(500), finding.blob_name)
+      .input('correlation_id', sql.UniqueIdentifier, finding.correlation_id)
+      .input('partitionKey', sql.VarChar(75), finding.partitionKey)
+      .input('blob_size', sql.BigInt, finding.blob_size)
+      .input('blob_created_at', sql.DateTime2, finding.blob_created_at ? new Date(finding.blob_created_at) : null)
+      .input('now', sql.DateTime2, seenAt)
+      .query(`
+        MERGE DocumentReconciliationFindings WITH (HOLDLOCK) AS target
+        USING (SELECT @blob_name AS blob_name, @kind AS kind) AS source
+        ON target.blob_name = source.blob_name AND target.kind = source.kind
+        WHEN MATCHED THEN
+          UPDATE SET correlation_id = @correlation_id, partitionKey = @partitionKey, blob_size = @blob_size,
+            blob_created_at = @blob_created_at, last_seen_at = @now, resolved_at = NULL
+        WHEN NOT MATCHED THEN
+          INSERT (id, kind, blob_name, correlation_id, partitionKey, blob_size, blob_created_at, first_seen_at, last_seen_at)
+          VALUES (@id, @kind, @blob_name, @correlation_id, @partitionKey, @blob_size, @blob_created_at, @now, @now);
+      `);
+
+    logger.logDatabaseEvent('MERGE', 'DocumentReconciliationFindings', `${finding.kind} ${finding.blob_name}`);
+  }
+
+  /**
+   * Resolves the open findings that no longer hold: unmatched blobs a
+   * complete scan started at `scanStartedAt` did not see again (only pass
+   * that time when the scan got through the whole container), and
+   * unprocessed uploads whose document has since moved on from `pending`.
+   * Returns how many were resolved.
+   */
+  async resolveReconciliationFindings(scanStartedAt: Date | null): Promise<number> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('scan_started_at', sql.DateTime2, scanStartedAt)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        UPDATE DocumentReconciliationFindings
+        SET resolved_at = @now
+        WHERE resolved_at IS NULL AND kind = 'unmatched_blob'
+          AND @scan_started_at IS NOT NULL AND last_seen_at < @scan_started_at;
+
+        UPDATE f
+        SET resolved_at = @now
+        FROM DocumentReconciliationFindings f
+        WHERE f.resolved_at IS NULL AND f.kind = 'unprocessed_upload'
+          AND NOT EXISTS (
+            SELECT 1 FROM Documents d
+            WHERE d.correlation_id = f.correlation_id AND d.status = 'pending'
+          );
+      `);
+
+    const resolved = result.rowsAffected.reduce((total, count) => total + count, 0);
+    if (resolved > 0) {
+      logger.logDatabaseEvent('UPDATE', 'DocumentReconciliationFindings', `${resolved} resolved`);
+    }
+    return resolved;
+  }
+
+  /**
+   * The firm's findings, most recently seen first.
+   */
+  async listReconciliationFindings(lawFirm: string, options: ListReconciliationFindingsQuery): Promise<ReconciliationFinding[]> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('limit', sql.Int, options.limit)
+      .input('offset', sql.Int, options.offset);
+
+    let whereClause = 'WHERE partitionKey = @partitionKey';
+    whereClause += options.resolved ? ' AND resolved_at IS NOT NULL' : ' AND resolved_at IS NULL';
+    if (options.kind) {
+      request.input('kind', sql.VarChar(30), options.kind);
+      whereClause += ' AND kind = @kind';
+    }
+
+    const result = await request.query(`
+      SELECT * FROM DocumentReconciliationFindings
+      ${whereClause}
+      ORDER BY last_seen_at DESC
+      OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+    `);
+
+    return result.recordset.map(row => this.mapReconciliationFinding(row));
+  }
+
+  private mapReconciliationFinding(row: any): ReconciliationFinding {
+    return {
+      ...row,
+      id: String(row.id).toLowerCase(),
+      correlation_id: row.correlation_id ? String(row.correlation_id).toLowerCase() : null,
+      blob_size: row.blob_size === null ? null : Number(row.blob_size),
+      blob_created_at: row.blob_created_at ? row.blob_created_at.toISOString() : null,
+      first_seen_at: row.first_seen_at.toISOString(),
+      last_seen_at: row.last_seen_at.toISOString(),
+      resolved_at: row.resolved_at ? row.resolved_at.toISOString() : null,
+    };
+  }
+
+  // Demographics draft operations
+
+  /**
+   * Stores a draft extracted from a document. Returns false, storing nothing,
+   * when the document already has one (e.g. a redelivered message).
+   */
+  async createDemographicsDraft(draft: DemographicsDraft): Promise<boolean> {
+    const pool = await this.getPool();
+    const fields = await fieldEncryptionService.encryptFields(draft.fields, ENCRYPTED_DEMOGRAPHICS_FIELDS);
+    try {
+      await pool.request()
+        .input('id', sql.UniqueIdentifier, draft.id)
+        .input('partitionKey', sql.VarChar(75), draft.partitionKey)
+        .input('document_correlation_id', sql.UniqueIdentifier, draft.document_correlation_id)
+        .input('status', sql.VarChar(20), draft.status)
+        .input('fields', sql.NVarChar(sql.MAX), JSON.stringify(fields))
+        .input('confidence', sql.NVarChar(sql.MAX), JSON.stringify(draft.confidence))
+        .input('missing_fields', sql.NVarChar(sql.MAX), JSON.stringify(draft.missing_fields))
+        .input('created_at', sql.DateTime2, new Date(draft.created_at))
+        .input('updated_at', sql.DateTime2, new Date(draft.updated_at))
+        .query(`
+          INSERT INTO DemographicsDrafts (
+            id, partitionKey, document_correlation_id, status, fields, confidence, missing_fields, created_at, updated_at
+          ) VALUES (
+            @id, @partitionKey, @document_correlation_id, @status, @fields, @confidence, @missing_fields, @created_at, @updated_at
+          )
+        `);
+    } catch (error) {
+      if (this.isUniqueViolation(error)) return false;
+      throw error;
+    }
+
+    logger.logDatabaseEvent('INSERT', 'DemographicsDrafts', draft.id);
+    return true;
+  }
+
+  async getDemographicsDraft(id: string, lawFirm: string): Promise<DemographicsDraft | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query('SELECT * FROM DemographicsDrafts WHERE id = @id AND partitionKey = @partitionKey');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapDemographicsDraft(result.recordset[0]);
+  }
+
+  async getDemographicsDraftForDocument(correlationId: string): Promise<DemographicsDraft | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('document_correlation_id', sql.UniqueIdentifier, correlationId)
+      .query('SELECT * FROM DemographicsDrafts WHERE document_correlation_id = @document_correlation_id');
+
+    if (result.recordset.length === 0) return null;
+    return this.mapDemographicsDraft(result.recordset[0]);
+  }
+
+  async listDemographicsDrafts(lawFirm: string, query: ListDraftsQuery): Promise<DemographicsDraft[]> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('limit', sql.Int, query.limit)
+      .input('offset', sql.Int, query.offset);
+
+    let whereClause = 'WHERE partitionKey = @partitionKey';
+    if (query.status) {
+      whereClause += ' AND status = @status';
+      request.input('status', sql.VarChar(20), query.status);
+    }
+
+    const result = await request.query(`
+      SELECT * FROM DemographicsDrafts
+      ${whereClause}
+      ORDER BY created_at DESC, id
+      OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+    `);
+
+    return Promise.all(result.recordset.map(row => this.mapDemographicsDraft(row)));
+  }
+
+  /**
+   * Approves or rejects a draft that is still pending review. Returns null
+   * when it is not (already reviewed, or reviewed concurrently).
+   */
+  async reviewDemographicsDraft(
+    id: string,
+    lawFirm: string,
+    review: { status: 'approved' | 'rejected'; demographicsId?: string; reason?: string; keyId?: string }
+  ): Promise<DemographicsDraft | null> {
+    const pool = await this.getPool();
+    const now = new Date();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('status', sql.VarChar(20), review.status)
+      .input('demographics_id', sql.UniqueIdentifier, review.demographicsId ?? null)
+      .input('rejection_reason', sql.NVarChar(1000), review.reason ?? null)
+      .input('reviewed_by_key_id', sql.VarChar(50), review.keyId ?? null)
+      .input('now', sql.DateTime2, now)
+      .query(`
+        UPDATE DemographicsDrafts
+        SET status = @status,
+          demographics_id = @demographics_id,
+          rejection_reason = @rejection_reason,
+          reviewed_by_key_id = @reviewed_by_key_id,
+          reviewed_at = @now,
+          updated_at = @now
+        OUTPUT INSERTED.*
+        WHERE id = @id AND partitionKey = @partitionKey AND status = 'pending_review'
+      `);
+
+    if (result.recordset.length === 0) return null;
+    logger.logDatabaseEvent('UPDATE', 'DemographicsDrafts', `${id} ${review.status}`);
+    return this.mapDemographicsDraft(result.recordset[0]);
+  }
+
+  /**
+   * Puts an approved draft back up for review when its record could not be created.
+   */
+  async reopenDemographicsDraft(id: string): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        UPDATE DemographicsDrafts
+        SET status = 'pending_review', demographics_id = NULL, reviewed_by_key_id = NULL, reviewed_at = NULL, updated_at = @now
+        WHERE id = @id
+      `);
+
+    logger.logDatabaseEvent('UPDATE', 'DemographicsDrafts', `${id} pending_review`);
+  }
+
+  /**
+   * Attaches a document to a demographics record, unless it already belongs to one.
+   */
+  async linkDocumentToDemographic(correlationId: string, demographicsId: string): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('demographics_id', sql.UniqueIdentifier, demographicsId)
+      .input('now', sql.DateTime2, new Date())
+      .query(`
+        UPDATE Documents
+        SET demographics_id = @demographics_id, updated_at = @now
+        WHERE correlation_id = @correlation_id AND demographics_id IS NULL
+      `);
+
+    logger.logDatabaseEvent('UPDATE', 'Documents', `${correlationId} linked ${demographicsId}`);
+  }
+
+  private async mapDemographicsDraft(row: any): Promise<DemographicsDraft> {
+    return {
+      ...row,
+      id: String(row.id).toLowerCase(),
+      document_correlation_id: String(row.document_correlation_id).toLowerCase(),
+      demographics_id: row.demographics_id ? String(row.demographics_id).toLowerCase() : null,
+      fields: await fieldEncryptionService.decryptFields(JSON.parse(row.fields), ENCRYPTED_DEMOGRAPHICS_FIELDS),
+      confidence: JSON.parse(row.confidence),
+      missing_fields: JSON.parse(row.missing_fields),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      reviewed_at: row.reviewed_at ? row.reviewed_at.toISOString() : null,
+    };
   }
 
   // API Key operations
@@ -0,0 +1,225 @@
+import sql from 'mssql';
+import crypto from 'crypto';
+import { getPool } from '../../config/database';
+import { logger } from '../services/logger.service';
+import { AppliedMigration, Migration, MigrationStatus } from '../types/migration';
+import { migrations as defaultMigrations } from './migrations';
+
+const LOCK_RESOURCE = 'schema_migrations';
+
+const checksumOf = (migration: Migration): string =>
+  crypto.createHash('sha256').update(migration.up.join('\n')).digest('hex');
+
+/**
+ * Applies and reverts the numbered migrations in `./migrations`, recording each
+ * applied one in `schema_migrations`. Every migration runs in its own
+ * transaction holding an exclusive app lock, so concurrent runners (several
+ * instances deploying at once) apply each migration exactly once.
+ */
+class MigrationRunner {
+  constructor(private readonly migrations: Migration[]) {}
+
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied();
+    const appliedById = new Map(applied.map(row => [row.id, row]));
+    const known = new Set(this.migrations.map(migration => migration.id));
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => {
+      const row = appliedById.get(migration.id);
+      if (!row) {
+        return { id: migration.id, name: migration.name, state: 'pending', applied_at: null };
+      }
+      return {
+        id: migration.id,
+        name: migration.name,
+        state: row.checksum === checksumOf(migration) ? 'applied' : 'modified',
+        applied_at: row.applied_at,
+      };
+    });
+
+    // Applied by a newer build than this one
+    for (const row of applied) {
+      if (!known.has(row.id)) {
+        statuses.push({ id: row.id, name: row.name, state: 'missing', applied_at: row.applied_at });
+      }
+    }
+
+    return statuses.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async getPending(): Promise<Migration[]> {
+    const applied = new Set((await this.getApplied()).map(row => row.id));
+    return this.migrations.filter(migration => !applied.has(migration.id));
+  }
+
+  /**
+   * Applies pending migrations in order, up to and including `target` when given.
+   * Returns the ids that were applied by this call.
+   */
+  async up(target?: string): Promise<string[]> {
+    if (target && !this.migrations.some(migration => migration.id === target)) {
+      throw new Error(`Unknown migration: ${target}`);
+    }
+
+    const applied: string[] = [];
+    for (const migration of await this.getPending()) {
+      if (target && migration.id > target) break;
+
+      const ran = await this.inLockedTransaction(async transaction => {
+        if (await this.isApplied(transaction, migration.id)) return false;
+
+        for (const batch of migration.up) {
+          await new sql.Request(transaction).batch(batch);
+        }
+        await new sql.Request(transaction)
+          .input('id', sql.NVarChar(20), migration.id)
+          .input('name', sql.NVarChar(200), migration.name)
+          .input('checksum', sql.NVarChar(64), checksumOf(migration))
+          .query(`
+            INSERT INTO schema_migrations (id, name, checksum, applied_at)
+            VALUES (@id, @name, @checksum, SYSUTCDATETIME())
+          `);
+        return true;
+      });
+
+      if (ran) {
+        applied.push(migration.id);
+        logger.info('Migration applied', { id: migration.id, name: migration.name });
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Reverts the most recently applied `steps` migrations. Stops with an error at
+   * a migration that has no `down`, leaving it and everything before it applied.
+   */
+  async down(steps = 1): Promise<string[]> {
+    if (steps < 1) return [];
+
+    const applied = await this.getApplied();
+    const toRevert = applied.slice(-steps).reverse();
+    const reverted: string[] = [];
+
+    for (const row of toRevert) {
+      const migration = this.migrations.find(candidate => candidate.id === row.id);
+      if (!migration) {
+        throw new Error(`Migration ${row.id} (${row.name}) is not part of this build and cannot be reverted`);
+      }
+      if (!migration.down) {
+        throw new Error(`Migration ${migration.id} (${migration.name}) is irreversible`);
+      }
+
+      await this.inLockedTransaction(async transaction => {
+        if (!(await this.isApplied(transaction, migration.id))) return;
+
+        for (const batch of migration.down!) {
+          await new sql.Request(transaction).batch(batch);
+        }
+        await new sql.Request(transaction)
+          .input('id', sql.NVarChar(20), migration.id)
+          .query('DELETE FROM schema_migrations WHERE id = @id');
+      });
+
+      reverted.push(migration.id);
+      logger.info('Migration reverted', { id: migration.id, name: migration.name });
+    }
+    return reverted;
+  }
+
+  /**
+   * Throws when the database is behind this build or an applied migration has
+   * been edited since. Migrations applied by a newer build are only logged so
+   * that rolling back a deployment still boots.
+   */
+  async assertUpToDate(): Promise<void> {
+    const statuses = await this.status();
+    const pending = statuses.filter(status => status.state === 'pending');
+    const modified = statuses.filter(status => status.state === 'modified');
+    const missing = statuses.filter(status => status.state === 'missing');
+
+    if (missing.length > 0) {
+      logger.warn('Database has migrations this build does not know about', {
+        migrations: missing.map(status => `${status.id}_${status.name}`),
+      });
+    }
+    if (modified.length > 0) {
+      throw new Error(
+        `Applied migrations were modified: ${modified.map(status => `${status.id}_${status.name}`).join(', ')}`
+      );
+    }
+    if (pending.length > 0) {
+      throw new Error(
+        `Database has pending migrations: ${pending.map(status => `${status.id}_${status.name}`).join(', ')}. ` +
+          'Run `npm run migrate:up` before starting the server.'
+      );
+    }
+  }
+
+  private async getApplied(): Promise<AppliedMigration[]> {
+    const pool = getPool();
+    await this.ensureTable(pool);
+
+    const result = await pool.request().query(`
+      SELECT id, name, checksum, applied_at
+      FROM schema_migrations
+      ORDER BY id ASC
+    `);
+
+    return result.recordset.map(row => ({
+      id: row.id,
+      name: row.name,
+      checksum: row.checksum,
+      applied_at: row.applied_at instanceof Date ? row.applied_at.toISOString() : row.applied_at,
+    }));
+  }
+
+  private async ensureTable(pool: sql.ConnectionPool): Promise<void> {
+    await pool.request().batch(`
+      IF OBJECT_ID(N'dbo.schema_migrations', N'U') IS NULL
+      BEGIN
+        CREATE TABLE schema_migrations (
+          id NVARCHAR(20) PRIMARY KEY,
+          name NVARCHAR(200) NOT NULL,
+          checksum NVARCHAR(64) NOT NULL,
+          applied_at DATETIME2 NOT NULL
+        );
+      END
+    `);
+  }
+
+  private async isApplied(transaction: sql.Transaction, id: string): Promise<boolean> {
+    const result = await new sql.Request(transaction)
+      .input('id', sql.NVarChar(20), id)
+      .query('SELECT 1 AS applied FROM schema_migrations WHERE id = @id');
+    return result.recordset.length > 0;
+  }
+
+  private async inLockedTransaction<T>(work: (transaction: sql.Transaction) => Promise<T>): Promise<T> {
+    const transaction = new sql.Transaction(getPool());
+    await transaction.begin();
+
+    try {
+      const lock = await new sql.Request(transaction)
+        .input('resource', sql.NVarChar(255), LOCK_RESOURCE)
+        .query(`
+          DECLARE @result INT;
+          EXEC @result = sp_getapplock @Resource = @resource, @LockMode = 'Exclusive',
+            @LockOwner = 'Transaction', @LockTimeout = 60000;
+          SELECT @result AS result;
+        `);
+      if (lock.recordset[0].result < 0) {
+        throw new Error('Timed out waiting for the schema migration lock');
+      }
+
+      const result = await work(transaction);
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
+
+export const migrationRunner = new MigrationRunner(defaultMigrations);
@@ -0,0 +1,32 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Stored responses for Idempotency-Key replay (IdempotencyService).
+ */
+export const migration: Migration = {
+  id: '0002',
+  name: 'idempotency_records',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.idempotency_records', N'U') IS NULL
+    BEGIN
+      CREATE TABLE idempotency_records (
+        law_firm NVARCHAR(75) NOT NULL,
+        idempotency_key UNIQUEIDENTIFIER NOT NULL,
+        method NVARCHAR(10) NOT NULL,
+        path NVARCHAR(500) NOT NULL,
+        request_hash NVARCHAR(64) NOT NULL,
+        response_status INT NOT NULL,
+        response_body NVARCHAR(MAX) NOT NULL,
+        expires_at DATETIME2 NOT NULL,
+        PRIMARY KEY (law_firm, idempotency_key),
+
+        INDEX IX_idempotency_records_ExpiresAt (expires_at)
+      );
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS idempotency_records`,
+  ],
+};
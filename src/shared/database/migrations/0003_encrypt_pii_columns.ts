@@ -0,0 +1,17 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Widen PII columns so they can hold application-layer ciphertext. Run
+ * `npm run encryption:rotate` afterwards to encrypt rows written in plaintext.
+ * Not reversible: encrypted values do not fit the original column types.
+ */
+export const migration: Migration = {
+  id: '0003',
+  name: 'encrypt_pii_columns',
+  up: [
+    `ALTER TABLE Demographics ALTER COLUMN dob NVARCHAR(512) NULL`,
+    `ALTER TABLE Demographics ALTER COLUMN ssn NVARCHAR(512) NULL`,
+    `ALTER TABLE Demographics ALTER COLUMN alternateclaimantdob NVARCHAR(512) NULL`,
+    `ALTER TABLE Demographics ALTER COLUMN alternateclaimantssn NVARCHAR(512) NULL`,
+  ],
+};
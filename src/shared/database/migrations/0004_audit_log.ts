@@ -0,0 +1,34 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Field-level change history. PII values in `changes` are stored encrypted.
+ */
+export const migration: Migration = {
+  id: '0004',
+  name: 'audit_log',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.AuditLog', N'U') IS NULL
+    BEGIN
+      CREATE TABLE AuditLog (
+        sequence BIGINT IDENTITY(1,1) NOT NULL,
+        id UNIQUEIDENTIFIER PRIMARY KEY NONCLUSTERED,
+        partitionKey NVARCHAR(75) NOT NULL,
+        entity_type NVARCHAR(50) NOT NULL,
+        entity_id NVARCHAR(100) NOT NULL,
+        action NVARCHAR(30) NOT NULL,
+        changes NVARCHAR(MAX) NOT NULL, -- JSON { field: { from, to } }
+        key_id NVARCHAR(50),
+        request_id NVARCHAR(100),
+        created_at DATETIME2 NOT NULL,
+
+        INDEX IX_AuditLog_Entity CLUSTERED (entity_type, entity_id, created_at, sequence),
+        INDEX IX_AuditLog_PartitionKey (partitionKey)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS AuditLog`,
+  ],
+};
@@ -0,0 +1,50 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Closing statement templates (versioned per law firm; version 0 is built in
+ * and not stored) and the statements generated from them.
+ */
+export const migration: Migration = {
+  id: '0005',
+  name: 'settlement_statements',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.StatementTemplates', N'U') IS NULL
+    BEGIN
+      CREATE TABLE StatementTemplates (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        name NVARCHAR(100) NOT NULL,
+        version INT NOT NULL,
+        definition NVARCHAR(MAX) NOT NULL, -- JSON
+        created_at DATETIME2 NOT NULL,
+        created_by_key_id NVARCHAR(50),
+
+        CONSTRAINT UQ_StatementTemplates_Version UNIQUE (partitionKey, version)
+      )
+    END
+    `,
+    `
+    IF OBJECT_ID(N'dbo.SettlementStatements', N'U') IS NULL
+    BEGIN
+      CREATE TABLE SettlementStatements (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        demographics_id UNIQUEIDENTIFIER NOT NULL,
+        template_version INT NOT NULL,
+        blob_name NVARCHAR(500) NOT NULL,
+        content_sha256 NVARCHAR(64) NOT NULL,
+        record_as_of DATETIME2 NOT NULL,
+        created_at DATETIME2 NOT NULL,
+        created_by_key_id NVARCHAR(50),
+
+        INDEX IX_SettlementStatements_Demographics (demographics_id, created_at)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS SettlementStatements`,
+    `DROP TABLE IF EXISTS StatementTemplates`,
+  ],
+};
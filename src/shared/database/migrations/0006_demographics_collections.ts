@@ -0,0 +1,141 @@
+import { Migration } from '../../types/migration';
+
+interface ChildTable {
+  table: string;
+  slots: number;
+  // Child column -> legacy Demographics column for a 1-based slot
+  columns: Record<string, (slot: number) => string>;
+  definitions: string;
+}
+
+// Kept local so this migration does not change when application code does
+const CHILD_TABLES: ChildTable[] = [
+  {
+    table: 'DemographicsAttorneys',
+    slots: 10,
+    columns: {
+      name: i => `attorney${i}name`,
+      fee_percent: i => `attorney${i}feepercent`,
+      fees: i => `attorney${i}fees`,
+      cost_amount: i => `attorney${i}costamount`,
+    },
+    definitions: `
+        name NVARCHAR(75),
+        fee_percent DECIMAL(10,4),
+        fees DECIMAL(15,4),
+        cost_amount DECIMAL(15,4),`,
+  },
+  {
+    table: 'DemographicsMedicalLiens',
+    slots: 6,
+    columns: {
+      name: i => `medicallien${i}name`,
+      lien_id: i => `lienid${i}`,
+      lien_type: i => `lientype${i}`,
+      amount: i => `medicallien${i}`,
+    },
+    definitions: `
+        name NVARCHAR(55),
+        lien_id NVARCHAR(55),
+        lien_type NVARCHAR(35), -- enum
+        amount DECIMAL(15,4),`,
+  },
+  {
+    table: 'DemographicsOtherLiens',
+    slots: 2,
+    columns: {
+      name: i => `otherlien${i}name`,
+      amount: i => `otherlien${i}amount`,
+    },
+    definitions: `
+        name NVARCHAR(55),
+        amount DECIMAL(15,4),`,
+  },
+  {
+    table: 'DemographicsCostDetails',
+    slots: 10,
+    columns: {
+      attorney_name: i => `attorney${i}name_cost`,
+      name: i => `attorney${i}_costdetailname`,
+      amount: i => `attorney${i}_costdetailamount`,
+    },
+    definitions: `
+        attorney_name NVARCHAR(75),
+        name NVARCHAR(128),
+        amount DECIMAL(15,4),`,
+  },
+];
+
+const slots = (child: ChildTable): number[] => Array.from({ length: child.slots }, (_, i) => i + 1);
+
+const createTable = (child: ChildTable): string => `
+    IF OBJECT_ID(N'dbo.${child.table}', N'U') IS NULL
+    BEGIN
+      CREATE TABLE ${child.table} (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        demographics_id UNIQUEIDENTIFIER NOT NULL REFERENCES Demographics(id) ON DELETE CASCADE,
+        position INT NOT NULL,${child.definitions}
+
+        INDEX IX_${child.table}_Demographics (demographics_id, position)
+      )
+    END
+    `;
+
+/**
+ * Copies the numbered legacy columns into the child table. Empty slots are
+ * skipped and positions renumbered, matching how the API reads legacy fields.
+ */
+const copyFromLegacy = (child: ChildTable): string => {
+  const columns = Object.keys(child.columns);
+  const rows = slots(child)
+    .map(slot => `(${slot}, ${Object.values(child.columns).map(legacy => `d.${legacy(slot)}`).join(', ')})`)
+    .join(',\n        ');
+
+  return `
+    INSERT INTO ${child.table} (id, demographics_id, position, ${columns.join(', ')})
+    SELECT NEWID(), d.id, ROW_NUMBER() OVER (PARTITION BY d.id ORDER BY v.slot), ${columns.map(c => `v.${c}`).join(', ')}
+    FROM Demographics d
+    CROSS APPLY (VALUES
+        ${rows}
+    ) v(slot, ${columns.join(', ')})
+    WHERE ${columns.map(c => `v.${c} IS NOT NULL`).join(' OR ')}
+    `;
+};
+
+const clearLegacy = (child: ChildTable): string => `
+    UPDATE Demographics SET
+      ${slots(child).flatMap(slot => Object.values(child.columns).map(legacy => `${legacy(slot)} = NULL`)).join(',\n      ')}
+    `;
+
+const copyToLegacy = (child: ChildTable): string => `
+    UPDATE d SET
+      ${slots(child)
+        .flatMap(slot =>
+          Object.entries(child.columns).map(
+            ([column, legacy]) =>
+              `${legacy(slot)} = (SELECT ${column} FROM ${child.table} c WHERE c.demographics_id = d.id AND c.position = ${slot})`
+          )
+        )
+        .join(',\n      ')}
+    FROM Demographics d
+    `;
+
+/**
+ * Moves attorneys, medical liens, other liens and cost details out of the
+ * numbered Demographics columns into child tables. The legacy columns are
+ * cleared so the child tables are the only copy. Reverting copies back the
+ * items that fit into the legacy slots.
+ */
+export const migration: Migration = {
+  id: '0006',
+  name: 'demographics_collections',
+  up: [
+    ...CHILD_TABLES.map(createTable),
+    ...CHILD_TABLES.map(copyFromLegacy),
+    ...CHILD_TABLES.map(clearLegacy),
+  ],
+  down: [
+    ...CHILD_TABLES.map(copyToLegacy),
+    ...CHILD_TABLES.map(child => `DROP TABLE IF EXISTS ${child.table}`),
+  ],
+};
@@ -0,0 +1,22 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Serves the keyset-paginated listing (newest first within a firm) from one
+ * index seek instead of sorting the firm's rows.
+ */
+export const migration: Migration = {
+  id: '0007',
+  name: 'demographics_keyset_index',
+  up: [
+    `
+    IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_CreatedAt' AND object_id = OBJECT_ID(N'dbo.Demographics'))
+    BEGIN
+      CREATE INDEX IX_Demographics_PartitionKey_CreatedAt
+        ON Demographics (partitionKey, created_at DESC, id DESC);
+    END
+    `,
+  ],
+  down: [
+    `DROP INDEX IF EXISTS IX_Demographics_PartitionKey_CreatedAt ON Demographics`,
+  ],
+};
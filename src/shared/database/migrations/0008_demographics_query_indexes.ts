@@ -0,0 +1,33 @@
+import { Migration } from '../../types/migration';
+
+// Listing filter/sort fields (DEMOGRAPHICS_QUERY_FIELDS) not covered by 0001's indexes
+const FIELDS = [
+  'updated_at',
+  'dod',
+  'sf_id',
+  'ml_id',
+  'law_firm_approval',
+  'bankruptcy',
+  'probate',
+  'state',
+  'zipcode',
+  'totalgrossaward',
+  'netclaimantpayment',
+];
+
+const indexName = (field: string): string => `IX_Demographics_PartitionKey_${field}`;
+
+/**
+ * Indexes the fields the listing can filter and sort on, scoped by firm.
+ */
+export const migration: Migration = {
+  id: '0008',
+  name: 'demographics_query_indexes',
+  up: FIELDS.map(field => `
+    IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = '${indexName(field)}' AND object_id = OBJECT_ID(N'dbo.Demographics'))
+    BEGIN
+      CREATE INDEX ${indexName(field)} ON Demographics (partitionKey, ${field});
+    END
+    `),
+  down: FIELDS.map(field => `DROP INDEX IF EXISTS ${indexName(field)} ON Demographics`),
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Duplicate claimant detection and merging. `ssn_match` and `name_dob_match`
+ * are keyed hashes (blind indexes) of the normalized, encrypted values so they
+ * can be compared in SQL; run `npm run duplicates:backfill` after applying to
+ * fill them for existing rows. Merged records point at their survivor through
+ * `merged_into`, and AuditLog.details records merge survivorship.
+ */
+export const migration: Migration = {
+  id: '0009',
+  name: 'duplicate_matching',
+  up: [
+    `
+    ALTER TABLE Demographics ADD
+      ssn_match NVARCHAR(64) NULL,
+      name_dob_match NVARCHAR(64) NULL,
+      merged_into UNIQUEIDENTIFIER NULL
+    `,
+    `CREATE INDEX IX_Demographics_PartitionKey_SsnMatch ON Demographics (partitionKey, ssn_match)`,
+    `CREATE INDEX IX_Demographics_PartitionKey_NameDobMatch ON Demographics (partitionKey, name_dob_match)`,
+    `CREATE INDEX IX_Demographics_PartitionKey_LawFirmClientId ON Demographics (partitionKey, law_firm_client_id)`,
+    `ALTER TABLE AuditLog ADD details NVARCHAR(MAX) NULL -- JSON`,
+  ],
+  down: [
+    `ALTER TABLE AuditLog DROP COLUMN details`,
+    `DROP INDEX IF EXISTS IX_Demographics_PartitionKey_LawFirmClientId ON Demographics`,
+    `DROP INDEX IF EXISTS IX_Demographics_PartitionKey_NameDobMatch ON Demographics`,
+    `DROP INDEX IF EXISTS IX_Demographics_PartitionKey_SsnMatch ON Demographics`,
+    `ALTER TABLE Demographics DROP COLUMN ssn_match, name_dob_match, merged_into`,
+  ],
+};
@@ -0,0 +1,41 @@
+import { Migration } from '../../types/migration';
+
+// External identifiers a record can be upserted by (ExternalIdTypeSchema)
+const FIELDS = ['sf_id', 'ml_id', 'law_firm_client_id'];
+
+const indexName = (field: string): string => `UX_Demographics_PartitionKey_${field}`;
+
+// Deleted and merged records keep their identifiers but no longer own them
+const liveWith = (field: string): string =>
+  `${field} IS NOT NULL AND ${field} <> '' AND status <> 'deleted' AND status <> 'merged'`;
+
+/**
+ * Makes each external identifier unique among a firm's live records, which is
+ * what lets upserts by external id match at most one row. Fails without
+ * changing anything while duplicates remain; merge them first
+ * (GET /api/v1/demographics/duplicates lists them).
+ */
+export const migration: Migration = {
+  id: '0010',
+  name: 'external_id_uniqueness',
+  up: [
+    ...FIELDS.map(field => `
+    IF EXISTS (
+      SELECT 1 FROM Demographics
+      WHERE ${liveWith(field)}
+      GROUP BY partitionKey, ${field}
+      HAVING COUNT(*) > 1
+    )
+      THROW 50000, 'Demographics has live records sharing a ${field} within a firm; merge them before applying this migration', 1;
+    `),
+    ...FIELDS.map(field => `
+    IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = '${indexName(field)}' AND object_id = OBJECT_ID(N'dbo.Demographics'))
+    BEGIN
+      CREATE UNIQUE INDEX ${indexName(field)}
+        ON Demographics (partitionKey, ${field})
+        WHERE ${liveWith(field)};
+    END
+    `),
+  ],
+  down: FIELDS.map(field => `DROP INDEX IF EXISTS ${indexName(field)} ON Demographics`),
+};
@@ -0,0 +1,81 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Spreadsheet imports: saved column mapping profiles per law firm, import jobs
+ * with their progress, and the per-row errors an import produced.
+ */
+export const migration: Migration = {
+  id: '0011',
+  name: 'demographics_imports',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.ImportMappingProfiles', N'U') IS NULL
+    BEGIN
+      CREATE TABLE ImportMappingProfiles (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        name NVARCHAR(100) NOT NULL,
+        columns NVARCHAR(MAX) NOT NULL, -- JSON: column header -> field
+        defaults NVARCHAR(MAX) NOT NULL, -- JSON: field -> value
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        created_by_key_id NVARCHAR(50),
+
+        CONSTRAINT UQ_ImportMappingProfiles_Name UNIQUE (partitionKey, name)
+      )
+    END
+    `,
+    `
+    IF OBJECT_ID(N'dbo.DemographicsImports', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DemographicsImports (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        status NVARCHAR(20) NOT NULL,
+        file_name NVARCHAR(255) NOT NULL,
+        blob_name NVARCHAR(500) NOT NULL,
+        format NVARCHAR(10) NOT NULL,
+        profile_id UNIQUEIDENTIFIER NULL,
+        columns NVARCHAR(MAX) NOT NULL, -- JSON, resolved from the profile when one was used
+        defaults NVARCHAR(MAX) NOT NULL, -- JSON
+        mode NVARCHAR(10) NOT NULL,
+        upsert_key NVARCHAR(30) NOT NULL,
+        total_rows INT NULL,
+        processed_rows INT NOT NULL DEFAULT 0,
+        imported_rows INT NOT NULL DEFAULT 0,
+        failed_rows INT NOT NULL DEFAULT 0,
+        error NVARCHAR(1000) NULL,
+        error_report_blob_name NVARCHAR(500) NULL,
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        completed_at DATETIME2 NULL,
+        created_by UNIQUEIDENTIFIER NOT NULL,
+        created_by_key_id NVARCHAR(50),
+        request_id NVARCHAR(100),
+
+        INDEX IX_DemographicsImports_PartitionKey (partitionKey, created_at)
+      )
+    END
+    `,
+    `
+    IF OBJECT_ID(N'dbo.DemographicsImportErrors', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DemographicsImportErrors (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        import_id UNIQUEIDENTIFIER NOT NULL,
+        source_row INT NOT NULL,
+        column_name NVARCHAR(255) NULL,
+        field NVARCHAR(100) NULL,
+        message NVARCHAR(500) NOT NULL,
+
+        INDEX IX_DemographicsImportErrors_Import (import_id, source_row)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DemographicsImportErrors`,
+    `DROP TABLE IF EXISTS DemographicsImports`,
+    `DROP TABLE IF EXISTS ImportMappingProfiles`,
+  ],
+};
@@ -0,0 +1,39 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Bulk export jobs: the query an export was requested with and, once written,
+ * the blob holding the file.
+ */
+export const migration: Migration = {
+  id: '0012',
+  name: 'demographics_exports',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.DemographicsExports', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DemographicsExports (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        status NVARCHAR(20) NOT NULL,
+        format NVARCHAR(10) NOT NULL,
+        query NVARCHAR(MAX) NOT NULL, -- JSON: filters, sort and search
+        columns NVARCHAR(MAX) NOT NULL, -- JSON array
+        mask_pii BIT NOT NULL,
+        blob_name NVARCHAR(500) NULL,
+        row_count INT NULL,
+        error NVARCHAR(1000) NULL,
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        completed_at DATETIME2 NULL,
+        created_by_key_id NVARCHAR(50),
+        request_id NVARCHAR(100),
+
+        INDEX IX_DemographicsExports_PartitionKey (partitionKey, created_at)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DemographicsExports`,
+  ],
+};
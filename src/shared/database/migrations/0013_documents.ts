@@ -0,0 +1,41 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Registry of uploaded documents, keyed by the correlation id issued with the
+ * upload URL. Replaces the per-instance in-memory status cache.
+ */
+export const migration: Migration = {
+  id: '0013',
+  name: 'documents',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.Documents', N'U') IS NULL
+    BEGIN
+      CREATE TABLE Documents (
+        correlation_id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        demographics_id UNIQUEIDENTIFIER NULL,
+        document_type NVARCHAR(50) NULL,
+        original_file_name NVARCHAR(255) NOT NULL,
+        content_type NVARCHAR(100) NOT NULL,
+        blob_name NVARCHAR(500) NOT NULL,
+        file_size BIGINT NULL, -- bytes, known once uploaded
+        content_hash CHAR(64) NULL, -- SHA-256, hex
+        status NVARCHAR(20) NOT NULL,
+        error NVARCHAR(1000) NULL,
+        upload_expires_at DATETIME2 NOT NULL,
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        uploaded_at DATETIME2 NULL,
+        processed_at DATETIME2 NULL,
+
+        CONSTRAINT UQ_Documents_BlobName UNIQUE (blob_name),
+        INDEX IX_Documents_PartitionKey_Demographics (partitionKey, demographics_id, created_at)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS Documents`,
+  ],
+};
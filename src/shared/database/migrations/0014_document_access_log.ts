@@ -0,0 +1,36 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * One row per download URL issued for a registered document, so a firm can
+ * see who was given read access to which medical record and until when.
+ */
+export const migration: Migration = {
+  id: '0014',
+  name: 'document_access_log',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.DocumentAccessLog', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentAccessLog (
+        sequence BIGINT IDENTITY(1,1) NOT NULL,
+        id UNIQUEIDENTIFIER PRIMARY KEY NONCLUSTERED,
+        correlation_id UNIQUEIDENTIFIER NOT NULL,
+        partitionKey NVARCHAR(75) NOT NULL,
+        action NVARCHAR(30) NOT NULL,
+        key_id NVARCHAR(50) NULL,
+        request_id NVARCHAR(100) NULL,
+        ip_address NVARCHAR(45) NULL,
+        user_agent NVARCHAR(500) NULL,
+        expires_at DATETIME2 NULL, -- when the issued URL stops working
+        created_at DATETIME2 NOT NULL,
+
+        INDEX IX_DocumentAccessLog_Document CLUSTERED (correlation_id, created_at, sequence),
+        INDEX IX_DocumentAccessLog_PartitionKey (partitionKey, created_at)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DocumentAccessLog`,
+  ],
+};
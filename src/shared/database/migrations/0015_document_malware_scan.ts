@@ -0,0 +1,22 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Malware scan outcome per document. A document can only be downloaded once
+ * `scan_result` is `clean`; infected blobs are moved to the quarantine
+ * container and the document is marked `quarantined`.
+ */
+export const migration: Migration = {
+  id: '0015',
+  name: 'document_malware_scan',
+  up: [
+    `
+    ALTER TABLE Documents ADD
+      scan_result NVARCHAR(20) NULL,
+      scan_signature NVARCHAR(255) NULL,
+      scanned_at DATETIME2 NULL
+    `,
+  ],
+  down: [
+    `ALTER TABLE Documents DROP COLUMN scan_result, scan_signature, scanned_at`,
+  ],
+};
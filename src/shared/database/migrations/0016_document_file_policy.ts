@@ -0,0 +1,21 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * File policy enforcement for uploads: the size limit declared when the
+ * upload URL was issued (the SAS itself cannot enforce it) and the page count
+ * of PDFs, both checked when the blob arrives.
+ */
+export const migration: Migration = {
+  id: '0016',
+  name: 'document_file_policy',
+  up: [
+    `
+    ALTER TABLE Documents ADD
+      max_file_size BIGINT NULL, -- bytes
+      page_count INT NULL
+    `,
+  ],
+  down: [
+    `ALTER TABLE Documents DROP COLUMN max_file_size, page_count`,
+  ],
+};
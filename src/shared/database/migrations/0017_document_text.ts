@@ -0,0 +1,34 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Text extracted from each document (text layer or OCR), kept apart from
+ * Documents so listing documents never reads it. Searched per law firm.
+ */
+export const migration: Migration = {
+  id: '0017',
+  name: 'document_text',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.DocumentText', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentText (
+        correlation_id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        status NVARCHAR(20) NOT NULL,
+        provider NVARCHAR(50) NOT NULL,
+        content NVARCHAR(MAX) NULL,
+        page_count INT NULL,
+        ocr BIT NOT NULL DEFAULT 0,
+        error NVARCHAR(1000) NULL,
+        extracted_at DATETIME2 NOT NULL,
+
+        CONSTRAINT FK_DocumentText_Documents FOREIGN KEY (correlation_id) REFERENCES Documents (correlation_id) ON DELETE CASCADE,
+        INDEX IX_DocumentText_PartitionKey (partitionKey)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DocumentText`,
+  ],
+};
@@ -0,0 +1,27 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Document type assigned by the classifier (or by hand), next to the type
+ * declared at upload. `classification_mismatch` flags documents whose
+ * confident classification disagrees with the declared type.
+ */
+export const migration: Migration = {
+  id: '0018',
+  name: 'document_classification',
+  up: [
+    `
+    ALTER TABLE Documents ADD
+      classified_type NVARCHAR(50) NULL,
+      classification_confidence DECIMAL(4, 3) NULL,
+      classification_source NVARCHAR(20) NULL,
+      classification_mismatch BIT NOT NULL CONSTRAINT DF_Documents_ClassificationMismatch DEFAULT 0,
+      classified_at DATETIME2 NULL
+    `,
+    `CREATE INDEX IX_Documents_PartitionKey_Mismatch ON Documents (partitionKey, classification_mismatch) WHERE classification_mismatch = 1`,
+  ],
+  down: [
+    `DROP INDEX IF EXISTS IX_Documents_PartitionKey_Mismatch ON Documents`,
+    `ALTER TABLE Documents DROP CONSTRAINT DF_Documents_ClassificationMismatch`,
+    `ALTER TABLE Documents DROP COLUMN classified_type, classification_confidence, classification_source, classification_mismatch, classified_at`,
+  ],
+};
@@ -0,0 +1,40 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Draft demographics records extracted from intake forms, waiting for review.
+ * One draft per source document; `fields` is JSON with the PII values
+ * encrypted like the Demographics columns.
+ */
+export const migration: Migration = {
+  id: '0019',
+  name: 'demographics_drafts',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.DemographicsDrafts', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DemographicsDrafts (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        document_correlation_id UNIQUEIDENTIFIER NOT NULL,
+        status NVARCHAR(20) NOT NULL DEFAULT 'pending_review',
+        fields NVARCHAR(MAX) NOT NULL,
+        confidence NVARCHAR(MAX) NOT NULL,
+        missing_fields NVARCHAR(MAX) NOT NULL,
+        demographics_id UNIQUEIDENTIFIER NULL,
+        rejection_reason NVARCHAR(1000) NULL,
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        reviewed_at DATETIME2 NULL,
+        reviewed_by_key_id VARCHAR(50) NULL,
+
+        CONSTRAINT UQ_DemographicsDrafts_Document UNIQUE (document_correlation_id),
+        CONSTRAINT FK_DemographicsDrafts_Documents FOREIGN KEY (document_correlation_id) REFERENCES Documents (correlation_id) ON DELETE CASCADE,
+        INDEX IX_DemographicsDrafts_PartitionKey_Status (partitionKey, status, created_at DESC)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DemographicsDrafts`,
+  ],
+};
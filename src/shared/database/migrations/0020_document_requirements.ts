@@ -0,0 +1,34 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Which checklist requirement (death certificate, probate letters, ...) an
+ * uploaded document is meant to satisfy for its claimant, and whether each
+ * claimant's checklist was last seen complete, so the
+ * `demographics.documents_complete` webhook is sent once per completion.
+ */
+export const migration: Migration = {
+  id: '0020',
+  name: 'document_requirements',
+  up: [
+    `
+    ALTER TABLE Documents ADD
+      requirement NVARCHAR(50) NULL
+    `,
+    `
+    IF OBJECT_ID(N'dbo.DemographicsDocumentChecklist', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DemographicsDocumentChecklist (
+        demographics_id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        complete BIT NOT NULL DEFAULT 0,
+        completed_at DATETIME2 NULL,
+        updated_at DATETIME2 NOT NULL
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DemographicsDocumentChecklist`,
+    `ALTER TABLE Documents DROP COLUMN requirement`,
+  ],
+};
@@ -0,0 +1,57 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Resumable uploads: a session per chunked upload and a row per chunk
+ * received, with the chunk's MD5, so a client can ask what is left to send.
+ */
+export const migration: Migration = {
+  id: '0021',
+  name: 'document_upload_sessions',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.DocumentUploadSessions', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentUploadSessions (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        correlation_id UNIQUEIDENTIFIER NOT NULL,
+        partitionKey NVARCHAR(75) NOT NULL,
+        blob_name NVARCHAR(500) NOT NULL,
+        file_size BIGINT NOT NULL,
+        chunk_size INT NOT NULL,
+        total_chunks INT NOT NULL,
+        expected_sha256 CHAR(64) NULL,
+        sha256 CHAR(64) NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'open',
+        error NVARCHAR(1000) NULL,
+        expires_at DATETIME2 NOT NULL,
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        committed_at DATETIME2 NULL,
+        created_by_key_id VARCHAR(50) NULL,
+
+        CONSTRAINT UQ_DocumentUploadSessions_Document UNIQUE (correlation_id),
+        CONSTRAINT FK_DocumentUploadSessions_Documents FOREIGN KEY (correlation_id) REFERENCES Documents (correlation_id) ON DELETE CASCADE
+      )
+    END
+    `,
+    `
+    IF OBJECT_ID(N'dbo.DocumentUploadChunks', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentUploadChunks (
+        session_id UNIQUEIDENTIFIER NOT NULL,
+        chunk_index INT NOT NULL,
+        size INT NOT NULL,
+        md5 CHAR(24) NOT NULL,
+        received_at DATETIME2 NOT NULL,
+
+        CONSTRAINT PK_DocumentUploadChunks PRIMARY KEY (session_id, chunk_index),
+        CONSTRAINT FK_DocumentUploadChunks_Sessions FOREIGN KEY (session_id) REFERENCES DocumentUploadSessions (id) ON DELETE CASCADE
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DocumentUploadChunks`,
+    `DROP TABLE IF EXISTS DocumentUploadSessions`,
+  ],
+};
@@ -0,0 +1,68 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Document retention: how long each law firm keeps its documents (firm-wide
+ * or per document type), legal holds that exempt documents from purging, and
+ * when each document's file was purged.
+ */
+export const migration: Migration = {
+  id: '0022',
+  name: 'document_retention',
+  up: [
+    `
+    ALTER TABLE Documents ADD
+      purged_at DATETIME2 NULL
+    `,
+    `
+    IF OBJECT_ID(N'dbo.DocumentRetentionPolicies', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentRetentionPolicies (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        -- NULL: the firm's default for types without a policy of their own
+        document_type NVARCHAR(50) NULL,
+        retention_days INT NOT NULL,
+        created_at DATETIME2 NOT NULL,
+        updated_at DATETIME2 NOT NULL,
+        updated_by_key_id VARCHAR(50) NULL,
+
+        CONSTRAINT UQ_DocumentRetentionPolicies_Type UNIQUE (partitionKey, document_type)
+      )
+    END
+    `,
+    `
+    IF OBJECT_ID(N'dbo.DocumentLegalHolds', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentLegalHolds (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        partitionKey NVARCHAR(75) NOT NULL,
+        -- Scope: one document, one claimant's documents, or (both NULL) every document of the firm
+        correlation_id UNIQUEIDENTIFIER NULL,
+        demographics_id UNIQUEIDENTIFIER NULL,
+        reason NVARCHAR(1000) NOT NULL,
+        case_reference NVARCHAR(100) NULL,
+        created_at DATETIME2 NOT NULL,
+        created_by_key_id VARCHAR(50) NULL,
+        released_at DATETIME2 NULL,
+        released_by_key_id VARCHAR(50) NULL,
+        release_reason NVARCHAR(1000) NULL,
+
+        INDEX IX_DocumentLegalHolds_PartitionKey_Active (partitionKey, released_at)
+      )
+    END
+    `,
+    `
+    IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Documents_Status_UploadExpiresAt' AND object_id = OBJECT_ID(N'dbo.Documents'))
+    BEGIN
+      CREATE INDEX IX_Documents_Status_UploadExpiresAt
+        ON Documents (status, upload_expires_at);
+    END
+    `,
+  ],
+  down: [
+    `DROP INDEX IF EXISTS IX_Documents_Status_UploadExpiresAt ON Documents`,
+    `DROP TABLE IF EXISTS DocumentLegalHolds`,
+    `DROP TABLE IF EXISTS DocumentRetentionPolicies`,
+    `ALTER TABLE Documents DROP COLUMN purged_at`,
+  ],
+};
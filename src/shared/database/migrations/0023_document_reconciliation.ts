@@ -0,0 +1,38 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * What the reconciliation job found wrong between registered documents and
+ * the blobs actually stored: blobs nothing owns, and uploads that arrived but
+ * were never processed. A finding stays open until a later run no longer
+ * sees the problem.
+ */
+export const migration: Migration = {
+  id: '0023',
+  name: 'document_reconciliation',
+  up: [
+    `
+    IF OBJECT_ID(N'dbo.DocumentReconciliationFindings', N'U') IS NULL
+    BEGIN
+      CREATE TABLE DocumentReconciliationFindings (
+        id UNIQUEIDENTIFIER PRIMARY KEY,
+        kind VARCHAR(30) NOT NULL,
+        blob_name NVARCHAR(500) NOT NULL,
+        correlation_id UNIQUEIDENTIFIER NULL,
+        -- The firm the blob belongs to, when that can be told; only the firm sees the finding
+        partitionKey NVARCHAR(75) NULL,
+        blob_size BIGINT NULL,
+        blob_created_at DATETIME2 NULL,
+        first_seen_at DATETIME2 NOT NULL,
+        last_seen_at DATETIME2 NOT NULL,
+        resolved_at DATETIME2 NULL,
+
+        CONSTRAINT UQ_DocumentReconciliationFindings_Blob UNIQUE (blob_name, kind),
+        INDEX IX_DocumentReconciliationFindings_Open (resolved_at, kind)
+      )
+    END
+    `,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS DocumentReconciliationFindings`,
+  ],
+};
@@ -0,0 +1,54 @@
+import { Migration } from '../../types/migration';
+import { migration as initialSchema } from './0001_initial_schema';
+import { migration as idempotencyRecords } from './0002_idempotency_records';
+import { migration as encryptPiiColumns } from './0003_encrypt_pii_columns';
+import { migration as auditLog } from './0004_audit_log';
+import { migration as settlementStatements } from './0005_settlement_statements';
+import { migration as demographicsCollections } from './0006_demographics_collections';
+import { migration as demographicsKeysetIndex } from './0007_demographics_keyset_index';
+import { migration as demographicsQueryIndexes } from './0008_demographics_query_indexes';
+import { migration as duplicateMatching } from './0009_duplicate_matching';
+import { migration as externalIdUniqueness } from './0010_external_id_uniqueness';
+import { migration as demographicsImports } from './0011_demographics_imports';
+import { migration as demographicsExports } from './0012_demographics_exports';
+import { migration as documents } from './0013_documents';
+import { migration as documentAccessLog } from './0014_document_access_log';
+import { migration as documentMalwareScan } from './0015_document_malware_scan';
+import { migration as documentFilePolicy } from './0016_document_file_policy';
+import { migration as documentText } from './0017_document_text';
+import { migration as documentClassification } from './0018_document_classification';
+import { migration as demographicsDrafts } from './0019_demographics_drafts';
+import { migration as documentRequirements } from './0020_document_requirements';
+import { migration as documentUploadSessions } from './0021_document_upload_sessions';
+import { migration as documentRetention } from './0022_document_retention';
+import { migration as documentReconciliation } from './0023_document_reconciliation';
+
+/**
+ * All schema migrations in the order they are applied. Append new migrations;
+ * never edit or reorder one that has been applied anywhere.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  idempotencyRecords,
+  encryptPiiColumns,
+  auditLog,
+  settlementStatements,
+  demographicsCollections,
+  demographicsKeysetIndex,
+  demographicsQueryIndexes,
+  duplicateMatching,
+  externalIdUniqueness,
+  demographicsImports,
+  demographicsExports,
+  documents,
+  documentAccessLog,
+  documentMalwareScan,
+  documentFilePolicy,
+  documentText,
+  documentClassification,
+  demographicsDrafts,
+  documentRequirements,
+  documentUploadSessions,
+  documentRetention,
+  documentReconciliation,
+];
@@ -0,0 +1,97 @@
+import { databaseService } from '../database/database.service';
+import { Demographics, ENCRYPTED_DEMOGRAPHICS_FIELDS } from '../types/demographics';
+import { AuditEntry, FieldDiff } from '../types/audit';
+import { fieldEncryptionService } from './fieldEncryption.service';
+import { piiMaskingService } from './piiMasking.service';
+import { demographicsCollectionsService, LEGACY_COLLECTION_FIELDS } from './demographicsCollections.service';
+
+const isEncryptedField = (field: string): boolean =>
+  (ENCRYPTED_DEMOGRAPHICS_FIELDS as readonly string[]).includes(field);
+
+/**
+ * Read side of the audit log: change history and point-in-time reconstruction
+ * of demographics records. Entries are written by the database service in the
+ * same transaction as the change they describe.
+ */
+class AuditService {
+  async getDemographicHistory(
+    id: string,
+    lawFirm: string,
+    options: { includePii: boolean }
+  ): Promise<AuditEntry[]> {
+    const entries = await databaseService.getAuditEntries('demographics', id, lawFirm);
+
+    return Promise.all(
+      entries.map(async entry => {
+        const changes = await this.decryptChanges(entry.changes);
+        return {
+          ...entry,
+          changes: options.includePii ? changes : this.maskChanges(changes),
+        };
+      })
+    );
+  }
+
+  /**
+   * Rebuilds a record as it was at `asOf` by starting from the current row and
+   * undoing every change recorded after that instant, newest first. Returns null
+   * when the record did not exist yet.
+   */
+  async getDemographicAsOf(id: string, lawFirm: string, asOf: Date): Promise<Demographics | null> {
+    const current = await databaseService.getDemographicById(id, lawFirm);
+    if (!current) return null;
+
+    const laterEntries = await databaseService.getAuditEntries('demographics', id, lawFirm, { since: asOf });
+    if (laterEntries.some(entry => entry.action === 'create')) {
+      return null;
+    }
+
+    let record: Record<string, any> = { ...current };
+    for (const entry of [...laterEntries].reverse()) {
+      const changes = await this.decryptChanges(entry.changes);
+      const legacyValues: Record<string, any> = {};
+      for (const [field, change] of Object.entries(changes)) {
+        if (LEGACY_COLLECTION_FIELDS.has(field)) {
+          // Recorded before attorneys/liens/cost details moved to collections
+          legacyValues[field] = change.from;
+        } else {
+          record[field] = change.from;
+        }
+      }
+      if (Object.keys(legacyValues).length > 0) {
+        const { collections } = demographicsCollectionsService.split(legacyValues, record);
+        record = { ...record, ...collections };
+      }
+    }
+
+    return demographicsCollectionsService.withLegacyFields(record) as Demographics;
+  }
+
+  private async decryptChanges(changes: FieldDiff): Promise<FieldDiff> {
+    const decrypted: FieldDiff = {};
+    for (const [field, change] of Object.entries(changes)) {
+      if (isEncryptedField(field)) {
+        decrypted[field] = {
+          from: change.from ? await fieldEncryptionService.decrypt(change.from, field) : change.from,
+          to: change.to ? await fieldEncryptionService.decrypt(change.to, field) : change.to,
+        };
+      } else {
+        decrypted[field] = change;
+      }
+    }
+    return decrypted;
+  }
+
+  private maskChanges(changes: FieldDiff): FieldDiff {
+    const masked: FieldDiff = {};
+    for (const [field, change] of Object.entries(changes)) {
+      masked[field] = {
+        from: piiMaskingService.maskValue(field, change.from),
+        to: piiMaskingService.maskValue(field, change.to),
+      };
+    }
+    return masked;
+  }
+}
+
+export const auditService = new AuditService();
@@ -1,7 +1,14 @@
 import { BlobServiceClient, BlobSASPermissions, generateBlobSASQueryParameters, StorageSharedKeyCredential } from '@azure/storage-blob';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../database/database.service';
+import { DocumentLifecycleStatus, DocumentRequirement, DocumentScanResult } from '../types/document';
 import { logger } from './logger.service';
 
+// Blob metadata key linking a blob to its document, so it never has to be parsed from the name
+export const CORRELATION_ID_METADATA = 'correlationid';
+
 interface SasUrlResponse {
   uploadUrl: string;
   blobName: string;
@@ -16,15 +23,22 @@ interface DocumentUploadRequest {
   lawFirm: string;
   demographicsId?: string;
   documentType?: string;
+  requirement?: DocumentRequirement;
   maxFileSizeMB?: number;
 }
 
-interface DocumentStatus {
-  status: 'pending' | 'uploaded' | 'processing' | 'completed' | 'failed';
+export interface DocumentStatus {
+  status: DocumentLifecycleStatus;
   uploaded_at?: string;
   processed_at?: string;
   file_size?: number;
+  page_count?: number;
+  content_hash?: string;
   error?: string;
+  // null clears the scan verdict, signature and time
+  scan_result?: DocumentScanResult | null;
+  scan_signature?: string | null;
+  scanned_at?: string;
 }
 
 class BlobSasService {
@@ -32,7 +46,9 @@ class BlobSasService {
   private storageAccount: string;
   private storageKey: string;
   private documentsContainer = 'demographics-documents';
-  private documentStatusCache = new Map<string, DocumentStatus>();
+  private quarantineContainer = 'quarantined-documents';
+  // Chunked uploads are assembled here, out of reach of the blob trigger, until verified
+  private stagingContainer = 'document-upload-staging';
 
   constructor() {
     const connectionString = process.env.BLOB_STORAGE_CONNECTION_STRING!;
@@ -61,9 +77,9 @@ class BlobSasService {
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + 24);
 
-      // Create SAS token
+      // Create SAS token. Create only, without write: the URL can put the
+      // blob once but never replace it after it has been scanned
       const blobSasPermissions = new BlobSASPermissions();
-      blobSasPermissions.write = true;
       blobSasPermissions.create = true;
 
       const sharedKeyCredential = new StorageSharedKeyCredential(
@@ -81,22 +97,12 @@ class BlobSasService {
 
       const uploadUrl = `https://${this.storageAccount}.blob.core.windows.net/${this.documentsContainer}/${blobName}?${sasToken}`;
 
-      // Store initial status
-      this.documentStatusCache.set(correlationId, {
-        status: 'pending',
-      });
-
-      // Store metadata for blob trigger processing
-      await this.storeUploadMetadata(correlationId, {
-        lawFirm: request.lawFirm,
-        demographicsId: request.demographicsId,
-        documentType: request.documentType,
-        originalFileName: request.fileName,
-        contentType: request.contentType,
+      // Register the document so the blob trigger and status checks can find it
+      await this.registerDocument(request, {
+        correlationId,
         blobName,
-        uploadUrl,
-        expiresAt: expiresAt.toISOString(),
-        status: 'pending_upload'
+        expiresAt,
+        maxFileSizeBytes: request.maxFileSizeMB ? Math.round(request.maxFileSizeMB * 1024 * 1024) : null,
       });
 
       logger.info('SAS URL generated for document upload', {
@@ -121,31 +127,63 @@ class BlobSasService {
     }
   }
 
-  async getDocumentStatus(correlationId: string): Promise<DocumentStatus> {
-    try {
-      // Check cache first
-      if (this.documentStatusCache.has(correlationId)) {
-        return this.documentStatusCache.get(correlationId)!;
-      }
-
-      // TODO: Check database for persistent status
-      // For now, return default status
-      return {
-        status: 'pending',
-      };
-
-    } catch (error) {
-      logger.error('Error getting document status', { error, correlationId });
-      throw error;
-    }
+  private async registerDocument(
+    request: DocumentUploadRequest,
+    registration: { correlationId: string; blobName: string; expiresAt: Date; maxFileSizeBytes: number | null }
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await databaseService.createDocument({
+      correlation_id: registration.correlationId,
+      partitionKey: request.lawFirm,
+      demographics_id: request.demographicsId ?? null,
+      document_type: request.documentType ?? null,
+      requirement: request.requirement ?? null,
+      original_file_name: request.fileName,
+      content_type: request.contentType,
+      blob_name: registration.blobName,
+      file_size: null,
+      max_file_size: registration.maxFileSizeBytes,
+      page_count: null,
+      content_hash: null,
+      status: 'pending',
+      error: null,
+      upload_expires_at: registration.expiresAt.toISOString(),
+      created_at: now,
+      updated_at: now,
+      uploaded_at: null,
+      processed_at: null,
+      scan_result: null,
+      scan_signature: null,
+      scanned_at: null,
+      classified_type: null,
+      classification_confidence: null,
+      classification_source: null,
+      classification_mismatch: false,
+      classified_at: null,
+      purged_at: null,
+    });
   }
 
   async updateDocumentStatus(correlationId: string, status: DocumentStatus): Promise<void> {
     try {
-      // Update cache
-      this.documentStatusCache.set(correlationId, status);
+      const updated = await databaseService.updateDocumentStatus(correlationId, {
+        status: status.status,
+        file_size: status.file_size,
+        page_count: status.page_count,
+        content_hash: status.content_hash,
+        error: status.error,
+        uploaded_at: status.uploaded_at,
+        processed_at: status.processed_at,
+        scan_result: status.scan_result,
+        scan_signature: status.scan_signature,
+        scanned_at: status.scanned_at,
+      });
+
+      if (!updated) {
+        logger.warn('Document status update for unregistered document', { correlationId, status: status.status });
+        return;
+      }
 
-      // TODO: Update database for persistent storage
       logger.info('Document status updated', {
         correlationId,
         status: status.status
@@ -160,6 +198,7 @@ class BlobSasService {
   async validateUploadedDocument(blobName: string, maxSizeMB: number = 10): Promise<{
     isValid: boolean;
     fileSize?: number;
+    fileSizeBytes?: number;
     error?: string;
   }> {
     try {
@@ -180,7 +219,8 @@ class BlobSasService {
 
       return {
         isValid: true,
-        fileSize: fileSizeMB
+        fileSize: fileSizeMB,
+        fileSizeBytes: properties.contentLength
       };
 
     } catch (error) {
@@ -192,9 +232,348 @@ class BlobSasService {
     }
   }
 
+  /**
+   * Stores a document generated server-side (e.g. a closing statement) in the
+   * documents container, using the same naming scheme as client uploads.
+   */
+  async uploadGeneratedDocument(request: {
+    lawFirm: string;
+    fileName: string;
+    contentType: string;
+    content: Buffer;
+    metadata?: Record<string, string>;
+  }): Promise<{ blobName: string; correlationId: string }> {
+    try {
+      const correlationId = uuidv4();
+      const sanitizedFileName = this.sanitizeFileName(request.fileName);
+      const blobName = this.generateBlobName(request.lawFirm, sanitizedFileName, correlationId);
+
+      const containerClient = this.blobServiceClient.getContainerClient(this.documentsContainer);
+      await containerClient.createIfNotExists();
+
+      await containerClient.getBlockBlobClient(blobName).uploadData(request.content, {
+        blobHTTPHeaders: { blobContentType: request.contentType },
+        metadata: { ...request.metadata, [CORRELATION_ID_METADATA]: correlationId },
+      });
+
+      logger.info('Generated document stored', {
+        correlationId,
+        lawFirm: request.lawFirm,
+        blobName,
+        size: request.content.length
+      });
+
+      return { blobName, correlationId };
+
+    } catch (error) {
+      logger.error('Error storing generated document', { error, fileName: request.fileName });
+      throw error;
+    }
+  }
+
+  /**
+   * Like uploadGeneratedDocument, for content produced as a stream (e.g. a
+   * bulk export) that should not be held in memory.
+   */
+  async uploadDocumentStream(request: {
+    lawFirm: string;
+    fileName: string;
+    contentType: string;
+    stream: Readable;
+    metadata?: Record<string, string>;
+  }): Promise<{ blobName: string; correlationId: string }> {
+    try {
+      const correlationId = uuidv4();
+      const sanitizedFileName = this.sanitizeFileName(request.fileName);
+      const blobName = this.generateBlobName(request.lawFirm, sanitizedFileName, correlationId);
+
+      const containerClient = this.blobServiceClient.getContainerClient(this.documentsContainer);
+      await containerClient.createIfNotExists();
+
+      await containerClient.getBlockBlobClient(blobName).uploadStream(request.stream, 4 * 1024 * 1024, 4, {
+        blobHTTPHeaders: { blobContentType: request.contentType },
+        metadata: { ...request.metadata, [CORRELATION_ID_METADATA]: correlationId },
+      });
+
+      logger.info('Streamed document stored', {
+        correlationId,
+        lawFirm: request.lawFirm,
+        blobName
+      });
+
+      return { blobName, correlationId };
+
+    } catch (error) {
+      logger.error('Error storing streamed document', { error, fileName: request.fileName });
+      throw error;
+    }
+  }
+
+  /**
+   * Registers a document that will arrive in chunks rather than through an
+   * upload URL. Its size is known up front, so that is the size enforced.
+   */
+  async registerChunkedUpload(request: DocumentUploadRequest & { fileSize: number; expiresAt: Date }): Promise<{
+    blobName: string;
+    correlationId: string;
+  }> {
+    try {
+      const correlationId = uuidv4();
+      const blobName = this.generateBlobName(request.lawFirm, this.sanitizeFileName(request.fileName), correlationId);
+
+      await this.registerDocument(request, {
+        correlationId,
+        blobName,
+        expiresAt: request.expiresAt,
+        maxFileSizeBytes: request.fileSize,
+      });
+
+      logger.info('Chunked document upload registered', {
+        correlationId,
+        lawFirm: request.lawFirm,
+        blobName,
+        fileSize: request.fileSize
+      });
+
+      return { blobName, correlationId };
+
+    } catch (error) {
+      logger.error('Error registering chunked upload', { error, fileName: request.fileName });
+      throw error;
+    }
+  }
+
+  /**
+   * Stages one chunk of a chunked upload as an uncommitted block. Storage
+   * checks the content against `md5` (raw digest) and refuses it on mismatch.
+   * Staging a chunk again replaces it.
+   */
+  async stageDocumentChunk(blobName: string, index: number, content: Buffer, md5: Buffer): Promise<void> {
+    try {
+      const containerClient = this.blobServiceClient.getContainerClient(this.stagingContainer);
+      await containerClient.createIfNotExists();
+
+      await containerClient.getBlockBlobClient(blobName).stageBlock(this.chunkBlockId(index), content, content.length, {
+        transactionalContentMD5: md5,
+      });
+
+    } catch (error) {
+      logger.error('Error staging document chunk', { error, blobName, index });
+      throw error;
+    }
+  }
+
+  /**
+   * Assembles the staged chunks, in order, into the staged blob and returns
+   * the SHA-256 (hex) and size of the result. The blob stays in the staging
+   * container until published.
+   */
+  async commitDocumentChunks(blobName: string, totalChunks: number, contentType: string, correlationId: string): Promise<{
+    sha256: string;
+    fileSize: number;
+  }> {
+    try {
+      const blobClient = this.blobServiceClient
+        .getContainerClient(this.stagingContainer)
+        .getBlockBlobClient(blobName);
+
+      const blockIds = Array.from({ length: totalChunks }, (_, index) => this.chunkBlockId(index));
+      // The metadata travels with the blob when it is published
+      await blobClient.commitBlockList(blockIds, {
+        blobHTTPHeaders: { blobContentType: contentType },
+        metadata: { [CORRELATION_ID_METADATA]: correlationId },
+      });
+
+      // Hash the assembled blob as it streams, rather than holding it in memory
+      const hash = createHash('sha256');
+      let fileSize = 0;
+      const response = await blobClient.download();
+      for await (const chunk of response.readableStreamBody as Readable) {
+        hash.update(chunk);
+        fileSize += chunk.length;
+      }
+
+      return { sha256: hash.digest('hex'), fileSize };
+
+    } catch (error) {
+      logger.error('Error committing document chunks', { error, blobName, totalChunks });
+      throw error;
+    }
+  }
+
+  /**
+   * Copies a verified staged blob into the documents container under the
+   * same name, where the blob trigger picks it up like any other upload.
+   */
+  async publishStagedDocument(blobName: string): Promise<void> {
+    try {
+      const containerClient = this.blobServiceClient.getContainerClient(this.documentsContainer);
+      await containerClient.createIfNotExists();
+
+      const sourceUrl = this.generateReadSasUrl(this.stagingContainer, blobName, 0.25);
+      const poller = await containerClient.getBlobClient(blobName).beginCopyFromURL(sourceUrl);
+      await poller.pollUntilDone();
+
+      await this.discardStagedDocument(blobName);
+
+      logger.info('Staged document published', { blobName, container: this.documentsContainer });
+
+    } catch (error) {
+      logger.error('Error publishing staged document', { error, blobName });
+      throw error;
+    }
+  }
+
+  async discardStagedDocument(blobName: string): Promise<void> {
+    try {
+      await this.blobServiceClient
+        .getContainerClient(this.stagingContainer)
+        .getBlobClient(blobName)
+        .deleteIfExists({ deleteSnapshots: 'include' });
+
+    } catch (error) {
+      logger.error('Error discarding staged document', { error, blobName });
+      throw error;
+    }
+  }
+
+  async downloadDocument(blobName: string): Promise<Buffer> {
+    try {
+      return await this.blobServiceClient
+        .getContainerClient(this.documentsContainer)
+        .getBlobClient(blobName)
+        .downloadToBuffer();
+
+    } catch (error) {
+      logger.error('Error downloading document', { error, blobName });
+      throw error;
+    }
+  }
+
+  async openDocumentStream(blobName: string): Promise<Readable> {
+    try {
+      const response = await this.blobServiceClient
+        .getContainerClient(this.documentsContainer)
+        .getBlobClient(blobName)
+        .download();
+
+      return response.readableStreamBody as Readable;
+
+    } catch (error) {
+      logger.error('Error opening document stream', { error, blobName });
+      throw error;
+    }
+  }
+
+  async deleteDocument(blobName: string): Promise<void> {
+    try {
+      await this.blobServiceClient
+        .getContainerClient(this.documentsContainer)
+        .getBlobClient(blobName)
+        .deleteIfExists({ deleteSnapshots: 'include' });
+
+      logger.info('Document deleted', { blobName });
+
+    } catch (error) {
+      logger.error('Error deleting document', { error, blobName });
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a blob out of the documents container into the quarantine
+   * container under the same name. Quarantined blobs are never issued SAS
+   * URLs; they are kept for review only.
+   */
+  async quarantineDocument(blobName: string): Promise<void> {
+    try {
+      const quarantineClient = this.blobServiceClient.getContainerClient(this.quarantineContainer);
+      await quarantineClient.createIfNotExists();
+
+      // The copy reads the source through a short-lived SAS
+      const sourceUrl = await this.generateDownloadSasUrl(blobName, 0.25);
+      const poller = await quarantineClient.getBlobClient(blobName).beginCopyFromURL(sourceUrl);
+      await poller.pollUntilDone();
+
+      await this.blobServiceClient
+        .getContainerClient(this.documentsContainer)
+        .getBlobClient(blobName)
+        .deleteIfExists({ deleteSnapshots: 'include' });
+
+      logger.warn('Document moved to quarantine', { blobName, container: this.quarantineContainer });
+
+    } catch (error) {
+      logger.error('Error quarantining document', { error, blobName });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes every stored copy of a document: the blob in the documents
+   * container, a quarantined copy, and any chunks staged for it.
+   */
+  async purgeDocumentBlobs(blobName: string): Promise<void> {
+    try {
+      for (const container of [this.documentsContainer, this.quarantineContainer, this.stagingContainer]) {
+        await this.blobServiceClient
+          .getContainerClient(container)
+          .getBlobClient(blobName)
+          .deleteIfExists({ deleteSnapshots: 'include' });
+      }
+
+      logger.info('Document blobs purged', { blobName });
+
+    } catch (error) {
+      logger.error('Error purging document blobs', { error, blobName });
+      throw error;
+    }
+  }
+
+  async documentExists(blobName: string): Promise<boolean> {
+    return this.blobServiceClient
+      .getContainerClient(this.documentsContainer)
+      .getBlobClient(blobName)
+      .exists();
+  }
+
+  /**
+   * Every blob in the documents container, a page at a time, with the
+   * correlation id from its metadata when it has one.
+   */
+  async *listDocumentBlobs(pageSize: number = 1000): AsyncGenerator<Array<{
+    name: string;
+    size: number | null;
+    createdAt: string | null;
+    correlationId: string | null;
+  }>> {
+    const pages = this.blobServiceClient
+      .getContainerClient(this.documentsContainer)
+      .listBlobsFlat({ includeMetadata: true })
+      .byPage({ maxPageSize: pageSize });
+
+    for await (const page of pages) {
+      yield page.segment.blobItems.map(item => ({
+        name: item.name,
+        size: item.properties.contentLength ?? null,
+        createdAt: item.properties.createdOn?.toISOString() ?? null,
+        correlationId: item.metadata?.[CORRELATION_ID_METADATA] ?? null,
+      }));
+    }
+  }
+
+  // Every blob name issued to the law firm starts with this. Firms whose names
+  // differ only in case or punctuation share it, so it proves no ownership
+  lawFirmBlobPrefix(lawFirm: string): string {
+    return `${this.sanitizeLawFirm(lawFirm)}/`;
+  }
+
   async generateDownloadSasUrl(blobName: string, validForHours: number = 1): Promise<string> {
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + validForHours);
+    return this.generateReadSasUrl(this.documentsContainer, blobName, validForHours);
+  }
+
+  private generateReadSasUrl(containerName: string, blobName: string, validForHours: number): string {
+    // Fractions of an hour are allowed for short-lived URLs
+    const expiresAt = new Date(Date.now() + validForHours * 60 * 60 * 1000);
 
     const blobSasPermissions = new BlobSASPermissions();
     blobSasPermissions.read = true;
@@ -205,13 +584,18 @@ class BlobSasService {
     );
 
     const sasToken = generateBlobSASQueryParameters({
-      containerName: this.documentsContainer,
+      containerName,
       blobName: blobName,
       permissions: blobSasPermissions,
       expiresOn: expiresAt,
     }, sharedKeyCredential);
 
-    return `https://${this.storageAccount}.blob.core.windows.net/${this.documentsContainer}/${blobName}?${sasToken}`;
+    return `https://${this.storageAccount}.blob.core.windows.net/${containerName}/${blobName}?${sasToken}`;
+  }
+
+  // Block ids must all be the same length within a blob
+  private chunkBlockId(index: number): string {
+    return Buffer.from(`chunk-${String(index).padStart(6, '0')}`).toString('base64');
   }
 
   private sanitizeFileName(fileName: string): string {
@@ -223,16 +607,11 @@ class BlobSasService {
 
   private generateBlobName(lawFirm: string, fileName: string, correlationId: string): string {
     const timestamp = new Date().toISOString().split('T')[0];
-    const sanitizedLawFirm = lawFirm.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
-    return `${sanitizedLawFirm}/${timestamp}/${correlationId}_${fileName}`;
+    return `${this.sanitizeLawFirm(lawFirm)}/${timestamp}/${correlationId}_${fileName}`;
   }
 
-  private async storeUploadMetadata(correlationId: string, metadata: any): Promise<void> {
-    // Store in cache temporarily
-    logger.info('Upload metadata stored', { correlationId, metadata });
-    
-    // TODO: Implement persistent storage in database
-    // await databaseService.storeUploadMetadata(correlationId, metadata);
+  private sanitizeLawFirm(lawFirm: string): string {
+    return lawFirm.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
   }
 }
 
@@ -0,0 +1,80 @@
+import { MatchKeys, MatchSignal } from '../types/duplicates';
+import { fieldEncryptionService } from './fieldEncryption.service';
+
+// Points per matching signal; a pair's score is their sum, capped at 100
+export const MATCH_SIGNAL_WEIGHTS: Record<MatchSignal, number> = {
+  ssn: 60,
+  sf_id: 50,
+  ml_id: 50,
+  law_firm_client_id: 40,
+  name_dob: 40,
+};
+
+// Scores at or above this are reported as probable duplicates
+export const PROBABLE_DUPLICATE_SCORE = 50;
+
+// Lowest score worth reporting at all (any single signal)
+export const POSSIBLE_DUPLICATE_SCORE = 40;
+
+const PLACEHOLDER_SSNS = new Set(['123456789', '987654321', '078051120']);
+
+/**
+ * Normalization and scoring for duplicate claimant detection. SSN and name +
+ * date of birth are encrypted at rest, so they are compared through blind
+ * indexes (keyed hashes of the normalized values) stored next to the row.
+ */
+class ClaimantMatchService {
+  async matchKeys(record: Record<string, any>): Promise<MatchKeys> {
+    const ssn = this.normalizeSsn(record.ssn);
+    const nameDob = this.normalizeNameDob(record.firstname, record.lastname, record.dob);
+
+    return {
+      ssn_match: ssn ? await fieldEncryptionService.blindIndex(ssn, 'ssn') : null,
+      name_dob_match: nameDob ? await fieldEncryptionService.blindIndex(nameDob, 'name_dob') : null,
+    };
+  }
+
+  score(signals: MatchSignal[]): number {
+    return Math.min(100, signals.reduce((total, signal) => total + MATCH_SIGNAL_WEIGHTS[signal], 0));
+  }
+
+  isProbable(score: number): boolean {
+    return score >= PROBABLE_DUPLICATE_SCORE;
+  }
+
+  /**
+   * Nine digits, ignoring formatting. Numbers that are obviously not real
+   * (all one digit, well-known placeholders, area 000) match nothing.
+   */
+  private normalizeSsn(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    const digits = String(value).replace(/\D/g, '');
+    if (digits.length !== 9) return null;
+    if (/^(\d)\1{8}$/.test(digits) || PLACEHOLDER_SSNS.has(digits) || digits.startsWith('000')) return null;
+    return digits;
+  }
+
+  /**
+   * `last|first|yyyy-mm-dd` with accents, case, punctuation and spacing removed,
+   * so "O'Brien, José" and "OBRIEN, Jose" match.
+   */
+  private normalizeNameDob(firstname: unknown, lastname: unknown, dob: unknown): string | null {
+    const name = (value: unknown): string =>
+      typeof value === 'string'
+        ? value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '')
+        : '';
+
+    const first = name(firstname);
+    const last = name(lastname);
+    if (!first || !last || dob === null || dob === undefined || dob === '') return null;
+
+    // The calendar date as written; converting to UTC could move it a day
+    const written = typeof dob === 'string' ? /^\d{4}-\d{2}-\d{2}/.exec(dob)?.[0] : undefined;
+    const date = written ?? (dob instanceof Date && !isNaN(dob.getTime()) ? dob.toISOString().slice(0, 10) : null);
+    if (!date) return null;
+
+    return `${last}|${first}|${date}`;
+  }
+}
+
+export const claimantMatchService = new ClaimantMatchService();
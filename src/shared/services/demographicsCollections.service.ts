@@ -0,0 +1,182 @@
+import {
+  DEMOGRAPHICS_COLLECTIONS,
+  DemographicsCollectionName,
+  DemographicsCollections,
+} from '../types/demographics';
+
+interface LegacySlotLayout {
+  slots: number;
+  // Collection item property -> legacy flat field name for a 1-based slot
+  fields: Record<string, (slot: number) => string>;
+}
+
+/**
+ * Where each collection used to live in the flat Demographics columns.
+ */
+export const LEGACY_COLLECTION_LAYOUT: Record<DemographicsCollectionName, LegacySlotLayout> = {
+  attorneys: {
+    slots: 10,
+    fields: {
+      name: i => `attorney${i}name`,
+      fee_percent: i => `attorney${i}feepercent`,
+      fees: i => `attorney${i}fees`,
+      cost_amount: i => `attorney${i}costamount`,
+    },
+  },
+  medical_liens: {
+    slots: 6,
+    fields: {
+      name: i => `medicallien${i}name`,
+      lien_id: i => `lienid${i}`,
+      lien_type: i => `lientype${i}`,
+      amount: i => `medicallien${i}`,
+    },
+  },
+  other_liens: {
+    slots: 2,
+    fields: {
+      name: i => `otherlien${i}name`,
+      amount: i => `otherlien${i}amount`,
+    },
+  },
+  cost_details: {
+    slots: 10,
+    fields: {
+      attorney_name: i => `attorney${i}name_cost`,
+      name: i => `attorney${i}_costdetailname`,
+      amount: i => `attorney${i}_costdetailamount`,
+    },
+  },
+};
+
+const legacyFieldsOf = (name: DemographicsCollectionName): string[] => {
+  const layout = LEGACY_COLLECTION_LAYOUT[name];
+  const fields: string[] = [];
+  for (let slot = 1; slot <= layout.slots; slot++) {
+    fields.push(...Object.values(layout.fields).map(field => field(slot)));
+  }
+  return fields;
+};
+
+export const LEGACY_COLLECTION_FIELDS = new Set(DEMOGRAPHICS_COLLECTIONS.flatMap(legacyFieldsOf));
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const isEmptyItem = (item: Record<string, any>): boolean => Object.values(item).every(isBlank);
+
+/**
+ * Compatibility adapter between the normalized `attorneys[]`, `medical_liens[]`,
+ * `other_liens[]` and `cost_details[]` collections and the legacy numbered
+ * fields (`attorney1name`, `medicallien3`, ...). Items beyond the legacy slot
+ * count are only available through the collections.
+ */
+class DemographicsCollectionsService {
+  /**
+   * Separates a write payload into plain columns and collections. A collection
+   * sent as an array replaces the stored one; legacy flat fields are applied on
+   * top of `current` slot by slot. Only collections the payload touches are returned.
+   */
+  split<T extends Record<string, any>>(
+    input: T,
+    current: Partial<DemographicsCollections> = {}
+  ): { record: T; collections: Partial<DemographicsCollections> } {
+    const record: Record<string, any> = {};
+    const legacy: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(input)) {
+      if ((DEMOGRAPHICS_COLLECTIONS as readonly string[]).includes(key)) continue;
+      if (LEGACY_COLLECTION_FIELDS.has(key)) {
+        legacy[key] = value;
+      } else {
+        record[key] = value;
+      }
+    }
+
+    const collections: Partial<DemographicsCollections> = {};
+    for (const name of DEMOGRAPHICS_COLLECTIONS) {
+      if (Array.isArray(input[name])) {
+        collections[name] = this.compact(input[name]) as any;
+      } else if (legacyFieldsOf(name).some(field => field in legacy)) {
+        collections[name] = this.fromLegacy(name, legacy, current[name] ?? []) as any;
+      } else if (input[name] === null) {
+        collections[name] = [];
+      }
+    }
+
+    return { record: record as T, collections };
+  }
+
+  /**
+   * Reads a collection from legacy flat fields, overlaying them on `base`.
+   */
+  fromLegacy(
+    name: DemographicsCollectionName,
+    flat: Record<string, any>,
+    base: Record<string, any>[] = []
+  ): Record<string, any>[] {
+    const layout = LEGACY_COLLECTION_LAYOUT[name];
+    const items = base.map(item => ({ ...item }));
+
+    for (let slot = 1; slot <= layout.slots; slot++) {
+      for (const [property, field] of Object.entries(layout.fields)) {
+        const fieldName = field(slot);
+        if (!(fieldName in flat)) continue;
+
+        while (items.length < slot) items.push({});
+        if (isBlank(flat[fieldName])) {
+          delete items[slot - 1][property];
+        } else {
+          items[slot - 1][property] = flat[fieldName];
+        }
+      }
+    }
+
+    return this.compact(items);
+  }
+
+  /**
+   * Legacy flat fields for the given collections; unused slots are null.
+   */
+  toLegacy(collections: Partial<DemographicsCollections>): Record<string, any> {
+    const flat: Record<string, any> = {};
+
+    for (const name of DEMOGRAPHICS_COLLECTIONS) {
+      const items: Record<string, any>[] = collections[name] ?? [];
+      const layout = LEGACY_COLLECTION_LAYOUT[name];
+      for (let slot = 1; slot <= layout.slots; slot++) {
+        const item = items[slot - 1] ?? {};
+        for (const [property, field] of Object.entries(layout.fields)) {
+          flat[field(slot)] = item[property] ?? null;
+        }
+      }
+    }
+    return flat;
+  }
+
+  /**
+   * The record with its legacy flat fields derived from the collections.
+   */
+  withLegacyFields<T extends Record<string, any>>(record: T): T {
+    return { ...record, ...this.toLegacy(this.collectionsOf(record)) };
+  }
+
+  /**
+   * Collections of a record, taken from the arrays when present and from the
+   * legacy flat fields otherwise.
+   */
+  collectionsOf(record: Record<string, any>): DemographicsCollections {
+    const collections: Record<string, any> = {};
+    for (const name of DEMOGRAPHICS_COLLECTIONS) {
+      collections[name] = Array.isArray(record[name])
+        ? record[name]
+        : this.fromLegacy(name, record);
+    }
+    return collections as DemographicsCollections;
+  }
+
+  private compact(items: Record<string, any>[]): Record<string, any>[] {
+    return items.filter(item => item && !isEmptyItem(item));
+  }
+}
+
+export const demographicsCollectionsService = new DemographicsCollectionsService();
@@ -0,0 +1,424 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { databaseService } from '../database/database.service';
+import { CreateDemographicsRequest, CreateDemographicsRequestSchema, Demographics } from '../types/demographics';
+import { DemographicsDraft, DRAFT_FIELDS, DraftField } from '../types/draft';
+import { DocumentRecord, DocumentText } from '../types/document';
+import { DuplicateCandidate } from '../types/duplicates';
+import { documentChecklistService } from './documentChecklist.service';
+import { duplicatesService } from './duplicates.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+
+export class DemographicsDraftError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'DemographicsDraftError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export interface ExtractedFields {
+  fields: Partial<Record<DraftField, string>>;
+  confidence: Partial<Record<DraftField, number>>;
+}
+
+// Labels on the form; combined labels fill several fields at once
+type LabelKey = DraftField | 'fullname' | 'citystatezip';
+
+// The first label of each entry is the one intake forms use most; others score a little lower
+const FIELD_LABELS: Array<{ key: LabelKey; labels: string[] }> = [
+  { key: 'firstname', labels: ['first name', 'given name', 'first'] },
+  { key: 'lastname', labels: ['last name', 'surname', 'family name', 'last'] },
+  { key: 'fullname', labels: ['full name', 'name', 'legal name'] },
+  { key: 'dob', labels: ['date of birth', 'dob', 'birth date', 'birthdate', 'd.o.b.'] },
+  { key: 'ssn', labels: ['social security number', 'ssn', 'social security no.', 'social security #', 'social security', 'ss#'] },
+  { key: 'address1', labels: ['street address', 'address', 'address line 1', 'mailing address', 'home address', 'street'] },
+  { key: 'address2', labels: ['address line 2', 'apt/suite', 'apartment', 'apt', 'suite', 'unit'] },
+  { key: 'citystatezip', labels: ['city, state, zip', 'city/state/zip', 'city, state zip', 'city state zip'] },
+  { key: 'city', labels: ['city'] },
+  { key: 'state', labels: ['state'] },
+  { key: 'zipcode', labels: ['zip code', 'zip', 'zipcode', 'postal code'] },
+  { key: 'phone', labels: ['phone number', 'phone', 'telephone', 'home phone', 'cell phone', 'mobile phone', 'mobile', 'cell'] },
+  { key: 'email', labels: ['email address', 'email', 'e-mail', 'e-mail address'] },
+  { key: 'claimanttype', labels: ['claimant type', 'type of claimant', 'claim type'] },
+];
+
+const LABEL_KEYS = new Map<string, { key: LabelKey; primary: boolean }>();
+for (const { key, labels } of FIELD_LABELS) {
+  labels.forEach((label, index) => LABEL_KEYS.set(label, { key, primary: index === 0 }));
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first, so "first name" is not read as "name"
+const LABEL_PATTERN = new RegExp(
+  '(?<![A-Za-z])(?:(?:claimant|client|applicant|patient)(?:\'s)?\\s+)?('
+    + [...LABEL_KEYS.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(label => escapeRegExp(label).replace(/ /g, '\\s+'))
+      .join('|')
+    // e.g. "Date of Birth (MM/DD/YYYY):"
+    + ')(?:\\s*\\([^)]{0,30}\\))?\\s*[:#]',
+  'gi'
+);
+
+// A label right after one of these words describes someone other than the claimant
+const OTHER_PERSON_PREFIX = /\b(?:alternate|alternative|emergency|contact|spouse|guardian|representative|attorney|employer|physician|doctor|parent|mother|father|beneficiary|witness|notary|preparer)(?:'s)?\s*(?:claimant(?:'s)?\s*)?$/i;
+
+// Section headings: everything under one of these belongs to someone else, until a claimant heading
+const OTHER_PERSON_SECTION = /\b(?:alternate|alternative|emergency contact|spouse|guardian|representative|attorney|employer|physician|beneficiary|witness|notary)\b/i;
+const CLAIMANT_SECTION = /\b(?:claimant|client|applicant|personal)\s+(?:information|details|info)\b/i;
+
+const CLAIMANT_TYPES = (CreateDemographicsRequestSchema.shape.claimanttype as z.ZodEnum<[string, ...string[]]>).options;
+
+const US_STATES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA',
+  'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR',
+  'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'PR', 'GU', 'VI', 'AS', 'MP',
+]);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const FIELD_SCHEMAS = CreateDemographicsRequestSchema.shape as Record<string, z.ZodTypeAny>;
+
+const REQUIRED_FIELDS = Object.entries(FIELD_SCHEMAS)
+  .filter(([, schema]) => !schema.isOptional())
+  .map(([field]) => field);
+
+// Confidence for a value under the field's usual label, before adjustments
+const PRIMARY_LABEL_CONFIDENCE = 0.95;
+const ALTERNATE_LABEL_CONFIDENCE = 0.85;
+// OCR misreads characters that a text layer gets right
+const OCR_FACTOR = 0.85;
+// The form gives two different values for the field
+const CONFLICT_FACTOR = 0.6;
+
+const collapse = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  if (year < 1900 || date.getTime() > Date.now()) return null;
+  return date.toISOString();
+}
+
+/**
+ * Values as written on forms, in the shape the API expects. Each returns
+ * null when the value cannot be read as the field, and a certainty below 1
+ * when reading it took a guess.
+ */
+const NORMALIZERS: Record<DraftField, (value: string) => { value: string; certainty: number } | null> = {
+  firstname: value => normalizeName(value),
+  lastname: value => normalizeName(value),
+  dob: value => {
+    let match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+    if (match) return certain(isoDate(Number(match[3]), Number(match[1]), Number(match[2])));
+    match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (match) return certain(isoDate(Number(match[1]), Number(match[2]), Number(match[3])));
+    match = /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/.exec(value);
+    const month = match ? MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1 : 0;
+    if (match && month > 0) return certain(isoDate(Number(match[3]), month, Number(match[2])));
+    return null;
+  },
+  ssn: value => {
+    const digits = value.replace(/[\s-]/g, '');
+    return /^\d{9}$/.test(digits) ? certain(`${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`) : null;
+  },
+  address1: value => certain(collapse(value)),
+  address2: value => certain(collapse(value)),
+  city: value => (/\d/.test(value) ? null : certain(collapse(value))),
+  state: value => {
+    const state = value.replace(/\./g, '').trim().toUpperCase();
+    return US_STATES.has(state) ? certain(state) : null;
+  },
+  zipcode: value => {
+    const match = /^(\d{5})(?:[\s-]?(\d{4}))?$/.exec(value.trim());
+    return match ? certain(match[2] ? `${match[1]}-${match[2]}` : match[1]) : null;
+  },
+  phone: value => {
+    // Drop an extension
+    let digits = value.split(/\s*(?:x|ext\.?)\s*\d+\s*$/i)[0].replace(/\D/g, '');
+    if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+    return digits.length === 10 ? certain(digits) : null;
+  },
+  email: value => {
+    // OCR tends to put spaces around @ and dots
+    const email = value.replace(/\s+/g, '').toLowerCase();
+    return z.string().email().safeParse(email).success
+      ? { value: email, certainty: /\s/.test(value.trim()) ? 0.8 : 1 }
+      : null;
+  },
+  claimanttype: value => {
+    const exact = CLAIMANT_TYPES.find(option => option.toLowerCase() === collapse(value).toLowerCase());
+    if (exact) return certain(exact);
+    // Checkbox lists: "[X] Adult [ ] Minor" or "☒ Adult ☐ Minor"
+    const checked = CLAIMANT_TYPES.filter(option =>
+      new RegExp(`(?:\\[\\s*[xX✓✔]\\s*\\]|[☒☑✓✔])\\s*${escapeRegExp(option)}\\b`, 'i').test(value)
+    );
+    // The longest one, since "Adult" is also part of "Incapacitated Adult"
+    const option = checked.sort((a, b) => b.length - a.length)[0];
+    return option ? { value: option, certainty: 0.85 } : null;
+  },
+};
+
+function certain(value: string | null): { value: string; certainty: number } | null {
+  return value ? { value, certainty: 1 } : null;
+}
+
+function normalizeName(value: string): { value: string; certainty: number } | null {
+  const name = collapse(value).replace(/[,.;]+$/, '');
+  return /^[\p{L}][\p{L}'. -]*$/u.test(name) ? certain(name) : null;
+}
+
+/**
+ * Turns the claimant's intake form into a draft demographics record that a
+ * person reviews before it becomes a real one. Fields are read from the
+ * document's extracted text as "Label: value" pairs, so both text-layer PDFs
+ * and OCR output work; each recognized value carries a confidence. Fields the
+ * form does not carry (law_firm, primarylawfirm, ethnicity, ...) are supplied
+ * when the draft is approved.
+ */
+class DemographicsDraftService {
+  /**
+   * Reads the claimant's fields from form text. Only values that pass the
+   * field's validation are kept.
+   */
+  extractFields(text: string, ocr: boolean): ExtractedFields {
+    const found = new Map<DraftField, { value: string; confidence: number; conflict: boolean }>();
+    const record = (field: DraftField, raw: string, confidence: number) => {
+      const normalized = NORMALIZERS[field](raw);
+      if (!normalized || !FIELD_SCHEMAS[field].safeParse(normalized.value).success) return;
+
+      const previous = found.get(field);
+      if (previous) {
+        // The first value wins; a different one later makes it less certain
+        if (previous.value.toLowerCase() !== normalized.value.toLowerCase()) previous.conflict = true;
+        return;
+      }
+      found.set(field, { value: normalized.value, confidence: confidence * normalized.certainty, conflict: false });
+    };
+
+    const lines = text.split(/\r?\n/);
+    let otherPersonSection = false;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      const labels = [...line.matchAll(LABEL_PATTERN)];
+
+      if (labels.length === 0) {
+        if (line.trim().length > 0 && line.trim().length <= 60) {
+          if (CLAIMANT_SECTION.test(line)) otherPersonSection = false;
+          else if (OTHER_PERSON_SECTION.test(line)) otherPersonSection = true;
+        }
+        continue;
+      }
+      if (otherPersonSection) continue;
+
+      labels.forEach((match, position) => {
+        const start = match.index!;
+        const next = labels[position + 1];
+        let value = line.slice(start + match[0].length, next ? next.index : undefined);
+
+        // Label on one line, value on the next
+        if (!next && value.trim() === '' && index + 1 < lines.length && !lines[index + 1].match(LABEL_PATTERN)) {
+          value = lines[index + 1];
+        }
+        // Blank form lines ("_____") are not values
+        value = value.replace(/_{2,}/g, ' ').trim();
+        if (!value || OTHER_PERSON_PREFIX.test(line.slice(0, start))) return;
+
+        const label = LABEL_KEYS.get(match[1].toLowerCase().replace(/\s+/g, ' '));
+        if (!label) return;
+        const confidence = label.primary ? PRIMARY_LABEL_CONFIDENCE : ALTERNATE_LABEL_CONFIDENCE;
+
+        if (label.key === 'fullname') {
+          this.splitFullName(value).forEach(([field, part]) => record(field, part, confidence * 0.85));
+        } else if (label.key === 'citystatezip') {
+          const parts = /^(.+?),?\s+([A-Za-z]{2})\.?,?\s+(\d{5}(?:-\d{4})?)$/.exec(collapse(value));
+          if (parts) {
+            record('city', parts[1].replace(/,$/, ''), confidence * 0.9);
+            record('state', parts[2], confidence * 0.9);
+            record('zipcode', parts[3], confidence * 0.9);
+          }
+        } else {
+          record(label.key, value, confidence);
+        }
+      });
+    }
+
+    const result: ExtractedFields = { fields: {}, confidence: {} };
+    for (const field of DRAFT_FIELDS) {
+      const entry = found.get(field);
+      if (!entry) continue;
+      result.fields[field] = entry.value;
+      result.confidence[field] = Math.round(
+        entry.confidence * (ocr ? OCR_FACTOR : 1) * (entry.conflict ? CONFLICT_FACTOR : 1) * 100
+      ) / 100;
+    }
+    return result;
+  }
+
+  /**
+   * Creates the draft for a processed demographics form. Returns null when
+   * the document already has one, or its text could not be read.
+   */
+  async createFromDocument(document: DocumentRecord, text: DocumentText): Promise<DemographicsDraft | null> {
+    if (text.status !== 'completed' || !text.content) {
+      logger.info('No text to draft demographics from', { correlationId: document.correlation_id, status: text.status });
+      return null;
+    }
+
+    const { fields, confidence } = this.extractFields(text.content, text.ocr);
+    const now = new Date().toISOString();
+    const draft: DemographicsDraft = {
+      id: uuidv4(),
+      partitionKey: document.partitionKey,
+      document_correlation_id: document.correlation_id,
+      status: 'pending_review',
+      fields,
+      confidence,
+      missing_fields: REQUIRED_FIELDS.filter(field => !(field in fields)),
+      demographics_id: null,
+      rejection_reason: null,
+      created_at: now,
+      updated_at: now,
+      reviewed_at: null,
+      reviewed_by_key_id: null,
+    };
+
+    if (!(await databaseService.createDemographicsDraft(draft))) {
+      logger.info('Document already has a demographics draft', { correlationId: document.correlation_id });
+      return null;
+    }
+
+    logger.info('Demographics draft created', {
+      draftId: draft.id,
+      correlationId: document.correlation_id,
+      recognizedFields: Object.keys(fields),
+      missingFields: draft.missing_fields,
+    });
+
+    return draft;
+  }
+
+  /**
+   * The draft's values with the reviewer's corrections applied, validated as
+   * a demographics submission.
+   */
+  resolveFields(
+    draft: DemographicsDraft,
+    overrides: Partial<CreateDemographicsRequest>
+  ): z.SafeParseReturnType<unknown, CreateDemographicsRequest> {
+    return CreateDemographicsRequestSchema.safeParse({ ...draft.fields, ...overrides });
+  }
+
+  /**
+   * Creates the demographics record for an approved draft, like a single
+   * submission, and links the source document to it.
+   */
+  async approve(
+    draft: DemographicsDraft,
+    data: CreateDemographicsRequest,
+    context: { createdBy: string; keyId: string; requestId?: string }
+  ): Promise<{ draft: DemographicsDraft; demographics: Demographics; duplicates: DuplicateCandidate[] }> {
+    const now = new Date().toISOString();
+    const demographics: Demographics = {
+      id: uuidv4(),
+      partitionKey: draft.partitionKey,
+      ...data,
+      created_at: now,
+      updated_at: now,
+      created_by: context.createdBy,
+    };
+
+    // Claim the draft first so two reviewers cannot both create a record from it
+    const approved = await databaseService.reviewDemographicsDraft(draft.id, draft.partitionKey, {
+      status: 'approved',
+      demographicsId: demographics.id,
+      keyId: context.keyId,
+    });
+    if (!approved) {
+      throw new DemographicsDraftError('Draft has already been reviewed', 409, 'DRAFT_ALREADY_REVIEWED');
+    }
+
+    const duplicates = await duplicatesService.findForRecord(demographics, draft.partitionKey);
+
+    try {
+      await databaseService.createDemographic(demographics, { keyId: context.keyId, requestId: context.requestId });
+    } catch (error) {
+      await databaseService.reopenDemographicsDraft(draft.id);
+      throw error;
+    }
+
+    await databaseService.linkDocumentToDemographic(draft.document_correlation_id, demographics.id);
+
+    await fifoQueueService.addDemographicsMessage(draft.partitionKey, {
+      id: demographics.id,
+      action: 'process',
+      data: demographics,
+    }, 5);
+
+    await fifoQueueService.addWebhookMessage(draft.partitionKey, {
+      event: 'demographics.created',
+      data: {
+        id: demographics.id,
+        sf_id: demographics.sf_id,
+        law_firm: demographics.law_firm,
+        created_at: demographics.created_at,
+        draft_id: draft.id,
+        document_correlation_id: draft.document_correlation_id,
+      },
+      metadata: {
+        apiKeyId: context.keyId,
+        requestId: context.requestId,
+      },
+    });
+
+    // Starts the new claimant's document checklist with the form
+    await documentChecklistService.refresh(demographics.id, draft.partitionKey);
+
+    logger.info('Demographics draft approved', {
+      draftId: draft.id,
+      demographicsId: demographics.id,
+      correlationId: draft.document_correlation_id,
+      duplicateCount: duplicates.length,
+    });
+
+    return { draft: approved, demographics, duplicates };
+  }
+
+  async reject(draft: DemographicsDraft, reason: string | undefined, keyId: string): Promise<DemographicsDraft> {
+    const rejected = await databaseService.reviewDemographicsDraft(draft.id, draft.partitionKey, {
+      status: 'rejected',
+      reason,
+      keyId,
+    });
+    if (!rejected) {
+      throw new DemographicsDraftError('Draft has already been reviewed', 409, 'DRAFT_ALREADY_REVIEWED');
+    }
+
+    logger.info('Demographics draft rejected', { draftId: draft.id, correlationId: draft.document_correlation_id });
+    return rejected;
+  }
+
+  // "Last, First Middle" or "First Middle Last"
+  private splitFullName(value: string): Array<[DraftField, string]> {
+    const name = collapse(value);
+    const comma = name.indexOf(',');
+    if (comma > 0) {
+      const first = name.slice(comma + 1).trim().split(' ')[0];
+      return [['lastname', name.slice(0, comma)], ...(first ? [['firstname', first] as [DraftField, string]] : [])];
+    }
+
+    const parts = name.split(' ');
+    if (parts.length < 2) return [];
+    return [['firstname', parts[0]], ['lastname', parts[parts.length - 1]]];
+  }
+}
+
+export const demographicsDraftService = new DemographicsDraftService();
@@ -0,0 +1,266 @@
+import { PassThrough, Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { stringify } from 'csv-stringify';
+import ExcelJS from 'exceljs';
+import { databaseService } from '../database/database.service';
+import { DEMOGRAPHICS_COLLECTIONS, Demographics, DemographicsSchema } from '../types/demographics';
+import { CreateExportRequest, DemographicsExport, ExportFormat } from '../types/export';
+import { blobSasService } from './blobSas.service';
+import { LEGACY_COLLECTION_FIELDS } from './demographicsCollections.service';
+import { demographicsQueryService } from './demographicsQuery.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+import { piiMaskingService } from './piiMasking.service';
+
+export class ExportError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'ExportError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+// Vendors often fetch an export well after being notified
+const DOWNLOAD_URL_VALID_HOURS = 24;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+};
+
+const EXPORTABLE_FIELDS = Object.keys(DemographicsSchema.shape).filter(field => field !== 'partitionKey');
+
+// Spreadsheets get collections through their numbered legacy fields
+// (attorney1name, ...); JSON Lines gets the nested arrays instead
+const DEFAULT_COLUMNS: Record<ExportFormat, string[]> = {
+  csv: EXPORTABLE_FIELDS.filter(field => !(DEMOGRAPHICS_COLLECTIONS as readonly string[]).includes(field)),
+  xlsx: EXPORTABLE_FIELDS.filter(field => !(DEMOGRAPHICS_COLLECTIONS as readonly string[]).includes(field)),
+  ndjson: EXPORTABLE_FIELDS.filter(field => !LEGACY_COLLECTION_FIELDS.has(field)),
+};
+
+export interface ExportMessage {
+  export_id: string;
+  law_firm: string;
+}
+
+// Flat formats hold nested values (collections) as JSON text
+const flatValue = (value: unknown): unknown =>
+  value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value;
+
+/**
+ * Bulk exports of a law firm's demographics to CSV, XLSX or JSON Lines. An
+ * export runs on the firm's demographics FIFO session: records are streamed
+ * from the database in batches and written straight into a blob, so no
+ * export is ever held in memory. PII is masked as in API responses.
+ */
+class DemographicsExportService {
+  async start(
+    request: CreateExportRequest,
+    context: { lawFirm: string; includePii: boolean; keyId?: string; requestId?: string }
+  ): Promise<DemographicsExport> {
+    const unknownColumns = (request.columns ?? []).filter(column => !EXPORTABLE_FIELDS.includes(column));
+    if (unknownColumns.length > 0) {
+      throw new ExportError(`Unknown fields: ${unknownColumns.join(', ')}`, 400, 'INVALID_FIELDS');
+    }
+
+    const { format, columns = DEFAULT_COLUMNS[format], mask_pii, ...query } = request;
+    const now = new Date().toISOString();
+    const job: DemographicsExport = {
+      id: uuidv4(),
+      partitionKey: context.lawFirm,
+      status: 'pending',
+      format,
+      query,
+      // id is always exported so rows can be matched back to records
+      columns: ['id', ...columns.filter(column => column !== 'id')],
+      mask_pii: mask_pii || !context.includePii,
+      blob_name: null,
+      row_count: null,
+      error: null,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+      created_by_key_id: context.keyId ?? null,
+      request_id: context.requestId ?? null,
+    };
+
+    await databaseService.createExport(job);
+    await fifoQueueService.addDemographicsExportMessage(context.lawFirm, {
+      export_id: job.id,
+      law_firm: context.lawFirm,
+    });
+
+    logger.info('Demographics export queued', {
+      exportId: job.id,
+      lawFirm: context.lawFirm,
+      format,
+      columns: job.columns.length,
+      maskPii: job.mask_pii,
+      requestId: context.requestId,
+    });
+
+    return job;
+  }
+
+  /**
+   * Writes the export file and notifies the firm. A failed export is marked
+   * failed rather than retried; requesting it again starts from scratch anyway.
+   */
+  async run(message: ExportMessage): Promise<void> {
+    const job = await databaseService.getExport(message.export_id, message.law_firm);
+    if (!job) {
+      logger.warn('Export not found', { exportId: message.export_id });
+      return;
+    }
+    if (job.status === 'completed' || job.status === 'failed') {
+      logger.info('Skipping export already finished', { exportId: job.id, status: job.status });
+      return;
+    }
+
+    const startTime = Date.now();
+    await databaseService.updateExportStatus(job.id, 'processing');
+
+    try {
+      const output = new PassThrough();
+      const upload = blobSasService.uploadDocumentStream({
+        lawFirm: job.partitionKey,
+        fileName: `demographics-export-${job.created_at.slice(0, 10)}.${job.format}`,
+        contentType: CONTENT_TYPES[job.format],
+        stream: output,
+        metadata: { source: 'demographics_export', exportId: job.id },
+      });
+      // A failed upload must also stop the writer waiting on the stream
+      upload.catch(error => output.destroy(error));
+
+      const [rowCount, { blobName }] = await Promise.all([this.write(job, output), upload]);
+
+      await databaseService.updateExportStatus(job.id, 'completed', { blobName, rowCount });
+      const { download_url, expires_at } = await this.getDownloadUrl(blobName);
+
+      await fifoQueueService.addWebhookMessage(job.partitionKey, {
+        event: 'demographics.export_completed',
+        data: {
+          id: job.id,
+          format: job.format,
+          row_count: rowCount,
+          download_url,
+          download_url_expires_at: expires_at,
+        },
+        correlation_id: job.id,
+      });
+
+      logger.info('Demographics export completed', {
+        exportId: job.id,
+        lawFirm: job.partitionKey,
+        rowCount,
+        processingTime: Date.now() - startTime,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await databaseService.updateExportStatus(job.id, 'failed', { error: message });
+      await fifoQueueService.addWebhookMessage(job.partitionKey, {
+        event: 'demographics.export_failed',
+        data: { id: job.id, format: job.format, error: message },
+        correlation_id: job.id,
+      });
+
+      logger.error('Demographics export failed', {
+        exportId: job.id,
+        lawFirm: job.partitionKey,
+        error: message,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  async getDownloadUrl(blobName: string): Promise<{ download_url: string; expires_at: string }> {
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + DOWNLOAD_URL_VALID_HOURS);
+
+    return {
+      download_url: await blobSasService.generateDownloadSasUrl(blobName, DOWNLOAD_URL_VALID_HOURS),
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Streams the matching records, shaped for the export, into `output` in its
+   * format. Returns the number of records written.
+   */
+  private async write(job: DemographicsExport, output: Writable): Promise<number> {
+    const { where, sort } = demographicsQueryService.parseListFilters(job.query);
+    const batches = databaseService.streamDemographics(job.partitionKey, {
+      sort,
+      filters: { where, search: job.query.search },
+    });
+
+    let rowCount = 0;
+    const records = async function* (): AsyncGenerator<Record<string, unknown>> {
+      for await (const batch of batches) {
+        for (const record of batch) {
+          rowCount++;
+          yield piiMaskingService.shapeRecord<Demographics>(record, {
+            includePii: !job.mask_pii,
+            fields: job.columns,
+          });
+        }
+      }
+    };
+
+    try {
+      switch (job.format) {
+        case 'ndjson':
+          await pipeline(
+            Readable.from(records()),
+            async function* (source: AsyncIterable<Record<string, unknown>>) {
+              for await (const record of source) yield `${JSON.stringify(record)}\n`;
+            },
+            output,
+          );
+          break;
+
+        case 'csv':
+          await pipeline(
+            Readable.from(records()),
+            stringify({
+              header: true,
+              columns: job.columns,
+              cast: {
+                date: value => value.toISOString(),
+                boolean: value => (value ? 'true' : 'false'),
+                object: value => JSON.stringify(value),
+              },
+            }),
+            output,
+          );
+          break;
+
+        case 'xlsx': {
+          // The streaming writer flushes each committed row to `output`
+          const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+          const worksheet = workbook.addWorksheet('Demographics');
+          worksheet.addRow(job.columns).commit();
+          for await (const record of records()) {
+            worksheet.addRow(job.columns.map(column => flatValue(record[column]) ?? null)).commit();
+          }
+          worksheet.commit();
+          await workbook.commit();
+          break;
+        }
+      }
+    } catch (error) {
+      output.destroy(error as Error);
+      throw error;
+    }
+
+    return rowCount;
+  }
+}
+
+export const demographicsExportService = new DemographicsExportService();
@@ -0,0 +1,585 @@
+import path from 'path';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { parse as parseCsv } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+import { z } from 'zod';
+import { databaseService } from '../database/database.service';
+import { CreateDemographicsRequestSchema, Demographics } from '../types/demographics';
+import {
+  CreateImportRequest,
+  DemographicsImport,
+  ImportFileFormat,
+  ImportFileFormatSchema,
+  ImportRowError,
+} from '../types/import';
+import { blobSasService } from './blobSas.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+import { MalwareScanResult, malwareScanService } from './malwareScan.service';
+
+export class ImportError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'ImportError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export const MAX_IMPORT_FILE_SIZE_MB = 25;
+export const MAX_IMPORT_ROWS = 50000;
+
+// Rows written per queue message
+const CHUNK_SIZE = 500;
+
+type CellValue = string | number | boolean | Date;
+
+interface ImportSheet {
+  headers: string[];
+  // `row` is the spreadsheet row number; values line up with headers
+  rows: Array<{ row: number; values: Array<CellValue | null> }>;
+}
+
+export interface ImportChunkMessage {
+  import_id: string;
+  law_firm: string;
+  start_row: number;
+}
+
+const FIELD_SCHEMAS = CreateDemographicsRequestSchema.shape as Record<string, z.ZodTypeAny>;
+
+const REQUIRED_FIELDS = Object.entries(FIELD_SCHEMAS)
+  .filter(([, schema]) => !schema.isOptional())
+  .map(([field]) => field);
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Spreadsheet values are typed loosely: "$1,250.00" and "(75)" are amounts,
+ * "25%" is a fraction, 3/14/2021 is a date. Converts a cell to what the
+ * field's schema expects where that is unambiguous and leaves it for
+ * validation to reject otherwise.
+ */
+function coerceCell(field: string, value: CellValue): unknown {
+  const schema = unwrap(FIELD_SCHEMAS[field]);
+
+  if (schema instanceof z.ZodNumber) {
+    if (typeof value !== 'string') return value;
+    const negative = /^\(.*\)$/.test(value);
+    const percent = value.endsWith('%');
+    const parsed = Number(value.replace(/[$,()%\s]/g, ''));
+    if (Number.isNaN(parsed)) return value;
+    return (negative ? -parsed : parsed) / (percent ? 100 : 1);
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    const options = schema.options as string[];
+    return options.find(option => option.toLowerCase() === String(value).toLowerCase()) ?? value;
+  }
+
+  if (schema instanceof z.ZodString && schema._def.checks.some(check => check.kind === 'datetime')) {
+    if (value instanceof Date) return value.toISOString();
+    const text = String(value);
+    let match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+    if (match) return `${match[1]}-${match[2]}-${match[3]}T00:00:00.000Z`;
+    match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+    if (match) return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}T00:00:00.000Z`;
+    return text;
+  }
+
+  if (schema instanceof z.ZodString) {
+    return value instanceof Date ? isoDate(value) : String(value);
+  }
+
+  return value;
+}
+
+/**
+ * ExcelJS cell values also come as rich text, formulas and hyperlinks;
+ * reduces them to the value a user sees in the cell.
+ */
+function excelCellValue(value: ExcelJS.CellValue): CellValue | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value.trim() === '' ? null : value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) return value;
+  if ('richText' in value) return excelCellValue(value.richText.map(part => part.text).join(''));
+  if ('formula' in value || 'sharedFormula' in value) return excelCellValue((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue);
+  if ('hyperlink' in value) return excelCellValue(value.text as ExcelJS.CellValue);
+  return null;
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : value instanceof Date ? isoDate(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Bulk imports of demographics from CSV and Excel files. A file is stored in
+ * blob storage and worked through in chunks of rows, one message per chunk on
+ * the firm's demographics FIFO session, so imports never outpace or reorder
+ * the firm's other submissions. Each row is validated like a single
+ * submission; rows that fail are recorded and reported instead of stopping
+ * the import.
+ */
+class DemographicsImportService {
+  // The worker handles one firm's chunks back to back; keeps the last parsed
+  // file so every chunk does not download and parse it again
+  private cachedSheet: { importId: string; sheet: ImportSheet } | null = null;
+
+  async start(
+    request: CreateImportRequest,
+    file: { originalname: string; mimetype: string; buffer: Buffer } | undefined,
+    context: { lawFirm: string; createdBy: string; keyId?: string; requestId?: string }
+  ): Promise<DemographicsImport> {
+    if (!file === !request.blob_name) {
+      throw new ImportError('Provide either a file or blob_name', 400, 'IMPORT_SOURCE_REQUIRED');
+    }
+
+    const fileName = file ? file.originalname : path.posix.basename(request.blob_name!);
+    const format = this.resolveFormat(request.format, fileName);
+
+    let columns = request.columns ?? {};
+    let defaults = request.defaults ?? {};
+    if (request.profile_id) {
+      const profile = await databaseService.getImportProfile(request.profile_id, context.lawFirm);
+      if (!profile) {
+        throw new ImportError('Import mapping profile not found', 404, 'IMPORT_PROFILE_NOT_FOUND');
+      }
+      columns = profile.columns;
+      defaults = { ...profile.defaults, ...defaults };
+    }
+
+    const mapped = new Set([...Object.values(columns), ...Object.keys(defaults)]);
+    const unmapped = REQUIRED_FIELDS.filter(field => !mapped.has(field));
+    if (unmapped.length > 0) {
+      throw new ImportError(
+        `Required fields are neither mapped nor defaulted: ${unmapped.join(', ')}`,
+        422,
+        'IMPORT_MAPPING_INCOMPLETE'
+      );
+    }
+    if (request.mode === 'upsert' && !Object.values(columns).includes(request.upsert_key)) {
+      throw new ImportError(`Upsert mode requires a column mapped to ${request.upsert_key}`, 422, 'IMPORT_MAPPING_INCOMPLETE');
+    }
+
+    let blobName: string;
+    if (file) {
+      await this.assertClean(file);
+      ({ blobName } = await blobSasService.uploadGeneratedDocument({
+        lawFirm: context.lawFirm,
+        fileName: file.originalname,
+        contentType: file.mimetype,
+        content: file.buffer,
+        metadata: { source: 'demographics_import' },
+      }));
+    } else {
+      blobName = request.blob_name!;
+      // Blob name prefixes are not unique per firm; the registry says who uploaded it
+      const document = await databaseService.getDocumentByBlobName(blobName);
+      if (document?.partitionKey !== context.lawFirm) {
+        throw new ImportError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+      }
+      // Only a file the document pipeline has scanned and finished with
+      if (document.status !== 'completed' || document.scan_result !== 'clean') {
+        throw new ImportError(
+          `Document is ${document.status}; only completed documents that were scanned clean can be imported`,
+          409,
+          'DOCUMENT_NOT_READY'
+        );
+      }
+      const validation = await blobSasService.validateUploadedDocument(blobName, MAX_IMPORT_FILE_SIZE_MB);
+      if (!validation.isValid) {
+        throw new ImportError(validation.error ?? 'Uploaded file is not valid', 422, 'INVALID_IMPORT_FILE');
+      }
+    }
+
+    const now = new Date().toISOString();
+    const job: DemographicsImport = {
+      id: uuidv4(),
+      partitionKey: context.lawFirm,
+      status: 'pending',
+      file_name: fileName,
+      blob_name: blobName,
+      format,
+      profile_id: request.profile_id ?? null,
+      columns,
+      defaults,
+      mode: request.mode,
+      upsert_key: request.upsert_key,
+      total_rows: null,
+      processed_rows: 0,
+      imported_rows: 0,
+      failed_rows: 0,
+      error: null,
+      error_report_blob_name: null,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+      created_by: context.createdBy,
+      created_by_key_id: context.keyId ?? null,
+      request_id: context.requestId ?? null,
+    };
+
+    await databaseService.createImport(job);
+    await fifoQueueService.addDemographicsImportMessage(context.lawFirm, {
+      import_id: job.id,
+      law_firm: context.lawFirm,
+      start_row: 0,
+    });
+
+    logger.info('Demographics import queued', {
+      importId: job.id,
+      lawFirm: context.lawFirm,
+      format,
+      mode: job.mode,
+      requestId: context.requestId,
+    });
+
+    return job;
+  }
+
+  /**
+   * Imports the chunk of rows starting at `start_row` and queues the next one,
+   * or completes the import after the last. Redelivered messages for chunks
+   * already recorded are ignored. Problems with the file itself fail the
+   * import; other errors are rethrown so Service Bus retries the chunk.
+   */
+  async processChunk(message: ImportChunkMessage): Promise<void> {
+    const job = await databaseService.getImport(message.import_id, message.law_firm);
+    if (!job) {
+      logger.warn('Import not found for chunk', { importId: message.import_id });
+      return;
+    }
+    if (job.status === 'completed' || job.status === 'failed' || job.processed_rows !== message.start_row) {
+      logger.info('Skipping import chunk already handled', {
+        importId: job.id,
+        status: job.status,
+        startRow: message.start_row,
+        processedRows: job.processed_rows,
+      });
+      return;
+    }
+
+    try {
+      const sheet = await this.loadSheet(job);
+      const columnIndexes = this.columnIndexes(job, sheet);
+
+      if (message.start_row === 0) {
+        if (sheet.rows.length > MAX_IMPORT_ROWS) {
+          throw new ImportError(`File has ${sheet.rows.length} rows; the limit is ${MAX_IMPORT_ROWS}`, 422, 'IMPORT_TOO_LARGE');
+        }
+        await databaseService.updateImportStatus(job.id, 'processing', { totalRows: sheet.rows.length });
+      }
+
+      const rows = sheet.rows.slice(message.start_row, message.start_row + CHUNK_SIZE);
+      const errors: ImportRowError[] = [];
+      let imported = 0;
+
+      for (const row of rows) {
+        const rowErrors = await this.importRow(job, row, columnIndexes);
+        if (rowErrors.length === 0) {
+          imported++;
+        } else {
+          errors.push(...rowErrors);
+        }
+      }
+
+      const recorded = await databaseService.recordImportChunk(job.id, {
+        startRow: message.start_row,
+        processed: rows.length,
+        imported,
+        failed: rows.length - imported,
+        errors,
+      });
+      if (!recorded) return;
+
+      const nextRow = message.start_row + rows.length;
+      if (nextRow < sheet.rows.length) {
+        await fifoQueueService.addDemographicsImportMessage(job.partitionKey, {
+          ...message,
+          start_row: nextRow,
+        });
+      } else {
+        await this.complete(job, sheet);
+      }
+    } catch (error) {
+      if (!(error instanceof ImportError)) throw error;
+
+      await databaseService.updateImportStatus(job.id, 'failed', { error: error.message });
+      this.cachedSheet = null;
+      await fifoQueueService.addWebhookMessage(job.partitionKey, {
+        event: 'demographics.import_failed',
+        data: { id: job.id, file_name: job.file_name, error: error.message },
+        correlation_id: job.id,
+      });
+
+      logger.warn('Demographics import failed', { importId: job.id, code: error.code, error: error.message });
+    }
+  }
+
+  /**
+   * Scans a file sent with the request before it is stored, as the document
+   * pipeline does for uploads.
+   */
+  private async assertClean(file: { originalname: string; buffer: Buffer }): Promise<void> {
+    let scan: MalwareScanResult;
+    try {
+      scan = await malwareScanService.scanUpload(file.buffer, file.originalname);
+    } catch {
+      throw new ImportError('The file could not be scanned for malware; try again later', 503, 'SCAN_UNAVAILABLE');
+    }
+    if (!scan.clean) {
+      throw new ImportError(`Malware detected: ${scan.signature}`, 422, 'MALWARE_DETECTED');
+    }
+  }
+
+  private resolveFormat(format: ImportFileFormat | undefined, fileName: string): ImportFileFormat {
+    if (format) return format;
+    const extension = ImportFileFormatSchema.safeParse(path.extname(fileName).slice(1).toLowerCase());
+    if (!extension.success) {
+      throw new ImportError('Cannot tell the file format; upload a .csv or .xlsx file or set format', 400, 'UNSUPPORTED_IMPORT_FORMAT');
+    }
+    return extension.data;
+  }
+
+  private async loadSheet(job: DemographicsImport): Promise<ImportSheet> {
+    if (this.cachedSheet?.importId === job.id) return this.cachedSheet.sheet;
+
+    const content = await blobSasService.downloadDocument(job.blob_name);
+    let sheet: ImportSheet;
+    try {
+      sheet = job.format === 'csv' ? this.parseCsv(content) : await this.parseXlsx(content);
+    } catch (error) {
+      throw new ImportError(
+        `File could not be read as ${job.format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`,
+        422,
+        'INVALID_IMPORT_FILE'
+      );
+    }
+
+    this.cachedSheet = { importId: job.id, sheet };
+    return sheet;
+  }
+
+  private parseCsv(content: Buffer): ImportSheet {
+    const records: Array<{ record: string[]; info: { lines: number } }> = parseCsv(content, {
+      bom: true,
+      info: true,
+      trim: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+    });
+    const [header, ...rows] = records;
+
+    return {
+      headers: header ? header.record : [],
+      rows: rows.map(({ record, info }) => ({
+        row: info.lines,
+        values: record.map(value => (value === '' ? null : value)),
+      })),
+    };
+  }
+
+  private async parseXlsx(content: Buffer): Promise<ImportSheet> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(content as unknown as ExcelJS.Buffer);
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) return { headers: [], rows: [] };
+
+    const cells = (row: ExcelJS.Row): Array<CellValue | null> => {
+      const values: Array<CellValue | null> = [];
+      row.eachCell({ includeEmpty: true }, (cell, column) => {
+        values[column - 1] = excelCellValue(cell.value);
+      });
+      return Array.from(values, value => value ?? null);
+    };
+
+    const headers = cells(worksheet.getRow(1)).map(value => (value === null ? '' : String(value)));
+    const rows: ImportSheet['rows'] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values = cells(row);
+      if (values.some(value => value !== null)) {
+        rows.push({ row: rowNumber, values });
+      }
+    });
+
+    return { headers, rows };
+  }
+
+  /**
+   * Position of each mapped column in the file. Headers match ignoring case
+   * and surrounding whitespace.
+   */
+  private columnIndexes(job: DemographicsImport, sheet: ImportSheet): Map<string, number> {
+    const positions = new Map(sheet.headers.map((header, index) => [header.trim().toLowerCase(), index]));
+    const indexes = new Map<string, number>();
+    const missing: string[] = [];
+
+    for (const column of Object.keys(job.columns)) {
+      const index = positions.get(column.trim().toLowerCase());
+      if (index === undefined) {
+        missing.push(column);
+      } else {
+        indexes.set(column, index);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new ImportError(`Mapped columns not found in the file: ${missing.join(', ')}`, 422, 'IMPORT_COLUMNS_MISSING');
+    }
+    return indexes;
+  }
+
+  /**
+   * Validates and writes one row. Returns its errors; none when it was imported.
+   */
+  private async importRow(
+    job: DemographicsImport,
+    row: ImportSheet['rows'][number],
+    columnIndexes: Map<string, number>
+  ): Promise<ImportRowError[]> {
+    const columnByField = new Map<string, string>();
+    const record: Record<string, unknown> = { ...job.defaults };
+
+    for (const [column, field] of Object.entries(job.columns)) {
+      columnByField.set(field, column);
+      const value = row.values[columnIndexes.get(column)!];
+      if (value !== null && value !== undefined) {
+        record[field] = coerceCell(field, value);
+      }
+    }
+
+    const parsed = CreateDemographicsRequestSchema.safeParse(record);
+    if (!parsed.success) {
+      return parsed.error.issues.map(issue => {
+        const field = issue.path.length > 0 ? String(issue.path[0]) : null;
+        return {
+          row: row.row,
+          column: field ? columnByField.get(field) ?? null : null,
+          field,
+          message: issue.message,
+        };
+      });
+    }
+
+    if (job.mode === 'upsert' && !parsed.data[job.upsert_key]) {
+      return [{
+        row: row.row,
+        column: columnByField.get(job.upsert_key) ?? null,
+        field: job.upsert_key,
+        message: `${job.upsert_key} is required in upsert mode`,
+      }];
+    }
+
+    const now = new Date().toISOString();
+    const demographic: Demographics = {
+      // The same for every attempt at the row, so a retried chunk can tell
+      // the rows an earlier attempt already wrote
+      id: uuidv5(String(row.row), job.id),
+      partitionKey: job.partitionKey,
+      ...parsed.data,
+      created_at: now,
+      updated_at: now,
+      created_by: job.created_by,
+    };
+    const audit = { keyId: job.created_by_key_id ?? undefined, requestId: job.request_id ?? undefined };
+
+    try {
+      if (job.mode === 'upsert') {
+        await databaseService.upsertDemographicByExternalId(job.upsert_key, demographic, audit);
+      } else {
+        await databaseService.createDemographic(demographic, audit);
+      }
+      return [];
+    } catch (error) {
+      // Written by an earlier attempt at this chunk before it failed
+      if (await databaseService.getDemographicById(demographic.id, job.partitionKey)) {
+        return [];
+      }
+
+      // Constraint violations are the row's problem; anything else retries the chunk
+      const field = (error as { field?: string }).field ?? null;
+      if ((error as { statusCode?: number }).statusCode !== 409) throw error;
+      return [{
+        row: row.row,
+        column: field ? columnByField.get(field) ?? null : null,
+        field,
+        message: (error as Error).message,
+      }];
+    }
+  }
+
+  private async complete(job: DemographicsImport, sheet: ImportSheet): Promise<void> {
+    const { errors } = await databaseService.getImportErrors(job.id);
+
+    let errorReportBlobName: string | undefined;
+    if (errors.length > 0) {
+      ({ blobName: errorReportBlobName } = await blobSasService.uploadGeneratedDocument({
+        lawFirm: job.partitionKey,
+        fileName: `${path.parse(job.file_name).name}-errors.csv`,
+        contentType: 'text/csv',
+        content: this.errorReport(sheet, errors),
+        metadata: { source: 'demographics_import', importId: job.id },
+      }));
+    }
+
+    await databaseService.updateImportStatus(job.id, 'completed', { errorReportBlobName });
+    this.cachedSheet = null;
+
+    const completed = await databaseService.getImport(job.id, job.partitionKey);
+    await fifoQueueService.addWebhookMessage(job.partitionKey, {
+      event: 'demographics.import_completed',
+      data: {
+        id: job.id,
+        file_name: job.file_name,
+        total_rows: completed?.total_rows,
+        imported_rows: completed?.imported_rows,
+        failed_rows: completed?.failed_rows,
+      },
+      correlation_id: job.id,
+    });
+
+    logger.info('Demographics import completed', {
+      importId: job.id,
+      lawFirm: job.partitionKey,
+      totalRows: completed?.total_rows,
+      failedRows: completed?.failed_rows,
+    });
+  }
+
+  /**
+   * The failed rows as they appeared in the file, preceded by their row number
+   * and followed by their errors, so they can be fixed and imported again.
+   */
+  private errorReport(sheet: ImportSheet, errors: ImportRowError[]): Buffer {
+    const messagesByRow = new Map<number, string[]>();
+    for (const error of errors) {
+      const source = error.column ?? error.field;
+      const message = source ? `${source}: ${error.message}` : error.message;
+      messagesByRow.set(error.row, [...(messagesByRow.get(error.row) ?? []), message]);
+    }
+
+    const lines = [['Row', ...sheet.headers, 'Errors'].map(csvField).join(',')];
+    for (const row of sheet.rows) {
+      const messages = messagesByRow.get(row.row);
+      if (!messages) continue;
+      const values = sheet.headers.map((_, index) => row.values[index]);
+      lines.push([row.row, ...values, messages.join('; ')].map(csvField).join(','));
+    }
+
+    return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+  }
+}
+
+export const demographicsImportService = new DemographicsImportService();
@@ -0,0 +1,197 @@
+import {
+  DEMOGRAPHICS_QUERY_FIELDS,
+  DemographicsCursor,
+  DemographicsFilterClause,
+  DemographicsFilterOperatorSchema,
+  DemographicsListFilters,
+  DemographicsQueryField,
+  DemographicsQueryFieldKind,
+  DemographicsSortKey,
+} from '../types/demographics';
+
+export interface QueryIssue {
+  field: string;
+  message: string;
+  value: string;
+}
+
+const MAX_IN_VALUES = 100;
+const MAX_VALUE_LENGTH = 255;
+
+export const DEFAULT_DEMOGRAPHICS_SORT: DemographicsSortKey[] = [{ field: 'created_at', direction: 'desc' }];
+
+const isQueryField = (field: string): field is DemographicsQueryField =>
+  Object.prototype.hasOwnProperty.call(DEMOGRAPHICS_QUERY_FIELDS, field);
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Parses the listing filter and sort syntax into whitelisted, normalized
+ * clauses. Nothing here builds SQL: the database service turns the clauses into
+ * parameterized predicates, so values never reach the query text.
+ *
+ *   filter=state in (TX,LA)
+ *   filter=totalgrossaward gte 50000
+ *   filter=updated_at gte 2026-01-01
+ *   filter=lastname like Sm%
+ *   filter=dod is_null false
+ *   sort=state,-totalgrossaward
+ */
+class DemographicsQueryService {
+  parseFilters(input: string | string[] | undefined): { clauses: DemographicsFilterClause[]; issues: QueryIssue[] } {
+    const expressions = input === undefined ? [] : Array.isArray(input) ? input : [input];
+    const clauses: DemographicsFilterClause[] = [];
+    const issues: QueryIssue[] = [];
+
+    for (const expression of expressions) {
+      const match = /^\s*(\w+)\s+(\w+)(?:\s+(.*?))?\s*$/.exec(expression);
+      if (!match) {
+        issues.push({ field: 'filter', message: `Expected "<field> <operator> <value>": ${expression}`, value: 'invalid_string' });
+        continue;
+      }
+
+      const [, field, operatorName, rawValue = ''] = match;
+      if (!isQueryField(field)) {
+        issues.push({ field: 'filter', message: `Cannot filter on ${field}`, value: 'invalid_enum_value' });
+        continue;
+      }
+      const operator = DemographicsFilterOperatorSchema.safeParse(operatorName.toLowerCase());
+      if (!operator.success) {
+        issues.push({
+          field: 'filter',
+          message: `Unknown operator ${operatorName}; expected ${DemographicsFilterOperatorSchema.options.join(', ')}`,
+          value: 'invalid_enum_value',
+        });
+        continue;
+      }
+
+      const kind = DEMOGRAPHICS_QUERY_FIELDS[field];
+      let rawValues: string[];
+      switch (operator.data) {
+        case 'is_null': {
+          const flag = (rawValue || 'true').toLowerCase();
+          if (flag !== 'true' && flag !== 'false') {
+            issues.push({ field: 'filter', message: `is_null takes true or false: ${expression}`, value: 'invalid_type' });
+            continue;
+          }
+          clauses.push({ field, operator: operator.data, values: [flag] });
+          continue;
+        }
+        case 'like':
+          if (kind !== 'string') {
+            issues.push({ field: 'filter', message: `like is only supported on text fields: ${field}`, value: 'invalid_type' });
+            continue;
+          }
+          rawValues = [rawValue];
+          break;
+        case 'in':
+          rawValues = rawValue.replace(/^\((.*)\)$/, '$1').split(',').map(value => value.trim());
+          if (rawValues.length > MAX_IN_VALUES) {
+            issues.push({ field: 'filter', message: `in accepts at most ${MAX_IN_VALUES} values`, value: 'too_big' });
+            continue;
+          }
+          break;
+        default:
+          rawValues = [rawValue];
+      }
+
+      const values = rawValues.map(value => this.normalizeValue(kind, value));
+      if (values.some(value => value === null)) {
+        issues.push({ field: 'filter', message: `Invalid ${kind} value for ${field}: ${expression}`, value: 'invalid_type' });
+        continue;
+      }
+      clauses.push({ field, operator: operator.data, values: values as string[] });
+    }
+
+    return { clauses, issues };
+  }
+
+  parseSort(spec: string | undefined): { sort: DemographicsSortKey[]; issues: QueryIssue[] } {
+    if (!spec || !spec.trim()) {
+      return { sort: DEFAULT_DEMOGRAPHICS_SORT, issues: [] };
+    }
+
+    const sort: DemographicsSortKey[] = [];
+    const issues: QueryIssue[] = [];
+    for (const part of spec.split(',').map(value => value.trim()).filter(Boolean)) {
+      const direction = part.startsWith('-') ? 'desc' : 'asc';
+      const field = part.replace(/^[-+]/, '');
+      if (!isQueryField(field)) {
+        issues.push({ field: 'sort', message: `Cannot sort on ${field}`, value: 'invalid_enum_value' });
+      } else if (sort.some(key => key.field === field)) {
+        issues.push({ field: 'sort', message: `${field} is sorted on twice`, value: 'custom' });
+      } else {
+        sort.push({ field, direction });
+      }
+    }
+    return { sort: sort.length > 0 ? sort : DEFAULT_DEMOGRAPHICS_SORT, issues };
+  }
+
+  /**
+   * The clauses and sort of a listing's filters: `filter` expressions plus the
+   * `filter_claimanttype` / `filter_status` shorthands, ANDed.
+   */
+  parseListFilters(filters: DemographicsListFilters): {
+    where: DemographicsFilterClause[];
+    sort: DemographicsSortKey[];
+    issues: QueryIssue[];
+  } {
+    const { clauses, issues: filterIssues } = this.parseFilters(filters.filter);
+    const { sort, issues: sortIssues } = this.parseSort(filters.sort);
+    const where: DemographicsFilterClause[] = [
+      ...(filters.filter_claimanttype ? [{ field: 'claimanttype' as const, operator: 'eq' as const, values: [filters.filter_claimanttype] }] : []),
+      ...(filters.filter_status ? [{ field: 'status' as const, operator: 'eq' as const, values: [filters.filter_status] }] : []),
+      ...clauses,
+    ];
+    return { where, sort, issues: [...filterIssues, ...sortIssues] };
+  }
+
+  /**
+   * Canonical text of a sort, stored in cursors so a cursor is only followed
+   * under the sort it was issued for.
+   */
+  sortSpec(sort: DemographicsSortKey[]): string {
+    return sort.map(key => `${key.direction === 'desc' ? '-' : ''}${key.field}`).join(',');
+  }
+
+  /**
+   * Whether a decoded cursor belongs to `sort` and carries well-formed keys.
+   */
+  isCursorFor(cursor: DemographicsCursor, sort: DemographicsSortKey[]): boolean {
+    return (
+      cursor.sort === this.sortSpec(sort) &&
+      cursor.keys.length === sort.length &&
+      cursor.keys.every((key, i) => key === null || this.normalizeValue(DEMOGRAPHICS_QUERY_FIELDS[sort[i].field], key) === key)
+    );
+  }
+
+  /**
+   * The value in the text form the database service casts from, or null when
+   * it is not valid for the field kind. Dates become UTC `yyyy-mm-dd hh:mi:ss.fff`.
+   */
+  private normalizeValue(kind: DemographicsQueryFieldKind, value: string): string | null {
+    if (value.length === 0 || value.length > MAX_VALUE_LENGTH) return null;
+
+    switch (kind) {
+      case 'number':
+        return /^-?\d{1,15}(\.\d{1,4})?$/.test(value) ? value : null;
+      case 'date': {
+        // Already in SQL Server style 121 (as issued in cursors)
+        if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,7})?$/.test(value)) return value;
+        if (!/^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) return null;
+        // Times without an offset are UTC, like the stored timestamps
+        const iso = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value.replace(' ', 'T');
+        const date = new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}Z`);
+        if (isNaN(date.getTime())) return null;
+        return (
+          `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+          `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.${pad(date.getUTCMilliseconds(), 3)}`
+        );
+      }
+      default:
+        return value;
+    }
+  }
+}
+
+export const demographicsQueryService = new DemographicsQueryService();
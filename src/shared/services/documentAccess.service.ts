@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../database/database.service';
+import { DocumentRecord } from '../types/document';
+import { blobSasService } from './blobSas.service';
+import { logger } from './logger.service';
+
+export class DocumentAccessError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'DocumentAccessError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+// Long enough to start a download, short enough that a leaked URL is of little use
+const DOWNLOAD_URL_VALID_MINUTES = 15;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface DocumentAccessContext {
+  lawFirm: string;
+  keyId?: string;
+  requestId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * The only way API routes read registered documents. Every read is checked
+ * against the caller's law firm; another firm's document is reported exactly
+ * like an unknown one so correlation ids cannot be probed.
+ */
+class DocumentAccessService {
+  async getDocument(correlationId: string, lawFirm: string): Promise<DocumentRecord> {
+    const document = UUID_PATTERN.test(correlationId)
+      ? await databaseService.getDocument(correlationId)
+      : null;
+
+    if (!document || document.partitionKey !== lawFirm) {
+      if (document) {
+        logger.warn('Cross-firm document access denied', { correlationId, lawFirm });
+      }
+      throw new DocumentAccessError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+
+    return document;
+  }
+
+  /**
+   * Issues a short-lived read URL for the document and records who it was
+   * issued to. The URL is only issued once the access log entry is written.
+   */
+  async issueDownloadUrl(
+    correlationId: string,
+    context: DocumentAccessContext
+  ): Promise<{ document: DocumentRecord; download_url: string; expires_at: string }> {
+    const document = await this.getDocument(correlationId, context.lawFirm);
+    if (document.status === 'quarantined') {
+      throw new DocumentAccessError('Document was quarantined by the malware scan', 409, 'DOCUMENT_QUARANTINED');
+    }
+    if (document.status === 'purging' || document.status === 'purged') {
+      throw new DocumentAccessError('Document was purged under the retention policy', 410, 'DOCUMENT_PURGED');
+    }
+    // Nothing is downloadable until it has passed the malware scan and
+    // finished processing
+    if (document.status !== 'completed' || document.scan_result !== 'clean') {
+      throw new DocumentAccessError(
+        `Document is not available for download (status: ${document.status})`,
+        409,
+        'DOCUMENT_NOT_AVAILABLE'
+      );
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + DOWNLOAD_URL_VALID_MINUTES * 60 * 1000);
+
+    await databaseService.logDocumentAccess({
+      id: uuidv4(),
+      correlation_id: document.correlation_id,
+      partitionKey: document.partitionKey,
+      action: 'download_url',
+      key_id: context.keyId ?? null,
+      request_id: context.requestId ?? null,
+      ip_address: context.ipAddress ?? null,
+      user_agent: context.userAgent ?? null,
+      expires_at: expiresAt.toISOString(),
+      created_at: now.toISOString(),
+    });
+
+    const downloadUrl = await blobSasService.generateDownloadSasUrl(document.blob_name, DOWNLOAD_URL_VALID_MINUTES / 60);
+
+    logger.info('Document download URL issued', {
+      correlationId: document.correlation_id,
+      lawFirm: document.partitionKey,
+      keyId: context.keyId,
+      requestId: context.requestId,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return { document, download_url: downloadUrl, expires_at: expiresAt.toISOString() };
+  }
+
+  /**
+   * Checks that documents can be attached to a demographics record: it must
+   * belong to the law firm and be live. Merged records point to the record
+   * that replaced them.
+   */
+  async checkDemographicsLink(demographicsId: string, lawFirm: string): Promise<void> {
+    const demographic = await databaseService.getDemographicById(demographicsId, lawFirm);
+    const status = demographic?.status as string | undefined;
+    if (!demographic || status === 'deleted') {
+      throw new DocumentAccessError('Demographic record not found', 404, 'DEMOGRAPHIC_NOT_FOUND');
+    }
+    if (status === 'merged') {
+      throw new DocumentAccessError(
+        `Demographic record was merged into ${demographic.merged_into}; attach documents to that record`,
+        409,
+        'DEMOGRAPHIC_MERGED'
+      );
+    }
+  }
+}
+
+export const documentAccessService = new DocumentAccessService();
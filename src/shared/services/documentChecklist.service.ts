@@ -0,0 +1,160 @@
+import { databaseService } from '../database/database.service';
+import { Demographics } from '../types/demographics';
+import {
+  ChecklistItemStatus,
+  DocumentChecklist,
+  DocumentRecord,
+  DocumentRequirement,
+  DocumentType,
+} from '../types/document';
+import { DocumentPolicyError } from './documentPolicy.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+
+export interface DocumentRequirementDefinition {
+  label: string;
+  // Document types an upload for this requirement may be declared as; the first is the default
+  documentTypes: DocumentType[];
+  // Any attached document of the first type satisfies it, tagged or not
+  matchByType?: boolean;
+}
+
+export const DOCUMENT_REQUIREMENTS: Record<DocumentRequirement, DocumentRequirementDefinition> = {
+  intake_form: { label: 'Intake form', documentTypes: ['demographics_form'], matchByType: true },
+  retainer_agreement: { label: 'Signed retainer agreement', documentTypes: ['legal_doc'] },
+  government_id: { label: 'Government-issued photo ID', documentTypes: ['supporting_doc'] },
+  birth_certificate: { label: 'Birth certificate', documentTypes: ['supporting_doc'] },
+  guardian_appointment: { label: 'Guardian appointment or proof of guardianship', documentTypes: ['legal_doc', 'supporting_doc'] },
+  power_of_attorney: { label: 'Power of attorney or guardianship order', documentTypes: ['legal_doc'] },
+  death_certificate: { label: 'Death certificate', documentTypes: ['supporting_doc'] },
+  probate_letters: { label: 'Letters testamentary or of administration', documentTypes: ['legal_doc'] },
+  alternate_authorization: { label: 'Authorization to act for the claimant', documentTypes: ['legal_doc'] },
+  municipal_resolution: { label: 'Resolution authorizing the claim', documentTypes: ['legal_doc'] },
+};
+
+// What each kind of claimant has to provide before the claim is complete
+export const CLAIMANT_DOCUMENT_REQUIREMENTS: Record<Demographics['claimanttype'], DocumentRequirement[]> = {
+  Adult: ['intake_form', 'retainer_agreement', 'government_id'],
+  Minor: ['intake_form', 'retainer_agreement', 'birth_certificate', 'guardian_appointment'],
+  'Incapacitated Adult': ['intake_form', 'retainer_agreement', 'government_id', 'power_of_attorney'],
+  Decedent: ['intake_form', 'retainer_agreement', 'death_certificate', 'probate_letters'],
+  Alternate: ['intake_form', 'retainer_agreement', 'government_id', 'alternate_authorization'],
+  Municipality: ['retainer_agreement', 'municipal_resolution'],
+};
+
+// Uploads that have not finished, and may still satisfy a requirement
+const IN_FLIGHT_STATUSES = ['uploaded', 'processing'];
+
+/**
+ * Tracks which of the documents a claimant needs have arrived. Uploads are
+ * tagged with the requirement they are for; a requirement is satisfied once
+ * a document tagged with it has been scanned and processed. The
+ * `demographics.documents_complete` webhook fires each time a checklist
+ * becomes complete.
+ */
+class DocumentChecklistService {
+  /**
+   * The document type an upload for `requirement` is registered as: the one
+   * declared, which must suit the requirement, or the requirement's default.
+   */
+  resolveDocumentType(request: { documentType?: DocumentType; requirement?: DocumentRequirement }): DocumentType | undefined {
+    if (!request.requirement) return request.documentType;
+
+    const { documentTypes } = DOCUMENT_REQUIREMENTS[request.requirement];
+    if (request.documentType && !documentTypes.includes(request.documentType)) {
+      throw new DocumentPolicyError(
+        `${request.requirement} documents must be uploaded as ${documentTypes.join(' or ')}`,
+        422,
+        'REQUIREMENT_TYPE_MISMATCH'
+      );
+    }
+    return request.documentType ?? documentTypes[0];
+  }
+
+  async getChecklist(demographic: Demographics): Promise<DocumentChecklist> {
+    const documents = await databaseService.listDemographicDocuments(demographic.id, demographic.partitionKey);
+    const now = Date.now();
+
+    const items = (CLAIMANT_DOCUMENT_REQUIREMENTS[demographic.claimanttype] ?? []).map(requirement => {
+      const definition = DOCUMENT_REQUIREMENTS[requirement];
+      const matching = documents.filter(document => this.satisfies(document, requirement, definition));
+
+      const status: ChecklistItemStatus = matching.some(document => document.status === 'completed')
+        ? 'satisfied'
+        : matching.some(document => IN_FLIGHT_STATUSES.includes(document.status)
+          || (document.status === 'pending' && Date.parse(document.upload_expires_at) > now))
+          ? 'pending'
+          : 'missing';
+
+      return {
+        requirement,
+        label: definition.label,
+        status,
+        documents: matching.map(document => ({
+          correlation_id: document.correlation_id,
+          file_name: document.original_file_name,
+          status: document.status,
+          uploaded_at: document.uploaded_at,
+        })),
+      };
+    });
+
+    const satisfied = items.filter(item => item.status === 'satisfied').length;
+    return {
+      demographics_id: demographic.id,
+      claimanttype: demographic.claimanttype,
+      complete: satisfied === items.length,
+      satisfied,
+      total: items.length,
+      items,
+    };
+  }
+
+  /**
+   * Re-evaluates a claimant's checklist after one of their documents changed
+   * and sends the webhook when that completed it.
+   */
+  async refresh(demographicsId: string, lawFirm: string): Promise<DocumentChecklist | null> {
+    const demographic = await databaseService.getDemographicById(demographicsId, lawFirm);
+    if (!demographic) return null;
+
+    const checklist = await this.getChecklist(demographic);
+    const completed = await databaseService.updateDocumentChecklistState(demographicsId, lawFirm, checklist.complete);
+
+    if (completed) {
+      await fifoQueueService.addWebhookMessage(lawFirm, {
+        event: 'demographics.documents_complete',
+        data: {
+          id: demographicsId,
+          sf_id: demographic.sf_id,
+          claimanttype: checklist.claimanttype,
+          requirements: checklist.items.map(item => ({
+            requirement: item.requirement,
+            documents: item.documents
+              .filter(document => document.status === 'completed')
+              .map(document => document.correlation_id),
+          })),
+          completed_at: new Date().toISOString(),
+        },
+        correlation_id: demographicsId,
+      });
+
+      logger.info('Claimant document checklist complete', { demographicsId, lawFirm, total: checklist.total });
+    }
+
+    return checklist;
+  }
+
+  private satisfies(document: DocumentRecord, requirement: DocumentRequirement, definition: DocumentRequirementDefinition): boolean {
+    if (document.requirement === requirement) return true;
+    if (!definition.matchByType || document.requirement) return false;
+
+    // The declared type stands unless the classifier confidently disagrees
+    const documentType = document.classification_mismatch || !document.document_type
+      ? document.classified_type
+      : document.document_type;
+    return documentType === definition.documentTypes[0];
+  }
+}
+
+export const documentChecklistService = new DocumentChecklistService();
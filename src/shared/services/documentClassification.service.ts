@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { databaseService } from '../database/database.service';
+import { DocumentClassificationSource, DocumentRecord, DocumentType, DocumentTypeSchema } from '../types/document';
+import { logger } from './logger.service';
+
+export interface ClassificationInput {
+  text: string;
+  fileName: string;
+  contentType: string;
+}
+
+export interface DocumentClassification {
+  documentType: DocumentType;
+  // 0..1
+  confidence: number;
+}
+
+/**
+ * A document type classifier. Returning null means "no opinion"; the
+ * pipeline then falls back to the keyword rules.
+ */
+export interface DocumentClassifier {
+  readonly name: string;
+  classify(input: ClassificationInput): Promise<DocumentClassification | null>;
+}
+
+// A classification at least this confident that disagrees with the declared type is flagged
+const MISMATCH_CONFIDENCE = 0.6;
+
+// Below this score there is too little evidence for any type
+const MIN_RULE_SCORE = 3;
+
+// Phrases of more than one word count double: they are far less ambiguous
+const KEYWORDS: Record<Exclude<DocumentType, 'other'>, string[]> = {
+  medical_record: [
+    'patient', 'diagnosis', 'physician', 'mrn', 'medical record', 'discharge summary', 'chief complaint',
+    'history of present illness', 'medication', 'radiology', 'impression', 'hospital', 'clinic', 'icd-10',
+    'prescribed', 'vital signs', 'lab results', 'progress note', 'treatment plan', 'admission', 'surgery',
+  ],
+  legal_doc: [
+    'plaintiff', 'defendant', 'court', 'counsel', 'hereby', 'agreement', 'affidavit', 'pursuant',
+    'jurisdiction', 'deposition', 'subpoena', 'notary', 'retainer', 'power of attorney', 'whereas',
+    'in witness whereof', 'case no', 'docket', 'executed', 'release of all claims',
+  ],
+  demographics_form: [
+    'date of birth', 'social security', 'ssn', 'marital status', 'gender', 'ethnicity', 'emergency contact',
+    'intake form', 'claimant information', 'first name', 'last name', 'zip code', 'questionnaire',
+    'mailing address', 'phone number', 'email address',
+  ],
+  supporting_doc: [
+    'invoice', 'receipt', 'pay stub', 'w-2', 'tax return', 'correspondence', 'police report',
+    'explanation of benefits', 'death certificate', 'birth certificate', 'amount due', 'employer',
+    'account number', 'insurance', 'photograph',
+  ],
+};
+
+const FILE_NAME_HINTS: Array<{ pattern: RegExp; documentType: Exclude<DocumentType, 'other'> }> = [
+  { pattern: /medical|record|mri|x-?ray|lab|rx|chart|discharge/i, documentType: 'medical_record' },
+  { pattern: /agreement|contract|retainer|affidavit|complaint|motion|court|release/i, documentType: 'legal_doc' },
+  { pattern: /intake|questionnaire|demographic/i, documentType: 'demographics_form' },
+  { pattern: /invoice|receipt|bill|stub|w-?2|tax|certificate|police|eob/i, documentType: 'supporting_doc' },
+];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const KEYWORD_PATTERNS = Object.entries(KEYWORDS).map(([documentType, keywords]) => ({
+  documentType: documentType as Exclude<DocumentType, 'other'>,
+  keywords: keywords.map(keyword => ({
+    pattern: new RegExp(`\\b${escapeRegExp(keyword).replace(/ /g, '\\s+')}\\b`, 'i'),
+    weight: keyword.includes(' ') ? 2 : 1,
+  })),
+}));
+
+/**
+ * Scores each type by the distinct keywords found in the text plus a hint
+ * from the file name. Confidence reflects both how far the winner leads
+ * the other types and how much evidence there is.
+ */
+export class RuleBasedDocumentClassifier implements DocumentClassifier {
+  readonly name = 'rules';
+
+  async classify(input: ClassificationInput): Promise<DocumentClassification> {
+    const scores = KEYWORD_PATTERNS.map(({ documentType, keywords }) => ({
+      documentType,
+      score: keywords.reduce((score, keyword) => score + (keyword.pattern.test(input.text) ? keyword.weight : 0), 0)
+        + FILE_NAME_HINTS.filter(hint => hint.documentType === documentType && hint.pattern.test(input.fileName)).length * 2,
+    })).sort((a, b) => b.score - a.score);
+
+    const [best] = scores;
+    if (best.score < MIN_RULE_SCORE) {
+      return { documentType: 'other', confidence: 0.3 };
+    }
+
+    const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+    const lead = best.score / total;
+    const evidence = Math.min(1, best.score / 10);
+
+    return { documentType: best.documentType, confidence: Math.round(lead * (0.5 + 0.5 * evidence) * 1000) / 1000 };
+  }
+}
+
+const ModelResponseSchema = z.object({
+  documentType: DocumentTypeSchema,
+  confidence: z.number().min(0).max(1),
+});
+
+/**
+ * Hook for an external classification model: POSTs the text (truncated),
+ * file name and content type as JSON and expects `{ documentType, confidence }`.
+ */
+export class HttpModelDocumentClassifier implements DocumentClassifier {
+  readonly name = 'model';
+
+  constructor(private readonly url: string, private readonly apiKey?: string) {}
+
+  async classify(input: ClassificationInput): Promise<DocumentClassification | null> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({ ...input, text: input.text.slice(0, 50000) }),
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Classification model returned ${response.status}`);
+    }
+
+    const parsed = ModelResponseSchema.safeParse(await response.json());
+    return parsed.success ? parsed.data : null;
+  }
+}
+
+/**
+ * Assigns each processed document a type and confidence, and flags it when a
+ * confident classification disagrees with the type declared at upload. The
+ * model hook (DOCUMENT_CLASSIFIER_URL) is tried first when configured; the
+ * keyword rules answer when it has no opinion or fails.
+ */
+class DocumentClassificationService {
+  private rules = new RuleBasedDocumentClassifier();
+  private model: DocumentClassifier | null = process.env.DOCUMENT_CLASSIFIER_URL
+    ? new HttpModelDocumentClassifier(process.env.DOCUMENT_CLASSIFIER_URL, process.env.DOCUMENT_CLASSIFIER_API_KEY)
+    : null;
+
+  /**
+   * Sets the model consulted before the rules, e.g. a stub in tests; null
+   * leaves classification to the rules.
+   */
+  useClassifier(classifier: DocumentClassifier | null): void {
+    this.model = classifier;
+  }
+
+  async classifyDocument(
+    document: DocumentRecord,
+    text: string
+  ): Promise<DocumentClassification & { source: DocumentClassificationSource; mismatch: boolean }> {
+    const input: ClassificationInput = {
+      text,
+      fileName: document.original_file_name,
+      contentType: document.content_type,
+    };
+
+    let classification: DocumentClassification | null = null;
+    let source: DocumentClassificationSource = 'rules';
+    if (this.model) {
+      try {
+        classification = await this.model.classify(input);
+        source = 'model';
+      } catch (error) {
+        logger.warn('Classification model failed; using keyword rules', {
+          correlationId: document.correlation_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    if (!classification) {
+      classification = await this.rules.classify(input);
+      source = 'rules';
+    }
+
+    // An unset or `other` declaration is not contradicted by a classification
+    const mismatch = document.document_type !== null
+      && document.document_type !== 'other'
+      && classification.documentType !== document.document_type
+      && classification.confidence >= MISMATCH_CONFIDENCE;
+
+    await databaseService.updateDocumentClassification(document.correlation_id, {
+      classified_type: classification.documentType,
+      confidence: classification.confidence,
+      source,
+      mismatch,
+    });
+
+    logger.info('Document classified', {
+      correlationId: document.correlation_id,
+      declaredType: document.document_type,
+      classifiedType: classification.documentType,
+      confidence: classification.confidence,
+      source,
+      mismatch,
+    });
+
+    return { ...classification, source, mismatch };
+  }
+}
+
+export const documentClassificationService = new DocumentClassificationService();
@@ -0,0 +1,235 @@
+import { spawn } from 'child_process';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+import { AzureKeyCredential, DocumentAnalysisClient } from '@azure/ai-form-recognizer';
+import { databaseService } from '../database/database.service';
+import { DocumentRecord, DocumentText } from '../types/document';
+import { blobSasService } from './blobSas.service';
+import { logger } from './logger.service';
+
+export interface ExtractedText {
+  text: string;
+  pageCount: number | null;
+  ocr: boolean;
+}
+
+/**
+ * A text extraction provider for the document pipeline. `extract` rejects
+ * when the provider fails; `supports` says which content types it can read.
+ */
+export interface DocumentExtractor {
+  readonly name: string;
+  supports(contentType: string): boolean;
+  extract(content: Buffer, contentType: string): Promise<ExtractedText>;
+}
+
+const PDF = 'application/pdf';
+const OCR_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/tiff'];
+const TEXT_TYPES = ['text/plain', 'text/csv'];
+
+const normalizeContentType = (contentType: string): string => contentType.split(';')[0].trim().toLowerCase();
+
+/**
+ * Extraction without external services: the text layer of PDFs, and OCR of
+ * images through the `tesseract` command-line tool. Scanned PDFs have no text
+ * layer and come back empty; the Azure provider reads those.
+ */
+export class LocalDocumentExtractor implements DocumentExtractor {
+  readonly name = 'local';
+
+  constructor(private readonly options: { tesseractPath?: string; language?: string; timeoutMs?: number } = {}) {}
+
+  supports(contentType: string): boolean {
+    return contentType === PDF || OCR_IMAGE_TYPES.includes(contentType);
+  }
+
+  async extract(content: Buffer, contentType: string): Promise<ExtractedText> {
+    if (contentType === PDF) {
+      return this.readPdfTextLayer(content);
+    }
+
+    return { text: (await this.ocr(content)).trim(), pageCount: 1, ocr: true };
+  }
+
+  private async readPdfTextLayer(content: Buffer): Promise<ExtractedText> {
+    // Uploads are untrusted: never let pdf.js evaluate code from font programs
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(content), isEvalSupported: false, useSystemFonts: true }).promise;
+
+    try {
+      const pages: string[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const { items } = await page.getTextContent();
+        pages.push(items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join('').trim());
+        page.cleanup();
+      }
+
+      return { text: pages.join('\n\n').trim(), pageCount: pdf.numPages, ocr: false };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private ocr(image: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const tesseract = spawn(
+        this.options.tesseractPath ?? 'tesseract',
+        ['stdin', 'stdout', '-l', this.options.language ?? 'eng']
+      );
+      const timer = setTimeout(() => tesseract.kill('SIGKILL'), this.options.timeoutMs ?? 120000);
+
+      const output: Buffer[] = [];
+      const errors: Buffer[] = [];
+      tesseract.stdout.on('data', chunk => output.push(chunk));
+      tesseract.stderr.on('data', chunk => errors.push(chunk));
+      tesseract.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      tesseract.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(output).toString('utf8'));
+        } else {
+          const detail = Buffer.concat(errors).toString('utf8').trim();
+          reject(new Error(`tesseract failed (${signal ?? `exit ${code}`})${detail ? `: ${detail}` : ''}`));
+        }
+      });
+
+      // tesseract may exit before reading everything, e.g. on an unreadable image
+      tesseract.stdin.on('error', () => {});
+      tesseract.stdin.end(image);
+    });
+  }
+}
+
+/**
+ * Azure AI Document Intelligence (Form Recognizer) `prebuilt-read` model:
+ * OCR for PDFs, scanned or not, images and Office documents.
+ */
+export class AzureFormRecognizerExtractor implements DocumentExtractor {
+  readonly name = 'azure-form-recognizer';
+  private client: DocumentAnalysisClient;
+
+  constructor(endpoint: string, key: string) {
+    this.client = new DocumentAnalysisClient(endpoint, new AzureKeyCredential(key));
+  }
+
+  supports(contentType: string): boolean {
+    return contentType === PDF
+      || OCR_IMAGE_TYPES.includes(contentType)
+      || contentType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      || contentType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  }
+
+  async extract(content: Buffer): Promise<ExtractedText> {
+    const poller = await this.client.beginAnalyzeDocument('prebuilt-read', content);
+    const result = await poller.pollUntilDone();
+
+    return { text: result.content.trim(), pageCount: result.pages?.length ?? null, ocr: true };
+  }
+}
+
+/**
+ * DOCUMENT_EXTRACTION_PROVIDER picks the provider: `local` (default) or
+ * `azure`, which needs DOCUMENT_INTELLIGENCE_ENDPOINT and DOCUMENT_INTELLIGENCE_KEY.
+ */
+function createExtractor(): DocumentExtractor {
+  if (process.env.DOCUMENT_EXTRACTION_PROVIDER === 'azure') {
+    const endpoint = process.env.DOCUMENT_INTELLIGENCE_ENDPOINT;
+    const key = process.env.DOCUMENT_INTELLIGENCE_KEY;
+    if (!endpoint || !key) {
+      throw new Error('DOCUMENT_INTELLIGENCE_ENDPOINT and DOCUMENT_INTELLIGENCE_KEY are required for the azure extraction provider');
+    }
+    return new AzureFormRecognizerExtractor(endpoint, key);
+  }
+
+  return new LocalDocumentExtractor({
+    tesseractPath: process.env.TESSERACT_PATH,
+    language: process.env.TESSERACT_LANG,
+    timeoutMs: process.env.TESSERACT_TIMEOUT_MS ? parseInt(process.env.TESSERACT_TIMEOUT_MS, 10) : undefined,
+  });
+}
+
+/**
+ * Extracts the text of scanned-clean documents and stores it, with the page
+ * count, for search. Extraction is best effort: a failure is recorded on the
+ * document's text and does not fail the document.
+ */
+class DocumentExtractionService {
+  private extractor: DocumentExtractor | null = null;
+
+  private getExtractor(): DocumentExtractor {
+    if (!this.extractor) {
+      this.extractor = createExtractor();
+    }
+    return this.extractor;
+  }
+
+  /**
+   * Replaces the configured provider, e.g. in tests.
+   */
+  useExtractor(extractor: DocumentExtractor): void {
+    this.extractor = extractor;
+  }
+
+  async extractDocument(document: DocumentRecord): Promise<DocumentText> {
+    const startTime = Date.now();
+    const contentType = normalizeContentType(document.content_type);
+    const extractor = this.getExtractor();
+    // Plain text needs no provider
+    const provider = TEXT_TYPES.includes(contentType) ? 'text' : extractor.name;
+
+    const text: DocumentText = {
+      correlation_id: document.correlation_id,
+      partitionKey: document.partitionKey,
+      status: 'completed',
+      provider,
+      content: null,
+      page_count: null,
+      ocr: false,
+      error: null,
+      extracted_at: new Date().toISOString(),
+    };
+
+    if (provider !== 'text' && !extractor.supports(contentType)) {
+      text.status = 'unsupported';
+    } else {
+      try {
+        const content = await blobSasService.downloadDocument(document.blob_name);
+        if (provider === 'text') {
+          text.content = content.toString('utf8').replace(/^\uFEFF/, '');
+        } else {
+          const extracted = await extractor.extract(content, contentType);
+          text.content = extracted.text;
+          text.page_count = extracted.pageCount;
+          text.ocr = extracted.ocr;
+        }
+      } catch (error) {
+        text.status = 'failed';
+        text.error = error instanceof Error ? error.message : String(error);
+        logger.error('Document text extraction failed', {
+          correlationId: document.correlation_id,
+          provider,
+          error: text.error,
+        });
+      }
+    }
+
+    text.extracted_at = new Date().toISOString();
+    await databaseService.saveDocumentText(text);
+
+    logger.info('Document text extracted', {
+      correlationId: document.correlation_id,
+      provider,
+      status: text.status,
+      pageCount: text.page_count,
+      characters: text.content?.length ?? 0,
+      ocr: text.ocr,
+      extractionTime: Date.now() - startTime,
+    });
+
+    return text;
+  }
+}
+
+export const documentExtractionService = new DocumentExtractionService();
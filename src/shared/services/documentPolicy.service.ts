@@ -0,0 +1,227 @@
+import { inflateSync } from 'zlib';
+import { DocumentRecord, DocumentType } from '../types/document';
+
+export class DocumentPolicyError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'DocumentPolicyError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export interface DocumentFilePolicy {
+  contentTypes: string[];
+  maxFileSizeMB: number;
+  // Through a resumable upload session
+  maxChunkedFileSizeMB: number;
+  // PDFs only
+  maxPages?: number;
+}
+
+const PDF = 'application/pdf';
+const IMAGES = ['image/png', 'image/jpeg', 'image/tiff'];
+const WORD = ['application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+const SPREADSHEETS = [
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/csv',
+];
+
+// The blob trigger is handed the whole file and text extraction downloads
+// it again, so no policy may allow more than the processing pipeline holds
+// in memory
+export const MAX_PROCESSABLE_FILE_SIZE_MB = 250;
+
+// Uploads without a documentType follow the `other` policy
+export const DOCUMENT_FILE_POLICIES: Record<DocumentType, DocumentFilePolicy> = {
+  demographics_form: { contentTypes: [PDF, ...IMAGES], maxFileSizeMB: 25, maxChunkedFileSizeMB: 100, maxPages: 50 },
+  medical_record: {
+    contentTypes: [PDF, ...IMAGES],
+    maxFileSizeMB: 100,
+    maxChunkedFileSizeMB: MAX_PROCESSABLE_FILE_SIZE_MB,
+    maxPages: 2000
+  },
+  legal_doc: {
+    contentTypes: [PDF, ...WORD],
+    maxFileSizeMB: 50,
+    maxChunkedFileSizeMB: MAX_PROCESSABLE_FILE_SIZE_MB,
+    maxPages: 500
+  },
+  supporting_doc: {
+    contentTypes: [PDF, ...IMAGES, ...WORD, ...SPREADSHEETS, 'text/plain'],
+    maxFileSizeMB: 50,
+    maxChunkedFileSizeMB: MAX_PROCESSABLE_FILE_SIZE_MB,
+    maxPages: 500
+  },
+  other: {
+    contentTypes: [PDF, ...IMAGES, ...WORD, ...SPREADSHEETS, 'text/plain'],
+    maxFileSizeMB: 25,
+    maxChunkedFileSizeMB: 100,
+    maxPages: 500
+  },
+};
+
+// Leading bytes of each binary format and the content types it may be declared as.
+// Office Open XML files are ZIP archives; legacy Office files are OLE containers.
+const SIGNATURES: Array<{ kind: string; magic: Buffer; contentTypes: string[] }> = [
+  { kind: 'pdf', magic: Buffer.from('%PDF-'), contentTypes: [PDF] },
+  { kind: 'png', magic: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), contentTypes: ['image/png'] },
+  { kind: 'jpeg', magic: Buffer.from([0xff, 0xd8, 0xff]), contentTypes: ['image/jpeg'] },
+  { kind: 'tiff', magic: Buffer.from([0x49, 0x49, 0x2a, 0x00]), contentTypes: ['image/tiff'] },
+  { kind: 'tiff', magic: Buffer.from([0x4d, 0x4d, 0x00, 0x2a]), contentTypes: ['image/tiff'] },
+  { kind: 'zip', magic: Buffer.from([0x50, 0x4b, 0x03, 0x04]), contentTypes: [WORD[1], SPREADSHEETS[1]] },
+  { kind: 'ole', magic: Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]), contentTypes: [WORD[0], SPREADSHEETS[0]] },
+  { kind: 'executable', magic: Buffer.from('MZ'), contentTypes: [] },
+  { kind: 'executable', magic: Buffer.from([0x7f, 0x45, 0x4c, 0x46]), contentTypes: [] },
+];
+
+const TEXT_CONTENT_TYPES = ['text/csv', 'text/plain'];
+
+// How much of the file the signature and text checks look at
+const SNIFF_BYTES = 8192;
+
+// Object streams hold a few thousand small objects; anything that inflates
+// past this is not a page tree worth counting
+const MAX_OBJECT_STREAM_BYTES = 16 * 1024 * 1024;
+
+const PDF_WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+
+/**
+ * Per-document-type upload rules: which content types may be uploaded, how
+ * large, and how many pages a PDF may have. Requests are checked when the
+ * upload URL is issued; the blob itself is checked when it arrives, since
+ * the SAS URL cannot stop a client uploading something else.
+ */
+class DocumentPolicyService {
+  getPolicy(documentType?: string | null): DocumentFilePolicy {
+    return DOCUMENT_FILE_POLICIES[(documentType ?? 'other') as DocumentType] ?? DOCUMENT_FILE_POLICIES.other;
+  }
+
+  /**
+   * Rejects an upload URL request the document type's policy does not allow.
+   * `chunked` requests, for resumable upload sessions, have the larger limit.
+   */
+  checkUploadRequest(request: { documentType?: string; contentType: string; maxFileSizeMB: number; chunked?: boolean }): void {
+    const policy = this.getPolicy(request.documentType);
+    const contentType = this.normalizeContentType(request.contentType);
+    const documentType = request.documentType ?? 'other';
+
+    if (!policy.contentTypes.includes(contentType)) {
+      throw new DocumentPolicyError(
+        `${contentType} is not allowed for ${documentType} documents. Allowed: ${policy.contentTypes.join(', ')}`,
+        415,
+        'CONTENT_TYPE_NOT_ALLOWED'
+      );
+    }
+    const maxFileSizeMB = request.chunked ? policy.maxChunkedFileSizeMB : policy.maxFileSizeMB;
+    if (request.maxFileSizeMB > maxFileSizeMB) {
+      throw new DocumentPolicyError(
+        request.maxFileSizeMB <= policy.maxChunkedFileSizeMB
+          ? `${documentType} documents over ${maxFileSizeMB}MB must be sent through an upload session`
+          : `${documentType} documents are limited to ${policy.maxChunkedFileSizeMB}MB`,
+        422,
+        'FILE_SIZE_NOT_ALLOWED'
+      );
+    }
+  }
+
+  /**
+   * Checks an uploaded blob against its registration: the content must match
+   * the declared content type and, for PDFs, stay within the page limit.
+   * Returns the reason for rejecting it, if any, and the PDF page count.
+   */
+  inspectUpload(document: DocumentRecord, content: Buffer): { violation: string | null; pageCount?: number } {
+    const declared = this.normalizeContentType(document.content_type);
+    const head = content.subarray(0, SNIFF_BYTES);
+    const signature = SIGNATURES.find(candidate => head.subarray(0, candidate.magic.length).equals(candidate.magic));
+
+    if (signature) {
+      if (!signature.contentTypes.includes(declared)) {
+        return { violation: `File content (${signature.kind}) does not match the declared content type ${declared}` };
+      }
+    } else if (!TEXT_CONTENT_TYPES.includes(declared) || !this.looksLikeText(head)) {
+      return { violation: `File content does not match the declared content type ${declared}` };
+    }
+
+    if (declared !== PDF) {
+      return { violation: null };
+    }
+
+    const pageCount = this.countPdfPages(content);
+    const { maxPages } = this.getPolicy(document.document_type);
+    if (pageCount !== null && maxPages !== undefined && pageCount > maxPages) {
+      return {
+        violation: `PDF has ${pageCount} pages; ${document.document_type ?? 'other'} documents are limited to ${maxPages}`,
+        pageCount,
+      };
+    }
+
+    return { violation: null, pageCount: pageCount ?? undefined };
+  }
+
+  private normalizeContentType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+  }
+
+  // UTF-8 text without NUL bytes; a BOM is fine
+  private looksLikeText(head: Buffer): boolean {
+    if (head.includes(0)) return false;
+    // A multi-byte character may be cut off at the end of the sample
+    const sample = head.subarray(0, Math.max(0, head.length - 3)).toString('utf8');
+    return !sample.includes('\uFFFD');
+  }
+
+  /**
+   * Counts page objects, including those packed into compressed object
+   * streams. Null when the count cannot be read (e.g. encrypted PDFs, or an
+   * object stream that inflates past MAX_OBJECT_STREAM_BYTES). Works on the
+   * buffer directly: a large file never becomes one string.
+   */
+  private countPdfPages(content: Buffer): number | null {
+    let pages = 0;
+
+    for (const { name, end } of this.pdfTypes(content)) {
+      if (name === 'Page') {
+        pages++;
+      } else if (name === 'ObjStm') {
+        let start = content.indexOf('stream', end, 'latin1');
+        if (start === -1) break;
+        start += 'stream'.length;
+        if (content[start] === 0x0d) start++;
+        if (content[start] !== 0x0a) continue;
+        const streamEnd = content.indexOf('endstream', ++start, 'latin1');
+        if (streamEnd === -1) break;
+
+        try {
+          const objects = inflateSync(content.subarray(start, streamEnd), { maxOutputLength: MAX_OBJECT_STREAM_BYTES });
+          for (const object of this.pdfTypes(objects)) {
+            if (object.name === 'Page') pages++;
+          }
+        } catch {
+          return null;
+        }
+      }
+    }
+
+    return pages > 0 ? pages : null;
+  }
+
+  // The name after each `/Type` key, e.g. Page for `/Type /Page`
+  private *pdfTypes(data: Buffer): Generator<{ name: string; end: number }> {
+    for (let at = data.indexOf('/Type', 0, 'latin1'); at !== -1; at = data.indexOf('/Type', at + 1, 'latin1')) {
+      let position = at + '/Type'.length;
+      while (PDF_WHITESPACE.has(data[position])) position++;
+      if (data[position] !== 0x2f) continue;
+
+      const start = ++position;
+      while (position < data.length && /[A-Za-z]/.test(String.fromCharCode(data[position]))) position++;
+      yield { name: data.toString('latin1', start, position), end: position };
+    }
+  }
+}
+
+export const documentPolicyService = new DocumentPolicyService();
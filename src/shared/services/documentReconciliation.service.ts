@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../database/database.service';
+import { DocumentRecord } from '../types/document';
+import { ListReconciliationFindingsQuery, ReconciliationFinding, ReconciliationRunSummary } from '../types/reconciliation';
+import { blobSasService } from './blobSas.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+
+// Metadata on client uploads is whatever the client sent
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EXPIRE_BATCH_SIZE = 1000;
+
+// Names checked against the database per query
+const SCAN_PAGE_SIZE = 1000;
+
+// A blob written just before its upload URL expired may still be on its way
+// through the trigger, and a generated document is stored moments before the
+// record that owns it
+const GRACE_MINUTES = 60;
+
+/**
+ * Reconciles the uploads registered with what is actually in storage. Every
+ * upload URL or session registers a `pending` document, and many are never
+ * used: once the upload has lapsed with no file in the container the
+ * document is expired. A lapsed upload whose file is there after all was
+ * never processed, and is reported rather than expired. Blobs in the
+ * documents container that nothing registered owns are reported too. The
+ * job only reports what it finds in storage; it never deletes a blob.
+ */
+class DocumentReconciliationService {
+  async listFindings(lawFirm: string, query: ListReconciliationFindingsQuery): Promise<ReconciliationFinding[]> {
+    return databaseService.listReconciliationFindings(lawFirm, query);
+  }
+
+  async run(now: Date = new Date()): Promise<ReconciliationRunSummary> {
+    const summary: ReconciliationRunSummary = {
+      run_id: uuidv4(),
+      blobs_scanned: 0,
+      unmatched_blobs: 0,
+      expired_uploads: 0,
+      unprocessed_uploads: 0,
+      resolved_findings: 0,
+    };
+    const settledBefore = new Date(now.getTime() - GRACE_MINUTES * 60 * 1000);
+
+    for (const document of await databaseService.listExpiredPendingDocuments(settledBefore, EXPIRE_BATCH_SIZE)) {
+      try {
+        const outcome = await this.reconcileLapsedUpload(document, now);
+        if (outcome === 'expired') summary.expired_uploads++;
+        if (outcome === 'unprocessed') summary.unprocessed_uploads++;
+      } catch (error) {
+        logger.error('Error reconciling lapsed upload', {
+          error: error instanceof Error ? error.message : String(error),
+          correlationId: document.correlation_id,
+          runId: summary.run_id,
+        });
+      }
+    }
+
+    let scanComplete = false;
+    try {
+      const firmsByPrefix = await this.firmsByBlobPrefix();
+      for await (const page of blobSasService.listDocumentBlobs(SCAN_PAGE_SIZE)) {
+        summary.blobs_scanned += page.length;
+        summary.unmatched_blobs += await this.reconcileBlobs(page, firmsByPrefix, settledBefore, now);
+      }
+      scanComplete = true;
+    } catch (error) {
+      // Unmatched blobs not reached this time stay open until a scan completes
+      logger.error('Error scanning document blobs', {
+        error: error instanceof Error ? error.message : String(error),
+        blobsScanned: summary.blobs_scanned,
+        runId: summary.run_id,
+      });
+    }
+
+    summary.resolved_findings = await databaseService.resolveReconciliationFindings(scanComplete ? now : null);
+
+    logger.info('Document reconciliation run finished', { ...summary, scanComplete });
+    return summary;
+  }
+
+  /**
+   * Expires a registered upload that lapsed with no file in storage, or
+   * reports it when the file did arrive but was never processed.
+   */
+  private async reconcileLapsedUpload(document: DocumentRecord, now: Date): Promise<'expired' | 'unprocessed' | null> {
+    if (await blobSasService.documentExists(document.blob_name)) {
+      await databaseService.recordReconciliationFinding({
+        kind: 'unprocessed_upload',
+        blob_name: document.blob_name,
+        correlation_id: document.correlation_id,
+        partitionKey: document.partitionKey,
+        blob_size: null,
+        blob_created_at: null,
+      }, now);
+
+      logger.warn('Uploaded document was never processed', {
+        correlationId: document.correlation_id,
+        lawFirm: document.partitionKey,
+        blobName: document.blob_name,
+      });
+      return 'unprocessed';
+    }
+
+    const reason = 'The upload expired before the file arrived';
+    const result = await databaseService.expirePendingDocument(document.correlation_id, reason);
+    if (!result) return null;
+
+    if (result.stagedBlobName) {
+      await blobSasService.discardStagedDocument(result.stagedBlobName);
+    }
+
+    await fifoQueueService.addWebhookMessage(document.partitionKey, {
+      event: 'document.expired',
+      data: {
+        correlationId: document.correlation_id,
+        status: 'expired',
+        reason,
+        expiredAt: now.toISOString()
+      },
+      correlation_id: document.correlation_id
+    });
+
+    return 'expired';
+  }
+
+  /**
+   * Records a finding for each blob in the page that nothing registered owns,
+   * with the correlation id from its metadata to trace where it came from.
+   * Returns how many were unmatched.
+   */
+  private async reconcileBlobs(
+    page: Array<{ name: string; size: number | null; createdAt: string | null; correlationId: string | null }>,
+    firmsByPrefix: Map<string, string | null>,
+    settledBefore: Date,
+    now: Date
+  ): Promise<number> {
+    const settled = page.filter(blob => !blob.createdAt || Date.parse(blob.createdAt) < settledBefore.getTime());
+    const registered = await databaseService.findRegisteredBlobNames(settled.map(blob => blob.name));
+
+    let unmatched = 0;
+    for (const blob of settled) {
+      if (registered.has(blob.name)) continue;
+
+      await databaseService.recordReconciliationFinding({
+        kind: 'unmatched_blob',
+        blob_name: blob.name,
+        correlation_id: blob.correlationId && UUID_PATTERN.test(blob.correlationId) ? blob.correlationId : null,
+        partitionKey: firmsByPrefix.get(`${blob.name.split('/')[0]}/`) ?? null,
+        blob_size: blob.size,
+        blob_created_at: blob.createdAt,
+      }, now);
+      unmatched++;
+    }
+
+    if (unmatched > 0) {
+      logger.warn('Document blobs with no registered owner', { count: unmatched });
+    }
+    return unmatched;
+  }
+
+  /**
+   * The firm each blob name prefix belongs to. Prefixes are sanitized firm
+   * names and several firms can share one ("Smith & Jones", "Smith, Jones");
+   * a shared prefix maps to null, and blobs under it are attributed to no firm.
+   */
+  private async firmsByBlobPrefix(): Promise<Map<string, string | null>> {
+    const firms = new Map<string, string | null>();
+    for (const lawFirm of await databaseService.listApiKeyLawFirms()) {
+      const prefix = blobSasService.lawFirmBlobPrefix(lawFirm);
+      firms.set(prefix, firms.has(prefix) ? null : lawFirm);
+    }
+    return firms;
+  }
+}
+
+export const documentReconciliationService = new DocumentReconciliationService();
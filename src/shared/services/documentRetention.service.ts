@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../database/database.service';
+import { AuditContext } from '../types/audit';
+import { DocumentType } from '../types/document';
+import { LegalHold, PurgeCandidate, PurgeCertificate, RetentionPolicy } from '../types/retention';
+import { blobSasService } from './blobSas.service';
+import { documentAccessService } from './documentAccess.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+
+export class DocumentRetentionError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'DocumentRetentionError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export interface RetentionRunSummary {
+  run_id: string;
+  purged: number;
+  purge_failures: number;
+}
+
+// Documents purged per firm per run; the rest wait for the next run
+const PURGE_BATCH_SIZE = 500;
+
+/**
+ * Document retention. Each firm may keep its documents for a set number of
+ * days, per document type or firm-wide; documents without an applicable
+ * policy are kept. Legal holds, on one document, one claimant's documents or
+ * the whole firm, exempt documents from purging for as long as they are
+ * active. The scheduled run purges documents past retention, leaving a
+ * `purged` tombstone and a purge certificate in the audit log for each.
+ */
+class DocumentRetentionService {
+  async listPolicies(lawFirm: string): Promise<RetentionPolicy[]> {
+    return databaseService.listRetentionPolicies(lawFirm);
+  }
+
+  async setPolicy(lawFirm: string, scope: DocumentType | 'default', retentionDays: number, keyId?: string): Promise<RetentionPolicy> {
+    const policy = await databaseService.upsertRetentionPolicy(lawFirm, scope === 'default' ? null : scope, retentionDays, keyId);
+
+    logger.info('Document retention policy set', { lawFirm, scope, retentionDays, keyId });
+    return policy;
+  }
+
+  async deletePolicy(lawFirm: string, scope: DocumentType | 'default'): Promise<void> {
+    const deleted = await databaseService.deleteRetentionPolicy(lawFirm, scope === 'default' ? null : scope);
+    if (!deleted) {
+      throw new DocumentRetentionError('Retention policy not found', 404, 'RETENTION_POLICY_NOT_FOUND');
+    }
+
+    logger.info('Document retention policy removed', { lawFirm, scope });
+  }
+
+  async listHolds(lawFirm: string, options: { active?: boolean }): Promise<LegalHold[]> {
+    return databaseService.listLegalHolds(lawFirm, options);
+  }
+
+  /**
+   * Places a hold on one document (`correlationId`), one claimant's documents
+   * (`demographicsId`), or, with neither, every document of the firm.
+   */
+  async createHold(
+    lawFirm: string,
+    request: { reason: string; caseReference?: string; correlationId?: string; demographicsId?: string },
+    audit: AuditContext
+  ): Promise<LegalHold> {
+    if (request.correlationId) {
+      await documentAccessService.getDocument(request.correlationId, lawFirm);
+    }
+    if (request.demographicsId && !(await databaseService.getDemographicById(request.demographicsId, lawFirm))) {
+      throw new DocumentRetentionError('Demographic record not found', 404, 'DEMOGRAPHIC_NOT_FOUND');
+    }
+
+    const hold: LegalHold = {
+      id: uuidv4(),
+      partitionKey: lawFirm,
+      correlation_id: request.correlationId ?? null,
+      demographics_id: request.demographicsId ?? null,
+      reason: request.reason,
+      case_reference: request.caseReference ?? null,
+      created_at: new Date().toISOString(),
+      created_by_key_id: audit.keyId ?? null,
+      released_at: null,
+      released_by_key_id: null,
+      release_reason: null,
+    };
+    await databaseService.createLegalHold(hold, audit);
+
+    logger.info('Legal hold placed', {
+      holdId: hold.id,
+      lawFirm,
+      correlationId: hold.correlation_id ?? undefined,
+      demographicsId: hold.demographics_id,
+    });
+
+    return hold;
+  }
+
+  async releaseHold(id: string, lawFirm: string, reason: string | undefined, audit: AuditContext): Promise<LegalHold> {
+    const existing = await databaseService.getLegalHold(id, lawFirm);
+    if (!existing) {
+      throw new DocumentRetentionError('Legal hold not found', 404, 'LEGAL_HOLD_NOT_FOUND');
+    }
+
+    const released = await databaseService.releaseLegalHold(id, lawFirm, reason ?? null, audit);
+    if (!released) {
+      throw new DocumentRetentionError('Legal hold has already been released', 409, 'LEGAL_HOLD_RELEASED');
+    }
+
+    logger.info('Legal hold released', { holdId: id, lawFirm });
+    return released;
+  }
+
+  /**
+   * The documents the next run would purge for the firm, oldest first.
+   */
+  async previewPurge(lawFirm: string, limit: number): Promise<PurgeCandidate[]> {
+    return databaseService.listDocumentsDueForPurge(lawFirm, new Date(), limit);
+  }
+
+  async run(now: Date = new Date()): Promise<RetentionRunSummary> {
+    const summary: RetentionRunSummary = { run_id: uuidv4(), purged: 0, purge_failures: 0 };
+
+    for (const lawFirm of await databaseService.listRetentionLawFirms()) {
+      const candidates = await databaseService.listDocumentsDueForPurge(lawFirm, now, PURGE_BATCH_SIZE);
+      for (const candidate of candidates) {
+        try {
+          if (await this.purge(candidate, summary.run_id)) summary.purged++;
+        } catch (error) {
+          // Left `purging`; the next run finishes it
+          summary.purge_failures++;
+          logger.error('Error purging document', {
+            error: error instanceof Error ? error.message : String(error),
+            correlationId: candidate.document.correlation_id,
+            runId: summary.run_id,
+          });
+        }
+      }
+    }
+
+    logger.info('Document retention run finished', { ...summary });
+    return summary;
+  }
+
+  private async purge(candidate: PurgeCandidate, runId: string): Promise<boolean> {
+    const { document } = candidate;
+
+    // Re-checked here in case a hold was placed since the candidates were listed
+    if (!(await databaseService.claimDocumentForPurge(document.correlation_id))) {
+      return false;
+    }
+
+    await blobSasService.purgeDocumentBlobs(document.blob_name);
+
+    const certificate: PurgeCertificate = {
+      certificate_id: uuidv4(),
+      run_id: runId,
+      correlation_id: document.correlation_id,
+      original_file_name: document.original_file_name,
+      content_type: document.content_type,
+      document_type: document.document_type,
+      demographics_id: document.demographics_id,
+      file_size: document.file_size,
+      content_hash: document.content_hash,
+      policy: {
+        document_type: candidate.policy_document_type,
+        retention_days: candidate.retention_days,
+      },
+      retained_from: candidate.retained_from,
+      purged_at: new Date().toISOString(),
+    };
+    await databaseService.completeDocumentPurge(certificate, document.partitionKey);
+
+    await fifoQueueService.addWebhookMessage(document.partitionKey, {
+      event: 'document.purged',
+      data: {
+        correlationId: document.correlation_id,
+        status: 'purged',
+        certificateId: certificate.certificate_id,
+        retentionDays: candidate.retention_days,
+        purgedAt: certificate.purged_at
+      },
+      correlation_id: document.correlation_id
+    });
+
+    logger.info('Document purged', {
+      correlationId: document.correlation_id,
+      lawFirm: document.partitionKey,
+      certificateId: certificate.certificate_id,
+      runId,
+    });
+
+    return true;
+  }
+}
+
+export const documentRetentionService = new DocumentRetentionService();
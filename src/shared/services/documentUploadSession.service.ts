@@ -0,0 +1,324 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../database/database.service';
+import { DocumentRequirement, DocumentType, DocumentUploadChunk, DocumentUploadSession } from '../types/document';
+import { blobSasService } from './blobSas.service';
+import { documentPolicyService } from './documentPolicy.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from './logger.service';
+
+export class DocumentUploadSessionError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'DocumentUploadSessionError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export interface UploadSessionProgress {
+  received_chunks: number;
+  received_bytes: number;
+  // Byte ranges received so far, inclusive
+  received_ranges: Array<{ start: number; end: number }>;
+  missing_chunks: number[];
+  next_chunk: number | null;
+}
+
+// Well inside the seven days Azure keeps uncommitted blocks
+const SESSION_TTL_HOURS = 72;
+
+/**
+ * Resumable uploads for documents too large for a single PUT. The client
+ * opens a session, sends numbered chunks (each with its Content-MD5) in any
+ * order and as often as needed, and commits. Chunks are staged as blocks in
+ * a staging container; on commit they are assembled, the SHA-256 of the
+ * whole file is checked against the one declared and stored on the
+ * document, and the file is handed to the documents container, where the
+ * blob trigger processes it like any other upload.
+ */
+class DocumentUploadSessionService {
+  async create(request: {
+    lawFirm: string;
+    keyId: string;
+    fileName: string;
+    contentType: string;
+    documentType?: DocumentType;
+    demographicsId?: string;
+    requirement?: DocumentRequirement;
+    fileSize: number;
+    chunkSizeMB: number;
+    sha256?: string;
+  }): Promise<DocumentUploadSession> {
+    documentPolicyService.checkUploadRequest({
+      documentType: request.documentType,
+      contentType: request.contentType,
+      maxFileSizeMB: request.fileSize / (1024 * 1024),
+      chunked: true,
+    });
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+    const { correlationId, blobName } = await blobSasService.registerChunkedUpload({
+      fileName: request.fileName,
+      contentType: request.contentType,
+      lawFirm: request.lawFirm,
+      demographicsId: request.demographicsId,
+      documentType: request.documentType,
+      requirement: request.requirement,
+      fileSize: request.fileSize,
+      expiresAt,
+    });
+
+    const chunkSize = request.chunkSizeMB * 1024 * 1024;
+    const session: DocumentUploadSession = {
+      id: uuidv4(),
+      correlation_id: correlationId,
+      partitionKey: request.lawFirm,
+      blob_name: blobName,
+      file_size: request.fileSize,
+      chunk_size: chunkSize,
+      total_chunks: Math.ceil(request.fileSize / chunkSize),
+      expected_sha256: request.sha256?.toLowerCase() ?? null,
+      sha256: null,
+      status: 'open',
+      error: null,
+      expires_at: expiresAt.toISOString(),
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      committed_at: null,
+      created_by_key_id: request.keyId,
+    };
+    await databaseService.createDocumentUploadSession(session);
+
+    logger.info('Document upload session opened', {
+      sessionId: session.id,
+      correlationId,
+      lawFirm: request.lawFirm,
+      fileSize: session.file_size,
+      totalChunks: session.total_chunks,
+    });
+
+    return session;
+  }
+
+  async getSession(id: string, lawFirm: string): Promise<DocumentUploadSession> {
+    const session = await databaseService.getDocumentUploadSession(id, lawFirm);
+    if (!session) {
+      throw new DocumentUploadSessionError('Upload session not found', 404, 'UPLOAD_SESSION_NOT_FOUND');
+    }
+    return session;
+  }
+
+  /**
+   * Stages one chunk. Every chunk but the last must be exactly the session's
+   * chunk size, and `contentMd5` (base64, as in the Content-MD5 header) must
+   * match its content.
+   */
+  async receiveChunk(
+    session: DocumentUploadSession,
+    index: number,
+    content: Buffer,
+    contentMd5: string | undefined
+  ): Promise<DocumentUploadChunk> {
+    this.assertOpen(session);
+
+    if (index >= session.total_chunks) {
+      throw new DocumentUploadSessionError(
+        `Chunk index must be below ${session.total_chunks}`,
+        400,
+        'CHUNK_INDEX_OUT_OF_RANGE'
+      );
+    }
+
+    const expectedSize = index < session.total_chunks - 1
+      ? session.chunk_size
+      : session.file_size - session.chunk_size * (session.total_chunks - 1);
+    if (content.length !== expectedSize) {
+      throw new DocumentUploadSessionError(
+        `Chunk ${index} must be ${expectedSize} bytes; received ${content.length}`,
+        400,
+        'CHUNK_SIZE_MISMATCH'
+      );
+    }
+
+    const declared = contentMd5 ? Buffer.from(contentMd5, 'base64') : null;
+    if (!declared || declared.length !== 16) {
+      throw new DocumentUploadSessionError(
+        'Each chunk needs a Content-MD5 header with the base64 MD5 of its content',
+        400,
+        'CHUNK_CHECKSUM_REQUIRED'
+      );
+    }
+    const md5 = createHash('md5').update(content).digest();
+    if (!md5.equals(declared)) {
+      throw new DocumentUploadSessionError(
+        `Chunk ${index} does not match its Content-MD5; send it again`,
+        400,
+        'CHUNK_CHECKSUM_MISMATCH'
+      );
+    }
+
+    await blobSasService.stageDocumentChunk(session.blob_name, index, content, md5);
+
+    const chunk: DocumentUploadChunk = {
+      chunk_index: index,
+      size: content.length,
+      md5: md5.toString('base64'),
+      received_at: new Date().toISOString(),
+    };
+    await databaseService.saveDocumentUploadChunk(session.id, chunk);
+
+    return chunk;
+  }
+
+  async getProgress(session: DocumentUploadSession): Promise<UploadSessionProgress> {
+    const chunks = await databaseService.listDocumentUploadChunks(session.id);
+    const received = new Set(chunks.map(chunk => chunk.chunk_index));
+
+    // Adjacent chunks are reported as one range
+    const ranges: Array<{ start: number; end: number }> = [];
+    for (const chunk of chunks) {
+      const start = chunk.chunk_index * session.chunk_size;
+      const last = ranges[ranges.length - 1];
+      if (last && last.end + 1 === start) {
+        last.end = start + chunk.size - 1;
+      } else {
+        ranges.push({ start, end: start + chunk.size - 1 });
+      }
+    }
+
+    const missing = Array.from({ length: session.total_chunks }, (_, index) => index)
+      .filter(index => !received.has(index));
+
+    return {
+      received_chunks: chunks.length,
+      received_bytes: chunks.reduce((total, chunk) => total + chunk.size, 0),
+      received_ranges: ranges,
+      missing_chunks: missing,
+      next_chunk: missing[0] ?? null,
+    };
+  }
+
+  /**
+   * Assembles the chunks and verifies the result. A file whose SHA-256 does
+   * not match the declared one fails the session and rejects the document;
+   * any other failure leaves the session open to commit again.
+   */
+  async commit(session: DocumentUploadSession): Promise<DocumentUploadSession> {
+    this.assertOpen(session);
+
+    const { missing_chunks: missing } = await this.getProgress(session);
+    if (missing.length > 0) {
+      throw new DocumentUploadSessionError(
+        `${missing.length} of ${session.total_chunks} chunks have not been received (first missing: ${missing[0]})`,
+        409,
+        'UPLOAD_INCOMPLETE'
+      );
+    }
+
+    // Only one commit may assemble the file
+    const committing = await databaseService.transitionDocumentUploadSession(session.id, ['open'], { status: 'committing' });
+    if (!committing) {
+      throw new DocumentUploadSessionError('Upload session is already being committed', 409, 'UPLOAD_SESSION_CLOSED');
+    }
+
+    const document = await databaseService.getDocument(session.correlation_id);
+    let assembled: { sha256: string; fileSize: number };
+    try {
+      assembled = await blobSasService.commitDocumentChunks(
+        session.blob_name,
+        session.total_chunks,
+        document?.content_type ?? 'application/octet-stream',
+        session.correlation_id
+      );
+    } catch (error) {
+      await databaseService.transitionDocumentUploadSession(session.id, ['committing'], { status: 'open' });
+      throw error;
+    }
+
+    const mismatch = session.expected_sha256 && assembled.sha256 !== session.expected_sha256
+      ? `Assembled file SHA-256 ${assembled.sha256} does not match the declared ${session.expected_sha256}`
+      : assembled.fileSize !== session.file_size
+        ? `Assembled file is ${assembled.fileSize} bytes; ${session.file_size} were declared`
+        : null;
+    if (mismatch) {
+      await this.fail(session, mismatch);
+      throw new DocumentUploadSessionError(mismatch, 422, 'CHECKSUM_MISMATCH');
+    }
+
+    try {
+      await blobSasService.updateDocumentStatus(session.correlation_id, {
+        status: 'pending',
+        file_size: assembled.fileSize,
+        content_hash: assembled.sha256,
+      });
+      await blobSasService.publishStagedDocument(session.blob_name);
+    } catch (error) {
+      await databaseService.transitionDocumentUploadSession(session.id, ['committing'], { status: 'open' });
+      throw error;
+    }
+
+    const committed = await databaseService.transitionDocumentUploadSession(session.id, ['committing'], {
+      status: 'committed',
+      sha256: assembled.sha256,
+    });
+
+    logger.info('Document upload session committed', {
+      sessionId: session.id,
+      correlationId: session.correlation_id,
+      fileSize: assembled.fileSize,
+      sha256: assembled.sha256,
+    });
+
+    return committed ?? { ...committing, status: 'committed', sha256: assembled.sha256 };
+  }
+
+  private assertOpen(session: DocumentUploadSession): void {
+    if (session.status === 'committed') {
+      throw new DocumentUploadSessionError('Upload session has already been committed', 409, 'UPLOAD_SESSION_CLOSED');
+    }
+    if (session.status === 'failed') {
+      throw new DocumentUploadSessionError(
+        `Upload session failed: ${session.error ?? 'unknown error'}`,
+        409,
+        'UPLOAD_SESSION_FAILED'
+      );
+    }
+    if (session.status === 'committing') {
+      throw new DocumentUploadSessionError('Upload session is being committed', 409, 'UPLOAD_SESSION_CLOSED');
+    }
+    if (Date.parse(session.expires_at) <= Date.now()) {
+      throw new DocumentUploadSessionError('Upload session has expired; start a new one', 410, 'UPLOAD_SESSION_EXPIRED');
+    }
+  }
+
+  private async fail(session: DocumentUploadSession, reason: string): Promise<void> {
+    await databaseService.transitionDocumentUploadSession(session.id, ['committing'], { status: 'failed', error: reason });
+    await blobSasService.updateDocumentStatus(session.correlation_id, { status: 'rejected', error: reason });
+    await blobSasService.discardStagedDocument(session.blob_name);
+
+    await fifoQueueService.addWebhookMessage(session.partitionKey, {
+      event: 'document.rejected',
+      data: {
+        correlationId: session.correlation_id,
+        blobName: session.blob_name,
+        status: 'rejected',
+        reason,
+        rejectedAt: new Date().toISOString()
+      },
+      correlation_id: session.correlation_id
+    });
+
+    logger.warn('Document upload session failed verification', {
+      sessionId: session.id,
+      correlationId: session.correlation_id,
+      reason,
+    });
+  }
+}
+
+export const documentUploadSessionService = new DocumentUploadSessionService();
@@ -0,0 +1,162 @@
+import { databaseService } from '../database/database.service';
+import { Demographics, DemographicsSchema } from '../types/demographics';
+import { AuditContext } from '../types/audit';
+import {
+  DuplicateCandidate,
+  DuplicatePair,
+  MergeDemographicsRequest,
+  MergeResult,
+  MergeSurvivor,
+} from '../types/duplicates';
+import {
+  claimantMatchService,
+  MATCH_SIGNAL_WEIGHTS,
+  POSSIBLE_DUPLICATE_SCORE,
+} from './claimantMatch.service';
+import { LEGACY_COLLECTION_FIELDS } from './demographicsCollections.service';
+import { documentChecklistService } from './documentChecklist.service';
+import { logger } from './logger.service';
+
+export class MergeError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'MergeError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+// Managed by the API; never taken from the source record
+const SYSTEM_FIELDS = new Set(['id', 'partitionKey', 'created_at', 'updated_at', 'created_by', 'status', 'merged_into']);
+
+// Record fields a merge decides survivorship for. Collections merge as a whole,
+// so their legacy flat fields are not listed separately.
+const MERGEABLE_FIELDS = Object.keys(DemographicsSchema.shape)
+  .filter(field => !SYSTEM_FIELDS.has(field) && !LEGACY_COLLECTION_FIELDS.has(field));
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Duplicate claimant detection and merging within a law firm. Matching never
+ * crosses firms: candidates and pairs come from the caller's own partition.
+ */
+class DuplicatesService {
+  /**
+   * Existing records that share a signal with `record`, best match first.
+   */
+  async findForRecord(record: Record<string, any>, lawFirm: string, excludeId?: string): Promise<DuplicateCandidate[]> {
+    const keys = await claimantMatchService.matchKeys(record);
+    const matches = await databaseService.findDuplicateCandidates(lawFirm, {
+      ssn: keys.ssn_match,
+      name_dob: keys.name_dob_match,
+      sf_id: record.sf_id,
+      ml_id: record.ml_id,
+      law_firm_client_id: record.law_firm_client_id,
+    }, excludeId);
+
+    return matches
+      .map(match => {
+        const score = claimantMatchService.score(match.signals);
+        return { id: match.id, score, probable: claimantMatchService.isProbable(score), signals: match.signals };
+      })
+      .filter(candidate => candidate.score >= POSSIBLE_DUPLICATE_SCORE)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  async listPairs(
+    lawFirm: string,
+    options: { minScore?: number; limit: number; offset: number }
+  ): Promise<DuplicatePair[]> {
+    const pairs = await databaseService.findDuplicatePairs(lawFirm, {
+      weights: MATCH_SIGNAL_WEIGHTS,
+      minScore: options.minScore ?? POSSIBLE_DUPLICATE_SCORE,
+      limit: options.limit,
+      offset: options.offset,
+    });
+
+    return pairs.map(pair => {
+      const score = claimantMatchService.score(pair.signals);
+      return { ...pair, score, probable: claimantMatchService.isProbable(score) };
+    });
+  }
+
+  /**
+   * Merges `request.source_id` into `targetId`. Each field keeps the target's
+   * value unless it is blank and the source has one, or `request.fields` says
+   * otherwise. The source is kept, marked `merged`, and points at the target.
+   */
+  async merge(
+    targetId: string,
+    request: MergeDemographicsRequest,
+    lawFirm: string,
+    audit?: AuditContext
+  ): Promise<MergeResult> {
+    if (request.source_id.toLowerCase() === targetId.toLowerCase()) {
+      throw new MergeError('A record cannot be merged into itself', 422, 'INVALID_MERGE');
+    }
+
+    const unknownFields = Object.keys(request.fields ?? {}).filter(field => !MERGEABLE_FIELDS.includes(field));
+    if (unknownFields.length > 0) {
+      throw new MergeError(`Fields cannot be merged: ${unknownFields.join(', ')}`, 400, 'INVALID_MERGE_FIELD');
+    }
+
+    const [target, source] = await Promise.all([
+      databaseService.getDemographicById(targetId, lawFirm),
+      databaseService.getDemographicById(request.source_id, lawFirm),
+    ]);
+    if (!target || !source) {
+      throw new MergeError('Demographic record not found', 404, 'DEMOGRAPHIC_NOT_FOUND');
+    }
+    for (const record of [target, source]) {
+      const status = record.status as string;
+      if (status === 'merged' || status === 'deleted') {
+        throw new MergeError(`Record ${record.id} is ${status} and cannot be merged`, 409, 'RECORD_NOT_MERGEABLE');
+      }
+    }
+
+    // Survivorship is recorded for every field the two records disagree on
+    const survivorship: Record<string, MergeSurvivor> = {};
+    const changes: Partial<Demographics> = {};
+    for (const field of MERGEABLE_FIELDS) {
+      const targetValue = (target as Record<string, any>)[field];
+      const sourceValue = (source as Record<string, any>)[field];
+      if ((isBlank(targetValue) && isBlank(sourceValue)) || JSON.stringify(targetValue) === JSON.stringify(sourceValue)) {
+        continue;
+      }
+
+      const survivor = request.fields?.[field]
+        ?? (isBlank(targetValue) && !isBlank(sourceValue) ? 'source' : 'target');
+      survivorship[field] = survivor;
+      if (survivor === 'source') {
+        (changes as Record<string, any>)[field] = sourceValue ?? null;
+      }
+    }
+
+    const merged = await databaseService.mergeDemographics(targetId, source.id, lawFirm, {
+      changes,
+      survivorship,
+      expectedUpdatedAt: { target: target.updated_at, source: source.updated_at },
+    }, audit);
+    if (!merged) {
+      throw new MergeError('Record has been modified since it was retrieved', 409, 'MERGE_CONFLICT');
+    }
+
+    // The source's documents now count towards the target's checklist
+    await documentChecklistService.refresh(targetId, lawFirm);
+
+    logger.info('Demographics merged', {
+      targetId,
+      sourceId: source.id,
+      lawFirm,
+      fromSource: Object.keys(changes),
+    });
+
+    return { id: targetId, source_id: source.id, survivorship };
+  }
+}
+
+export const duplicatesService = new DuplicatesService();
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from './logger.service';
+
+/**
+ * Source of key-encryption keys (KEKs). Implementations may be backed by a local
+ * keyring, Azure Key Vault, or any other KMS as long as they can hand back the
+ * raw 256-bit key for a given version.
+ */
+export interface KeyProvider {
+  getActiveKeyVersion(): Promise<string>;
+  getKey(version: string): Promise<Buffer>;
+  // Stable key for blind indexes; unlike KEKs it is never rotated
+  getBlindIndexKey(): Promise<Buffer>;
+}
+
+interface Keyring {
+  activeVersion: string;
+  keys: Record<string, string>; // version -> base64 encoded 32 byte key
+  blindIndexKey?: string; // base64 encoded 32 byte key
+}
+
+/**
+ * Local key provider for development and tests.
+ *
+ * Keys are read from FIELD_ENCRYPTION_KEY_FILE (JSON keyring) or from the
+ * FIELD_ENCRYPTION_KEYS / FIELD_ENCRYPTION_ACTIVE_VERSION environment variables;
+ * the blind index key from the keyring's `blindIndexKey` or FIELD_BLIND_INDEX_KEY.
+ * The keyring is re-read periodically so a new key version can be rolled out
+ * without restarting the API.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private keyring: Keyring | null = null;
+  private loadedAt = 0;
+  private readonly refreshIntervalMs: number;
+
+  constructor(refreshIntervalMs: number = 5 * 60 * 1000) {
+    this.refreshIntervalMs = refreshIntervalMs;
+  }
+
+  async getActiveKeyVersion(): Promise<string> {
+    return this.getKeyring().activeVersion;
+  }
+
+  async getKey(version: string): Promise<Buffer> {
+    const encodedKey = this.getKeyring().keys[version];
+    if (!encodedKey) {
+      throw new Error(`Unknown field encryption key version: ${version}`);
+    }
+
+    const key = Buffer.from(encodedKey, 'base64');
+    if (key.length !== 32) {
+      throw new Error(`Field encryption key ${version} must be 32 bytes`);
+    }
+    return key;
+  }
+
+  async getBlindIndexKey(): Promise<Buffer> {
+    const encodedKey = this.getKeyring().blindIndexKey;
+    if (!encodedKey) {
+      throw new Error(
+        'FIELD_BLIND_INDEX_KEY (or "blindIndexKey" in FIELD_ENCRYPTION_KEY_FILE) must be configured; ' +
+          'generate one with `openssl rand -base64 32`'
+      );
+    }
+
+    const key = Buffer.from(encodedKey, 'base64');
+    if (key.length !== 32) {
+      throw new Error('Blind index key must be 32 bytes');
+    }
+    return key;
+  }
+
+  private getKeyring(): Keyring {
+    if (!this.keyring || Date.now() - this.loadedAt > this.refreshIntervalMs) {
+      this.keyring = this.loadKeyring();
+      this.loadedAt = Date.now();
+    }
+    return this.keyring;
+  }
+
+  private loadKeyring(): Keyring {
+    const keyFile = process.env.FIELD_ENCRYPTION_KEY_FILE;
+    if (keyFile) {
+      const parsed = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+      return this.validateKeyring({
+        activeVersion: process.env.FIELD_ENCRYPTION_ACTIVE_VERSION || parsed.activeVersion,
+        keys: parsed.keys,
+        blindIndexKey: parsed.blindIndexKey || process.env.FIELD_BLIND_INDEX_KEY,
+      });
+    }
+
+    if (process.env.FIELD_ENCRYPTION_KEYS) {
+      const keys = JSON.parse(process.env.FIELD_ENCRYPTION_KEYS);
+      return this.validateKeyring({
+        activeVersion: process.env.FIELD_ENCRYPTION_ACTIVE_VERSION || Object.keys(keys).sort().pop()!,
+        keys,
+        blindIndexKey: process.env.FIELD_BLIND_INDEX_KEY,
+      });
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('FIELD_ENCRYPTION_KEY_FILE or FIELD_ENCRYPTION_KEYS must be configured in production');
+    }
+
+    // Deterministic development key so local data survives restarts
+    logger.warn('Using development field encryption key - do not use with real claimant data');
+    return {
+      activeVersion: 'dev',
+      keys: {
+        dev: crypto.createHash('sha256').update('demographics-api-dev-field-key').digest('base64'),
+      },
+      blindIndexKey: crypto.createHash('sha256').update('demographics-api-dev-blind-index-key').digest('base64'),
+    };
+  }
+
+  private validateKeyring(keyring: Keyring): Keyring {
+    if (!keyring.keys || Object.keys(keyring.keys).length === 0) {
+      throw new Error('Field encryption keyring contains no keys');
+    }
+    if (!keyring.activeVersion || !keyring.keys[keyring.activeVersion]) {
+      throw new Error(`Active field encryption key version "${keyring.activeVersion}" not found in keyring`);
+    }
+    if (Object.keys(keyring.keys).some(version => version.includes(':'))) {
+      throw new Error('Field encryption key versions must not contain ":"');
+    }
+    return keyring;
+  }
+}
+
+const FORMAT_PREFIX = 'enc:1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Envelope encryption for individual column values.
+ *
+ * Each value is encrypted with a fresh data key (DEK); the DEK is wrapped with the
+ * active key-encryption key and stored alongside the ciphertext:
+ *
+ *   enc:1:<kekVersion>:<wrappedDek>:<iv>:<authTag>:<ciphertext>
+ *
+ * The field name is bound as additional authenticated data so a ciphertext cannot
+ * be moved to a different column. Values without the prefix are treated as legacy
+ * plaintext and returned unchanged on decrypt.
+ */
+export class FieldEncryptionService {
+  constructor(private readonly keyProvider: KeyProvider) {}
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${FORMAT_PREFIX}:`);
+  }
+
+  /**
+   * Throws when the active key or the blind index key cannot be loaded, so a
+   * misconfigured keyring stops the server at startup instead of failing
+   * every write that stores PII.
+   */
+  async assertKeysAvailable(): Promise<void> {
+    await this.keyProvider.getKey(await this.keyProvider.getActiveKeyVersion());
+    await this.keyProvider.getBlindIndexKey();
+  }
+
+  async getActivePrefix(): Promise<string> {
+    const version = await this.keyProvider.getActiveKeyVersion();
+    return `${FORMAT_PREFIX}:${version}:`;
+  }
+
+  async encrypt(plaintext: string, field: string): Promise<string> {
+    const version = await this.keyProvider.getActiveKeyVersion();
+    const kek = await this.keyProvider.getKey(version);
+
+    const dek = crypto.randomBytes(32);
+    const wrappedDek = this.seal(kek, dek, Buffer.from(`dek:${field}`));
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, dek, iv);
+    cipher.setAAD(Buffer.from(field));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [
+      FORMAT_PREFIX,
+      version,
+      wrappedDek.toString('base64'),
+      iv.toString('base64'),
+      authTag.toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  async decrypt(value: string, field: string): Promise<string> {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const parts = value.split(':');
+    if (parts.length !== 7) {
+      throw new Error(`Malformed encrypted value for field ${field}`);
+    }
+
+    const [, , version, wrappedDek, iv, authTag, ciphertext] = parts;
+    const kek = await this.keyProvider.getKey(version);
+    const dek = this.open(kek, Buffer.from(wrappedDek, 'base64'), Buffer.from(`dek:${field}`));
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, dek, Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(field));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * Keyed hash of a normalized value, so equal plaintexts can be matched in SQL
+   * without storing them. `purpose` separates indexes of different fields.
+   */
+  async blindIndex(value: string, purpose: string): Promise<string> {
+    const key = await this.keyProvider.getBlindIndexKey();
+    return crypto.createHmac('sha256', key).update(`${purpose}:${value}`, 'utf8').digest('hex');
+  }
+
+  /**
+   * True when the value is plaintext or was encrypted under a key version other
+   * than the active one.
+   */
+  async needsReencryption(value: unknown): Promise<boolean> {
+    if (value === null || value === undefined || value === '') {
+      return false;
+    }
+    if (!this.isEncrypted(value)) {
+      return true;
+    }
+    return !value.startsWith(await this.getActivePrefix());
+  }
+
+  async encryptFields<T extends Record<string, any>>(record: T, fields: readonly string[]): Promise<T> {
+    const result: Record<string, any> = { ...record };
+    for (const field of fields) {
+      const value = result[field];
+      if (value === null || value === undefined || value === '' || this.isEncrypted(value)) {
+        continue;
+      }
+      const plaintext = value instanceof Date ? value.toISOString() : String(value);
+      result[field] = await this.encrypt(plaintext, field);
+    }
+    return result as T;
+  }
+
+  async decryptFields<T extends Record<string, any>>(record: T, fields: readonly string[]): Promise<T> {
+    const result: Record<string, any> = { ...record };
+    for (const field of fields) {
+      const value = result[field];
+      if (typeof value === 'string' && value !== '') {
+        result[field] = await this.decrypt(value, field);
+      } else if (value instanceof Date) {
+        // Rows written before encryption was enabled may still hold native dates
+        result[field] = value.toISOString();
+      }
+    }
+    return result as T;
+  }
+
+  private seal(key: Buffer, plaintext: Buffer, aad: Buffer): Buffer {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private open(key: Buffer, sealed: Buffer, aad: Buffer): Buffer {
+    const iv = sealed.subarray(0, IV_LENGTH);
+    const authTag = sealed.subarray(IV_LENGTH, IV_LENGTH + 16);
+    const ciphertext = sealed.subarray(IV_LENGTH + 16);
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAAD(aad);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+}
+
+export const fieldEncryptionService = new FieldEncryptionService(new LocalKeyProvider());
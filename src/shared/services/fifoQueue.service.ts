@@ -7,7 +7,7 @@ dotenv.config();
 
 interface FifoQueueMessage {
   id: string;
-  type: "demographics" | "webhook" | "document_processing";
+  type: "demographics" | "demographics_import" | "demographics_export" | "webhook" | "document_processing";
   payload: any;
   sessionId: string; // Required for FIFO
   priority: number;
@@ -180,6 +180,40 @@ class FifoQueueService {
     });
   }
 
+  /**
+   * Queues the next chunk of a bulk import on the firm's demographics session,
+   * so imported rows are written in order with the firm's other submissions.
+   */
+  async addDemographicsImportMessage(lawFirm: string, importData: any, priority: number = 5): Promise<void> {
+    const sessionId = this.generateSessionId("demographics", lawFirm);
+    await this.sendMessage("demographics", {
+      type: "demographics_import",
+      payload: importData,
+      sessionId,
+      priority,
+      retry_count: 0,
+      max_retries: 3,
+      correlation_id: importData.import_id,
+    });
+  }
+
+  /**
+   * Queues a bulk export behind the firm's pending submissions, so the file
+   * includes everything accepted before it was requested.
+   */
+  async addDemographicsExportMessage(lawFirm: string, exportData: any, priority: number = 5): Promise<void> {
+    const sessionId = this.generateSessionId("demographics", lawFirm);
+    await this.sendMessage("demographics", {
+      type: "demographics_export",
+      payload: exportData,
+      sessionId,
+      priority,
+      retry_count: 0,
+      max_retries: 3,
+      correlation_id: exportData.export_id,
+    });
+  }
+
   async addWebhookMessage(lawFirm: string, webhookData: any, priority: number = 5): Promise<void> {
     const sessionId = this.generateSessionId("webhook", lawFirm);
     await this.sendMessage("webhooks", {
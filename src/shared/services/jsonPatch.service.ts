@@ -0,0 +1,174 @@
+import { JsonPatchOperation } from '../types/demographics';
+
+export class PatchError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number = 400, code: string = 'INVALID_PATCH') {
+    super(message);
+    this.name = 'PatchError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// Keys that would reach Object.prototype instead of the document
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * RFC 7396 JSON Merge Patch and RFC 6902 JSON Patch application.
+ * Both functions return a new document and never mutate their inputs.
+ */
+class JsonPatchService {
+  applyMergePatch(target: any, patch: any): any {
+    if (!isPlainObject(patch)) {
+      return clone(patch);
+    }
+
+    const result: Record<string, any> = isPlainObject(target) ? clone(target) : {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (FORBIDDEN_KEYS.has(key)) continue;
+      if (value === null) {
+        delete result[key];
+      } else {
+        result[key] = this.applyMergePatch(result[key], value);
+      }
+    }
+    return result;
+  }
+
+  applyJsonPatch(target: any, operations: JsonPatchOperation[]): any {
+    let document = clone(target);
+
+    operations.forEach((operation, index) => {
+      try {
+        document = this.applyOperation(document, operation);
+      } catch (error) {
+        if (error instanceof PatchError) {
+          error.message = `Operation ${index} (${operation.op} ${operation.path}): ${error.message}`;
+        }
+        throw error;
+      }
+    });
+
+    return document;
+  }
+
+  private applyOperation(document: any, operation: JsonPatchOperation): any {
+    switch (operation.op) {
+      case 'add':
+        return this.add(document, operation.path, clone(operation.value));
+      case 'remove':
+        return this.remove(document, operation.path);
+      case 'replace':
+        this.get(document, operation.path);
+        return this.add(this.remove(document, operation.path), operation.path, clone(operation.value));
+      case 'move': {
+        const value = this.get(document, operation.from!);
+        return this.add(this.remove(document, operation.from!), operation.path, value);
+      }
+      case 'copy':
+        return this.add(document, operation.path, clone(this.get(document, operation.from!)));
+      case 'test':
+        if (JSON.stringify(this.get(document, operation.path)) !== JSON.stringify(operation.value)) {
+          throw new PatchError('Test operation failed', 409, 'PATCH_TEST_FAILED');
+        }
+        return document;
+      default:
+        throw new PatchError(`Unsupported operation: ${(operation as any).op}`);
+    }
+  }
+
+  private parsePointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+      throw new PatchError(`Invalid JSON pointer: ${pointer}`);
+    }
+    const tokens = pointer
+      .slice(1)
+      .split('/')
+      .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if (tokens.some(token => FORBIDDEN_KEYS.has(token))) {
+      throw new PatchError(`Invalid JSON pointer: ${pointer}`);
+    }
+    return tokens;
+  }
+
+  private resolveParent(document: any, tokens: string[]): any {
+    let current = document;
+    for (const token of tokens.slice(0, -1)) {
+      if (current === null || typeof current !== 'object' || !hasOwn(current, token)) {
+        throw new PatchError('Path does not exist');
+      }
+      current = current[token];
+    }
+    if (current === null || typeof current !== 'object') {
+      throw new PatchError('Path does not exist');
+    }
+    return current;
+  }
+
+  private get(document: any, pointer: string): any {
+    const tokens = this.parsePointer(pointer);
+    if (tokens.length === 0) return document;
+
+    const parent = this.resolveParent(document, tokens);
+    const key = tokens[tokens.length - 1];
+    if (!hasOwn(parent, key)) {
+      throw new PatchError('Path does not exist');
+    }
+    return parent[key];
+  }
+
+  private add(document: any, pointer: string, value: any): any {
+    const tokens = this.parsePointer(pointer);
+    if (tokens.length === 0) return value;
+
+    const parent = this.resolveParent(document, tokens);
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new PatchError('Array index out of bounds');
+      }
+      parent.splice(index, 0, value);
+    } else {
+      parent[key] = value;
+    }
+    return document;
+  }
+
+  private remove(document: any, pointer: string): any {
+    const tokens = this.parsePointer(pointer);
+    if (tokens.length === 0) {
+      throw new PatchError('Cannot remove the document root');
+    }
+
+    const parent = this.resolveParent(document, tokens);
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+      const index = Number(key);
+      if (!Number.isInteger(index) || index < 0 || index >= parent.length) {
+        throw new PatchError('Array index out of bounds');
+      }
+      parent.splice(index, 1);
+    } else {
+      if (!hasOwn(parent, key)) {
+        throw new PatchError('Path does not exist');
+      }
+      delete parent[key];
+    }
+    return document;
+  }
+}
+
+export const jsonPatchService = new JsonPatchService();
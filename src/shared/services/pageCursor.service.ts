@@ -0,0 +1,25 @@
+import { ZodSchema } from 'zod';
+
+/**
+ * Opaque pagination cursors. A cursor is the keyset position of a row,
+ * serialized as base64url JSON; clients must treat it as a token.
+ */
+class PageCursorService {
+  encode(position: Record<string, unknown>): string {
+    return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Returns null when the token is not a cursor of the expected shape.
+   */
+  decode<T>(token: string, schema: ZodSchema<T>): T | null {
+    try {
+      const parsed = schema.safeParse(JSON.parse(Buffer.from(token, 'base64url').toString('utf8')));
+      return parsed.success ? parsed.data : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const pageCursorService = new PageCursorService();
@@ -0,0 +1,102 @@
+import { DemographicsSchema } from '../types/demographics';
+
+type MaskRule = (value: any) => any;
+
+const maskSsn: MaskRule = value => {
+  const digits = String(value).replace(/\D/g, '');
+  return digits.length >= 4 ? `***-**-${digits.slice(-4)}` : '***-**-****';
+};
+
+const maskDateToYear: MaskRule = value => {
+  const match = (value instanceof Date ? value.toISOString() : String(value)).match(/\b(\d{4})\b/);
+  return match ? match[1] : null;
+};
+
+const redact: MaskRule = () => null;
+
+/**
+ * Columns that are only returned in full to keys holding the `demographics:pii`
+ * scope. Everything else is masked or redacted.
+ */
+export const PII_MASKING_RULES: Record<string, MaskRule> = {
+  ssn: maskSsn,
+  alternateclaimantssn: maskSsn,
+  dob: maskDateToYear,
+  alternateclaimantdob: maskDateToYear,
+
+  // Disbursement / banking details
+  netclaimantpayment: redact,
+  previouspaymentstoclaimant: redact,
+  milestonedisbursementid: redact,
+  paygroupid: redact,
+};
+
+export const PII_SCOPE = 'demographics:pii';
+
+// Columns that can be requested through `fields=`
+const PROJECTABLE_FIELDS = new Set(Object.keys(DemographicsSchema.shape));
+
+class PiiMaskingService {
+  canViewPii(scopes: string[] | undefined): boolean {
+    return !!scopes?.includes(PII_SCOPE);
+  }
+
+  maskValue(field: string, value: any): any {
+    const rule = PII_MASKING_RULES[field];
+    if (!rule || value === null || value === undefined || value === '') {
+      return value;
+    }
+    return rule(value);
+  }
+
+  maskRecord<T extends Record<string, any>>(record: T): T {
+    const masked: Record<string, any> = { ...record };
+    for (const field of Object.keys(PII_MASKING_RULES)) {
+      if (field in masked) {
+        masked[field] = this.maskValue(field, masked[field]);
+      }
+    }
+    return masked as T;
+  }
+
+  /**
+   * Parses a comma separated `fields=` parameter. Returns the unknown field names
+   * so callers can reject the request instead of silently dropping them.
+   */
+  parseFields(fieldsParam: unknown): { fields?: string[]; invalid: string[] } {
+    if (fieldsParam === undefined || fieldsParam === null || fieldsParam === '') {
+      return { invalid: [] };
+    }
+
+    const fields = String(fieldsParam)
+      .split(',')
+      .map(field => field.trim())
+      .filter(Boolean);
+
+    return {
+      fields,
+      invalid: fields.filter(field => !PROJECTABLE_FIELDS.has(field)),
+    };
+  }
+
+  projectRecord<T extends Record<string, any>>(record: T, fields: string[]): Partial<T> {
+    // id is always returned so projected records stay addressable
+    const projected: Record<string, any> = { id: record.id };
+    for (const field of fields) {
+      if (field in record) {
+        projected[field] = record[field];
+      }
+    }
+    return projected as Partial<T>;
+  }
+
+  shapeRecord<T extends Record<string, any>>(
+    record: T,
+    options: { includePii: boolean; fields?: string[] },
+  ): Partial<T> {
+    const masked = options.includePii ? record : this.maskRecord(record);
+    return options.fields ? this.projectRecord(masked, options.fields) : masked;
+  }
+}
+
+export const piiMaskingService = new PiiMaskingService();
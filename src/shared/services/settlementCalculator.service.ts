@@ -0,0 +1,248 @@
+import { Attorney } from '../types/demographics';
+import {
+  SettlementCalculationMode,
+  SettlementCalculationResult,
+  SettlementDiscrepancy,
+} from '../types/settlement';
+import { demographicsCollectionsService } from './demographicsCollections.service';
+
+/**
+ * Fixed-point arithmetic matching the DECIMAL(15,4) / DECIMAL(10,4) columns:
+ * amounts are held as integer ten-thousandths and every product is rounded
+ * half away from zero back to four places, the same way SQL Server rounds.
+ */
+const SCALE = 10000n;
+
+type Units = bigint;
+
+function divRound(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  if (absRemainder * 2n >= denominator) {
+    return quotient + (numerator < 0n ? -1n : 1n);
+  }
+  return quotient;
+}
+
+function toUnits(value: number | string): Units {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  // Eight places is enough to round the float representation correctly to four
+  const [whole, fraction] = Math.abs(number).toFixed(8).split('.');
+  const units = divRound(BigInt(whole + fraction), SCALE);
+  return number < 0 ? -units : units;
+}
+
+function toNumber(units: Units): number {
+  return Number(units) / Number(SCALE);
+}
+
+function multiply(a: Units, b: Units): Units {
+  return divRound(a * b, SCALE);
+}
+
+const sum = (values: Units[]): Units => values.reduce((total, value) => total + value, 0n);
+
+const isPresent = (value: unknown): boolean => value !== undefined && value !== null;
+const VENDOR_EXPENSE_FIELDS = [
+  'vendorexpenseqsfadmin',
+  'vendorexpenseclaimsadmin',
+  'vendorexpenselraholdback',
+  'vendorexpenselrafinal',
+  'vendorexpensespecialmaster',
+  'vendorexpenseeifappeal',
+  'vendorexpensebankruptcycounsel',
+  'vendorexpenseprobatecounsel',
+  'vendorother',
+];
+const NET_PAYMENT_DEDUCTIONS = [
+  'totalnetattorneyfee',
+  'commonbenefittotal',
+  'totalnetattorneycost',
+  'totalmedicalliens',
+  'othertotalliens',
+  'totaladmincost',
+  'holdbackamount',
+  'otherholdbackamount',
+  'previouspaymentstoclaimant',
+  'generalcaseexpenses',
+];
+
+// Human readable formulas, used in discrepancy messages
+const FORMULAS: Record<string, string> = {
+  totalgrossaward: 'basegrossaward + eifawardamount + appealaward',
+  commonbenefittotal: 'totalgrossaward × commonbenefit',
+  commonbenefitattorneyshareamount: 'commonbenefittotal × commonbenefitattorneyshare',
+  commonbenefitclaimantshareamount: 'commonbenefittotal × commonbenefitclaimantshare',
+  grosscontingencyfeeamount: 'totalgrossaward × grosscontingencyfeeperc',
+  totalnetattorneycost: 'sum of attorneys[].cost_amount − attorneycostreduction',
+  grossattorneyfeeamount: 'fee base (totalgrossaward, less totalnetattorneycost for Net Cost) × grossattorneyfeeperc',
+  totalnetattorneyfee: 'grossattorneyfeeamount − attorneyfeereduction − commonbenefitattorneyshareamount',
+  totalmedicalliens: 'sum of medical_liens[].amount',
+  othertotalliens: 'sum of other_liens[].amount',
+  totaladmincost: 'sum of vendor expenses',
+  netclaimantpayment: `totalgrossaward − ${NET_PAYMENT_DEDUCTIONS.join(' − ')}`,
+};
+
+/**
+ * Derives the award, fee, lien and net-payment totals of a demographics record
+ * from their inputs. A derived field is only calculated when at least one of
+ * its inputs is present; missing inputs count as zero. Attorneys and liens are
+ * read from the collections, or from the legacy numbered fields when the record
+ * has no collections.
+ */
+class SettlementCalculatorService {
+  calculate(record: Record<string, any>, mode: SettlementCalculationMode): SettlementCalculationResult {
+    const derived = new Map<string, Units>();
+    const discrepancies: SettlementDiscrepancy[] = [];
+    const { attorneys, medical_liens, other_liens } = demographicsCollectionsService.collectionsOf(record);
+
+    const isSet = (field: string): boolean => record[field] !== undefined && record[field] !== null;
+    const anySet = (fields: string[]): boolean => fields.some(isSet);
+    const input = (field: string): Units => (isSet(field) ? toUnits(record[field]) : 0n);
+    // Derived values take precedence so that later totals build on consistent numbers
+    const value = (field: string): Units => derived.get(field) ?? input(field);
+    const known = (field: string): boolean => derived.has(field) || isSet(field);
+
+    // Awards
+    if (anySet(['basegrossaward', 'eifawardamount', 'appealaward'])) {
+      derived.set(
+        'totalgrossaward',
+        sum(['basegrossaward', 'eifawardamount', 'appealaward'].map(input))
+      );
+    }
+    const hasGross = known('totalgrossaward');
+    const gross = value('totalgrossaward');
+
+    // Common benefit
+    if (hasGross && isSet('commonbenefit')) {
+      derived.set('commonbenefittotal', multiply(gross, input('commonbenefit')));
+    }
+    if (known('commonbenefittotal')) {
+      if (isSet('commonbenefitattorneyshare')) {
+        derived.set(
+          'commonbenefitattorneyshareamount',
+          multiply(value('commonbenefittotal'), input('commonbenefitattorneyshare'))
+        );
+      }
+      if (isSet('commonbenefitclaimantshare')) {
+        derived.set(
+          'commonbenefitclaimantshareamount',
+          multiply(value('commonbenefittotal'), input('commonbenefitclaimantshare'))
+        );
+      }
+    }
+    if (isSet('commonbenefitattorneyshare') && isSet('commonbenefitclaimantshare')) {
+      const shares = input('commonbenefitattorneyshare') + input('commonbenefitclaimantshare');
+      if (shares !== SCALE) {
+        discrepancies.push({
+          field: 'commonbenefitattorneyshare',
+          expected: 1,
+          actual: toNumber(shares),
+          message: 'commonbenefitattorneyshare + commonbenefitclaimantshare must equal 1',
+        });
+      }
+    }
+
+    // Attorney fees and costs
+    if (hasGross && isSet('grosscontingencyfeeperc')) {
+      derived.set('grosscontingencyfeeamount', multiply(gross, input('grosscontingencyfeeperc')));
+    }
+
+    if (attorneys.some(attorney => isPresent(attorney.cost_amount)) || isSet('attorneycostreduction')) {
+      derived.set(
+        'totalnetattorneycost',
+        sum(attorneys.map(attorney => toUnits(attorney.cost_amount ?? 0))) - input('attorneycostreduction')
+      );
+    }
+
+    if (hasGross && isSet('grossattorneyfeeperc')) {
+      const feeBase = record.attorneyfeecalcmethod === 'Net Cost'
+        ? gross - value('totalnetattorneycost')
+        : gross;
+      derived.set('grossattorneyfeeamount', multiply(feeBase, input('grossattorneyfeeperc')));
+    }
+
+    if (known('grossattorneyfeeamount')) {
+      derived.set(
+        'totalnetattorneyfee',
+        value('grossattorneyfeeamount') - input('attorneyfeereduction') - value('commonbenefitattorneyshareamount')
+      );
+    }
+
+    let computedAttorneys: Attorney[] | undefined;
+    const splits = attorneys
+      .map((attorney, index) => ({ attorney, index }))
+      .filter(({ attorney }) => isPresent(attorney.fee_percent));
+    if (splits.length > 0) {
+      const splitTotal = sum(splits.map(({ attorney }) => toUnits(attorney.fee_percent!)));
+      if (splitTotal !== SCALE) {
+        discrepancies.push({
+          field: 'attorneys',
+          expected: 1,
+          actual: toNumber(splitTotal),
+          message: 'attorney fee_percent splits must add up to 1',
+        });
+      }
+      if (known('totalnetattorneyfee')) {
+        computedAttorneys = attorneys.map(attorney => ({ ...attorney }));
+        for (const { attorney, index } of splits) {
+          const fees = multiply(value('totalnetattorneyfee'), toUnits(attorney.fee_percent!));
+          computedAttorneys[index].fees = toNumber(fees);
+          if (mode === 'validate' && isPresent(attorney.fees) && toUnits(attorney.fees!) !== fees) {
+            discrepancies.push({
+              field: `attorneys[${index}].fees`,
+              expected: toNumber(fees),
+              actual: Number(attorney.fees),
+              message: `attorneys[${index}].fees should equal totalnetattorneyfee × attorneys[${index}].fee_percent`,
+            });
+          }
+        }
+      }
+    }
+
+    // Liens and administrative costs
+    if (medical_liens.some(lien => isPresent(lien.amount))) {
+      derived.set('totalmedicalliens', sum(medical_liens.map(lien => toUnits(lien.amount ?? 0))));
+    }
+    if (other_liens.some(lien => isPresent(lien.amount))) {
+      derived.set('othertotalliens', sum(other_liens.map(lien => toUnits(lien.amount ?? 0))));
+    }
+    if (anySet(VENDOR_EXPENSE_FIELDS)) {
+      derived.set('totaladmincost', sum(VENDOR_EXPENSE_FIELDS.map(input)));
+    }
+
+    // Net payment
+    if (hasGross) {
+      derived.set('netclaimantpayment', gross - sum(NET_PAYMENT_DEDUCTIONS.map(value)));
+    }
+
+    if (mode === 'validate') {
+      for (const [field, expected] of derived) {
+        if (isSet(field) && toUnits(record[field]) !== expected) {
+          discrepancies.push({
+            field,
+            expected: toNumber(expected),
+            actual: Number(record[field]),
+            message: `${field} should equal ${FORMULAS[field]}`,
+          });
+        }
+      }
+    }
+
+    const values: Record<string, any> = {};
+    for (const [field, units] of derived) {
+      values[field] = toNumber(units);
+    }
+    if (computedAttorneys) {
+      values.attorneys = computedAttorneys;
+    }
+
+    return { values, discrepancies };
+  }
+}
+
+export const settlementCalculatorService = new SettlementCalculatorService();
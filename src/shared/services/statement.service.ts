@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import PDFDocument from 'pdfkit';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../database/database.service';
+import { Demographics } from '../types/demographics';
+import {
+  GenerateStatementRequest,
+  SettlementStatement,
+  StatementLine,
+  StatementTemplate,
+  StatementTemplateDefinition,
+} from '../types/statement';
+import { AuditContext } from '../types/audit';
+import { auditService } from './audit.service';
+import { blobSasService } from './blobSas.service';
+import { piiMaskingService } from './piiMasking.service';
+import { logger } from './logger.service';
+
+export class StatementError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = 'StatementError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+const DOWNLOAD_URL_VALID_HOURS = 1;
+
+const amount = (label: string, field: string, extra: Partial<StatementLine> = {}): StatementLine => ({
+  label,
+  field,
+  format: 'currency',
+  negative: false,
+  always_show: false,
+  ...extra,
+});
+
+const deduction = (label: string, field: string, extra: Partial<StatementLine> = {}): StatementLine =>
+  amount(label, field, { negative: true, ...extra });
+
+/**
+ * Built-in closing statement, used as version 0 for law firms that have not
+ * uploaded a template of their own.
+ */
+export const DEFAULT_STATEMENT_TEMPLATE: StatementTemplateDefinition = {
+  title: 'Settlement Closing Statement',
+  header_lines: [],
+  sections: [
+    {
+      heading: 'Claimant',
+      lines: [
+        { label: 'First Name', field: 'firstname', format: 'text', negative: false, always_show: true },
+        { label: 'Last Name', field: 'lastname', format: 'text', negative: false, always_show: true },
+        { label: 'SSN', field: 'ssn', format: 'masked', negative: false, always_show: false },
+        { label: 'Claimant Type', field: 'claimanttype', format: 'text', negative: false, always_show: true },
+        { label: 'Client ID', field: 'law_firm_client_id', format: 'text', negative: false, always_show: false },
+        { label: 'Law Firm', field: 'primarylawfirm', format: 'text', negative: false, always_show: false },
+      ],
+    },
+    {
+      heading: 'Settlement Award',
+      lines: [
+        amount('Base Gross Award', 'basegrossaward', { always_show: true }),
+        amount('Extraordinary Injury Fund Award', 'eifawardamount'),
+        amount('Appeal Award', 'appealaward'),
+      ],
+      total: amount('Total Gross Award', 'totalgrossaward', { always_show: true }),
+    },
+    {
+      heading: 'Attorney Fees and Costs',
+      lines: [
+        { label: 'Attorney Fee Percentage', field: 'grossattorneyfeeperc', format: 'percent', negative: false, always_show: false },
+        { label: 'Fee Calculation Method', field: 'attorneyfeecalcmethod', format: 'text', negative: false, always_show: false },
+        deduction('Attorney Fees', 'totalnetattorneyfee', { always_show: true }),
+        deduction('Attorney Costs', 'totalnetattorneycost'),
+      ],
+    },
+    {
+      heading: 'Common Benefit Assessment',
+      lines: [
+        { label: 'Common Benefit Percentage', field: 'commonbenefit', format: 'percent', negative: false, always_show: false },
+        deduction('Common Benefit Assessment', 'commonbenefittotal'),
+      ],
+    },
+    {
+      heading: 'Liens',
+      lines: [
+        deduction('Medical Lien', 'amount', { label_field: 'name', collection: 'medical_liens' }),
+        deduction('Other Lien', 'amount', { label_field: 'name', collection: 'other_liens' }),
+      ],
+    },
+    {
+      heading: 'Administrative Expenses',
+      lines: [
+        deduction('QSF Administration', 'vendorexpenseqsfadmin', { label_field: 'vendorexpenseqsfadminname' }),
+        deduction('Claims Administration', 'vendorexpenseclaimsadmin', { label_field: 'vendorexpenseclaimsadminname' }),
+        deduction('Lien Resolution (Holdback)', 'vendorexpenselraholdback', { label_field: 'vendorexpenselraholdbackname' }),
+        deduction('Lien Resolution (Final)', 'vendorexpenselrafinal', { label_field: 'vendorexpenselrafinalname' }),
+        deduction('Special Master', 'vendorexpensespecialmaster', { label_field: 'vendorexpensespecialmastername' }),
+        deduction('EIF Appeal', 'vendorexpenseeifappeal', { label_field: 'vendorexpenseeifappealname' }),
+        deduction('Bankruptcy Counsel', 'vendorexpensebankruptcycounsel', { label_field: 'vendorexpensebankruptcycounselname' }),
+        deduction('Probate Counsel', 'vendorexpenseprobatecounsel', { label_field: 'vendorexpenseprobatecounselname' }),
+        deduction('Other Vendor', 'vendorother', { label_field: 'vendorothername' }),
+      ],
+    },
+    {
+      heading: 'Holdbacks and Prior Payments',
+      lines: [
+        deduction('Holdback', 'holdbackamount'),
+        deduction('Other Holdback', 'otherholdbackamount'),
+        deduction('General Case Expenses', 'generalcaseexpenses'),
+        deduction('Previous Payments to Claimant', 'previouspaymentstoclaimant'),
+      ],
+    },
+    {
+      heading: 'Net Payment',
+      lines: [],
+      total: amount('Net Payment to Claimant', 'netclaimantpayment', { always_show: true }),
+    },
+  ],
+  footer_text:
+    'I have reviewed this closing statement and approve the distribution of settlement proceeds as set out above.',
+  signature_lines: ['Claimant', 'Attorney'],
+};
+
+const BUILT_IN_TEMPLATE: Omit<StatementTemplate, 'partitionKey'> = {
+  id: null,
+  name: 'Default',
+  version: 0,
+  definition: DEFAULT_STATEMENT_TEMPLATE,
+  created_at: null,
+  created_by_key_id: null,
+};
+
+const currencyFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+/**
+ * Closing statement PDFs rendered from a demographics record and a versioned,
+ * per-law-firm template. The template version and the record timestamp are
+ * stored with each statement so it can be rendered again identically.
+ */
+class StatementService {
+  async resolveTemplate(lawFirm: string, version?: number): Promise<StatementTemplate> {
+    if (version === 0) {
+      return { ...BUILT_IN_TEMPLATE, partitionKey: lawFirm };
+    }
+
+    const template = await databaseService.getStatementTemplate(lawFirm, version);
+    if (template) return template;
+
+    if (version !== undefined) {
+      throw new StatementError(`Statement template version ${version} not found`, 404, 'TEMPLATE_NOT_FOUND');
+    }
+    return { ...BUILT_IN_TEMPLATE, partitionKey: lawFirm };
+  }
+
+  async listTemplates(lawFirm: string): Promise<StatementTemplate[]> {
+    const templates = await databaseService.listStatementTemplates(lawFirm);
+    return [...templates, { ...BUILT_IN_TEMPLATE, partitionKey: lawFirm }];
+  }
+
+  async generateStatement(
+    demographicId: string,
+    lawFirm: string,
+    request: GenerateStatementRequest,
+    audit: AuditContext = {}
+  ): Promise<{ statement: SettlementStatement; download_url: string; expires_at: string } | null> {
+    const record = request.as_of
+      ? await auditService.getDemographicAsOf(demographicId, lawFirm, new Date(request.as_of))
+      : await databaseService.getDemographicById(demographicId, lawFirm);
+    if (!record) return null;
+
+    const template = await this.resolveTemplate(lawFirm, request.template_version);
+    const generatedAt = new Date();
+    const recordAsOf = request.as_of ? new Date(request.as_of) : new Date(record.updated_at);
+
+    const pdf = await this.renderPdf(record, template, recordAsOf);
+    const contentSha256 = crypto.createHash('sha256').update(pdf).digest('hex');
+
+    const { blobName } = await blobSasService.uploadGeneratedDocument({
+      lawFirm,
+      fileName: `closing-statement-${demographicId}-v${template.version}.pdf`,
+      contentType: 'application/pdf',
+      content: pdf,
+      metadata: {
+        demographics_id: demographicId,
+        template_version: String(template.version),
+        document_type: 'closing_statement',
+      },
+    });
+
+    const statement: SettlementStatement = {
+      id: uuidv4(),
+      partitionKey: lawFirm,
+      demographics_id: demographicId,
+      template_version: template.version,
+      blob_name: blobName,
+      content_sha256: contentSha256,
+      record_as_of: recordAsOf.toISOString(),
+      created_at: generatedAt.toISOString(),
+      created_by_key_id: audit.keyId ?? null,
+    };
+    await databaseService.createSettlementStatement(statement);
+
+    logger.info('Closing statement generated', {
+      statementId: statement.id,
+      demographicId,
+      templateVersion: template.version,
+      requestId: audit.requestId,
+    });
+
+    return {
+      statement,
+      ...(await this.getDownloadUrl(statement.blob_name)),
+    };
+  }
+
+  async getDownloadUrl(blobName: string): Promise<{ download_url: string; expires_at: string }> {
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + DOWNLOAD_URL_VALID_HOURS);
+
+    return {
+      download_url: await blobSasService.generateDownloadSasUrl(blobName, DOWNLOAD_URL_VALID_HOURS),
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  renderPdf(record: Demographics, template: StatementTemplate, recordAsOf: Date): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const definition = template.definition;
+      const values = record as Record<string, any>;
+      const doc = new PDFDocument({
+        size: 'LETTER',
+        margin: 54,
+        info: {
+          Title: definition.title,
+          Subject: `Demographics ${record.id}`,
+          CreationDate: recordAsOf,
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const valueColumn = 160;
+
+      const printLine = (line: StatementLine, bold: boolean, source: Record<string, any> = values): void => {
+        if (line.collection) {
+          const items: Record<string, any>[] = values[line.collection] ?? [];
+          items.forEach(item => printLine({ ...line, collection: undefined }, bold, item));
+          return;
+        }
+
+        const raw = source[line.field];
+        if (!line.always_show && (raw === undefined || raw === null || raw === '')) return;
+
+        const label = (line.label_field && source[line.label_field]) || line.label;
+        const formatted = this.formatValue(line, raw);
+        const y = doc.y;
+
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+        doc.text(label, left, y, { width: width - valueColumn });
+        const labelBottom = doc.y;
+        doc.text(formatted, left + width - valueColumn, y, { width: valueColumn, align: 'right' });
+        doc.y = Math.max(labelBottom, doc.y);
+        doc.moveDown(0.25);
+      };
+
+      doc.font('Helvetica-Bold').fontSize(16).text(definition.title, { align: 'center' });
+      doc.font('Helvetica').fontSize(10);
+      for (const headerLine of definition.header_lines) {
+        doc.text(headerLine, { align: 'center' });
+      }
+      doc.moveDown(0.5);
+      doc.fontSize(8).fillColor('#555555')
+        .text(`Record ${record.id} as of ${recordAsOf.toISOString()} · Template v${template.version}`, { align: 'center' })
+        .fillColor('black');
+      doc.moveDown();
+
+      for (const section of definition.sections) {
+        doc.font('Helvetica-Bold').fontSize(12).text(section.heading, left);
+        doc.moveTo(left, doc.y).lineTo(left + width, doc.y).stroke();
+        doc.moveDown(0.3);
+
+        section.lines.forEach(line => printLine(line, false));
+        if (section.total) {
+          printLine(section.total, true);
+        }
+        doc.moveDown(0.75);
+      }
+
+      if (definition.footer_text) {
+        doc.font('Helvetica').fontSize(9).text(definition.footer_text, left, doc.y, { width });
+        doc.moveDown(2);
+      }
+
+      for (const signatory of definition.signature_lines) {
+        doc.moveDown(1.5);
+        doc.moveTo(left, doc.y).lineTo(left + 250, doc.y).stroke();
+        doc.moveTo(left + 300, doc.y).lineTo(left + width, doc.y).stroke();
+        doc.moveDown(0.2);
+        const y = doc.y;
+        doc.font('Helvetica').fontSize(9).text(signatory, left, y);
+        doc.text('Date', left + 300, y);
+      }
+
+      doc.end();
+    });
+  }
+
+  private formatValue(line: StatementLine, value: any): string {
+    if (value === undefined || value === null || value === '') {
+      return line.format === 'currency' ? currencyFormat.format(0) : '';
+    }
+
+    switch (line.format) {
+      case 'currency': {
+        const formatted = currencyFormat.format(Number(value));
+        return line.negative ? `(${formatted})` : formatted;
+      }
+      case 'percent':
+        return `${(Number(value) * 100).toFixed(2)}%`;
+      case 'date':
+        return new Date(value).toISOString().split('T')[0];
+      case 'masked':
+        return String(piiMaskingService.maskValue(line.field, value) ?? '');
+      default:
+        return String(value);
+    }
+  }
+}
+
+export const statementService = new StatementService();
@@ -26,6 +26,7 @@ export const ApiKeySchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])),
@@ -57,6 +58,7 @@ export const CreateApiKeyRequestSchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])).min(1),
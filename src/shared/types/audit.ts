@@ -0,0 +1,30 @@
+export type AuditAction = 'create' | 'update' | 'delete' | 'merge';
+
+export type AuditEntityType = 'demographics' | 'document' | 'legal_hold';
+
+// Who/what triggered a change; recorded on every audit entry
+export interface AuditContext {
+  keyId?: string;
+  requestId?: string;
+}
+
+export interface FieldChange {
+  from: any;
+  to: any;
+}
+
+export type FieldDiff = Record<string, FieldChange>;
+
+export interface AuditEntry {
+  id: string;
+  partitionKey: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  changes: FieldDiff;
+  // Action-specific context, e.g. merge survivorship
+  details: Record<string, any> | null;
+  key_id: string | null;
+  request_id: string | null;
+  created_at: string;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { OnDuplicateSchema } from './duplicates';
 
 const LawFirmApprovalSchema = z.enum(['Approved', 'Hold']);
 const ClaimantTypeSchema = z.enum(['Adult', 'Minor', 'Incapacitated Adult', 'Decedent', 'Alternate', 'Municipality']);
@@ -10,6 +11,40 @@ const AltClaimantTypeSchema = z.enum(['Personal Representative (POA)', 'Trustee'
 const AttorneyFeeCalcMethodSchema = z.enum(['Gross', 'Net Cost']);
 const LienTypeSchema = z.enum(['Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)']);
 
+const amountSchema = z.number().max(9999999999.9999);
+const ratioSchema = z.number().max(1.0);
+
+// Child collections, stored in their own tables
+export const AttorneySchema = z.object({
+  name: z.string().max(75).optional(),
+  fee_percent: ratioSchema.optional(),
+  fees: amountSchema.optional(),
+  cost_amount: amountSchema.optional(),
+});
+
+export const MedicalLienSchema = z.object({
+  name: z.string().max(55).optional(),
+  lien_id: z.string().max(55).optional(),
+  lien_type: LienTypeSchema.optional(),
+  amount: amountSchema.optional(),
+});
+
+export const OtherLienSchema = z.object({
+  name: z.string().max(55).optional(),
+  amount: amountSchema.optional(),
+});
+
+export const CostDetailSchema = z.object({
+  attorney_name: z.string().max(75).optional(),
+  name: z.string().max(128).optional(),
+  amount: amountSchema.optional(),
+});
+
+export type Attorney = z.infer<typeof AttorneySchema>;
+export type MedicalLien = z.infer<typeof MedicalLienSchema>;
+export type OtherLien = z.infer<typeof OtherLienSchema>;
+export type CostDetail = z.infer<typeof CostDetailSchema>;
+
 export const DemographicsSchema = z.object({
   id: z.string().uuid(),
   partitionKey: z.string(),
@@ -247,6 +282,13 @@ export const DemographicsSchema = z.object({
   attorney10name_cost: z.string().max(75).optional(),
   attorney10_costdetailname: z.string().max(128).optional(),
   attorney10_costdetailamount: z.number().max(9999999999.9999).optional(),
+
+  // Normalized collections. The numbered attorney/lien/cost detail fields above are
+  // the legacy flat view of the same data and are still accepted and returned.
+  attorneys: z.array(AttorneySchema).max(100).optional(),
+  medical_liens: z.array(MedicalLienSchema).max(100).optional(),
+  other_liens: z.array(OtherLienSchema).max(100).optional(),
+  cost_details: z.array(CostDetailSchema).max(200).optional(),
   
   // Notes
   lawfirmnote: z.string().max(1000).optional(),
@@ -256,39 +298,176 @@ export const DemographicsSchema = z.object({
   updated_at: z.string().datetime(),
   created_by: z.string().uuid(),
   status: z.enum(['active', 'inactive', 'archived']).default('active'),
+  // Set when the record was merged into another one
+  merged_into: z.string().uuid().optional(),
 });
 
 
 export type Demographics = z.infer<typeof DemographicsSchema>;
 
-export const GetDemographicsQuerySchema = z.object({
-  limit: z.coerce.number().min(1).max(100).default(50).optional(),
-  offset: z.coerce.number().min(0).default(0).optional(),
+export const DEMOGRAPHICS_COLLECTIONS = ['attorneys', 'medical_liens', 'other_liens', 'cost_details'] as const;
+
+export type DemographicsCollectionName = typeof DEMOGRAPHICS_COLLECTIONS[number];
+
+export interface DemographicsCollections {
+  attorneys: Attorney[];
+  medical_liens: MedicalLien[];
+  other_liens: OtherLien[];
+  cost_details: CostDetail[];
+}
+
+// PII columns encrypted at rest by the database service
+export const ENCRYPTED_DEMOGRAPHICS_FIELDS = ['ssn', 'dob', 'alternateclaimantssn', 'alternateclaimantdob'] as const;
+
+// Columns that can be filtered and sorted on in listings, all backed by an index
+export const DEMOGRAPHICS_QUERY_FIELDS = {
+  created_at: 'date',
+  updated_at: 'date',
+  dod: 'date',
+  firstname: 'string',
+  lastname: 'string',
+  sf_id: 'string',
+  ml_id: 'string',
+  primarylawfirm: 'string',
+  claimanttype: 'string',
+  status: 'string',
+  law_firm_approval: 'string',
+  bankruptcy: 'string',
+  probate: 'string',
+  state: 'string',
+  zipcode: 'string',
+  totalgrossaward: 'number',
+  netclaimantpayment: 'number',
+} as const;
+
+export type DemographicsQueryField = keyof typeof DEMOGRAPHICS_QUERY_FIELDS;
+
+export type DemographicsQueryFieldKind = (typeof DEMOGRAPHICS_QUERY_FIELDS)[DemographicsQueryField];
+
+export const DemographicsFilterOperatorSchema = z.enum(['eq', 'in', 'gte', 'lte', 'like', 'is_null']);
+
+export type DemographicsFilterOperator = z.infer<typeof DemographicsFilterOperatorSchema>;
+
+// `state in (TX,LA)`: values are normalized for the field kind; is_null has ['true'] or ['false']
+export interface DemographicsFilterClause {
+  field: DemographicsQueryField;
+  operator: DemographicsFilterOperator;
+  values: string[];
+}
+
+export interface DemographicsSortKey {
+  field: DemographicsQueryField;
+  direction: 'asc' | 'desc';
+}
+
+// Which records a listing (or an export) covers, and in what order
+export const DemographicsListFiltersSchema = z.object({
+  // `<field> <operator> <value>`, repeat for several (ANDed)
+  filter: z.union([z.string().max(1000), z.array(z.string().max(1000)).max(20)]).optional(),
+  // Comma-separated fields, `-` prefix for descending: `sort=state,-totalgrossaward`
+  sort: z.string().max(500).optional(),
   filter_claimanttype: z.string().optional(),
   filter_status: z.string().optional(),
   search: z.string().optional(),
 });
 
+export type DemographicsListFilters = z.infer<typeof DemographicsListFiltersSchema>;
+
+export const GetDemographicsQuerySchema = DemographicsListFiltersSchema.extend({
+  limit: z.coerce.number().min(1).max(100).default(50).optional(),
+  offset: z.coerce.number().min(0).default(0).optional(),
+  cursor: z.string().max(2048).optional(),
+  // true: exact count; estimate: row count from index statistics when no filter applies
+  include_total: z.enum(['true', 'false', 'estimate']).optional(),
+  fields: z.string().optional(),
+}).refine(query => !(query.cursor && query.offset), {
+  message: 'offset cannot be combined with cursor',
+  path: ['offset'],
+});
+
 export type GetDemographicsQuery = z.infer<typeof GetDemographicsQuerySchema>
 
+// Keyset position behind the opaque next_cursor / prev_cursor tokens: the sort
+// it was issued for, that row's sort key values (as SQL text) and its id
+export const DemographicsCursorSchema = z.object({
+  sort: z.string(),
+  keys: z.array(z.string().nullable()),
+  id: z.string().uuid(),
+  direction: z.enum(['next', 'prev']),
+});
+
+export type DemographicsCursor = z.infer<typeof DemographicsCursorSchema>;
+
+export interface DemographicsPage {
+  records: Demographics[];
+  has_more: boolean;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+  total?: number;
+  total_estimated?: boolean;
+}
+
 export const CreateDemographicsRequestSchema = DemographicsSchema.omit({
   id: true,
   partitionKey: true,
   created_at: true,
   updated_at: true,
   created_by: true,
+  merged_into: true,
 });
 
 export type CreateDemographicsRequest = z.infer<typeof CreateDemographicsRequestSchema>;
 
+// Fields changed by a PATCH are validated against this partial schema
+export const PatchDemographicsRequestSchema = CreateDemographicsRequestSchema.partial().strict();
+
+export type PatchDemographicsRequest = z.infer<typeof PatchDemographicsRequestSchema>;
+
+const EDITABLE_DEMOGRAPHICS_FIELDS = new Set(Object.keys(CreateDemographicsRequestSchema.shape));
+
+// A JSON pointer to one of the fields a PATCH may change
+const EditableFieldPointerSchema = z.string().refine(
+  pointer => /^\/[^/]+$/.test(pointer) && EDITABLE_DEMOGRAPHICS_FIELDS.has(pointer.slice(1)),
+  { message: 'Path must point to an editable demographics field' }
+);
+
+export const JsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: EditableFieldPointerSchema, value: z.any() }),
+  z.object({ op: z.literal('remove'), path: EditableFieldPointerSchema }),
+  z.object({ op: z.literal('replace'), path: EditableFieldPointerSchema, value: z.any() }),
+  z.object({ op: z.literal('move'), path: EditableFieldPointerSchema, from: EditableFieldPointerSchema }),
+  z.object({ op: z.literal('copy'), path: EditableFieldPointerSchema, from: EditableFieldPointerSchema }),
+  z.object({ op: z.literal('test'), path: EditableFieldPointerSchema, value: z.any() }),
+]);
+
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema> & { from?: string; value?: any };
+
+export const JsonPatchDocumentSchema = z.array(JsonPatchOperationSchema).min(1).max(500);
+
+export const MergePatchDocumentSchema = z.record(z.any());
+
+// Identifiers assigned outside the API that a record can be addressed and upserted by
+export const ExternalIdTypeSchema = z.enum(['sf_id', 'ml_id', 'law_firm_client_id']);
+
+export type ExternalIdType = z.infer<typeof ExternalIdTypeSchema>;
+
+export const ExternalIdParamsSchema = z.object({
+  idType: ExternalIdTypeSchema,
+  externalId: z.string().min(1).max(50),
+});
+
 export const BatchSubmitSchema = z.object({
   demographics: z.array(CreateDemographicsRequestSchema).min(1).max(100),
+  // upsert: insert or replace each item by its `upsert_key` instead of always inserting
+  mode: z.enum(['create', 'upsert']).default('create'),
+  upsert_key: ExternalIdTypeSchema.default('sf_id'),
   webhook_url: z.string().url().optional(),
   webhook_events: z.array(z.enum(['created', 'updated', 'processed', 'failed'])).optional(),
   batch_options: z.object({
     priority: z.number().min(1).max(10).default(5),
     process_immediately: z.boolean().default(false),
     notify_on_completion: z.boolean().default(true),
+    on_duplicate: OnDuplicateSchema.default('flag'),
   }).optional(),
 });
 
@@ -316,6 +495,7 @@ export const ApiKeySchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])),
@@ -345,6 +525,7 @@ export const CreateApiKeyRequestSchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])).min(1),
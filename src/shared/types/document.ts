@@ -0,0 +1,173 @@
+import { z } from 'zod';
+
+export const DocumentTypeSchema = z.enum(['demographics_form', 'supporting_doc', 'legal_doc', 'medical_record', 'other']);
+
+export type DocumentType = z.infer<typeof DocumentTypeSchema>;
+
+// Items of a claimant's document checklist an upload can be tagged with
+export const DocumentRequirementSchema = z.enum([
+  'intake_form',
+  'retainer_agreement',
+  'government_id',
+  'birth_certificate',
+  'guardian_appointment',
+  'power_of_attorney',
+  'death_certificate',
+  'probate_letters',
+  'alternate_authorization',
+  'municipal_resolution',
+]);
+
+export type DocumentRequirement = z.infer<typeof DocumentRequirementSchema>;
+
+// pending: upload URL issued; uploaded: blob received and validated;
+// processing/completed: picked up and finished by the document worker;
+// rejected: upload broke the file policy, blob deleted;
+// quarantined: malware found, blob moved out of the documents container;
+// expired: the upload URL or session lapsed before the file arrived;
+// purging/purged: past its retention period, file being / been deleted
+export type DocumentLifecycleStatus =
+  'pending' | 'uploaded' | 'processing' | 'completed' | 'failed' | 'rejected' | 'quarantined'
+  | 'expired' | 'purging' | 'purged';
+
+export type DocumentScanResult = 'clean' | 'infected';
+
+// rules: keyword classifier; model: the configured classification model; manual: reclassified through the API
+export type DocumentClassificationSource = 'rules' | 'model' | 'manual';
+
+export interface DocumentRecord {
+  correlation_id: string;
+  partitionKey: string;
+  demographics_id: string | null;
+  document_type: string | null;
+  // The checklist item this document was uploaded for
+  requirement: DocumentRequirement | null;
+  original_file_name: string;
+  content_type: string;
+  blob_name: string;
+  file_size: number | null;
+  // Declared at upload URL generation; enforced when the blob arrives
+  max_file_size: number | null;
+  page_count: number | null;
+  content_hash: string | null;
+  status: DocumentLifecycleStatus;
+  error: string | null;
+  upload_expires_at: string;
+  created_at: string;
+  updated_at: string;
+  uploaded_at: string | null;
+  processed_at: string | null;
+  scan_result: DocumentScanResult | null;
+  scan_signature: string | null;
+  scanned_at: string | null;
+  classified_type: DocumentType | null;
+  classification_confidence: number | null;
+  classification_source: DocumentClassificationSource | null;
+  classification_mismatch: boolean;
+  classified_at: string | null;
+  purged_at: string | null;
+}
+
+export const ListDocumentsQuerySchema = z.object({
+  demographicsId: z.string().uuid().optional(),
+  // Full-text search over the text extracted from each document
+  q: z.string().trim().min(2).max(200).optional(),
+  // Only documents whose classification disagrees with the declared type
+  mismatch: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type DocumentAccessAction = 'download_url';
+
+export interface DocumentAccessLogEntry {
+  id: string;
+  correlation_id: string;
+  partitionKey: string;
+  action: DocumentAccessAction;
+  key_id: string | null;
+  request_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// unsupported: the extraction provider cannot read this content type
+export type DocumentTextStatus = 'completed' | 'failed' | 'unsupported';
+
+export interface DocumentText {
+  correlation_id: string;
+  partitionKey: string;
+  status: DocumentTextStatus;
+  provider: string;
+  content: string | null;
+  page_count: number | null;
+  // Whether the text was recognized from images rather than read from a text layer
+  ocr: boolean;
+  error: string | null;
+  extracted_at: string;
+}
+
+// satisfied: a matching document finished processing; pending: one is on its way
+export type ChecklistItemStatus = 'satisfied' | 'pending' | 'missing';
+
+export interface DocumentChecklistItem {
+  requirement: DocumentRequirement;
+  label: string;
+  status: ChecklistItemStatus;
+  documents: Array<{
+    correlation_id: string;
+    file_name: string;
+    status: DocumentLifecycleStatus;
+    uploaded_at: string | null;
+  }>;
+}
+
+export interface DocumentChecklist {
+  demographics_id: string;
+  claimanttype: string;
+  complete: boolean;
+  satisfied: number;
+  total: number;
+  items: DocumentChecklistItem[];
+}
+
+// open: taking chunks; committing: chunks being assembled and verified;
+// committed: the assembled file was handed to the documents container;
+// failed: the assembled file did not match the checksum declared for it;
+// expired: not committed in time, staged chunks discarded
+export type UploadSessionStatus = 'open' | 'committing' | 'committed' | 'failed' | 'expired';
+
+export interface DocumentUploadSession {
+  id: string;
+  correlation_id: string;
+  partitionKey: string;
+  blob_name: string;
+  file_size: number;
+  chunk_size: number;
+  total_chunks: number;
+  // SHA-256 (hex) the client declared for the whole file, if any
+  expected_sha256: string | null;
+  // SHA-256 (hex) of the file as assembled
+  sha256: string | null;
+  status: UploadSessionStatus;
+  error: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+  committed_at: string | null;
+  created_by_key_id: string | null;
+}
+
+export interface DocumentUploadChunk {
+  chunk_index: number;
+  size: number;
+  // Base64, as sent in the chunk's Content-MD5 header
+  md5: string;
+  received_at: string;
+}
+
+export const ReclassifyDocumentRequestSchema = z.object({
+  documentType: DocumentTypeSchema,
+});
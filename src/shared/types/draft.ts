@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { CreateDemographicsRequestSchema } from './demographics';
+
+// Demographics fields read from intake forms
+export const DRAFT_FIELDS = [
+  'firstname',
+  'lastname',
+  'dob',
+  'ssn',
+  'address1',
+  'address2',
+  'city',
+  'state',
+  'zipcode',
+  'phone',
+  'email',
+  'claimanttype',
+] as const;
+
+export type DraftField = typeof DRAFT_FIELDS[number];
+
+export const DraftStatusSchema = z.enum(['pending_review', 'approved', 'rejected']);
+
+export type DraftStatus = z.infer<typeof DraftStatusSchema>;
+
+export interface DemographicsDraft {
+  id: string;
+  partitionKey: string;
+  document_correlation_id: string;
+  status: DraftStatus;
+  // Values recognized on the form, already in the shape the API expects
+  fields: Partial<Record<DraftField, string>>;
+  // 0..1 for each recognized field
+  confidence: Partial<Record<DraftField, number>>;
+  // Required fields the form did not supply; approval has to provide them
+  missing_fields: string[];
+  // The record created when the draft was approved
+  demographics_id: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  reviewed_at: string | null;
+  reviewed_by_key_id: string | null;
+}
+
+export const ListDraftsQuerySchema = z.object({
+  status: DraftStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ListDraftsQuery = z.infer<typeof ListDraftsQuerySchema>;
+
+export const ApproveDraftRequestSchema = z.object({
+  // Corrections to the extracted values, and fields forms do not carry (e.g. law_firm)
+  fields: CreateDemographicsRequestSchema.partial().default({}),
+});
+
+export type ApproveDraftRequest = z.infer<typeof ApproveDraftRequestSchema>;
+
+export const RejectDraftRequestSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+// Evidence that two records describe the same claimant
+export type MatchSignal = 'ssn' | 'name_dob' | 'sf_id' | 'ml_id' | 'law_firm_client_id';
+
+// Blind indexes stored on Demographics for the encrypted signals
+export interface MatchKeys {
+  ssn_match: string | null;
+  name_dob_match: string | null;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  score: number;
+  probable: boolean;
+  signals: MatchSignal[];
+}
+
+export interface DuplicatePair {
+  record_id: string;
+  duplicate_id: string;
+  score: number;
+  probable: boolean;
+  signals: MatchSignal[];
+}
+
+// flag: store and report probable duplicates; reject: refuse them with 409
+export const OnDuplicateSchema = z.enum(['flag', 'reject']);
+
+export type OnDuplicate = z.infer<typeof OnDuplicateSchema>;
+
+export const SubmitDuplicatesQuerySchema = z.object({
+  on_duplicate: OnDuplicateSchema.default('flag'),
+});
+
+export const DuplicatesQuerySchema = z.object({
+  min_score: z.coerce.number().int().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Which record a field's value survives from; unlisted fields keep the target
+// value unless it is empty and the source has one
+export const MergeSurvivorSchema = z.enum(['target', 'source']);
+
+export type MergeSurvivor = z.infer<typeof MergeSurvivorSchema>;
+
+export const MergeDemographicsRequestSchema = z.object({
+  source_id: z.string().uuid(),
+  fields: z.record(z.string(), MergeSurvivorSchema).optional(),
+});
+
+export type MergeDemographicsRequest = z.infer<typeof MergeDemographicsRequestSchema>;
+
+export interface MergeResult {
+  id: string;
+  source_id: string;
+  survivorship: Record<string, MergeSurvivor>;
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { DemographicsListFilters, DemographicsListFiltersSchema } from './demographics';
+
+export const ExportFormatSchema = z.enum(['csv', 'xlsx', 'ndjson']);
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+// The list route's filters, plus what to write and how
+export const CreateExportRequestSchema = DemographicsListFiltersSchema.extend({
+  format: ExportFormatSchema.default('csv'),
+  // Defaults to every field; `id` is always included
+  columns: z.array(z.string().min(1)).min(1).max(500).optional(),
+  // Mask PII even when the key may see it, e.g. for an outside vendor
+  mask_pii: z.boolean().default(false),
+});
+
+export type CreateExportRequest = z.infer<typeof CreateExportRequestSchema>;
+
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface DemographicsExport {
+  id: string;
+  partitionKey: string;
+  status: ExportStatus;
+  format: ExportFormat;
+  query: DemographicsListFilters;
+  columns: string[];
+  mask_pii: boolean;
+  blob_name: string | null;
+  row_count: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  created_by_key_id: string | null;
+  request_id: string | null;
+}
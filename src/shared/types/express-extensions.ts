@@ -24,6 +24,7 @@ export type GetDemographicsQuery = {
   filter_claimanttype?: string;
   filter_status?: string;
   search?: string;
+  fields?: string;
 };
 
 export interface ApiKey {
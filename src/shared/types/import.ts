@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { CreateDemographicsRequestSchema, DEMOGRAPHICS_COLLECTIONS, ExternalIdTypeSchema } from './demographics';
+
+// Fields a spreadsheet column can be mapped to; collections are filled through
+// their legacy numbered fields (attorney1name, medicallien1, ...)
+export const IMPORTABLE_FIELDS = new Set(
+  Object.keys(CreateDemographicsRequestSchema.shape)
+    .filter(field => !(DEMOGRAPHICS_COLLECTIONS as readonly string[]).includes(field))
+);
+
+// Multipart form fields arrive as JSON text
+const jsonText = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Spreadsheet column header -> demographics field
+export const ImportColumnsSchema = z.record(z.string().min(1).max(255), z.string())
+  .superRefine((columns, ctx) => {
+    const seen = new Set<string>();
+    for (const [column, field] of Object.entries(columns)) {
+      if (!IMPORTABLE_FIELDS.has(field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [column], message: `Unknown demographics field: ${field}` });
+      } else if (seen.has(field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [column], message: `${field} is mapped from more than one column` });
+      }
+      seen.add(field);
+    }
+  });
+
+// Values used for every row unless a mapped column supplies one (e.g. law_firm)
+export const ImportDefaultsSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+  .superRefine((defaults, ctx) => {
+    for (const field of Object.keys(defaults)) {
+      if (!IMPORTABLE_FIELDS.has(field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Unknown demographics field: ${field}` });
+      }
+    }
+  });
+
+export const ImportMappingProfileRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  columns: ImportColumnsSchema,
+  defaults: ImportDefaultsSchema.default({}),
+});
+
+export type ImportMappingProfileRequest = z.infer<typeof ImportMappingProfileRequestSchema>;
+
+export interface ImportMappingProfile {
+  id: string;
+  partitionKey: string;
+  name: string;
+  columns: Record<string, string>;
+  defaults: Record<string, string | number | boolean>;
+  created_at: string;
+  updated_at: string;
+  created_by_key_id: string | null;
+}
+
+export const ImportFileFormatSchema = z.enum(['csv', 'xlsx']);
+
+export type ImportFileFormat = z.infer<typeof ImportFileFormatSchema>;
+
+export const CreateImportRequestSchema = z.object({
+  // A file already uploaded through /documents/upload-url, instead of a `file` part
+  blob_name: z.string().min(1).max(500).optional(),
+  // Inferred from the file name when omitted
+  format: ImportFileFormatSchema.optional(),
+  profile_id: z.string().uuid().optional(),
+  columns: z.preprocess(jsonText, ImportColumnsSchema).optional(),
+  defaults: z.preprocess(jsonText, ImportDefaultsSchema).optional(),
+  mode: z.enum(['create', 'upsert']).default('create'),
+  upsert_key: ExternalIdTypeSchema.default('sf_id'),
+}).refine(request => (request.profile_id === undefined) !== (request.columns === undefined), {
+  message: 'Provide either profile_id or columns',
+  path: ['columns'],
+});
+
+export type CreateImportRequest = z.infer<typeof CreateImportRequestSchema>;
+
+export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface DemographicsImport {
+  id: string;
+  partitionKey: string;
+  status: ImportStatus;
+  file_name: string;
+  blob_name: string;
+  format: ImportFileFormat;
+  profile_id: string | null;
+  columns: Record<string, string>;
+  defaults: Record<string, string | number | boolean>;
+  mode: 'create' | 'upsert';
+  upsert_key: z.infer<typeof ExternalIdTypeSchema>;
+  total_rows: number | null;
+  processed_rows: number;
+  imported_rows: number;
+  failed_rows: number;
+  error: string | null;
+  error_report_blob_name: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  created_by: string;
+  created_by_key_id: string | null;
+  request_id: string | null;
+}
+
+export interface ImportRowError {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  column: string | null;
+  field: string | null;
+  message: string;
+}
+
+export const GetImportQuerySchema = z.object({
+  errors_limit: z.coerce.number().int().min(0).max(1000).default(100),
+  errors_offset: z.coerce.number().int().min(0).default(0),
+});
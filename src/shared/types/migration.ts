@@ -0,0 +1,25 @@
+/**
+ * A numbered schema migration. `up` and `down` are lists of T-SQL batches
+ * (what a `GO` separator would split a script into); each migration runs in
+ * a single transaction. Omit `down` for migrations that cannot be reverted.
+ */
+export interface Migration {
+  id: string;
+  name: string;
+  up: string[];
+  down?: string[];
+}
+
+export interface AppliedMigration {
+  id: string;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  id: string;
+  name: string;
+  state: 'applied' | 'pending' | 'modified' | 'missing';
+  applied_at: string | null;
+}
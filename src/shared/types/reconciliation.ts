@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// unmatched_blob: a blob in the documents container that no registered
+// document, statement, import or export owns;
+// unprocessed_upload: a registered upload whose file arrived but was never
+// picked up by the blob trigger
+export const ReconciliationFindingKindSchema = z.enum(['unmatched_blob', 'unprocessed_upload']);
+
+export type ReconciliationFindingKind = z.infer<typeof ReconciliationFindingKindSchema>;
+
+export interface ReconciliationFinding {
+  id: string;
+  kind: ReconciliationFindingKind;
+  blob_name: string;
+  correlation_id: string | null;
+  partitionKey: string | null;
+  blob_size: number | null;
+  blob_created_at: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  resolved_at: string | null;
+}
+
+export const ListReconciliationFindingsQuerySchema = z.object({
+  kind: ReconciliationFindingKindSchema.optional(),
+  // Open findings by default
+  resolved: z.enum(['true', 'false']).transform(value => value === 'true').default('false'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ListReconciliationFindingsQuery = z.infer<typeof ListReconciliationFindingsQuerySchema>;
+
+export interface ReconciliationRunSummary {
+  run_id: string;
+  blobs_scanned: number;
+  unmatched_blobs: number;
+  expired_uploads: number;
+  unprocessed_uploads: number;
+  resolved_findings: number;
+}
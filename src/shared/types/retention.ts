@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { DocumentRecord, DocumentTypeSchema } from './document';
+
+export interface RetentionPolicy {
+  id: string;
+  partitionKey: string;
+  // null: the firm's default for document types without a policy of their own
+  document_type: string | null;
+  retention_days: number;
+  created_at: string;
+  updated_at: string;
+  updated_by_key_id: string | null;
+}
+
+// Policies are addressed by document type, or `default` for the firm-wide one
+export const RetentionPolicyScopeSchema = z.union([DocumentTypeSchema, z.literal('default')]);
+
+export const SetRetentionPolicyRequestSchema = z.object({
+  // Counted from when the file arrived; 0 purges at the next run
+  retentionDays: z.number().int().min(0).max(36500),
+});
+
+export interface LegalHold {
+  id: string;
+  partitionKey: string;
+  // Scope: one document, one claimant's documents, or (both null) every document of the firm
+  correlation_id: string | null;
+  demographics_id: string | null;
+  reason: string;
+  case_reference: string | null;
+  created_at: string;
+  created_by_key_id: string | null;
+  released_at: string | null;
+  released_by_key_id: string | null;
+  release_reason: string | null;
+}
+
+export const CreateLegalHoldRequestSchema = z.object({
+  reason: z.string().min(1).max(1000),
+  caseReference: z.string().max(100).optional(),
+  correlationId: z.string().uuid().optional(),
+  demographicsId: z.string().uuid().optional(),
+}).refine(request => !(request.correlationId && request.demographicsId), {
+  message: 'A hold covers either one document or one claimant, not both',
+  path: ['demographicsId'],
+});
+
+export const ReleaseLegalHoldRequestSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+export const ListLegalHoldsQuerySchema = z.object({
+  active: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+// A document past its retention period, with the policy that made it so
+export interface PurgeCandidate {
+  document: DocumentRecord;
+  retention_days: number;
+  // The policy's document type; null for the firm default
+  policy_document_type: string | null;
+  retained_from: string;
+}
+
+// Written to the audit log for every purged document
+export interface PurgeCertificate {
+  certificate_id: string;
+  run_id: string;
+  correlation_id: string;
+  original_file_name: string;
+  content_type: string;
+  document_type: string | null;
+  demographics_id: string | null;
+  file_size: number | null;
+  content_hash: string | null;
+  policy: {
+    document_type: string | null;
+    retention_days: number;
+  };
+  retained_from: string;
+  purged_at: string;
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { CreateDemographicsRequestSchema } from './demographics';
+
+// validate: report derived amounts that do not match their inputs
+// compute:  fill derived amounts in from their inputs
+export const SettlementCalculationModeSchema = z.enum(['validate', 'compute']);
+
+export type SettlementCalculationMode = z.infer<typeof SettlementCalculationModeSchema>;
+
+export const SettlementCalculationQuerySchema = z.object({
+  calculate: SettlementCalculationModeSchema.optional(),
+});
+
+// Dry-run input: any subset of the settlement fields of a demographics record
+export const SettlementCalculationRequestSchema = CreateDemographicsRequestSchema.partial();
+
+export interface SettlementDiscrepancy {
+  field: string;
+  expected: number;
+  actual: number | null;
+  message: string;
+}
+
+export interface SettlementCalculationResult {
+  // Derived amounts keyed by demographics column, plus `attorneys` with their fees filled in
+  values: Record<string, any>;
+  discrepancies: SettlementDiscrepancy[];
+}
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import {
+  AttorneySchema,
+  CostDetailSchema,
+  DEMOGRAPHICS_COLLECTIONS,
+  DemographicsSchema,
+  MedicalLienSchema,
+  OtherLienSchema,
+} from './demographics';
+
+// How a field value is printed on the statement
+export const StatementFieldFormatSchema = z.enum(['text', 'currency', 'percent', 'date', 'masked']);
+
+export const StatementLineSchema = z.object({
+  label: z.string().min(1).max(120),
+  field: z.string().min(1).max(100),
+  // Record field whose value replaces the label when present (e.g. medicallien1name)
+  label_field: z.string().max(100).optional(),
+  // Print one line per collection item; field and label_field then name item properties
+  collection: z.enum(DEMOGRAPHICS_COLLECTIONS).optional(),
+  format: StatementFieldFormatSchema.default('text'),
+  // Deductions are printed in parentheses
+  negative: z.boolean().default(false),
+  // Lines whose value is empty are skipped unless always_show is set
+  always_show: z.boolean().default(false),
+});
+
+export const StatementSectionSchema = z.object({
+  heading: z.string().min(1).max(120),
+  lines: z.array(StatementLineSchema).max(60).default([]),
+  // Optional line printed in bold below the section
+  total: StatementLineSchema.optional(),
+});
+
+export const StatementTemplateDefinitionSchema = z.object({
+  title: z.string().min(1).max(120),
+  header_lines: z.array(z.string().max(200)).max(10).default([]),
+  sections: z.array(StatementSectionSchema).min(1).max(20),
+  footer_text: z.string().max(4000).optional(),
+  signature_lines: z.array(z.string().max(120)).max(6).default([]),
+});
+
+export type StatementLine = z.infer<typeof StatementLineSchema>;
+export type StatementTemplateDefinition = z.infer<typeof StatementTemplateDefinitionSchema>;
+
+const DEMOGRAPHICS_FIELDS = new Set(Object.keys(DemographicsSchema.shape));
+
+const COLLECTION_ITEM_FIELDS: Record<string, Set<string>> = {
+  attorneys: new Set(Object.keys(AttorneySchema.shape)),
+  medical_liens: new Set(Object.keys(MedicalLienSchema.shape)),
+  other_liens: new Set(Object.keys(OtherLienSchema.shape)),
+  cost_details: new Set(Object.keys(CostDetailSchema.shape)),
+};
+
+export const CreateStatementTemplateRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  definition: StatementTemplateDefinitionSchema,
+}).superRefine((request, ctx) => {
+  request.definition.sections.forEach((section, sectionIndex) => {
+    const lines = section.total ? [...section.lines, section.total] : section.lines;
+    lines.forEach((line, lineIndex) => {
+      const known = line.collection ? COLLECTION_ITEM_FIELDS[line.collection] : DEMOGRAPHICS_FIELDS;
+      for (const key of ['field', 'label_field'] as const) {
+        const field = line[key];
+        if (field && !known.has(field)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [
+              'definition', 'sections', sectionIndex,
+              ...(lineIndex < section.lines.length ? ['lines', lineIndex] : ['total']),
+              key,
+            ],
+            message: line.collection
+              ? `Unknown ${line.collection} property: ${field}`
+              : `Unknown demographics field: ${field}`,
+          });
+        }
+      }
+    });
+  });
+});
+
+export type CreateStatementTemplateRequest = z.infer<typeof CreateStatementTemplateRequestSchema>;
+
+export const GenerateStatementRequestSchema = z.object({
+  // Defaults to the law firm's latest template (or the built-in one)
+  template_version: z.number().int().min(0).optional(),
+  // Render the record as it was at this point in time
+  as_of: z.string().datetime().optional(),
+});
+
+export type GenerateStatementRequest = z.infer<typeof GenerateStatementRequestSchema>;
+
+export interface StatementTemplate {
+  id: string | null;
+  partitionKey: string;
+  name: string;
+  // Version 0 is the built-in default template
+  version: number;
+  definition: StatementTemplateDefinition;
+  created_at: string | null;
+  created_by_key_id: string | null;
+}
+
+export interface SettlementStatement {
+  id: string;
+  partitionKey: string;
+  demographics_id: string;
+  template_version: number;
+  blob_name: string;
+  content_sha256: string;
+  record_as_of: string;
+  created_at: string;
+  created_by_key_id: string | null;
+}
@@ -115,7 +115,8 @@ class LoadTester {
       await axios.put(uploadUrl, documentContent, {
         headers: {
           'Content-Type': 'application/pdf',
-          'x-ms-blob-type': 'BlockBlob'
+          'x-ms-blob-type': 'BlockBlob',
+          'x-ms-meta-correlationid': correlationId
         }
       });
 
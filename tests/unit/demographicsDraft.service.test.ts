@@ -0,0 +1,76 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { demographicsDraftService } from '../../src/shared/services/demographicsDraft.service';
+
+// Extraction is pure; the queue client would otherwise connect on import
+jest.mock('../../src/shared/services/fifoQueue.service', () => ({ fifoQueueService: {} }));
+
+const FORM = [
+  'CLAIMANT INFORMATION',
+  'First Name: Jane            Last Name: Doe',
+  'DOB: 03/15/1980',
+  'Social Security Number: 123 45 6789',
+  'Street Address: 12  Elm Street',
+  'City, State, Zip: Springfield, IL 62704',
+  'Phone: (555) 123-4567 ext. 12',
+  'Email Address: Jane.Doe@Example.com',
+  'Claimant Type: [X] Adult [ ] Minor',
+  '',
+  'EMERGENCY CONTACT',
+  'Name: John Doe',
+  'Phone: 555-987-6543',
+].join('\n');
+
+describe('demographicsDraftService.extractFields', () => {
+  it('reads labelled values in the shape the API expects', () => {
+    const { fields } = demographicsDraftService.extractFields(FORM, false);
+
+    expect(fields).toEqual({
+      firstname: 'Jane',
+      lastname: 'Doe',
+      dob: '1980-03-15T00:00:00.000Z',
+      ssn: '123-45-6789',
+      address1: '12 Elm Street',
+      city: 'Springfield',
+      state: 'IL',
+      zipcode: '62704',
+      phone: '5551234567',
+      email: 'jane.doe@example.com',
+      claimanttype: 'Adult',
+    });
+  });
+
+  it('is less confident of alternate labels, checkbox answers and OCR text', () => {
+    const { confidence } = demographicsDraftService.extractFields(FORM, false);
+
+    expect(confidence.firstname).toBe(0.95);
+    expect(confidence.dob).toBe(0.85);
+    expect(confidence.claimanttype).toBe(0.81);
+    expect(demographicsDraftService.extractFields(FORM, true).confidence.firstname).toBe(0.81);
+  });
+
+  it('keeps the first value and lowers its confidence when the form disagrees with itself', () => {
+    const { fields, confidence } = demographicsDraftService.extractFields('First Name: Jane\nFirst Name: Janet', false);
+
+    expect(fields.firstname).toBe('Jane');
+    expect(confidence.firstname).toBe(0.57);
+  });
+
+  it('ignores values belonging to other people', () => {
+    const { fields } = demographicsDraftService.extractFields(
+      'Spouse Phone: 555-000-1111\nPhone: 555-222-3333\nEMERGENCY CONTACT\nFirst Name: John',
+      false
+    );
+
+    expect(fields.phone).toBe('5552223333');
+    expect(fields.firstname).toBeUndefined();
+  });
+
+  it('reads a value on the line after its label and skips blanks and unreadable values', () => {
+    const { fields } = demographicsDraftService.extractFields(
+      'Date of Birth (MM/DD/YYYY):\nFebruary 29, 1984\nSSN: ________\nState: Narnia\nZip: 1234',
+      false
+    );
+
+    expect(fields).toEqual({ dob: '1984-02-29T00:00:00.000Z' });
+  });
+});
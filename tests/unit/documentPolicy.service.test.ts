@@ -0,0 +1,150 @@
+import { describe, expect, it } from '@jest/globals';
+import { deflateSync } from 'zlib';
+import {
+  DOCUMENT_FILE_POLICIES,
+  DocumentPolicyError,
+  documentPolicyService,
+  MAX_PROCESSABLE_FILE_SIZE_MB,
+} from '../../src/shared/services/documentPolicy.service';
+import { DocumentRecord } from '../../src/shared/types/document';
+
+const upload = (content_type: string, document_type?: string) =>
+  ({ content_type, document_type } as DocumentRecord);
+
+const pdf = (pages: number) => Buffer.from(
+  '%PDF-1.7\n' +
+  '1 0 obj << /Type /Pages /Count ' + pages + ' >> endobj\n' +
+  Array.from({ length: pages }, (_, i) => `${i + 2} 0 obj << /Type /Page /Parent 1 0 R >> endobj\n`).join('') +
+  '%%EOF\n',
+  'latin1'
+);
+
+const policyError = (request: Parameters<typeof documentPolicyService.checkUploadRequest>[0]): DocumentPolicyError => {
+  try {
+    documentPolicyService.checkUploadRequest(request);
+  } catch (error) {
+    if (error instanceof DocumentPolicyError) return error;
+    throw error;
+  }
+  throw new Error('Expected the request to be rejected');
+};
+
+describe('documentPolicyService', () => {
+  describe('checkUploadRequest', () => {
+    it('allows a content type and size within the document type policy', () => {
+      expect(() => documentPolicyService.checkUploadRequest({
+        documentType: 'demographics_form',
+        contentType: 'application/pdf; charset=binary',
+        maxFileSizeMB: 25,
+      })).not.toThrow();
+    });
+
+    it('rejects a content type the document type does not allow', () => {
+      const error = policyError({ documentType: 'legal_doc', contentType: 'image/png', maxFileSizeMB: 1 });
+
+      expect(error.statusCode).toBe(415);
+      expect(error.code).toBe('CONTENT_TYPE_NOT_ALLOWED');
+    });
+
+    it('sends files over the single upload limit to an upload session', () => {
+      const error = policyError({ documentType: 'demographics_form', contentType: 'application/pdf', maxFileSizeMB: 50 });
+
+      expect(error.statusCode).toBe(422);
+      expect(error.code).toBe('FILE_SIZE_NOT_ALLOWED');
+      expect(error.message).toContain('must be sent through an upload session');
+      expect(() => documentPolicyService.checkUploadRequest({
+        documentType: 'demographics_form',
+        contentType: 'application/pdf',
+        maxFileSizeMB: 50,
+        chunked: true,
+      })).not.toThrow();
+    });
+
+    it('rejects files over the upload session limit', () => {
+      const error = policyError({ documentType: 'demographics_form', contentType: 'application/pdf', maxFileSizeMB: 101, chunked: true });
+
+      expect(error.code).toBe('FILE_SIZE_NOT_ALLOWED');
+      expect(error.message).toContain('limited to 100MB');
+    });
+
+    it('never allows more than the processing pipeline can hold', () => {
+      for (const policy of Object.values(DOCUMENT_FILE_POLICIES)) {
+        expect(policy.maxChunkedFileSizeMB).toBeLessThanOrEqual(MAX_PROCESSABLE_FILE_SIZE_MB);
+      }
+      expect(policyError({ documentType: 'medical_record', contentType: 'application/pdf', maxFileSizeMB: 1024, chunked: true })
+        .message).toBe(`medical_record documents are limited to ${MAX_PROCESSABLE_FILE_SIZE_MB}MB`);
+    });
+
+    it('applies the other policy when no document type is given', () => {
+      expect(policyError({ contentType: 'application/pdf', maxFileSizeMB: 26 }).message).toContain('other documents');
+    });
+  });
+
+  describe('inspectUpload', () => {
+    it('accepts content matching its declared type', () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+      expect(documentPolicyService.inspectUpload(upload('image/png'), png)).toEqual({ violation: null });
+    });
+
+    it('rejects content whose signature does not match the declared type', () => {
+      const result = documentPolicyService.inspectUpload(upload('application/pdf'), Buffer.from([0xff, 0xd8, 0xff, 0xe0]));
+
+      expect(result.violation).toBe('File content (jpeg) does not match the declared content type application/pdf');
+    });
+
+    it('rejects executables whatever they are declared as', () => {
+      const result = documentPolicyService.inspectUpload(upload('text/plain'), Buffer.from('MZ\x90\x00', 'latin1'));
+
+      expect(result.violation).toContain('(executable)');
+    });
+
+    it('accepts text declared as text and rejects binary declared as text', () => {
+      expect(documentPolicyService.inspectUpload(upload('text/csv'), Buffer.from('﻿name,amount\nAnn,100\n')).violation).toBeNull();
+      expect(documentPolicyService.inspectUpload(upload('text/csv'), Buffer.from([0x61, 0x00, 0x62]))
+        .violation).toBe('File content does not match the declared content type text/csv');
+    });
+
+    it('rejects unrecognised binary content declared as a binary type', () => {
+      expect(documentPolicyService.inspectUpload(upload('image/png'), Buffer.from('hello')).violation).not.toBeNull();
+    });
+
+    it('counts PDF pages', () => {
+      expect(documentPolicyService.inspectUpload(upload('application/pdf', 'demographics_form'), pdf(3)))
+        .toEqual({ violation: null, pageCount: 3 });
+    });
+
+    it('counts pages packed into compressed object streams', () => {
+      const objects = deflateSync(Buffer.from('<< /Type /Page >> << /Type /Page >>', 'latin1'));
+      const content = Buffer.concat([
+        pdf(1),
+        Buffer.from('9 0 obj << /Type /ObjStm /Filter /FlateDecode >> stream\n', 'latin1'),
+        objects,
+        Buffer.from('\nendstream endobj\n', 'latin1'),
+      ]);
+
+      expect(documentPolicyService.inspectUpload(upload('application/pdf'), content).pageCount).toBe(3);
+    });
+
+    it('does not count an object stream that inflates past the limit', () => {
+      const bomb = deflateSync(Buffer.alloc(17 * 1024 * 1024, ' '));
+      const content = Buffer.concat([
+        pdf(1),
+        Buffer.from('9 0 obj << /Type /ObjStm /Filter /FlateDecode >> stream\r\n', 'latin1'),
+        bomb,
+        Buffer.from('\nendstream endobj\n', 'latin1'),
+      ]);
+
+      expect(documentPolicyService.inspectUpload(upload('application/pdf'), content)).toEqual({ violation: null });
+    });
+
+    it('rejects a PDF over the document type page limit', () => {
+      const result = documentPolicyService.inspectUpload(upload('application/pdf', 'demographics_form'), pdf(51));
+
+      expect(result).toEqual({
+        violation: 'PDF has 51 pages; demographics_form documents are limited to 50',
+        pageCount: 51,
+      });
+    });
+  });
+});
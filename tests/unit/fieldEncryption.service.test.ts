@@ -0,0 +1,162 @@
+import { describe, expect, it } from '@jest/globals';
+import crypto from 'crypto';
+import { FieldEncryptionService, KeyProvider } from '../../src/shared/services/fieldEncryption.service';
+
+class TestKeyProvider implements KeyProvider {
+  readonly keys: Record<string, Buffer> = { v1: crypto.randomBytes(32) };
+  activeVersion = 'v1';
+  private readonly blindIndexKey = crypto.randomBytes(32);
+
+  rotate(version: string): void {
+    this.keys[version] = crypto.randomBytes(32);
+    this.activeVersion = version;
+  }
+
+  async getActiveKeyVersion(): Promise<string> {
+    return this.activeVersion;
+  }
+
+  async getKey(version: string): Promise<Buffer> {
+    const key = this.keys[version];
+    if (!key) throw new Error(`Unknown field encryption key version: ${version}`);
+    return key;
+  }
+
+  async getBlindIndexKey(): Promise<Buffer> {
+    return this.blindIndexKey;
+  }
+}
+
+const setup = () => {
+  const keys = new TestKeyProvider();
+  return { keys, encryption: new FieldEncryptionService(keys) };
+};
+
+describe('FieldEncryptionService', () => {
+  it('round trips a value under the active key version', async () => {
+    const { encryption } = setup();
+
+    const encrypted = await encryption.encrypt('123-45-6789', 'ssn');
+
+    expect(encrypted.startsWith('enc:1:v1:')).toBe(true);
+    expect(encrypted).not.toContain('123-45-6789');
+    expect(await encryption.decrypt(encrypted, 'ssn')).toBe('123-45-6789');
+  });
+
+  it('uses a fresh data key and iv for every value', async () => {
+    const { encryption } = setup();
+
+    const first = await encryption.encrypt('123-45-6789', 'ssn');
+    const second = await encryption.encrypt('123-45-6789', 'ssn');
+
+    expect(first).not.toBe(second);
+  });
+
+  it('refuses a ciphertext moved to another field', async () => {
+    const { encryption } = setup();
+
+    const encrypted = await encryption.encrypt('123-45-6789', 'ssn');
+
+    await expect(encryption.decrypt(encrypted, 'dateofbirth')).rejects.toThrow();
+  });
+
+  it('refuses a tampered ciphertext', async () => {
+    const { encryption } = setup();
+    const parts = (await encryption.encrypt('123-45-6789', 'ssn')).split(':');
+    const ciphertext = Buffer.from(parts[6], 'base64');
+    ciphertext[0] ^= 1;
+    parts[6] = ciphertext.toString('base64');
+
+    await expect(encryption.decrypt(parts.join(':'), 'ssn')).rejects.toThrow();
+  });
+
+  it('returns legacy plaintext unchanged', async () => {
+    const { encryption } = setup();
+
+    expect(await encryption.decrypt('123-45-6789', 'ssn')).toBe('123-45-6789');
+  });
+
+  describe('key rotation', () => {
+    it('still decrypts values written under a previous key version', async () => {
+      const { keys, encryption } = setup();
+      const old = await encryption.encrypt('1980-02-29', 'dateofbirth');
+
+      keys.rotate('v2');
+
+      expect(await encryption.decrypt(old, 'dateofbirth')).toBe('1980-02-29');
+      expect((await encryption.encrypt('1980-02-29', 'dateofbirth')).startsWith('enc:1:v2:')).toBe(true);
+    });
+
+    it('flags plaintext and values under a previous key version for re-encryption', async () => {
+      const { keys, encryption } = setup();
+      const old = await encryption.encrypt('1980-02-29', 'dateofbirth');
+
+      keys.rotate('v2');
+      const current = await encryption.encrypt('1980-02-29', 'dateofbirth');
+
+      expect(await encryption.needsReencryption(old)).toBe(true);
+      expect(await encryption.needsReencryption('1980-02-29')).toBe(true);
+      expect(await encryption.needsReencryption(current)).toBe(false);
+      expect(await encryption.needsReencryption(null)).toBe(false);
+    });
+  });
+
+  describe('encryptFields / decryptFields', () => {
+    it('encrypts only the listed fields and leaves encrypted values alone', async () => {
+      const { encryption } = setup();
+      const ssn = await encryption.encrypt('123-45-6789', 'ssn');
+
+      const record = await encryption.encryptFields(
+        { firstname: 'Ann', ssn, dateofbirth: new Date('1980-02-29T00:00:00.000Z'), notes: '' },
+        ['ssn', 'dateofbirth', 'notes']
+      );
+
+      expect(record.firstname).toBe('Ann');
+      expect(record.ssn).toBe(ssn);
+      expect(encryption.isEncrypted(record.dateofbirth)).toBe(true);
+      expect(record.notes).toBe('');
+      expect(await encryption.decryptFields(record, ['ssn', 'dateofbirth'])).toMatchObject({
+        ssn: '123-45-6789',
+        dateofbirth: '1980-02-29T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('assertKeysAvailable', () => {
+    it('passes when the active key and blind index key load', async () => {
+      const { encryption } = setup();
+
+      await expect(encryption.assertKeysAvailable()).resolves.toBeUndefined();
+    });
+
+    it('fails when the keyring has no blind index key', async () => {
+      const keys = new TestKeyProvider();
+      keys.getBlindIndexKey = async () => {
+        throw new Error('FIELD_BLIND_INDEX_KEY must be configured');
+      };
+
+      await expect(new FieldEncryptionService(keys).assertKeysAvailable()).rejects.toThrow('FIELD_BLIND_INDEX_KEY');
+    });
+  });
+
+  describe('blindIndex', () => {
+    it('is deterministic and separated by purpose', async () => {
+      const { encryption } = setup();
+
+      const index = await encryption.blindIndex('123456789', 'ssn');
+
+      expect(await encryption.blindIndex('123456789', 'ssn')).toBe(index);
+      expect(await encryption.blindIndex('123456789', 'phone')).not.toBe(index);
+      expect(await encryption.blindIndex('123456780', 'ssn')).not.toBe(index);
+    });
+
+    it('does not change when the encryption key rotates', async () => {
+      const { keys, encryption } = setup();
+      const index = await encryption.blindIndex('123456789', 'ssn');
+
+      keys.rotate('v2');
+
+      expect(await encryption.blindIndex('123456789', 'ssn')).toBe(index);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { JsonPatchDocumentSchema } from '../../src/shared/types/demographics';
+import { jsonPatchService, PatchError } from '../../src/shared/services/jsonPatch.service';
+
+describe('jsonPatchService', () => {
+  afterEach(() => {
+    delete (Object.prototype as any).polluted;
+  });
+
+  describe('applyJsonPatch', () => {
+    it('applies operations in order without mutating the input', () => {
+      const target = { firstname: 'Ann', lastname: 'Lee' };
+
+      const patched = jsonPatchService.applyJsonPatch(target, [
+        { op: 'replace', path: '/firstname', value: 'Anne' },
+        { op: 'add', path: '/email', value: 'anne@example.com' },
+        { op: 'remove', path: '/lastname' },
+      ]);
+
+      expect(patched).toEqual({ firstname: 'Anne', email: 'anne@example.com' });
+      expect(target).toEqual({ firstname: 'Ann', lastname: 'Lee' });
+    });
+
+    it('moves and copies values', () => {
+      const patched = jsonPatchService.applyJsonPatch({ address1: '1 Main St' }, [
+        { op: 'copy', from: '/address1', path: '/address2' },
+        { op: 'move', from: '/address1', path: '/city' },
+      ]);
+
+      expect(patched).toEqual({ address2: '1 Main St', city: '1 Main St' });
+    });
+
+    it('fails a test operation that does not match with 409', () => {
+      const apply = () => jsonPatchService.applyJsonPatch({ firstname: 'Ann' }, [
+        { op: 'test', path: '/firstname', value: 'Bob' },
+      ]);
+
+      expect(apply).toThrow(PatchError);
+      expect(apply).toThrow(expect.objectContaining({ statusCode: 409, code: 'PATCH_TEST_FAILED' }));
+    });
+
+    it('refuses paths that do not exist', () => {
+      expect(() => jsonPatchService.applyJsonPatch({}, [{ op: 'remove', path: '/firstname' }])).toThrow('Path does not exist');
+      expect(() => jsonPatchService.applyJsonPatch({}, [{ op: 'add', path: '/a/b', value: 1 }])).toThrow('Path does not exist');
+    });
+
+    it.each(['/__proto__/polluted', '/constructor/prototype/polluted', '/a/__proto__'])(
+      'refuses the prototype path %s',
+      path => {
+        expect(() => jsonPatchService.applyJsonPatch({ a: {} }, [{ op: 'add', path, value: 'yes' }])).toThrow(PatchError);
+        expect(({} as any).polluted).toBeUndefined();
+      }
+    );
+
+    it('does not follow inherited properties', () => {
+      expect(() => jsonPatchService.applyJsonPatch({}, [{ op: 'add', path: '/toString/polluted', value: 'yes' }]))
+        .toThrow('Path does not exist');
+      expect(() => jsonPatchService.applyJsonPatch({}, [{ op: 'remove', path: '/hasOwnProperty' }]))
+        .toThrow('Path does not exist');
+    });
+  });
+
+  describe('applyMergePatch', () => {
+    it('sets, replaces and removes members', () => {
+      const patched = jsonPatchService.applyMergePatch(
+        { address1: '1 Main St', address2: 'Apt 2', city: 'Springfield' },
+        { address1: '100 Main St', address2: null, state: 'IL' }
+      );
+
+      expect(patched).toEqual({ address1: '100 Main St', city: 'Springfield', state: 'IL' });
+    });
+
+    it('ignores prototype keys', () => {
+      const patch = JSON.parse('{"__proto__": {"polluted": "yes"}, "constructor": {"prototype": {"polluted": "yes"}}}');
+
+      const patched = jsonPatchService.applyMergePatch({ firstname: 'Ann' }, patch);
+
+      expect(patched).toEqual({ firstname: 'Ann' });
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+});
+
+describe('JsonPatchDocumentSchema', () => {
+  it('accepts paths to editable fields', () => {
+    expect(JsonPatchDocumentSchema.safeParse([{ op: 'replace', path: '/firstname', value: 'Ann' }]).success).toBe(true);
+  });
+
+  it.each(['/__proto__/polluted', '/id', '/partitionKey', '/firstname/x', '', 'firstname'])(
+    'rejects the path %j',
+    (path: string) => {
+      expect(JsonPatchDocumentSchema.safeParse([{ op: 'add', path, value: 'x' }]).success).toBe(false);
+    }
+  );
+
+  it('rejects a from outside the editable fields', () => {
+    expect(JsonPatchDocumentSchema.safeParse([{ op: 'copy', from: '/created_by', path: '/firstname' }]).success).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from '@jest/globals';
+import { z } from 'zod';
+import { pageCursorService } from '../../src/shared/services/pageCursor.service';
+
+const PositionSchema = z.object({
+  created_at: z.string(),
+  id: z.string().uuid(),
+});
+
+describe('pageCursorService', () => {
+  const position = { created_at: '2024-03-01T12:00:00.000Z', id: '6f1c2a5e-3b7d-4e8f-9a0b-1c2d3e4f5a6b' };
+
+  it('decodes the position it encoded', () => {
+    const token = pageCursorService.encode(position);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(pageCursorService.decode(token, PositionSchema)).toEqual(position);
+  });
+
+  it('returns null for a token that is not base64url JSON', () => {
+    expect(pageCursorService.decode('not a cursor!', PositionSchema)).toBeNull();
+    expect(pageCursorService.decode(Buffer.from('{"created_at":').toString('base64url'), PositionSchema)).toBeNull();
+  });
+
+  it('returns null for a cursor of another shape', () => {
+    const token = pageCursorService.encode({ created_at: position.created_at, id: 42 });
+
+    expect(pageCursorService.decode(token, PositionSchema)).toBeNull();
+  });
+});
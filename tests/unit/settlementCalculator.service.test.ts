@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import { settlementCalculatorService } from '../../src/shared/services/settlementCalculator.service';
+
+const award = {
+  basegrossaward: 100000,
+  eifawardamount: 5000,
+  commonbenefit: 0.06,
+  commonbenefitattorneyshare: 0.5,
+  commonbenefitclaimantshare: 0.5,
+  grossattorneyfeeperc: 0.4,
+  attorneys: [
+    { name: 'Lead Counsel', cost_amount: 1000, fee_percent: 0.6 },
+    { name: 'Local Counsel', cost_amount: 500, fee_percent: 0.4 },
+  ],
+  medical_liens: [{ amount: 2000 }],
+};
+
+describe('settlementCalculatorService', () => {
+  describe('compute', () => {
+    it('derives the award, fee, lien and net payment totals', () => {
+      const { values, discrepancies } = settlementCalculatorService.calculate(award, 'compute');
+
+      expect(discrepancies).toEqual([]);
+      expect(values).toMatchObject({
+        totalgrossaward: 105000,
+        commonbenefittotal: 6300,
+        commonbenefitattorneyshareamount: 3150,
+        commonbenefitclaimantshareamount: 3150,
+        totalnetattorneycost: 1500,
+        grossattorneyfeeamount: 42000,
+        totalnetattorneyfee: 38850,
+        totalmedicalliens: 2000,
+        // 105000 − 38850 − 6300 − 1500 − 2000
+        netclaimantpayment: 56350,
+      });
+      expect(values.attorneys.map((attorney: { fees: number }) => attorney.fees)).toEqual([23310, 15540]);
+    });
+
+    it('takes the fee from the award less costs for the Net Cost method', () => {
+      const { values } = settlementCalculatorService.calculate({
+        basegrossaward: 10000,
+        grossattorneyfeeperc: 0.3333,
+        attorneyfeecalcmethod: 'Net Cost',
+        attorneys: [{ name: 'Counsel', cost_amount: 1000 }],
+      }, 'compute');
+
+      expect(values.grossattorneyfeeamount).toBe(2999.7);
+    });
+
+    it('rounds products half away from zero to four places', () => {
+      const { values } = settlementCalculatorService.calculate({ basegrossaward: 1000.5555, commonbenefit: 0.1 }, 'compute');
+
+      expect(values.commonbenefittotal).toBe(100.0556);
+    });
+
+    it('sums without floating point drift', () => {
+      const { values } = settlementCalculatorService.calculate({ basegrossaward: 0.1, eifawardamount: 0.2 }, 'compute');
+
+      expect(values.totalgrossaward).toBe(0.3);
+    });
+
+    it('reads attorneys and liens from the legacy numbered fields', () => {
+      const { values } = settlementCalculatorService.calculate({
+        basegrossaward: 5000,
+        attorney1name: 'Counsel',
+        attorney1costamount: 250,
+        medicallien1: 100,
+      }, 'compute');
+
+      expect(values.totalnetattorneycost).toBe(250);
+      expect(values.totalmedicalliens).toBe(100);
+    });
+
+    it('derives nothing from a record without inputs', () => {
+      expect(settlementCalculatorService.calculate({ firstname: 'Ann' }, 'compute').values).toEqual({});
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts stored totals that match their inputs', () => {
+      const { values } = settlementCalculatorService.calculate(award, 'compute');
+
+      const { discrepancies } = settlementCalculatorService.calculate({ ...award, ...values }, 'validate');
+
+      expect(discrepancies).toEqual([]);
+    });
+
+    it('reports a stored total that does not match its inputs', () => {
+      const { discrepancies } = settlementCalculatorService.calculate({ ...award, totalgrossaward: 104999.99 }, 'validate');
+
+      expect(discrepancies).toContainEqual(expect.objectContaining({
+        field: 'totalgrossaward',
+        expected: 105000,
+        actual: 104999.99,
+      }));
+    });
+
+    it('reports common benefit shares that do not add up to 1', () => {
+      const { discrepancies } = settlementCalculatorService.calculate({ ...award, commonbenefitclaimantshare: 0.4 }, 'validate');
+
+      expect(discrepancies).toContainEqual(expect.objectContaining({ field: 'commonbenefitattorneyshare', actual: 0.9 }));
+    });
+
+    it('reports attorney fee splits that do not add up to 1 and fees that do not match them', () => {
+      const { discrepancies } = settlementCalculatorService.calculate({
+        ...award,
+        attorneys: [
+          { name: 'Lead Counsel', cost_amount: 1000, fee_percent: 0.6, fees: 20000 },
+          { name: 'Local Counsel', cost_amount: 500, fee_percent: 0.3 },
+        ],
+      }, 'validate');
+
+      expect(discrepancies).toContainEqual(expect.objectContaining({ field: 'attorneys', actual: 0.9 }));
+      expect(discrepancies).toContainEqual(expect.objectContaining({ field: 'attorneys[0].fees', expected: 23310, actual: 20000 }));
+    });
+  });
+});